@@ -5,6 +5,10 @@
 -- Create database (run this first if creating a new database)
 -- CREATE DATABASE "71digital_mining";
 
+-- The whole file is safe to run again on an existing database: new tables are
+-- created, and the ALTER TABLE statements after the older tables add the columns
+-- introduced since, so existing deployments can be upgraded by re-running it.
+
 -- =====================================================
 -- TABLE: users
 -- Basic user table for general authentication
@@ -29,9 +33,15 @@ CREATE TABLE IF NOT EXISTS "contact_submissions" (
     "message" TEXT NOT NULL,
     "status" TEXT NOT NULL DEFAULT 'unread', -- unread, responded, ignored
     "rejection_reason" TEXT,
+    "spam_score" INTEGER NOT NULL DEFAULT 0, -- 0-100; 50 and above is treated as likely spam
+    "assigned_admin_id" INTEGER, -- admin following up the lead (foreign key added after admin_users)
     "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Upgrade: columns added after the table was first created
+ALTER TABLE "contact_submissions" ADD COLUMN IF NOT EXISTS "spam_score" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "contact_submissions" ADD COLUMN IF NOT EXISTS "assigned_admin_id" INTEGER;
+
 -- =====================================================
 -- TABLE: appointments
 -- Stores all appointment bookings from the booking system
@@ -43,14 +53,67 @@ CREATE TABLE IF NOT EXISTS "appointments" (
     "phone_number" TEXT,
     "company_name" TEXT,
     "service_type" TEXT NOT NULL,
-    "preferred_date" TEXT NOT NULL,
-    "preferred_time" TEXT NOT NULL,
-    "timezone" TEXT NOT NULL,
+    "scheduled_at" TIMESTAMPTZ NOT NULL, -- consultation start as a UTC instant
+    "timezone" TEXT NOT NULL, -- client's IANA timezone, e.g. 'Europe/London'
     "message" TEXT,
-    "status" TEXT NOT NULL DEFAULT 'pending', -- pending, approved, rejected, completed
+    "status" TEXT NOT NULL DEFAULT 'pending', -- pending, approved, rejected, completed, cancelled
     "rejection_reason" TEXT,
     "approved_at" TIMESTAMP,
     "completed_at" TIMESTAMP,
+    "spam_score" INTEGER NOT NULL DEFAULT 0, -- 0-100; 50 and above is treated as likely spam
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Upgrade: appointments used to store a free-text date, a UAE-time slot label and a
+-- display timezone. They are converted to scheduled_at and an IANA timezone once,
+-- while the old columns are still there.
+ALTER TABLE "appointments" ADD COLUMN IF NOT EXISTS "scheduled_at" TIMESTAMPTZ;
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'appointments' AND column_name = 'preferred_date'
+    ) THEN
+        UPDATE "appointments"
+            SET "scheduled_at" = to_timestamp("preferred_date" || ' ' || "preferred_time", 'YYYY-MM-DD HH12:MI AM')::timestamp AT TIME ZONE 'Asia/Dubai'
+            WHERE "scheduled_at" IS NULL;
+        UPDATE "appointments" SET "timezone" = CASE "timezone"
+                WHEN 'UTC+4 (UAE Time)' THEN 'Asia/Dubai'
+                WHEN 'UTC+0 (GMT)' THEN 'Etc/UTC'
+                WHEN 'UTC+1 (CET)' THEN 'Europe/Paris'
+                WHEN 'UTC+8 (CST)' THEN 'Asia/Shanghai'
+                WHEN 'UTC-5 (EST)' THEN 'America/New_York'
+                WHEN 'UTC-8 (PST)' THEN 'America/Los_Angeles'
+                ELSE "timezone"
+            END;
+        DROP INDEX IF EXISTS "idx_appointments_preferred_date";
+        ALTER TABLE "appointments" DROP COLUMN "preferred_date", DROP COLUMN "preferred_time";
+    END IF;
+END $$;
+ALTER TABLE "appointments" ALTER COLUMN "scheduled_at" SET NOT NULL;
+ALTER TABLE "appointments" ADD COLUMN IF NOT EXISTS "spam_score" INTEGER NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- TABLE: working_hours
+-- Weekly consultation hours in UAE time (one row per weekday).
+-- When empty, the defaults in server/availability.ts apply (Mon-Fri 09:00-18:00).
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "working_hours" (
+    "id" SERIAL PRIMARY KEY,
+    "day_of_week" INTEGER NOT NULL UNIQUE, -- 0 = Sunday ... 6 = Saturday
+    "is_open" BOOLEAN NOT NULL DEFAULT TRUE,
+    "start_time" TEXT NOT NULL, -- HH:mm
+    "end_time" TEXT NOT NULL -- HH:mm
+);
+
+-- =====================================================
+-- TABLE: blackout_dates
+-- Days when no consultations can be booked
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "blackout_dates" (
+    "id" SERIAL PRIMARY KEY,
+    "date" TEXT NOT NULL UNIQUE, -- YYYY-MM-DD
+    "reason" TEXT,
     "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -62,9 +125,196 @@ CREATE TABLE IF NOT EXISTS "admin_users" (
     "id" SERIAL PRIMARY KEY,
     "username" TEXT NOT NULL UNIQUE,
     "password" TEXT NOT NULL,
+    "email" TEXT UNIQUE, -- where password reset links are sent; optional
+    "role" TEXT NOT NULL DEFAULT 'owner', -- owner, manager, sales, read-only
+    "calendar_feed_token" TEXT UNIQUE, -- secret in the admin's ICS feed URL
+    "failed_login_count" INTEGER NOT NULL DEFAULT 0, -- consecutive failures since the last sign-in
+    "locked_until" TIMESTAMP, -- sign-in refused until then; cleared by an unlock
+    "totp_secret" TEXT, -- base32 TOTP secret; two-factor sign-in is on when set
+    "totp_pending_secret" TEXT, -- secret awaiting its first code during enrolment
+    "totp_last_step" INTEGER, -- time step of the last accepted code (replay guard)
     "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Upgrade: columns added after the table was first created. Existing accounts become owners.
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "email" TEXT UNIQUE;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "role" TEXT NOT NULL DEFAULT 'owner';
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "calendar_feed_token" TEXT UNIQUE;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "failed_login_count" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "locked_until" TIMESTAMP;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_secret" TEXT;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_pending_secret" TEXT;
+ALTER TABLE "admin_users" ADD COLUMN IF NOT EXISTS "totp_last_step" INTEGER;
+
+-- contact_submissions is created first, so its owner reference is added here
+ALTER TABLE "contact_submissions" DROP CONSTRAINT IF EXISTS "contact_submissions_assigned_admin_id_admin_users_id_fk";
+ALTER TABLE "contact_submissions" ADD CONSTRAINT "contact_submissions_assigned_admin_id_admin_users_id_fk"
+    FOREIGN KEY ("assigned_admin_id") REFERENCES "admin_users"("id");
+
+-- =====================================================
+-- TABLE: contact_events
+-- Timeline on each contact submission: internal notes, replies emailed to the
+-- client, status changes and owner changes. The author's username is copied,
+-- as in audit_logs.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "contact_events" (
+    "id" SERIAL PRIMARY KEY,
+    "contact_id" INTEGER NOT NULL REFERENCES "contact_submissions"("id"),
+    "type" TEXT NOT NULL, -- note, reply, status, owner
+    "admin_id" INTEGER,
+    "admin_username" TEXT NOT NULL,
+    "body" TEXT, -- note text, or the reply as sent
+    "details" JSONB, -- reply: to, subject; status: from, to, reason; owner: from, to
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: deals
+-- Sales pipeline. A contact submission or appointment can be converted into
+-- at most one deal, which carries the commercial details and the stage.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "deals" (
+    "id" SERIAL PRIMARY KEY,
+    "title" TEXT NOT NULL,
+    "company_name" TEXT,
+    "contact_name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone_number" TEXT,
+    "service" TEXT, -- requested service, as shown to admins
+    "estimated_mw" REAL, -- capacity for hosting and site deals
+    "unit_count" INTEGER, -- number of machines, for hardware deals
+    "value" INTEGER, -- estimated value in USD
+    "stage" TEXT NOT NULL DEFAULT 'qualified', -- qualified, proposal, negotiation, won, lost
+    "lost_reason" TEXT,
+    "owner_admin_id" INTEGER REFERENCES "admin_users"("id"),
+    "contact_submission_id" INTEGER UNIQUE REFERENCES "contact_submissions"("id"),
+    "appointment_id" INTEGER UNIQUE REFERENCES "appointments"("id"),
+    "stage_changed_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: products
+-- Mining hardware catalog for the store page. Hidden products are kept for
+-- admins but left out of the public list and structured data.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "products" (
+    "id" SERIAL PRIMARY KEY,
+    "slug" TEXT NOT NULL UNIQUE, -- stable identifier used in structured data
+    "model" TEXT NOT NULL,
+    "manufacturer" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL, -- e.g. SHA-256, Scrypt
+    "hashrate" REAL NOT NULL,
+    "hashrate_unit" TEXT NOT NULL DEFAULT 'TH/s', -- TH/s, GH/s, MH/s
+    "power_watts" INTEGER NOT NULL,
+    "efficiency" REAL, -- joules per hashrate unit; worked out from power and hashrate when NULL
+    "cooling_type" TEXT NOT NULL, -- air, hydro, immersion
+    "description" TEXT,
+    "best_for" TEXT,
+    "warranty_months" INTEGER,
+    "images" JSONB NOT NULL DEFAULT '[]', -- URLs, first one is the main image
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "price" INTEGER, -- USD per unit; NULL shows "Price on request"
+    "visible" BOOLEAN NOT NULL DEFAULT TRUE,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: quote_requests
+-- Carts submitted from the mining store with the visitor's contact details
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "quote_requests" (
+    "id" SERIAL PRIMARY KEY,
+    "full_name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "company_name" TEXT,
+    "phone_number" TEXT,
+    "message" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'new', -- new, quoted, closed
+    "spam_score" INTEGER NOT NULL DEFAULT 0, -- 0-100, likely spam from 50
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: quote_request_items
+-- Models and quantities in a quote request. The product name is copied so
+-- the request still reads correctly after the product changes or is deleted.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "quote_request_items" (
+    "id" SERIAL PRIMARY KEY,
+    "quote_request_id" INTEGER NOT NULL REFERENCES "quote_requests"("id"),
+    "product_id" INTEGER REFERENCES "products"("id"), -- cleared if the product is deleted
+    "product_name" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL
+);
+
+-- =====================================================
+-- TABLE: quotes
+-- Priced quotes issued for a request, numbered 1, 2, 3... per request.
+-- Issued quotes are never changed; a revision is a new version.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "quotes" (
+    "id" SERIAL PRIMARY KEY,
+    "quote_request_id" INTEGER NOT NULL REFERENCES "quote_requests"("id"),
+    "version" INTEGER NOT NULL,
+    "lines" JSONB NOT NULL, -- [{productId, description, quantity, unitPrice}]
+    "shipping" INTEGER NOT NULL DEFAULT 0, -- USD, shipping to the UAE
+    "duties" INTEGER NOT NULL DEFAULT 0, -- USD, UAE import duties and VAT
+    "subtotal" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+    "notes" TEXT,
+    "valid_until" TEXT, -- YYYY-MM-DD
+    "issued_by_admin_id" INTEGER,
+    "issued_by_username" TEXT NOT NULL,
+    "emailed_at" TIMESTAMP, -- NULL when the email to the customer failed
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    CONSTRAINT "quotes_request_version_unique" UNIQUE ("quote_request_id", "version")
+);
+
+-- =====================================================
+-- TABLE: calculator_defaults
+-- Starting market values for the public profitability calculator.
+-- Holds at most one row; until it exists the built-in defaults apply.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "calculator_defaults" (
+    "id" SERIAL PRIMARY KEY,
+    "electricity_rate" DOUBLE PRECISION NOT NULL, -- USD per kWh
+    "network_difficulty" DOUBLE PRECISION NOT NULL,
+    "block_reward" DOUBLE PRECISION NOT NULL, -- BTC per block
+    "btc_price" DOUBLE PRECISION NOT NULL, -- USD
+    "pool_fee" DOUBLE PRECISION NOT NULL, -- percent
+    "updated_by_username" TEXT,
+    "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: hosting_plans
+-- Plans in the pricing section and the public hosting contract estimator.
+-- Hidden plans are kept for admins but left off the site.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "hosting_plans" (
+    "id" SERIAL PRIMARY KEY,
+    "slug" TEXT NOT NULL UNIQUE,
+    "name" TEXT NOT NULL,
+    "cooling" TEXT NOT NULL, -- as shown, e.g. 'Air Cooling & Hydro'
+    "supported_hardware" TEXT NOT NULL, -- e.g. 'Bitmain & Whatsminer'
+    "sites" JSONB NOT NULL DEFAULT '[]', -- [{name, available}]; unavailable sites take waitlist requests
+    "rate_per_kwh" DOUBLE PRECISION NOT NULL, -- USD
+    "contract_months" INTEGER NOT NULL,
+    "renewable" BOOLEAN NOT NULL DEFAULT TRUE,
+    "deposit_months" INTEGER NOT NULL DEFAULT 0, -- months of hosting fees paid in advance
+    "setup_fee_per_unit" INTEGER NOT NULL DEFAULT 0, -- USD per machine, charged once
+    "maintenance_included" BOOLEAN NOT NULL DEFAULT TRUE,
+    "visible" BOOLEAN NOT NULL DEFAULT TRUE,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "updated_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- =====================================================
 -- TABLE: admin_sessions
 -- Session management for admin authentication
@@ -73,7 +323,75 @@ CREATE TABLE IF NOT EXISTS "admin_sessions" (
     "id" SERIAL PRIMARY KEY,
     "session_token" TEXT NOT NULL UNIQUE,
     "admin_id" INTEGER NOT NULL REFERENCES "admin_users"("id"),
+    "expires_at" TIMESTAMP NOT NULL, -- idle expiry, slides forward with use
+    "absolute_expires_at" TIMESTAMP NOT NULL DEFAULT NOW(), -- hard cap, a week after sign-in
+    "last_seen_at" TIMESTAMP NOT NULL DEFAULT NOW(),
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Upgrade: columns added after the table was first created. Sessions from before
+-- the hard cap get it set to now, so everyone signs in again once.
+ALTER TABLE "admin_sessions" ADD COLUMN IF NOT EXISTS "absolute_expires_at" TIMESTAMP NOT NULL DEFAULT NOW();
+ALTER TABLE "admin_sessions" ADD COLUMN IF NOT EXISTS "last_seen_at" TIMESTAMP NOT NULL DEFAULT NOW();
+ALTER TABLE "admin_sessions" ADD COLUMN IF NOT EXISTS "ip_address" TEXT;
+ALTER TABLE "admin_sessions" ADD COLUMN IF NOT EXISTS "user_agent" TEXT;
+
+-- =====================================================
+-- TABLE: admin_recovery_codes
+-- One-time two-factor recovery codes (SHA-256 hashes only)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "admin_recovery_codes" (
+    "id" SERIAL PRIMARY KEY,
+    "admin_id" INTEGER NOT NULL REFERENCES "admin_users"("id"),
+    "code_hash" TEXT NOT NULL,
+    "used_at" TIMESTAMP,
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: admin_password_resets
+-- Single-use "forgot password" links, valid for an hour (SHA-256 hashes only)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "admin_password_resets" (
+    "id" SERIAL PRIMARY KEY,
+    "token_hash" TEXT NOT NULL UNIQUE,
+    "admin_id" INTEGER NOT NULL REFERENCES "admin_users"("id"),
     "expires_at" TIMESTAMP NOT NULL,
+    "used_at" TIMESTAMP,
+    "ip_address" TEXT, -- who asked for the link
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: login_attempts
+-- Every admin sign-in attempt, used to throttle guessing by username and IP
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "login_attempts" (
+    "id" SERIAL PRIMARY KEY,
+    "username" TEXT NOT NULL, -- lowercased
+    "admin_id" INTEGER, -- null for unknown usernames; no foreign key
+    "ip_address" TEXT,
+    "succeeded" BOOLEAN NOT NULL,
+    "reason" TEXT, -- bad_password, unknown_user, locked, ip_blocked
+    "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- TABLE: audit_logs
+-- Append-only record of admin actions (status changes, account changes,
+-- logins and logouts). Rows are never updated or deleted by the application.
+-- =====================================================
+CREATE TABLE IF NOT EXISTS "audit_logs" (
+    "id" SERIAL PRIMARY KEY,
+    "admin_id" INTEGER, -- no foreign key so entries outlive deleted admins
+    "admin_username" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL, -- contact, appointment, deal, product, quote_request, calculator, hosting_plan, working_hours, blackout_date, admin
+    "entity_id" INTEGER,
+    "details" JSONB,
+    "ip_address" TEXT,
     "created_at" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -87,28 +405,69 @@ CREATE INDEX IF NOT EXISTS "idx_contact_submissions_status" ON "contact_submissi
 -- Index on appointments status for admin dashboard filtering
 CREATE INDEX IF NOT EXISTS "idx_appointments_status" ON "appointments"("status");
 
+-- Index on appointments scheduled_at for slot availability checks and sorting
+CREATE INDEX IF NOT EXISTS "idx_appointments_scheduled_at" ON "appointments"("scheduled_at");
+
 -- Index on appointments created_at for date sorting
 CREATE INDEX IF NOT EXISTS "idx_appointments_created_at" ON "appointments"("created_at");
 
 -- Index on contact submissions created_at for date sorting
 CREATE INDEX IF NOT EXISTS "idx_contact_submissions_created_at" ON "contact_submissions"("created_at");
 
+-- Index on contact timeline for the detail drawer
+CREATE INDEX IF NOT EXISTS "idx_contact_events_contact" ON "contact_events"("contact_id", "created_at");
+
+-- Indexes on deals for the pipeline board
+CREATE INDEX IF NOT EXISTS "idx_deals_stage" ON "deals"("stage");
+CREATE INDEX IF NOT EXISTS "idx_deals_owner" ON "deals"("owner_admin_id");
+
+-- Index on products for the store page
+CREATE INDEX IF NOT EXISTS "idx_products_visible" ON "products"("visible", "sort_order");
+
+-- Index on quote request items for the quote builder
+CREATE INDEX IF NOT EXISTS "idx_quote_request_items_request" ON "quote_request_items"("quote_request_id");
+
 -- Index on admin sessions for session lookup
 CREATE INDEX IF NOT EXISTS "idx_admin_sessions_token" ON "admin_sessions"("session_token");
 
 -- Index on admin sessions expiry for cleanup
 CREATE INDEX IF NOT EXISTS "idx_admin_sessions_expires" ON "admin_sessions"("expires_at");
 
+-- Index on session owner for listing and revoking an admin's sessions
+CREATE INDEX IF NOT EXISTS "idx_admin_sessions_admin" ON "admin_sessions"("admin_id");
+
+-- Index on recovery codes for looking up an admin's codes at sign-in
+CREATE INDEX IF NOT EXISTS "idx_admin_recovery_codes_admin" ON "admin_recovery_codes"("admin_id");
+
+-- Index on reset links for cancelling an admin's earlier links
+CREATE INDEX IF NOT EXISTS "idx_admin_password_resets_admin" ON "admin_password_resets"("admin_id");
+
+-- Index on audit log time for the dashboard activity feed
+CREATE INDEX IF NOT EXISTS "idx_audit_logs_created_at" ON "audit_logs"("created_at");
+
+-- Indexes on login attempts for the per-username and per-IP throttling windows
+CREATE INDEX IF NOT EXISTS "idx_login_attempts_username" ON "login_attempts"("username", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_login_attempts_ip" ON "login_attempts"("ip_address", "created_at");
+
 -- =====================================================
 -- INITIAL DATA
--- Insert default admin account
+-- No admin account is seeded. On a fresh database the server opens first-run
+-- setup: visit /admin/setup and enter the one-time token from the server log
+-- (or ADMIN_SETUP_TOKEN) to create the first owner.
+-- The store starts with the machines it has always listed, and the pricing
+-- section with its two hosting plans; edit both from the dashboard's Products tab.
 -- =====================================================
 
--- Insert default admin user (password is hashed using scrypt)
--- Default credentials: username: admin, password: admin123
-INSERT INTO "admin_users" ("username", "password") 
-VALUES ('admin', 'b8c48c4c8ecae5e5a2b5e1e96f0a98b0a7f5f3c2d1e9f7c3b4d6e8a1f2c5d8e7f1a3b5c8d2e6f9a4b7c1d5e8f2a6b9c3d7e1f4a8b2c6d9e3f7a1b5c8d2e6f9a4.7f3a2c9e4b1d8f6a5c3e7b2d9f4a1c8e6b3d7f2a5c9e4b1d8f6a3c7e2b5d9f4a1c8e6b3d7f2a9c5e4b1d8f6a3c7e2b5d9f4a1c8e6')
-ON CONFLICT ("username") DO NOTHING;
+INSERT INTO "products" ("slug", "model", "manufacturer", "algorithm", "hashrate", "hashrate_unit", "power_watts", "efficiency", "cooling_type", "description", "best_for", "warranty_months", "images", "sort_order") VALUES
+    ('bitmain-antminer-s21', 'Antminer S21', 'Bitmain', 'SHA-256', 234, 'TH/s', 3500, 17.5, 'air', NULL, 'Standard Deployment', 12, '["/images/products/antminer-s21.png"]', 1),
+    ('bitmain-antminer-s21-hydro', 'Antminer S21 Hydro', 'Bitmain', 'SHA-256', 335, 'TH/s', 5300, 21.2, 'hydro', 'Hydro-cooled; the site needs a water loop.', 'High-density Sites', NULL, '["/images/products/antminer-s21-hydro.png"]', 2),
+    ('bitmain-antminer-l9', 'Antminer L9', 'Bitmain', 'Scrypt', 17, 'GH/s', 3300, NULL, 'air', 'Scrypt miner for diversifying into Litecoin and Dogecoin.', 'LTC/DOGE Mining', NULL, '["/images/products/antminer-l9.png"]', 3)
+ON CONFLICT ("slug") DO NOTHING;
+
+INSERT INTO "hosting_plans" ("slug", "name", "cooling", "supported_hardware", "sites", "rate_per_kwh", "contract_months", "renewable", "deposit_months", "setup_fee_per_unit", "sort_order") VALUES
+    ('cloud-hosting', 'Cloud Hosting', 'Air Cooling & Hydro', 'Bitmain & Whatsminer', '[{"name": "UAE", "available": true}]', 0.065, 24, TRUE, 1, 0, 1),
+    ('turnkey-solutions', 'Turnkey Solutions', 'Air Cooling & Hydro', 'Bitmain & Whatsminer', '[{"name": "UAE", "available": true}, {"name": "Canada", "available": true}, {"name": "USA", "available": true}]', 0.06, 60, TRUE, 0, 0, 2)
+ON CONFLICT ("slug") DO NOTHING;
 
 -- =====================================================
 -- CLEANUP PROCEDURES
@@ -120,7 +479,7 @@ RETURNS INTEGER AS $$
 DECLARE
     deleted_count INTEGER;
 BEGIN
-    DELETE FROM "admin_sessions" WHERE "expires_at" < NOW();
+    DELETE FROM "admin_sessions" WHERE "expires_at" < NOW() OR "absolute_expires_at" < NOW();
     GET DIAGNOSTICS deleted_count = ROW_COUNT;
     RETURN deleted_count;
 END;
@@ -148,6 +507,26 @@ $$ LANGUAGE plpgsql;
 -- SELECT 'contact' as type, "full_name", "email", "created_at" FROM "contact_submissions" WHERE "created_at" > NOW() - INTERVAL '7 days'
 -- ORDER BY "created_at" DESC;
 
+-- =====================================================
+-- UPGRADING EXISTING DATABASES
+-- Columns and data conversions are applied above, next to each table;
+-- data that moved between tables is copied here.
+-- =====================================================
+
+-- Contact status history used to live only in audit_logs; copy earlier status
+-- changes into each contact's timeline. Entries already copied are skipped.
+INSERT INTO "contact_events" ("contact_id", "type", "admin_id", "admin_username", "details", "created_at")
+    SELECT "entity_id", 'status', "admin_id", "admin_username", "details", "created_at"
+    FROM "audit_logs"
+    WHERE "action" = 'contact.status_changed'
+        AND "entity_id" IN (SELECT "id" FROM "contact_submissions")
+        AND NOT EXISTS (
+            SELECT 1 FROM "contact_events"
+            WHERE "contact_events"."contact_id" = "audit_logs"."entity_id"
+                AND "contact_events"."type" = 'status'
+                AND "contact_events"."created_at" = "audit_logs"."created_at"
+        );
+
 -- =====================================================
 -- BACKUP RECOMMENDATIONS
 -- =====================================================
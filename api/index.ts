@@ -3,11 +3,11 @@ import serverless from "serverless-http";
 import express from "express";
 import path from "path";
 import fs from "fs";
+import { applyBaseMiddleware } from "../server/middleware.js";
 
 // Create Express app instance
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+applyBaseMiddleware(app);
 
 // Request logging middleware
 app.use((req, res, next) => {
@@ -8,14 +8,20 @@ import Home from "@/pages/home";
 import About from "@/pages/about";
 import Services from "@/pages/services";
 import MiningStore from "@/pages/mining-store";
+import ProfitabilityCalculator from "@/pages/profitability-calculator";
+import HostingEstimator from "@/pages/hosting-estimator";
 import MiningFarms from "@/pages/mining-farms";
 import DeploymentSites from "@/pages/deployment-sites";
 import Contact from "@/pages/contact";
 import BookAppointment from "@/pages/book-appointment";
+import ManageAppointment from "@/pages/manage-appointment";
 import TermsOfConditions from "@/pages/terms-of-conditions";
 import TermsOfUse from "@/pages/terms-of-use";
 import PrivacyPolicy from "@/pages/privacy-policy";
 import AdminLogin from "@/pages/admin-login";
+import AdminSetup from "@/pages/admin-setup";
+import AdminForgotPassword from "@/pages/admin-forgot-password";
+import AdminResetPassword from "@/pages/admin-reset-password";
 import AdminDashboard from "@/pages/admin-dashboard";
 import NotFound from "@/pages/not-found";
 
@@ -26,14 +32,20 @@ function Router() {
       <Route path="/about" component={About} />
       <Route path="/services" component={Services} />
       <Route path="/mining-store" component={MiningStore} />
+      <Route path="/profitability-calculator" component={ProfitabilityCalculator} />
+      <Route path="/hosting-estimator" component={HostingEstimator} />
       <Route path="/mining-farms" component={MiningFarms} />
       <Route path="/deployment-sites" component={DeploymentSites} />
       <Route path="/contact" component={Contact} />
       <Route path="/book-appointment" component={BookAppointment} />
+      <Route path="/appointments/manage/:token" component={ManageAppointment} />
       <Route path="/terms-of-conditions" component={TermsOfConditions} />
       <Route path="/terms-of-use" component={TermsOfUse} />
       <Route path="/privacy-policy" component={PrivacyPolicy} />
       <Route path="/admin/login" component={AdminLogin} />
+      <Route path="/admin/setup" component={AdminSetup} />
+      <Route path="/admin/forgot-password" component={AdminForgotPassword} />
+      <Route path="/admin/reset-password/:token" component={AdminResetPassword} />
       <Route path="/admin/dashboard" component={AdminDashboard} />
       <Route component={NotFound} />
     </Switch>
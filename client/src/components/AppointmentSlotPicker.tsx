@@ -0,0 +1,146 @@
+import { useQuery, type QueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { BUSINESS_TIMEZONE, formatAppointmentTime, formatInTimeZone, getZonedParts } from "@shared/timezones";
+
+interface DaySchedule {
+  date: string;
+  closed: boolean;
+  reason?: string;
+  slots: { startsAt: string; available: boolean }[];
+}
+
+export const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || BUSINESS_TIMEZONE;
+
+// Every IANA zone the browser knows, making sure the detected and business zones are listed
+const TIMEZONE_OPTIONS = Array.from(
+  new Set([
+    ...(typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : []),
+    BROWSER_TIMEZONE,
+    BUSINESS_TIMEZONE,
+  ])
+).sort();
+
+const formatSlotTime = (startsAt: string, timeZone: string) =>
+  formatInTimeZone(startsAt, timeZone, { hour: "numeric", minute: "2-digit" });
+
+// After a failed booking the slot may have been taken; refetch every open day
+export function invalidateAvailability(queryClient: QueryClient) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability"),
+  });
+}
+
+interface AppointmentSlotPickerProps {
+  serviceType: string;
+  timezone: string;
+  date: string; // day picked in `timezone`
+  scheduledAt: string; // ISO start of the chosen slot, or ""
+  onTimezoneChange: (timezone: string) => void;
+  onDateChange: (date: string) => void;
+  onSlotSelect: (startsAt: string) => void;
+  manageToken?: string; // when rescheduling, so the customer's current slot shows as free
+}
+
+export default function AppointmentSlotPicker({
+  serviceType,
+  timezone,
+  date,
+  scheduledAt,
+  onTimezoneChange,
+  onDateChange,
+  onSlotSelect,
+  manageToken,
+}: AppointmentSlotPickerProps) {
+  const params = new URLSearchParams({ date, service: serviceType, timezone });
+  if (manageToken) params.set("manage", manageToken);
+  const availabilityUrl = `/api/availability?${params.toString()}`;
+  const { data: schedule, isFetching: scheduleLoading } = useQuery<DaySchedule>({
+    queryKey: [availabilityUrl],
+    enabled: !!date && !!serviceType,
+    staleTime: 0,
+  });
+
+  return (
+    <>
+      <div>
+        <label className="block text-white text-sm font-medium mb-2">
+          Your Timezone
+        </label>
+        <select
+          name="timezone"
+          value={timezone}
+          onChange={(e) => onTimezoneChange(e.target.value)}
+          className="w-full h-12 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:border-orange-500"
+        >
+          {TIMEZONE_OPTIONS.map((zone) => (
+            <option key={zone} value={zone} className="bg-gray-800">
+              {zone.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-white text-sm font-medium mb-2">
+          Preferred Date *
+        </label>
+        <Input
+          type="date"
+          name="preferredDate"
+          value={date}
+          onChange={(e) => onDateChange(e.target.value)}
+          required
+          min={getZonedParts(new Date(), timezone).date}
+          className="w-full md:w-1/2 h-12 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:border-orange-500"
+        />
+      </div>
+
+      <div>
+        <label className="block text-white text-sm font-medium mb-2">
+          Preferred Time * <span className="text-gray-400 font-normal">(shown in your timezone)</span>
+        </label>
+        {!serviceType || !date ? (
+          <p className="text-gray-300 text-sm">Choose a service and a date to see available times.</p>
+        ) : scheduleLoading && !schedule ? (
+          <div className="flex items-center py-4">
+            <div className="w-6 h-6 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : schedule?.closed ? (
+          <p className="text-orange-400 text-sm">{schedule.reason}. Please choose another date.</p>
+        ) : schedule && schedule.slots.every(slot => !slot.available) ? (
+          <p className="text-orange-400 text-sm">This day is fully booked. Please choose another date.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+            {schedule?.slots.map((slot) => (
+              <button
+                key={slot.startsAt}
+                type="button"
+                disabled={!slot.available}
+                onClick={() => onSlotSelect(slot.startsAt)}
+                title={slot.available ? undefined : "Already booked"}
+                className={`min-h-10 py-1 rounded-lg border text-sm transition-colors flex flex-col items-center justify-center ${
+                  !slot.available
+                    ? 'border-white/10 bg-white/5 text-gray-500 line-through cursor-not-allowed'
+                    : scheduledAt === slot.startsAt
+                      ? 'border-orange-500 bg-orange-500 text-white'
+                      : 'border-white/30 bg-white/20 text-white hover:border-orange-500'
+                }`}
+              >
+                {formatSlotTime(slot.startsAt, timezone)}
+                {timezone !== BUSINESS_TIMEZONE && (
+                  <span className="text-[10px] opacity-70">{formatSlotTime(slot.startsAt, BUSINESS_TIMEZONE)} GST</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+        {scheduledAt && (
+          <p className="text-gray-300 text-sm mt-2">
+            Selected: {formatAppointmentTime(scheduledAt, timezone)}
+            {timezone !== BUSINESS_TIMEZONE && ` (${formatAppointmentTime(scheduledAt, BUSINESS_TIMEZONE)} GST)`}
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -55,6 +55,12 @@ export default function Footer() {
                   <Link href="/mining-store" onClick={handleLinkClick} className="block text-gray-300 hover:text-orange-500 transition-colors text-sm">
                     Mining Store
                   </Link>
+                  <Link href="/profitability-calculator" onClick={handleLinkClick} className="block text-gray-300 hover:text-orange-500 transition-colors text-sm">
+                    Profitability Calculator
+                  </Link>
+                  <Link href="/hosting-estimator" onClick={handleLinkClick} className="block text-gray-300 hover:text-orange-500 transition-colors text-sm">
+                    Hosting Estimator
+                  </Link>
                   <Link href="/deployment-sites" onClick={handleLinkClick} className="block text-gray-300 hover:text-orange-500 transition-colors text-sm">
                     Deployment Sites
                   </Link>
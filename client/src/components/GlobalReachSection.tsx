@@ -5,14 +5,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { FaInstagram, FaLinkedin, FaWhatsapp, FaEnvelope, FaMapMarkerAlt, FaChevronLeft, FaChevronRight, FaQuoteLeft } from "react-icons/fa";
 import { MapPin, Send, Calendar, ChevronDown, MessageCircle } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import HoneypotField from "@/components/HoneypotField";
+import { solveFormChallenge } from "@/lib/formChallenge";
+import { HONEYPOT_FIELD } from "@shared/spam";
 import mapImage from "@assets/map.png";
 
 export default function GlobalReachSection() {
   const [currentTestimonial, setCurrentTestimonial] = useState(0);
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [honeypot, setHoneypot] = useState("");
   
   const [formData, setFormData] = useState({
     fullName: "",
@@ -30,17 +33,21 @@ export default function GlobalReachSection() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          [HONEYPOT_FIELD]: honeypot,
+          ...(await solveFormChallenge()),
+        }),
       });
       
       if (!response.ok) {
-        throw new Error("Failed to submit contact form");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Please try again or contact us directly.");
       }
       
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/contact'] });
       toast({
         title: "Message sent successfully!",
         description: "We'll get back to you within 24 hours.",
@@ -54,11 +61,11 @@ export default function GlobalReachSection() {
         message: "",
       });
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       console.error('Contact form error:', error);
       toast({
         title: "Failed to send message",
-        description: "Please try again or contact us directly.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -362,7 +369,8 @@ export default function GlobalReachSection() {
                 Send us a message
               </h4>
               
-              <form onSubmit={handleSubmit} className="space-y-4 md:space-y-5">
+              <form onSubmit={handleSubmit} className="relative space-y-4 md:space-y-5">
+                <HoneypotField value={honeypot} onChange={setHoneypot} />
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <Input 
                     name="fullName"
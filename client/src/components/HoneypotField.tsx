@@ -0,0 +1,25 @@
+import { HONEYPOT_FIELD } from "@shared/spam";
+
+interface HoneypotFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Off-screen input for catching bots: people never see or fill it, so a value means spam
+export default function HoneypotField({ value, onChange }: HoneypotFieldProps) {
+  return (
+    <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+      <label>
+        Leave this field empty
+        <input
+          type="text"
+          name={HONEYPOT_FIELD}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          tabIndex={-1}
+          autoComplete="off"
+        />
+      </label>
+    </div>
+  );
+}
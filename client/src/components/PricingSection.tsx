@@ -1,39 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Calendar } from "lucide-react";
+import { Calculator, Calendar, Receipt } from "lucide-react";
+import type { HostingPlan } from "@shared/schema";
+import { formatContractTerm, formatDeposit } from "@shared/hosting";
+import { formatUsd } from "@shared/products";
+
+// Cards alternate between these looks in the order admins arranged the plans
+const PLAN_STYLES = [
+  { bgColor: "bg-orange-500", textColor: "text-black" },
+  { bgColor: "bg-amber-700", textColor: "text-white" },
+];
 
 export default function PricingSection() {
-  const plans = [
-    {
-      name: "Cloud Hosting",
-      cooling: "Air Cooling & Hydro",
-      model: "Bitmain & Whatsminer",
-      terms: "2 year and renewable",
-      maintenance: "Included",
-      deposit: "One Month Advance",
-      bgColor: "bg-orange-500",
-      textColor: "text-black",
-      buttonColor: "bg-orange-600"
-    },
-    {
-      name: "Turnkey Solutions",
-      cooling: "Air Cooling & Hydro",
-      location: "UAE, Canada, USA",
-      model: "Bitmain & Whatsminer",
-      terms: "5-year and renewal",
-      maintenance: "Included",
-      bgColor: "bg-amber-700",
-      textColor: "text-white",
-      buttonColor: "bg-amber-800"
-    }
-  ];
+  const { data: hostingPlans = [] } = useQuery<HostingPlan[]>({ queryKey: ["/api/hosting-plans"] });
+  const plans = hostingPlans.map((plan, index) => ({ ...plan, ...PLAN_STYLES[index % PLAN_STYLES.length] }));
 
   return (
     <section className="py-16 px-4" id="pricing">
       <div className="container mx-auto max-w-6xl">
         <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-          {plans.map((plan, index) => (
-            <Card key={index} className={`${plan.bgColor} ${plan.textColor} border-none rounded-2xl shadow-xl`}>
+          {plans.map((plan) => (
+            <Card key={plan.id} className={`${plan.bgColor} ${plan.textColor} border-none rounded-2xl shadow-xl`}>
               <CardContent className="p-8">
                 <div className="space-y-4">
                   <h3 className="text-2xl font-bold text-center">{plan.name}</h3>
@@ -43,34 +31,50 @@ export default function PricingSection() {
                       <span className="font-medium">Cooling:</span>
                       <span>{plan.cooling}</span>
                     </div>
-                    {plan.location && (
-                      <div className="flex justify-between">
-                        <span className="font-medium">Location:</span>
-                        <span>{plan.location}</span>
-                      </div>
-                    )}
+                    <div className="flex justify-between">
+                      <span className="font-medium">Location:</span>
+                      <span className="text-right">
+                        {plan.sites.map((site) => (site.available ? site.name : `${site.name} (waitlist)`)).join(", ")}
+                      </span>
+                    </div>
                     <div className="flex justify-between">
                       <span className="font-medium">Model:</span>
-                      <span>{plan.model}</span>
+                      <span>{plan.supportedHardware}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-medium">Rate:</span>
+                      <span>${plan.ratePerKwh}/kWh</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="font-medium">Terms:</span>
-                      <span className="text-right">{plan.terms}</span>
+                      <span className="text-right">{formatContractTerm(plan.contractMonths, plan.renewable)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="font-medium">Maintenance:</span>
-                      <span>{plan.maintenance}</span>
+                      <span>{plan.maintenanceIncluded ? "Included" : "Not included"}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-medium">Deposit:</span>
+                      <span>{formatDeposit(plan.depositMonths)}</span>
                     </div>
-                    {plan.deposit && (
+                    {plan.setupFeePerUnit > 0 && (
                       <div className="flex justify-between">
-                        <span className="font-medium">Deposit:</span>
-                        <span>{plan.deposit}</span>
+                        <span className="font-medium">Setup fee:</span>
+                        <span>{formatUsd(plan.setupFeePerUnit)} per unit</span>
                       </div>
                     )}
                   </div>
 
                   <Button 
                     className="w-full bg-white hover:bg-gray-100 text-gray-900 font-bold py-3 rounded-full mt-6 transition-colors flex items-center justify-center border-2 border-white shadow-lg"
+                    onClick={() => window.open(`/hosting-estimator?plan=${plan.slug}`, '_self')}
+                  >
+                    <Receipt className="w-4 h-4 mr-2" />
+                    ESTIMATE YOUR CONTRACT
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className={`w-full ${plan.textColor} hover:bg-black/10 font-bold rounded-full transition-colors flex items-center justify-center`}
                     onClick={() => window.open('/book-appointment', '_self')}
                   >
                     <Calendar className="w-4 h-4 mr-2" />
@@ -81,6 +85,15 @@ export default function PricingSection() {
             </Card>
           ))}
         </div>
+        <div className="text-center mt-8">
+          <a
+            href="/profitability-calculator"
+            className="inline-flex items-center text-orange-400 hover:text-orange-300 font-medium transition-colors"
+          >
+            <Calculator className="w-4 h-4 mr-2" />
+            See what a hosted miner earns with our profitability calculator
+          </a>
+        </div>
       </div>
     </section>
   );
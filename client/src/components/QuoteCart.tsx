@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import HoneypotField from "@/components/HoneypotField";
+import { solveFormChallenge } from "@/lib/formChallenge";
+import { HONEYPOT_FIELD } from "@shared/spam";
+import { formatUsd } from "@shared/products";
+import type { Product } from "@shared/schema";
+import type { QuoteCartItem } from "@/hooks/use-quote-cart";
+import { Send, Trash2 } from "lucide-react";
+
+interface QuoteCartProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+  items: QuoteCartItem[];
+  onQuantityChange: (productId: number, quantity: number) => void;
+  onRemove: (productId: number) => void;
+  onSubmitted: () => void;
+  initialMessage?: string; // filled into the message box each time the cart opens
+}
+
+const EMPTY_FORM = { fullName: "", email: "", companyName: "", phoneNumber: "", message: "" };
+
+// The models picked on the store page, sent to the team with the visitor's details for pricing
+export default function QuoteCart({ open, onOpenChange, products, items, onQuantityChange, onRemove, onSubmitted, initialMessage }: QuoteCartProps) {
+  const { toast } = useToast();
+  const [honeypot, setHoneypot] = useState("");
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (open && initialMessage) {
+      setForm((current) => ({ ...current, message: initialMessage }));
+    }
+  }, [open]);
+
+  // Products taken off the store since they were added are left out
+  const lines = items.flatMap((item) => {
+    const product = products.find((entry) => entry.id === item.productId);
+    return product ? [{ ...item, product }] : [];
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/quote-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fullName: form.fullName,
+          email: form.email,
+          companyName: form.companyName || undefined,
+          phoneNumber: form.phoneNumber || undefined,
+          message: form.message || undefined,
+          items: lines.map(({ productId, quantity }) => ({ productId, quantity })),
+          [HONEYPOT_FIELD]: honeypot,
+          ...(await solveFormChallenge()),
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Please try again or contact us directly.");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Quote request sent!",
+        description: "Our team will email you a quote within one business day.",
+      });
+      setForm(EMPTY_FORM);
+      onSubmitted();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to send quote request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lines.length > 0 && form.fullName && form.email) {
+      submitMutation.mutate();
+    }
+  };
+
+  const update = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  const inputClass = "bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400";
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-[#1A0F08] border-orange-500/30 text-white w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-orange-500">Your Quote</SheetTitle>
+          <SheetDescription className="text-gray-300">
+            Choose quantities and tell us where to send the quote. We'll price each machine with shipping and duties to the UAE.
+          </SheetDescription>
+        </SheetHeader>
+
+        {lines.length === 0 ? (
+          <p className="text-gray-300 text-center py-12">
+            Your quote is empty. Use "Add to Quote" on any machine to start one.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6 py-6">
+            <div className="space-y-3">
+              {lines.map(({ product, quantity }) => (
+                <div key={product.id} className="flex items-center gap-3 rounded-lg border border-orange-500/20 bg-white/5 p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">{product.manufacturer} {product.model}</p>
+                    <p className="text-xs text-gray-400">
+                      {product.price !== null ? `${formatUsd(product.price)} each` : "Price on request"}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="10000"
+                    step="1"
+                    value={quantity}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value);
+                      if (value > 0) onQuantityChange(product.id, value);
+                    }}
+                    aria-label={`Quantity of ${product.model}`}
+                    className={`${inputClass} w-24`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRemove(product.id)}
+                    className="text-gray-400 hover:text-red-400 hover:bg-transparent"
+                    aria-label={`Remove ${product.model}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <HoneypotField value={honeypot} onChange={setHoneypot} />
+              <div className="space-y-1">
+                <Label htmlFor="quote-name" className="text-gray-300">Full name *</Label>
+                <Input id="quote-name" value={form.fullName} onChange={update("fullName")} required maxLength={200} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quote-email" className="text-gray-300">Email *</Label>
+                <Input id="quote-email" type="email" value={form.email} onChange={update("email")} required className={inputClass} />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="quote-company" className="text-gray-300">Company</Label>
+                  <Input id="quote-company" value={form.companyName} onChange={update("companyName")} maxLength={200} className={inputClass} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="quote-phone" className="text-gray-300">Phone</Label>
+                  <Input id="quote-phone" value={form.phoneNumber} onChange={update("phoneNumber")} maxLength={50} className={inputClass} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quote-message" className="text-gray-300">Anything else we should know?</Label>
+                <Textarea
+                  id="quote-message"
+                  value={form.message}
+                  onChange={update("message")}
+                  placeholder="Delivery site, timeline, hosting needs..."
+                  maxLength={5000}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              disabled={submitMutation.isPending}
+              className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {submitMutation.isPending ? "Sending..." : "Request Quote"}
+            </Button>
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
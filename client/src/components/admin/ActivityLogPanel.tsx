@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Activity, Filter } from "lucide-react";
+import { AUDIT_ACTIONS, type AuditLog } from "@shared/schema";
+import { adminFetch } from "@/lib/adminApi";
+import { ListPagination } from "@/components/admin/ListControls";
+
+const PAGE_SIZE = 50;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const ACTION_LABELS: Record<string, string> = {
+  "contact.status_changed": "Contact status changed",
+  "contact.note_added": "Contact note added",
+  "contact.replied": "Contact replied to",
+  "contact.assigned": "Contact owner changed",
+  "deal.created": "Deal created",
+  "deal.updated": "Deal updated",
+  "deal.stage_changed": "Deal stage changed",
+  "product.created": "Product added",
+  "product.updated": "Product updated",
+  "product.deleted": "Product deleted",
+  "quote.issued": "Quote issued",
+  "quote.status_changed": "Quote request status changed",
+  "calculator.defaults_updated": "Calculator defaults updated",
+  "hosting_plan.created": "Hosting plan added",
+  "hosting_plan.updated": "Hosting plan updated",
+  "hosting_plan.deleted": "Hosting plan deleted",
+  "availability.hours_updated": "Working hours changed",
+  "availability.date_blocked": "Date blocked",
+  "availability.date_unblocked": "Date unblocked",
+  "appointment.status_changed": "Appointment status changed",
+  "appointment.rescheduled": "Appointment rescheduled",
+  "contact.exported": "Contacts exported",
+  "appointment.exported": "Appointments exported",
+  "admin.created": "Admin created",
+  "admin.updated": "Admin updated",
+  "admin.deleted": "Admin deleted",
+  "admin.login": "Logged in",
+  "admin.logout": "Logged out",
+  "admin.session_revoked": "Session signed out",
+  "admin.locked": "Account locked",
+  "admin.unlocked": "Account unlocked",
+  "admin.two_factor_enabled": "Two-factor sign-in turned on",
+  "admin.two_factor_disabled": "Two-factor sign-in turned off",
+  "admin.recovery_codes_generated": "Recovery codes generated",
+  "admin.recovery_code_used": "Recovery code used",
+  "admin.password_reset_requested": "Password reset requested",
+  "admin.password_reset": "Password reset by email link",
+  "admin.calendar_feed_issued": "Calendar feed link issued",
+};
+
+function describeEntry(entry: AuditLog): string {
+  const details = (entry.details ?? {}) as Record<string, any>;
+  switch (entry.action) {
+    case "contact.status_changed":
+    case "appointment.status_changed":
+    case "deal.stage_changed":
+    case "quote.status_changed":
+      return `#${entry.entityId}: ${details.from ?? "?"} → ${details.to}${details.reason ? ` (${details.reason})` : ""}`;
+    case "contact.note_added":
+      return `#${entry.entityId}`;
+    case "contact.replied":
+      return `#${entry.entityId}: "${details.subject}"`;
+    case "contact.assigned":
+      return `#${entry.entityId}: ${details.from ?? "unassigned"} → ${details.to ?? "unassigned"}`;
+    case "deal.created":
+      return `#${entry.entityId}: ${details.title}${details.contactSubmissionId ? ` (from contact #${details.contactSubmissionId})` : ""}${details.appointmentId ? ` (from appointment #${details.appointmentId})` : ""}`;
+    case "deal.updated":
+      return `#${entry.entityId}: ${(details.fields ?? []).join(", ")}`;
+    case "product.created":
+    case "product.deleted":
+      return details.model;
+    case "product.updated":
+      return `${details.model}: ${(details.fields ?? []).join(", ")}`;
+    case "quote.issued":
+      return `#${entry.entityId}: v${details.version}, $${Number(details.total).toLocaleString("en-US")}`;
+    case "hosting_plan.created":
+    case "hosting_plan.deleted":
+      return details.name;
+    case "hosting_plan.updated":
+      return `${details.name}: ${(details.fields ?? []).join(", ")}`;
+    case "calculator.defaults_updated":
+      return (details.fields ?? []).join(", ");
+    case "availability.hours_updated":
+      return (details.days ?? []).map((day: number) => DAY_NAMES[day]).join(", ");
+    case "availability.date_blocked":
+    case "availability.date_unblocked":
+      return `${details.date}${details.reason ? ` (${details.reason})` : ""}`;
+    case "appointment.rescheduled":
+      return `#${entry.entityId}: ${details.from ? format(new Date(details.from), "MMM d, yyyy HH:mm") : "?"} → ${format(new Date(details.to), "MMM d, yyyy HH:mm")}`;
+    case "contact.exported":
+    case "appointment.exported":
+      return [
+        details.format?.toUpperCase(),
+        details.status && `status: ${details.status}`,
+        details.service && `service: ${details.service}`,
+        details.search && `search: "${details.search}"`,
+        details.spam && (details.spam === "hide" ? "spam hidden" : "spam only"),
+        (details.from || details.to) && `${details.from ? format(new Date(details.from), "MMM d, yyyy") : "…"} – ${details.to ? format(new Date(details.to), "MMM d, yyyy") : "…"}`,
+      ].filter(Boolean).join(", ");
+    case "admin.created":
+    case "admin.deleted":
+      return `${details.username}${details.role ? ` (${details.role})` : ""}`;
+    case "admin.locked":
+      return `${details.username} after ${details.failedAttempts} failed sign-ins, until ${format(new Date(details.until), "MMM d, yyyy HH:mm")}`;
+    case "admin.unlocked":
+      return details.username;
+    case "admin.two_factor_disabled":
+      return details.sessionsRevoked !== undefined ? `${details.username} (${details.sessionsRevoked} sessions signed out)` : details.username;
+    case "admin.session_revoked":
+      return details.count ? `${details.count} other session${details.count === 1 ? "" : "s"}` : details.ipAddress ?? "";
+    case "admin.recovery_code_used":
+      return `${details.remaining} left`;
+    case "admin.password_reset":
+      return `${details.sessionsRevoked ?? 0} sessions signed out`;
+    case "admin.updated":
+      return Object.entries(details)
+        .filter(([key]) => key !== "sessionsRevoked")
+        .map(([key, value]) => (key === "passwordChanged" ? `password changed (${details.sessionsRevoked ?? 0} sessions signed out)` : `${key}: ${value ?? "none"}`))
+        .join(", ");
+    default:
+      return "";
+  }
+}
+
+interface ActivityLogPanelProps {
+  admins?: { id: number; username: string }[];
+}
+
+export default function ActivityLogPanel({ admins }: ActivityLogPanelProps) {
+  const [actionFilter, setActionFilter] = useState("all");
+  const [adminFilter, setAdminFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(0);
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+  if (actionFilter !== "all") params.set("action", actionFilter);
+  if (adminFilter !== "all") params.set("adminId", adminFilter);
+  // Date inputs are local calendar days; send the full day as an instant range
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+  const url = `/api/admin/audit?${params.toString()}`;
+
+  const { data, isLoading } = useQuery<{ entries: AuditLog[]; total: number }>({
+    queryKey: ["/api/admin/audit", url],
+    queryFn: async () => {
+      const res = await adminFetch(url);
+      if (!res.ok) throw new Error("Failed to fetch activity");
+      return res.json();
+    },
+    staleTime: 0,
+  });
+
+  const hasFilters = actionFilter !== "all" || adminFilter !== "all" || fromDate || toDate;
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  const clearFilters = () => {
+    setActionFilter("all");
+    setAdminFilter("all");
+    setFromDate("");
+    setToDate("");
+    setPage(0);
+  };
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:justify-between lg:items-start space-y-4 lg:space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <Activity className="w-5 h-5 mr-2 text-orange-500" />
+              Activity
+            </CardTitle>
+            <CardDescription className="text-gray-300">
+              Every status change, account change, export, login, logout and lockout
+            </CardDescription>
+          </div>
+
+          <div className="flex flex-col sm:flex-row flex-wrap gap-2 sm:items-center">
+            <div className="flex items-center space-x-2">
+              <Filter className="w-4 h-4 text-orange-500" />
+              <span className="text-sm text-gray-300">Filters:</span>
+            </div>
+
+            <Select value={actionFilter} onValueChange={(value) => { setActionFilter(value); setPage(0); }}>
+              <SelectTrigger className="w-[200px] bg-white/10 border-orange-500/30 text-white">
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                <SelectItem value="all" className="text-white">All Actions</SelectItem>
+                {AUDIT_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action} className="text-white">
+                    {ACTION_LABELS[action] ?? action}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {admins && admins.length > 0 && (
+              <Select value={adminFilter} onValueChange={(value) => { setAdminFilter(value); setPage(0); }}>
+                <SelectTrigger className="w-[160px] bg-white/10 border-orange-500/30 text-white">
+                  <SelectValue placeholder="Admin" />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                  <SelectItem value="all" className="text-white">All Admins</SelectItem>
+                  {admins.map((admin) => (
+                    <SelectItem key={admin.id} value={String(admin.id)} className="text-white">
+                      {admin.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => { setFromDate(e.target.value); setPage(0); }}
+              className="w-[150px] bg-white/10 border-orange-500/30 text-white"
+              title="From date"
+            />
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => { setToDate(e.target.value); setPage(0); }}
+              className="w-[150px] bg-white/10 border-orange-500/30 text-white"
+              title="To date"
+            />
+
+            {hasFilters && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={clearFilters}
+                className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 text-sm text-gray-300">
+              {total} {total === 1 ? "entry" : "entries"}
+              {hasFilters && <span className="text-orange-400"> (filtered)</span>}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-orange-500/30">
+                    <TableHead className="text-gray-300">When</TableHead>
+                    <TableHead className="text-gray-300">Admin</TableHead>
+                    <TableHead className="text-gray-300">Action</TableHead>
+                    <TableHead className="text-gray-300">Details</TableHead>
+                    <TableHead className="text-gray-300">IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data?.entries.map((entry) => (
+                    <TableRow key={entry.id} className="border-orange-500/20">
+                      <TableCell className="text-white whitespace-nowrap">
+                        {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell className="text-white font-medium">{entry.adminUsername}</TableCell>
+                      <TableCell>
+                        <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30 whitespace-nowrap">
+                          {ACTION_LABELS[entry.action] ?? entry.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-gray-300 max-w-md truncate" title={describeEntry(entry)}>
+                        {describeEntry(entry) || "-"}
+                      </TableCell>
+                      <TableCell className="text-gray-400">{entry.ipAddress || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, CalendarX, Trash2 } from "lucide-react";
+import type { BlackoutDate, InsertWorkingHours } from "@shared/schema";
+import { adminFetch } from "@/lib/adminApi";
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+interface AvailabilitySettings {
+  workingHours: InsertWorkingHours[];
+  blackoutDates: BlackoutDate[];
+}
+
+export default function AvailabilityPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [week, setWeek] = useState<InsertWorkingHours[]>([]);
+  const [newBlackout, setNewBlackout] = useState({ date: "", reason: "" });
+
+  const { data, isLoading } = useQuery<AvailabilitySettings>({
+    queryKey: ["/api/admin/availability"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/availability");
+      if (!res.ok) throw new Error("Failed to fetch availability settings");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setWeek(
+        [...data.workingHours]
+          .sort((a, b) => a.dayOfWeek - b.dayOfWeek)
+          .map(({ dayOfWeek, isOpen, startTime, endTime }) => ({ dayOfWeek, isOpen, startTime, endTime })),
+      );
+    }
+  }, [data]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveHoursMutation = useMutation({
+    mutationFn: async (workingHours: InsertWorkingHours[]) => {
+      const res = await adminFetch("/api/admin/availability/working-hours", {
+        method: "PUT",
+        body: JSON.stringify({ workingHours }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save working hours");
+      return body;
+    },
+    onSuccess: () => {
+      toast({ title: "Working hours saved", description: "The booking page now offers the updated schedule" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/availability"] });
+    },
+    onError: onError("Failed to save working hours"),
+  });
+
+  const addBlackoutMutation = useMutation({
+    mutationFn: async (blackout: { date: string; reason: string }) => {
+      const res = await adminFetch("/api/admin/availability/blackout-dates", {
+        method: "POST",
+        body: JSON.stringify({ date: blackout.date, reason: blackout.reason || undefined }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to block date");
+      return body;
+    },
+    onSuccess: () => {
+      setNewBlackout({ date: "", reason: "" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/availability"] });
+    },
+    onError: onError("Failed to block date"),
+  });
+
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (blackoutDateId: number) => {
+      const res = await adminFetch(`/api/admin/availability/blackout-dates/${blackoutDateId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to unblock date");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/availability"] });
+    },
+    onError: onError("Failed to unblock date"),
+  });
+
+  const updateDay = (dayOfWeek: number, changes: Partial<InsertWorkingHours>) => {
+    setWeek((days) => days.map((day) => (day.dayOfWeek === dayOfWeek ? { ...day, ...changes } : day)));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2 text-orange-500" />
+            Working Hours
+          </CardTitle>
+          <CardDescription className="text-gray-300">
+            Consultation hours in UAE time. Slots are offered every 30 minutes and must end before closing.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {week.map((day) => (
+            <div key={day.dayOfWeek} className="flex flex-wrap items-center gap-3">
+              <Switch
+                checked={day.isOpen}
+                onCheckedChange={(isOpen) => updateDay(day.dayOfWeek, { isOpen })}
+                className="data-[state=checked]:bg-orange-500"
+              />
+              <span className="text-white w-24">{DAY_NAMES[day.dayOfWeek]}</span>
+              {day.isOpen ? (
+                <>
+                  <Input
+                    type="time"
+                    step={1800}
+                    value={day.startTime}
+                    onChange={(e) => updateDay(day.dayOfWeek, { startTime: e.target.value })}
+                    className="w-[120px] bg-white/10 border-orange-500/30 text-white"
+                  />
+                  <span className="text-gray-300">to</span>
+                  <Input
+                    type="time"
+                    step={1800}
+                    value={day.endTime}
+                    onChange={(e) => updateDay(day.dayOfWeek, { endTime: e.target.value })}
+                    className="w-[120px] bg-white/10 border-orange-500/30 text-white"
+                  />
+                </>
+              ) : (
+                <span className="text-gray-400 text-sm">Closed</span>
+              )}
+            </div>
+          ))}
+          <Button
+            onClick={() => saveHoursMutation.mutate(week)}
+            disabled={saveHoursMutation.isPending}
+            className="bg-orange-600 hover:bg-orange-700 text-white mt-2"
+          >
+            {saveHoursMutation.isPending ? "Saving..." : "Save Working Hours"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center">
+            <CalendarX className="w-5 h-5 mr-2 text-orange-500" />
+            Blackout Dates
+          </CardTitle>
+          <CardDescription className="text-gray-300">
+            Holidays and other days when no consultations can be booked
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex flex-col sm:flex-row gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newBlackout.date) addBlackoutMutation.mutate(newBlackout);
+            }}
+          >
+            <Input
+              type="date"
+              value={newBlackout.date}
+              onChange={(e) => setNewBlackout({ ...newBlackout, date: e.target.value })}
+              className="sm:w-[160px] bg-white/10 border-orange-500/30 text-white"
+              required
+            />
+            <Input
+              placeholder="Reason (e.g. Eid al-Fitr)"
+              value={newBlackout.reason}
+              onChange={(e) => setNewBlackout({ ...newBlackout, reason: e.target.value })}
+              className="flex-1 bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+            />
+            <Button
+              type="submit"
+              disabled={addBlackoutMutation.isPending}
+              className="bg-orange-600 hover:bg-orange-700 text-white"
+            >
+              Block Date
+            </Button>
+          </form>
+
+          {data?.blackoutDates.length ? (
+            <div className="space-y-2">
+              {data.blackoutDates.map((blackout) => (
+                <div key={blackout.id} className="flex items-center justify-between bg-white/5 rounded-lg p-3 border border-orange-500/20">
+                  <div>
+                    <p className="text-white text-sm font-medium">
+                      {format(new Date(`${blackout.date}T00:00:00`), "EEE, MMM d, yyyy")}
+                    </p>
+                    {blackout.reason && <p className="text-gray-400 text-xs">{blackout.reason}</p>}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+                    disabled={deleteBlackoutMutation.isPending}
+                    className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                    title="Unblock date"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400 text-sm">No blackout dates</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Calculator } from "lucide-react";
+import type { ProfitabilityMarket } from "@shared/profitability";
+import { adminFetch } from "@/lib/adminApi";
+
+type MarketForm = Record<keyof ProfitabilityMarket, string>;
+
+const FIELDS: Array<{ field: keyof ProfitabilityMarket; label: string; step: string }> = [
+  { field: "electricityRate", label: "Hosting electricity (USD/kWh)", step: "0.001" },
+  { field: "btcPrice", label: "BTC price (USD)", step: "1" },
+  { field: "networkDifficulty", label: "Network difficulty", step: "any" },
+  { field: "blockReward", label: "Block reward (BTC)", step: "any" },
+  { field: "poolFee", label: "Pool fee (%)", step: "0.1" },
+];
+
+function toForm(market: ProfitabilityMarket): MarketForm {
+  return {
+    electricityRate: String(market.electricityRate),
+    networkDifficulty: String(market.networkDifficulty),
+    blockReward: String(market.blockReward),
+    btcPrice: String(market.btcPrice),
+    poolFee: String(market.poolFee),
+  };
+}
+
+// Starting values for the public profitability calculator; visitors can still change them there
+export default function CalculatorDefaultsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<MarketForm | null>(null);
+
+  const { data: defaults } = useQuery<ProfitabilityMarket & { updatedAt: string | null }>({
+    queryKey: ["/api/profitability/defaults"],
+  });
+
+  useEffect(() => {
+    if (defaults) {
+      setForm(toForm(defaults));
+    }
+  }, [defaults]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: MarketForm) => {
+      const res = await adminFetch("/api/admin/profitability/defaults", {
+        method: "PUT",
+        body: JSON.stringify({
+          electricityRate: Number(values.electricityRate),
+          networkDifficulty: Number(values.networkDifficulty),
+          blockReward: Number(values.blockReward),
+          btcPrice: Number(values.btcPrice),
+          poolFee: Number(values.poolFee),
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save defaults");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profitability/defaults"] });
+      toast({ title: "Calculator defaults saved", description: "The profitability calculator now starts from these values." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save defaults", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const inputClass = "bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400";
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <Calculator className="w-5 h-5 mr-2 text-orange-500" />
+          Profitability Calculator Defaults
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          Starting values on the public calculator page. Keep difficulty and BTC price roughly current.
+          {defaults?.updatedAt && ` Last saved ${formatDistanceToNow(new Date(defaults.updatedAt), { addSuffix: true })}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!form ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              {FIELDS.map(({ field, label, step }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-gray-300">{label}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={saveMutation.isPending || Object.values(form).some((value) => value.trim() === "")}
+                className="bg-orange-600 hover:bg-orange-700 text-white"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Defaults"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
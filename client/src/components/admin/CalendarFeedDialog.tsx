@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import { adminFetch } from "@/lib/adminApi";
+
+interface CalendarFeed {
+  url: string;
+}
+
+export default function CalendarFeedDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading } = useQuery<CalendarFeed>({
+    queryKey: ["/api/admin/calendar-feed"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/calendar-feed");
+      if (!res.ok) throw new Error("Failed to fetch calendar feed");
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await adminFetch("/api/admin/calendar-feed/reset", { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to reset calendar feed");
+      return body as CalendarFeed;
+    },
+    onSuccess: (feed) => {
+      queryClient.setQueryData(["/api/admin/calendar-feed"], feed);
+      toast({ title: "Feed link reset", description: "Calendars subscribed to the old link will stop updating" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reset calendar feed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!data?.url) return;
+    await navigator.clipboard.writeText(data.url);
+    toast({ title: "Copied", description: "Paste the link into your calendar app's \"subscribe\" option" });
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setOpen(true)}
+        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+      >
+        <CalendarPlus className="w-4 h-4 mr-2" />
+        Calendar Feed
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="text-orange-500 flex items-center">
+              <CalendarPlus className="w-5 h-5 mr-2" />
+              Subscribe to Appointments
+            </DialogTitle>
+            <DialogDescription className="text-gray-300">
+              Add this link to Google Calendar, Outlook or Apple Calendar to see pending and approved
+              appointments. The link is personal to your account; anyone who has it can read the calendar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-4">
+                <div className="w-6 h-6 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  value={data?.url ?? ""}
+                  onFocus={(e) => e.target.select()}
+                  className="bg-white/10 border-orange-500/30 text-white text-xs"
+                />
+                <Button onClick={copyUrl} disabled={!data?.url} className="bg-orange-600 hover:bg-orange-700 text-white">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => resetMutation.mutate()}
+              disabled={resetMutation.isPending}
+              className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              {resetMutation.isPending ? "Resetting..." : "Reset Link"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,376 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowRightLeft, Briefcase, Building, Inbox, Mail, MessageSquare, Phone, Reply, Send, Settings, StickyNote, UserCheck } from "lucide-react";
+import type { ContactEvent, ContactSubmission, Deal, DealStage } from "@shared/schema";
+import { getContactServiceLabel } from "@shared/services";
+import { adminFetch } from "@/lib/adminApi";
+import DealFormDialog, { DEAL_STAGE_LABELS } from "./DealFormDialog";
+
+export interface ContactAssignee {
+  id: number;
+  username: string;
+  assignable: boolean;
+  canOwnDeals: boolean;
+}
+
+// Every admin's name (for the owner columns) and who can take new leads and deals
+export function useContactAssignees(enabled: boolean) {
+  return useQuery<ContactAssignee[]>({
+    queryKey: ["/api/admin/contacts/assignees"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/contacts/assignees");
+      if (!res.ok) throw new Error("Failed to fetch assignees");
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+interface ContactDetail {
+  contact: ContactSubmission & { assignedAdminUsername: string | null };
+  events: ContactEvent[];
+  deal: Deal | null;
+}
+
+function describeEvent(event: ContactEvent): string {
+  const details = (event.details ?? {}) as Record<string, any>;
+  switch (event.type) {
+    case "status":
+      return `changed the status from ${details.from ?? "?"} to ${details.to}${details.reason ? ` (${details.reason})` : ""}`;
+    case "reply":
+      return `emailed ${details.to ?? "the client"}: "${details.subject}"`;
+    case "owner":
+      if (!details.to) return `unassigned ${details.from ?? "the lead"}`;
+      return details.from ? `reassigned the lead from ${details.from} to ${details.to}` : `assigned the lead to ${details.to}`;
+    default:
+      return "added a note";
+  }
+}
+
+const EVENT_ICONS: Record<string, JSX.Element> = {
+  note: <StickyNote className="w-4 h-4 text-yellow-400" />,
+  reply: <Send className="w-4 h-4 text-orange-400" />,
+  status: <ArrowRightLeft className="w-4 h-4 text-blue-400" />,
+  owner: <UserCheck className="w-4 h-4 text-green-400" />,
+};
+
+interface ContactDetailDrawerProps {
+  contactId: number | null;
+  onClose: () => void;
+  canUpdate: boolean;
+  canConvert: boolean;
+}
+
+const DEFAULT_REPLY_SUBJECT = "Re: Your message to 71 Digital";
+
+// Side drawer for one lead: its details, owner, replies, internal notes and the history of changes
+export default function ContactDetailDrawer({ contactId, onClose, canUpdate, canConvert }: ContactDetailDrawerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const [replySubject, setReplySubject] = useState(DEFAULT_REPLY_SUBJECT);
+  const [replyMessage, setReplyMessage] = useState("");
+  const [converting, setConverting] = useState(false);
+
+  const url = `/api/admin/contacts/${contactId}`;
+  const { data, isLoading } = useQuery<ContactDetail>({
+    queryKey: ["/api/admin/contacts", url],
+    queryFn: async () => {
+      const res = await adminFetch(url);
+      if (!res.ok) throw new Error("Failed to fetch contact");
+      return res.json();
+    },
+    enabled: contactId !== null,
+  });
+  const { data: assignees } = useContactAssignees(contactId !== null);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const noteMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const res = await adminFetch(`/api/admin/contacts/${contactId}/notes`, {
+        method: "POST",
+        body: JSON.stringify({ body }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to add note");
+      return result;
+    },
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts", url] });
+    },
+    onError: onError("Failed to add note"),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await adminFetch(`/api/admin/contacts/${contactId}/replies`, {
+        method: "POST",
+        body: JSON.stringify({ subject: replySubject, message: replyMessage }),
+      }, 30000);
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to send reply");
+      return result;
+    },
+    onSuccess: () => {
+      setReplySubject(DEFAULT_REPLY_SUBJECT);
+      setReplyMessage("");
+      // The status moves to responded, so the list needs refreshing too
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts"] });
+      toast({ title: "Reply sent", description: "The contact has been marked as responded" });
+    },
+    onError: onError("Failed to send reply"),
+  });
+
+  const ownerMutation = useMutation({
+    mutationFn: async (adminId: number | null) => {
+      const res = await adminFetch(`/api/admin/contacts/${contactId}/owner`, {
+        method: "PUT",
+        body: JSON.stringify({ adminId }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to assign contact");
+      return result;
+    },
+    onSuccess: () => {
+      // Refreshes the owner column in the list as well as the drawer
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts"] });
+      toast({ title: "Owner updated" });
+    },
+    onError: onError("Failed to assign contact"),
+  });
+
+  const contact = data?.contact;
+  const ownerValue = contact?.assignedAdminId ? String(contact.assignedAdminId) : "none";
+  // Someone who has since lost access to contacts stays selectable until the lead is reassigned
+  const ownerOptions = (assignees ?? []).filter((admin) => admin.assignable || admin.id === contact?.assignedAdminId);
+
+  return (
+    <Sheet
+      open={contactId !== null}
+      onOpenChange={(open) => {
+        if (!open) {
+          setNote("");
+          setReplySubject(DEFAULT_REPLY_SUBJECT);
+          setReplyMessage("");
+          onClose();
+        }
+      }}
+    >
+      <SheetContent className="bg-[#1A0F08] border-orange-500/30 text-white w-full sm:max-w-lg overflow-y-auto">
+        {isLoading || !contact ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="text-white">{contact.fullName}</SheetTitle>
+              <SheetDescription className="text-gray-300">
+                Received {format(new Date(contact.createdAt), "MMM d, yyyy HH:mm")} · {contact.status}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-2 text-sm">
+              <div className="flex items-center">
+                <Mail className="w-4 h-4 text-orange-500 mr-2 flex-shrink-0" />
+                <a href={`mailto:${contact.email}`} className="text-orange-400 hover:text-orange-300 underline truncate">
+                  {contact.email}
+                </a>
+              </div>
+              {contact.phoneNumber && (
+                <div className="flex items-center">
+                  <Phone className="w-4 h-4 text-green-500 mr-2 flex-shrink-0" />
+                  <a
+                    href={`https://wa.me/${contact.phoneNumber.replace(/[^0-9]/g, '')}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-green-400 hover:text-green-300 underline"
+                  >
+                    {contact.phoneNumber}
+                  </a>
+                </div>
+              )}
+              {contact.companyName && (
+                <div className="flex items-center">
+                  <Building className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+                  <span className="text-gray-300">{contact.companyName}</span>
+                </div>
+              )}
+              {contact.service && (
+                <div className="flex items-center">
+                  <Settings className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+                  <span className="text-gray-300">{getContactServiceLabel(contact.service)}</span>
+                </div>
+              )}
+              <div className="flex items-start pt-2">
+                <MessageSquare className="w-4 h-4 text-gray-400 mr-2 mt-0.5 flex-shrink-0" />
+                <p className="text-gray-300 whitespace-pre-wrap">{contact.message}</p>
+              </div>
+            </div>
+
+            {data.deal ? (
+              <Badge className="bg-orange-500/20 text-orange-400 border-orange-500/30">
+                <Briefcase className="w-3 h-3 mr-1" />
+                Deal #{data.deal.id} · {DEAL_STAGE_LABELS[data.deal.stage as DealStage] ?? data.deal.stage}
+              </Badge>
+            ) : canConvert && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setConverting(true)}
+                className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+              >
+                <Briefcase className="w-4 h-4 mr-2" />
+                Convert to Deal
+              </Button>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-white">Owner</h3>
+              {canUpdate ? (
+                <Select
+                  value={ownerValue}
+                  onValueChange={(value) => ownerMutation.mutate(value === "none" ? null : parseInt(value))}
+                  disabled={ownerMutation.isPending}
+                >
+                  <SelectTrigger className="bg-white/10 border-orange-500/30 text-white">
+                    <SelectValue placeholder="Unassigned" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                    <SelectItem value="none" className="text-white">Unassigned</SelectItem>
+                    {ownerOptions.map((admin) => (
+                      <SelectItem key={admin.id} value={String(admin.id)} className="text-white">
+                        {admin.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-sm text-gray-300">{contact.assignedAdminUsername ?? "Unassigned"}</p>
+              )}
+            </div>
+
+            {canUpdate && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-white">Reply to {contact.email}</h3>
+                <Input
+                  value={replySubject}
+                  onChange={(e) => setReplySubject(e.target.value)}
+                  placeholder="Subject"
+                  maxLength={200}
+                  className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+                />
+                <Textarea
+                  value={replyMessage}
+                  onChange={(e) => setReplyMessage(e.target.value)}
+                  placeholder={`Write to ${contact.fullName}. Their original message is quoted below your reply.`}
+                  maxLength={10000}
+                  rows={6}
+                  className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => replyMutation.mutate()}
+                  disabled={!replySubject.trim() || !replyMessage.trim() || replyMutation.isPending}
+                  className="bg-orange-600 hover:bg-orange-700 text-white"
+                >
+                  <Reply className="w-4 h-4 mr-2" />
+                  {replyMutation.isPending ? "Sending..." : "Send Reply"}
+                </Button>
+              </div>
+            )}
+
+            {canUpdate && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-white">Add an internal note</h3>
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Only admins see notes"
+                  maxLength={5000}
+                  className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => noteMutation.mutate(note)}
+                  disabled={!note.trim() || noteMutation.isPending}
+                  className="bg-orange-600 hover:bg-orange-700 text-white"
+                >
+                  <StickyNote className="w-4 h-4 mr-2" />
+                  {noteMutation.isPending ? "Saving..." : "Add Note"}
+                </Button>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-white">History</h3>
+              <ol className="space-y-3 border-l border-orange-500/30 pl-4">
+                <li className="relative">
+                  <span className="absolute -left-[26px] top-0 bg-[#1A0F08] p-0.5">
+                    <Inbox className="w-4 h-4 text-orange-500" />
+                  </span>
+                  <p className="text-sm text-gray-300">Submitted through the contact form</p>
+                  <p className="text-xs text-gray-500">{format(new Date(contact.createdAt), "MMM d, yyyy HH:mm")}</p>
+                </li>
+                {data.events.map((event) => (
+                  <li key={event.id} className="relative">
+                    <span className="absolute -left-[26px] top-0 bg-[#1A0F08] p-0.5">
+                      {EVENT_ICONS[event.type] ?? EVENT_ICONS.note}
+                    </span>
+                    <p className="text-sm text-gray-300">
+                      <span className="text-white font-medium">{event.adminUsername}</span> {describeEvent(event)}
+                    </p>
+                    {event.body && (
+                      <div className="mt-1 rounded bg-white/5 border border-orange-500/20 p-2 text-sm text-gray-200 whitespace-pre-wrap">
+                        {event.body}
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">{format(new Date(event.createdAt), "MMM d, yyyy HH:mm")}</p>
+                  </li>
+                ))}
+              </ol>
+              {data.events.length === 0 && (
+                <p className="text-xs text-gray-500">No notes or changes yet</p>
+              )}
+            </div>
+
+            {contact.status === "ignored" && contact.rejectionReason && (
+              <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                Ignored: {contact.rejectionReason}
+              </Badge>
+            )}
+          </div>
+        )}
+      </SheetContent>
+
+      {contact && (
+        <DealFormDialog
+          open={converting}
+          onClose={() => setConverting(false)}
+          prefill={{
+            title: `${contact.companyName || contact.fullName}${contact.service ? ` - ${getContactServiceLabel(contact.service)}` : ""}`,
+            contactName: contact.fullName,
+            email: contact.email,
+            phoneNumber: contact.phoneNumber,
+            companyName: contact.companyName,
+            service: contact.service ? getContactServiceLabel(contact.service) : null,
+            ownerAdminId: contact.assignedAdminId,
+            contactSubmissionId: contact.id,
+          }}
+        />
+      )}
+    </Sheet>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Briefcase } from "lucide-react";
+import { DEAL_STAGES, type Deal, type DealStage, type InsertDeal } from "@shared/schema";
+import { adminFetch } from "@/lib/adminApi";
+import { useContactAssignees } from "./ContactDetailDrawer";
+
+// A deal as the pipeline endpoint returns it
+export type DealSummary = Deal & { ownerUsername: string | null };
+
+export const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+  qualified: "Qualified",
+  proposal: "Proposal",
+  negotiation: "Negotiation",
+  won: "Won",
+  lost: "Lost",
+};
+
+export function formatDealValue(value: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+}
+
+interface DealFormDialogProps {
+  open: boolean;
+  onClose: () => void;
+  // The deal being edited; without one the dialog creates a deal from `prefill`
+  deal?: DealSummary | null;
+  prefill?: Partial<InsertDeal>;
+  // Opens an existing deal on a different stage, e.g. after it was dropped on "Lost"
+  initialStage?: DealStage;
+}
+
+interface DealFormState {
+  title: string;
+  contactName: string;
+  email: string;
+  phoneNumber: string;
+  companyName: string;
+  service: string;
+  estimatedMw: string;
+  unitCount: string;
+  value: string;
+  stage: DealStage;
+  lostReason: string;
+  ownerAdminId: string;
+}
+
+function toFormState(deal: Partial<InsertDeal> | Deal, stage?: DealStage): DealFormState {
+  return {
+    title: deal.title ?? "",
+    contactName: deal.contactName ?? "",
+    email: deal.email ?? "",
+    phoneNumber: deal.phoneNumber ?? "",
+    companyName: deal.companyName ?? "",
+    service: deal.service ?? "",
+    estimatedMw: deal.estimatedMw != null ? String(deal.estimatedMw) : "",
+    unitCount: deal.unitCount != null ? String(deal.unitCount) : "",
+    value: deal.value != null ? String(deal.value) : "",
+    stage: stage ?? (deal.stage as DealStage | undefined) ?? "qualified",
+    lostReason: deal.lostReason ?? "",
+    ownerAdminId: deal.ownerAdminId ? String(deal.ownerAdminId) : "none",
+  };
+}
+
+// Blank inputs clear the field; anything else is left for the server to validate
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+const toText = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// Creates a deal (usually converted from a contact or appointment) or edits one on the pipeline board
+export default function DealFormDialog({ open, onClose, deal, prefill, initialStage }: DealFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<DealFormState>(() => toFormState(deal ?? prefill ?? {}, initialStage));
+  const { data: assignees } = useContactAssignees(open);
+
+  // Only reset when the dialog opens, not while the admin is typing
+  useEffect(() => {
+    if (open) {
+      setForm(toFormState(deal ?? prefill ?? {}, initialStage));
+    }
+  }, [open, deal?.id]);
+
+  const update = (field: keyof DealFormState) => (value: string) => setForm((current) => ({ ...current, [field]: value }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        title: form.title,
+        contactName: form.contactName,
+        email: form.email,
+        phoneNumber: toText(form.phoneNumber),
+        companyName: toText(form.companyName),
+        service: toText(form.service),
+        estimatedMw: toNumber(form.estimatedMw),
+        unitCount: toNumber(form.unitCount),
+        value: toNumber(form.value),
+        stage: form.stage,
+        lostReason: form.stage === "lost" ? toText(form.lostReason) : null,
+        ownerAdminId: form.ownerAdminId === "none" ? null : parseInt(form.ownerAdminId),
+      };
+      const res = deal
+        ? await adminFetch(`/api/admin/deals/${deal.id}`, { method: "PATCH", body: JSON.stringify(payload) })
+        : await adminFetch("/api/admin/deals", {
+            method: "POST",
+            body: JSON.stringify({
+              ...payload,
+              contactSubmissionId: prefill?.contactSubmissionId ?? null,
+              appointmentId: prefill?.appointmentId ?? null,
+            }),
+          });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save deal");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
+      // The contact drawer shows which deal a lead became
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/contacts"] });
+      toast({ title: deal ? "Deal updated" : "Deal created", description: deal ? undefined : "It's now on the pipeline board" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save deal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Someone who has since lost access to deals stays selectable until the deal is reassigned
+  const ownerOptions = (assignees ?? []).filter((admin) => admin.canOwnDeals || admin.id === deal?.ownerAdminId);
+  const inputClass = "bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400";
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-orange-500 flex items-center">
+            <Briefcase className="w-5 h-5 mr-2" />
+            {deal ? `Deal #${deal.id}` : "Convert to Deal"}
+          </DialogTitle>
+          <DialogDescription className="text-gray-300">
+            {deal
+              ? "Update the commercial details or move the deal along the pipeline."
+              : "Add what the client is after so the deal can be tracked through the pipeline."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+          <div className="space-y-1 sm:col-span-2">
+            <Label className="text-gray-300">Title</Label>
+            <Input value={form.title} onChange={(e) => update("title")(e.target.value)} maxLength={200} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Contact name</Label>
+            <Input value={form.contactName} onChange={(e) => update("contactName")(e.target.value)} maxLength={200} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Email</Label>
+            <Input type="email" value={form.email} onChange={(e) => update("email")(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Phone</Label>
+            <Input value={form.phoneNumber} onChange={(e) => update("phoneNumber")(e.target.value)} maxLength={200} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Company</Label>
+            <Input value={form.companyName} onChange={(e) => update("companyName")(e.target.value)} maxLength={200} className={inputClass} />
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label className="text-gray-300">Requested service</Label>
+            <Input value={form.service} onChange={(e) => update("service")(e.target.value)} maxLength={200} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Estimated capacity (MW)</Label>
+            <Input type="number" min="0" step="0.1" value={form.estimatedMw} onChange={(e) => update("estimatedMw")(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Units</Label>
+            <Input type="number" min="1" step="1" value={form.unitCount} onChange={(e) => update("unitCount")(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Value (USD)</Label>
+            <Input type="number" min="0" step="1" value={form.value} onChange={(e) => update("value")(e.target.value)} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-gray-300">Stage</Label>
+            <Select value={form.stage} onValueChange={update("stage")}>
+              <SelectTrigger className="bg-white/10 border-orange-500/30 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                {DEAL_STAGES.map((stage) => (
+                  <SelectItem key={stage} value={stage} className="text-white">
+                    {DEAL_STAGE_LABELS[stage]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 sm:col-span-2">
+            <Label className="text-gray-300">Owner</Label>
+            <Select value={form.ownerAdminId} onValueChange={update("ownerAdminId")}>
+              <SelectTrigger className="bg-white/10 border-orange-500/30 text-white">
+                <SelectValue placeholder="Unassigned" />
+              </SelectTrigger>
+              <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                <SelectItem value="none" className="text-white">Unassigned</SelectItem>
+                {ownerOptions.map((admin) => (
+                  <SelectItem key={admin.id} value={String(admin.id)} className="text-white">
+                    {admin.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {form.stage === "lost" && (
+            <div className="space-y-1 sm:col-span-2">
+              <Label className="text-gray-300">Why was it lost?</Label>
+              <Textarea
+                value={form.lostReason}
+                onChange={(e) => update("lostReason")(e.target.value)}
+                placeholder="e.g. went with another host, budget, timing"
+                maxLength={500}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex space-x-2">
+          <Button variant="outline" onClick={onClose} className="border-gray-500 text-gray-300">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!form.title.trim() || !form.contactName.trim() || !form.email.trim() || saveMutation.isPending}
+            className="bg-orange-600 hover:bg-orange-700 text-white"
+          >
+            {saveMutation.isPending ? "Saving..." : deal ? "Save Deal" : "Create Deal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Briefcase, Building, Cpu, Plus, UserCheck, Zap } from "lucide-react";
+import { DEAL_STAGES, type DealStage } from "@shared/schema";
+import { adminFetch } from "@/lib/adminApi";
+import DealFormDialog, { DEAL_STAGE_LABELS, formatDealValue, type DealSummary } from "./DealFormDialog";
+
+// Every deal on the board; also used to tell which contacts and appointments were already converted
+export function useDeals(enabled: boolean) {
+  return useQuery<DealSummary[]>({
+    queryKey: ["/api/admin/deals"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/deals");
+      if (!res.ok) throw new Error("Failed to fetch deals");
+      return res.json();
+    },
+    enabled,
+  });
+}
+
+const STAGE_COLORS: Record<DealStage, string> = {
+  qualified: "border-t-blue-500",
+  proposal: "border-t-yellow-500",
+  negotiation: "border-t-orange-500",
+  won: "border-t-green-500",
+  lost: "border-t-red-500",
+};
+
+interface DealsBoardProps {
+  canUpdate: boolean;
+}
+
+// Kanban view of the sales pipeline. Cards are dragged between stages; clicking one opens it for editing.
+export default function DealsBoard({ canUpdate }: DealsBoardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: deals, isLoading } = useDeals(true);
+  const [editing, setEditing] = useState<{ deal: DealSummary | null; stage?: DealStage } | null>(null);
+  const [dropStage, setDropStage] = useState<DealStage | null>(null);
+
+  const stageMutation = useMutation({
+    mutationFn: async ({ dealId, stage }: { dealId: number; stage: DealStage }) => {
+      const res = await adminFetch(`/api/admin/deals/${dealId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ stage }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to move deal");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to move deal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleDrop = (stage: DealStage, dealId: number) => {
+    setDropStage(null);
+    const deal = deals?.find((entry) => entry.id === dealId);
+    if (!deal || deal.stage === stage) return;
+    if (stage === "lost") {
+      // Ask why before the deal is closed as lost
+      setEditing({ deal, stage });
+      return;
+    }
+    stageMutation.mutate({ dealId, stage });
+  };
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white flex items-center">
+            <Briefcase className="w-5 h-5 mr-2 text-orange-500" />
+            Sales Pipeline
+          </CardTitle>
+          <CardDescription className="text-gray-300">
+            {canUpdate
+              ? "Drag deals between stages. Convert contacts and appointments into deals from their actions."
+              : "Deals converted from contacts and appointments, by stage."}
+          </CardDescription>
+        </div>
+        {canUpdate && (
+          <Button
+            onClick={() => setEditing({ deal: null })}
+            className="bg-orange-600 hover:bg-orange-700 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Deal
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+            {DEAL_STAGES.map((stage) => {
+              const stageDeals = (deals ?? []).filter((deal) => deal.stage === stage);
+              const total = stageDeals.reduce((sum, deal) => sum + (deal.value ?? 0), 0);
+              return (
+                <div
+                  key={stage}
+                  onDragOver={(e) => {
+                    if (!canUpdate) return;
+                    e.preventDefault();
+                    setDropStage(stage);
+                  }}
+                  onDragLeave={() => setDropStage((current) => (current === stage ? null : current))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(stage, parseInt(e.dataTransfer.getData("text/plain")));
+                  }}
+                  className={`rounded-lg border border-orange-500/20 border-t-4 ${STAGE_COLORS[stage]} p-3 min-h-[200px] transition-colors ${
+                    dropStage === stage ? "bg-orange-500/10" : "bg-white/5"
+                  }`}
+                >
+                  <div className="flex items-baseline justify-between mb-3">
+                    <h3 className="text-sm font-medium text-white">
+                      {DEAL_STAGE_LABELS[stage]} <span className="text-gray-400">({stageDeals.length})</span>
+                    </h3>
+                    <span className="text-xs text-gray-400">{formatDealValue(total)}</span>
+                  </div>
+                  <div className="space-y-2">
+                    {stageDeals.map((deal) => (
+                      <div
+                        key={deal.id}
+                        draggable={canUpdate}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData("text/plain", String(deal.id));
+                          e.dataTransfer.effectAllowed = "move";
+                        }}
+                        onClick={() => canUpdate && setEditing({ deal })}
+                        className={`rounded border border-orange-500/20 bg-[#1A0F08] p-3 text-sm space-y-1 ${
+                          canUpdate ? "cursor-grab hover:border-orange-500/50" : ""
+                        }`}
+                      >
+                        <p className="text-white font-medium">{deal.title}</p>
+                        {deal.companyName && (
+                          <p className="flex items-center text-xs text-gray-300">
+                            <Building className="w-3 h-3 mr-1 flex-shrink-0" />
+                            {deal.companyName}
+                          </p>
+                        )}
+                        {deal.value != null && (
+                          <p className="text-orange-400 font-medium">{formatDealValue(deal.value)}</p>
+                        )}
+                        {(deal.estimatedMw != null || deal.unitCount != null) && (
+                          <p className="flex items-center gap-3 text-xs text-gray-300">
+                            {deal.estimatedMw != null && (
+                              <span className="flex items-center">
+                                <Zap className="w-3 h-3 mr-1" />
+                                {deal.estimatedMw} MW
+                              </span>
+                            )}
+                            {deal.unitCount != null && (
+                              <span className="flex items-center">
+                                <Cpu className="w-3 h-3 mr-1" />
+                                {deal.unitCount} units
+                              </span>
+                            )}
+                          </p>
+                        )}
+                        {deal.stage === "lost" && deal.lostReason && (
+                          <p className="text-xs text-red-400">{deal.lostReason}</p>
+                        )}
+                        <div className="flex items-center justify-between text-xs text-gray-500 pt-1">
+                          <span className="flex items-center">
+                            <UserCheck className="w-3 h-3 mr-1" />
+                            {deal.ownerUsername ?? "Unassigned"}
+                          </span>
+                          <span>{formatDistanceToNow(new Date(deal.stageChangedAt), { addSuffix: true })}</span>
+                        </div>
+                      </div>
+                    ))}
+                    {stageDeals.length === 0 && (
+                      <p className="text-xs text-gray-500 text-center py-4">No deals</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <DealFormDialog
+        open={editing !== null}
+        onClose={() => setEditing(null)}
+        deal={editing?.deal}
+        initialStage={editing?.stage}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import { downloadAdminFile } from "@/lib/adminApi";
+
+interface ExportMenuProps {
+  exportUrl: (format: "csv" | "xlsx") => string;
+  name: string; // fallback filename stem, e.g. "contacts"
+}
+
+// Downloads every row matching the list's current filters
+export default function ExportMenu({ exportUrl, name }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const download = async (format: "csv" | "xlsx") => {
+    setExporting(true);
+    try {
+      await downloadAdminFile(exportUrl(format), `71digital-${name}.${format}`);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the list",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={exporting}
+          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="bg-[#1A0F08] border-orange-500/30">
+        <DropdownMenuItem onClick={() => download("csv")} className="text-white focus:bg-orange-500/20 focus:text-white">
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("xlsx")} className="text-white focus:bg-orange-500/20 focus:text-white">
+          Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Edit, Eye, EyeOff, Plus, Server, Trash2 } from "lucide-react";
+import type { HostingPlan, InsertHostingPlan } from "@shared/schema";
+import { formatContractTerm, formatDeposit, type HostingSite } from "@shared/hosting";
+import { formatUsd } from "@shared/products";
+import { adminFetch } from "@/lib/adminApi";
+
+interface HostingPlanFormState {
+  slug: string;
+  name: string;
+  cooling: string;
+  supportedHardware: string;
+  sites: HostingSite[];
+  ratePerKwh: string;
+  contractMonths: string;
+  renewable: boolean;
+  depositMonths: string;
+  setupFeePerUnit: string;
+  maintenanceIncluded: boolean;
+  visible: boolean;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: HostingPlanFormState = {
+  slug: "",
+  name: "",
+  cooling: "Air Cooling & Hydro",
+  supportedHardware: "Bitmain & Whatsminer",
+  sites: [{ name: "UAE", available: true }],
+  ratePerKwh: "",
+  contractMonths: "24",
+  renewable: true,
+  depositMonths: "1",
+  setupFeePerUnit: "0",
+  maintenanceIncluded: true,
+  visible: true,
+  sortOrder: "0",
+};
+
+function toFormState(plan: HostingPlan): HostingPlanFormState {
+  return {
+    slug: plan.slug,
+    name: plan.name,
+    cooling: plan.cooling,
+    supportedHardware: plan.supportedHardware,
+    sites: plan.sites,
+    ratePerKwh: String(plan.ratePerKwh),
+    contractMonths: String(plan.contractMonths),
+    renewable: plan.renewable,
+    depositMonths: String(plan.depositMonths),
+    setupFeePerUnit: String(plan.setupFeePerUnit),
+    maintenanceIncluded: plan.maintenanceIncluded,
+    visible: plan.visible,
+    sortOrder: String(plan.sortOrder),
+  };
+}
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+function toPayload(form: HostingPlanFormState) {
+  return {
+    slug: form.slug.trim() || slugify(form.name),
+    name: form.name,
+    cooling: form.cooling,
+    supportedHardware: form.supportedHardware,
+    // Rows left blank are dropped rather than rejected
+    sites: form.sites.filter((site) => site.name.trim() !== ""),
+    ratePerKwh: Number(form.ratePerKwh),
+    contractMonths: Number(form.contractMonths),
+    renewable: form.renewable,
+    depositMonths: Number(form.depositMonths || 0),
+    setupFeePerUnit: Number(form.setupFeePerUnit || 0),
+    maintenanceIncluded: form.maintenanceIncluded,
+    visible: form.visible,
+    sortOrder: Number(form.sortOrder || 0),
+  } as InsertHostingPlan;
+}
+
+// Plans behind the pricing section and the public hosting contract estimator
+export default function HostingPlansPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<HostingPlan | "new" | null>(null);
+  const [form, setForm] = useState<HostingPlanFormState>(EMPTY_FORM);
+
+  const { data: plans, isLoading } = useQuery<HostingPlan[]>({
+    queryKey: ["/api/admin/hosting-plans"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/hosting-plans");
+      if (!res.ok) throw new Error("Failed to fetch hosting plans");
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/hosting-plans"] });
+    // The pricing section and estimator read the public list
+    queryClient.invalidateQueries({ queryKey: ["/api/hosting-plans"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ planId, plan }: { planId: number | null; plan: InsertHostingPlan }) => {
+      const res = await adminFetch(planId ? `/api/admin/hosting-plans/${planId}` : "/api/admin/hosting-plans", {
+        method: planId ? "PUT" : "POST",
+        body: JSON.stringify(plan),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save hosting plan");
+      return body;
+    },
+    onSuccess: (_, { planId }) => {
+      refresh();
+      setEditing(null);
+      toast({ title: planId ? "Hosting plan updated" : "Hosting plan added" });
+    },
+    onError: onError("Failed to save hosting plan"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (planId: number) => {
+      const res = await adminFetch(`/api/admin/hosting-plans/${planId}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to delete hosting plan");
+      return body;
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Hosting plan deleted" });
+    },
+    onError: onError("Failed to delete hosting plan"),
+  });
+
+  const openEditor = (plan: HostingPlan | "new") => {
+    setForm(plan === "new" ? EMPTY_FORM : toFormState(plan));
+    setEditing(plan);
+  };
+
+  const toggleVisible = (plan: HostingPlan) => {
+    saveMutation.mutate({ planId: plan.id, plan: toPayload({ ...toFormState(plan), visible: !plan.visible }) });
+  };
+
+  const confirmDelete = (plan: HostingPlan) => {
+    if (window.confirm(`Delete the ${plan.name} plan? To take it off the site for now, hide it instead.`)) {
+      deleteMutation.mutate(plan.id);
+    }
+  };
+
+  const update = (field: keyof HostingPlanFormState) => (value: string) => setForm((current) => ({ ...current, [field]: value }));
+  const updateSite = (index: number, changes: Partial<HostingSite>) =>
+    setForm((current) => ({
+      ...current,
+      sites: current.sites.map((site, position) => (position === index ? { ...site, ...changes } : site)),
+    }));
+  const editingId = editing && editing !== "new" ? editing.id : null;
+  const inputClass = "bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400";
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white flex items-center">
+            <Server className="w-5 h-5 mr-2 text-orange-500" />
+            Hosting Plans
+          </CardTitle>
+          <CardDescription className="text-gray-300">
+            Visible plans appear in the pricing section and the hosting estimator in this order.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openEditor("new")} className="bg-orange-600 hover:bg-orange-700 text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !plans?.length ? (
+          <p className="text-center text-gray-300 py-8">No hosting plans yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-orange-500/30">
+                  <TableHead className="text-gray-300">Plan</TableHead>
+                  <TableHead className="text-gray-300">Rate</TableHead>
+                  <TableHead className="text-gray-300">Term</TableHead>
+                  <TableHead className="text-gray-300">Deposit</TableHead>
+                  <TableHead className="text-gray-300">Setup fee</TableHead>
+                  <TableHead className="text-gray-300">Sites</TableHead>
+                  <TableHead className="text-gray-300">Site</TableHead>
+                  <TableHead className="text-gray-300">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan) => (
+                  <TableRow key={plan.id} className="border-orange-500/20">
+                    <TableCell className="text-white">
+                      <div className="font-medium">{plan.name}</div>
+                      <div className="text-xs text-gray-400">{plan.cooling} · {plan.slug}</div>
+                    </TableCell>
+                    <TableCell className="text-white">${plan.ratePerKwh}/kWh</TableCell>
+                    <TableCell className="text-white">{formatContractTerm(plan.contractMonths, plan.renewable)}</TableCell>
+                    <TableCell className="text-white">{formatDeposit(plan.depositMonths)}</TableCell>
+                    <TableCell className="text-white">{plan.setupFeePerUnit > 0 ? `${formatUsd(plan.setupFeePerUnit)}/unit` : "-"}</TableCell>
+                    <TableCell className="text-white">
+                      {plan.sites.map((site) => (site.available ? site.name : `${site.name} (waitlist)`)).join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      {plan.visible ? (
+                        <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Listed</Badge>
+                      ) : (
+                        <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">Hidden</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => toggleVisible(plan)}
+                          disabled={saveMutation.isPending}
+                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                          title={plan.visible ? "Hide from the site" : "List on the site"}
+                        >
+                          {plan.visible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openEditor(plan)}
+                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                          title="Edit Plan"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => confirmDelete(plan)}
+                          disabled={deleteMutation.isPending}
+                          className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                          title="Delete Plan"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-orange-500 flex items-center">
+              <Server className="w-5 h-5 mr-2" />
+              {editingId ? "Edit Hosting Plan" : "Add Hosting Plan"}
+            </DialogTitle>
+            <DialogDescription className="text-gray-300">
+              The estimator bills each machine's rated power around the clock at this rate. The deposit is a number of months of hosting fees.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+            <div className="space-y-1">
+              <Label className="text-gray-300">Name</Label>
+              <Input value={form.name} onChange={(e) => update("name")(e.target.value)} placeholder="Cloud Hosting" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Slug</Label>
+              <Input
+                value={form.slug}
+                onChange={(e) => update("slug")(e.target.value)}
+                placeholder={slugify(form.name) || "cloud-hosting"}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Cooling</Label>
+              <Input value={form.cooling} onChange={(e) => update("cooling")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Supported hardware</Label>
+              <Input value={form.supportedHardware} onChange={(e) => update("supportedHardware")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Rate (USD/kWh)</Label>
+              <Input type="number" min="0" step="0.001" value={form.ratePerKwh} onChange={(e) => update("ratePerKwh")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Contract length (months)</Label>
+              <Input type="number" min="1" step="1" value={form.contractMonths} onChange={(e) => update("contractMonths")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Deposit (months in advance)</Label>
+              <Input type="number" min="0" step="1" value={form.depositMonths} onChange={(e) => update("depositMonths")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Setup fee per unit (USD)</Label>
+              <Input type="number" min="0" step="1" value={form.setupFeePerUnit} onChange={(e) => update("setupFeePerUnit")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label className="text-gray-300">Sites</Label>
+              {form.sites.map((site, index) => (
+                <div key={index} className="flex items-center space-x-3">
+                  <Input
+                    value={site.name}
+                    onChange={(e) => updateSite(index, { name: e.target.value })}
+                    placeholder="UAE"
+                    className={inputClass}
+                  />
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <Switch checked={site.available} onCheckedChange={(available) => updateSite(index, { available })} />
+                    <span className="text-sm text-gray-300 w-20">{site.available ? "Available" : "Waitlist"}</span>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setForm((current) => ({ ...current, sites: current.sites.filter((_, position) => position !== index) }))}
+                    className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                    title="Remove Site"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setForm((current) => ({ ...current, sites: [...current.sites, { name: "", available: true }] }))}
+                className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Site
+              </Button>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Position</Label>
+              <Input type="number" step="1" value={form.sortOrder} onChange={(e) => update("sortOrder")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-3 pt-6">
+              <div className="flex items-center space-x-3">
+                <Switch checked={form.renewable} onCheckedChange={(renewable) => setForm((current) => ({ ...current, renewable }))} />
+                <Label className="text-gray-300">Renewable</Label>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Switch
+                  checked={form.maintenanceIncluded}
+                  onCheckedChange={(maintenanceIncluded) => setForm((current) => ({ ...current, maintenanceIncluded }))}
+                />
+                <Label className="text-gray-300">Maintenance included</Label>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Switch checked={form.visible} onCheckedChange={(visible) => setForm((current) => ({ ...current, visible }))} />
+                <Label className="text-gray-300">Listed on the site</Label>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter className="flex space-x-2">
+            <Button variant="outline" onClick={() => setEditing(null)} className="border-gray-500 text-gray-300">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate({ planId: editingId, plan: toPayload(form) })}
+              disabled={!form.name.trim() || !form.ratePerKwh || !form.contractMonths || saveMutation.isPending}
+              className="bg-orange-600 hover:bg-orange-700 text-white"
+            >
+              {saveMutation.isPending ? "Saving..." : editingId ? "Save Plan" : "Add Plan"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
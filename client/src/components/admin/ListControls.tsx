@@ -0,0 +1,120 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, ShieldAlert } from "lucide-react";
+import type { AdminListFilters } from "@/hooks/use-admin-list";
+import { SPAM_THRESHOLD } from "@shared/spam";
+
+interface ListSearchControlsProps {
+  filters: AdminListFilters;
+  onChange: (key: keyof AdminListFilters, value: string) => void;
+  sortOptions: { value: string; label: string }[];
+  searchPlaceholder: string;
+  dateLabel: string; // what the date range applies to, e.g. "Received"
+}
+
+// Search, date range and sort for the admin lists
+export function ListSearchControls({ filters, onChange, sortOptions, searchPlaceholder, dateLabel }: ListSearchControlsProps) {
+  return (
+    <div className="flex flex-col sm:flex-row flex-wrap gap-2 sm:items-center mb-4">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="w-4 h-4 text-orange-500 absolute left-3 top-1/2 -translate-y-1/2" />
+        <Input
+          type="search"
+          value={filters.search}
+          onChange={(e) => onChange("search", e.target.value)}
+          placeholder={searchPlaceholder}
+          className="pl-9 bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+        />
+      </div>
+      <span className="text-sm text-gray-300">{dateLabel}:</span>
+      <Input
+        type="date"
+        value={filters.from}
+        onChange={(e) => onChange("from", e.target.value)}
+        className="w-[150px] bg-white/10 border-orange-500/30 text-white"
+        title="From date"
+      />
+      <Input
+        type="date"
+        value={filters.to}
+        onChange={(e) => onChange("to", e.target.value)}
+        className="w-[150px] bg-white/10 border-orange-500/30 text-white"
+        title="To date"
+      />
+      <Select value={filters.spam} onValueChange={(value) => onChange("spam", value)}>
+        <SelectTrigger className="w-[170px] bg-white/10 border-orange-500/30 text-white">
+          <SelectValue placeholder="Spam" />
+        </SelectTrigger>
+        <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+          <SelectItem value="all" className="text-white">Include spam</SelectItem>
+          <SelectItem value="hide" className="text-white">Hide likely spam</SelectItem>
+          <SelectItem value="only" className="text-white">Likely spam only</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select value={filters.sort} onValueChange={(value) => onChange("sort", value)}>
+        <SelectTrigger className="w-[180px] bg-white/10 border-orange-500/30 text-white">
+          <SelectValue placeholder="Sort" />
+        </SelectTrigger>
+        <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+          {sortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="text-white">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// Flags submissions the server scored as likely spam
+export function SpamBadge({ score }: { score: number }) {
+  if (score < SPAM_THRESHOLD) {
+    return null;
+  }
+  return (
+    <Badge className="bg-gray-500/20 text-gray-300 border-gray-500/30 flex items-center w-fit mt-1" title={`Spam score ${score}/100`}>
+      <ShieldAlert className="w-3 h-3 mr-1" />
+      Likely spam
+    </Badge>
+  );
+}
+
+interface ListPaginationProps {
+  page: number; // 0-based
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+export function ListPagination({ page, pageCount, onPageChange }: ListPaginationProps) {
+  if (pageCount <= 1) {
+    return null;
+  }
+  return (
+    <div className="flex items-center justify-end space-x-2 mt-4">
+      <span className="text-sm text-gray-300">
+        Page {page + 1} of {pageCount}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page - 1)}
+        disabled={page === 0}
+        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+      >
+        Previous
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page + 1)}
+        disabled={page + 1 >= pageCount}
+        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+      >
+        Next
+      </Button>
+    </div>
+  );
+}
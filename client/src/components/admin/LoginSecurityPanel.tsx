@@ -0,0 +1,165 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { LockKeyhole, ShieldAlert, Unlock } from "lucide-react";
+import type { LoginAttempt, LoginFailureReason } from "@shared/schema";
+import { adminFetch } from "@/lib/adminApi";
+
+interface LockedAdmin {
+  id: number;
+  username: string;
+  failedLoginCount: number;
+  lockedUntil: string;
+}
+
+interface LoginSecurity {
+  lockedAdmins: LockedAdmin[];
+  recentFailures: LoginAttempt[];
+  failedLast24h: number;
+}
+
+const REASON_LABELS: Record<LoginFailureReason, string> = {
+  bad_password: "Wrong password",
+  bad_code: "Wrong two-factor code",
+  unknown_user: "Unknown username",
+  locked: "Account locked",
+  ip_blocked: "Address blocked",
+};
+
+interface LoginSecurityPanelProps {
+  canManage: boolean;
+}
+
+// Locked accounts and recent failed sign-ins, shown on the admin management tab
+export default function LoginSecurityPanel({ canManage }: LoginSecurityPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<LoginSecurity>({
+    queryKey: ["/api/admin/login-security"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/login-security");
+      if (!res.ok) throw new Error("Failed to fetch sign-in activity");
+      return res.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (adminId: number) => {
+      const res = await adminFetch(`/api/admin/admins/${adminId}/unlock`, { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to unlock account");
+      return body;
+    },
+    onSuccess: () => {
+      toast({ title: "Account unlocked", description: "The admin can sign in again" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/login-security"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to unlock account", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <ShieldAlert className="w-5 h-5 mr-2 text-orange-500" />
+          Sign-in Security
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          Accounts lock for a while after repeated wrong passwords
+          {data && ` · ${data.failedLast24h} failed sign-in${data.failedLast24h === 1 ? "" : "s"} in the last 24 hours`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h4 className="text-white font-medium mb-2">Locked accounts</h4>
+              {data?.lockedAdmins.length ? (
+                <div className="space-y-2">
+                  {data.lockedAdmins.map((admin) => (
+                    <div
+                      key={admin.id}
+                      className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-red-500/30"
+                    >
+                      <div className="flex items-center">
+                        <LockKeyhole className="w-4 h-4 mr-2 text-red-400" />
+                        <div>
+                          <p className="text-white font-medium">{admin.username}</p>
+                          <p className="text-sm text-gray-400">
+                            {admin.failedLoginCount} failed attempts · unlocks {formatDistanceToNow(new Date(admin.lockedUntil), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                      {canManage && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => unlockMutation.mutate(admin.id)}
+                          disabled={unlockMutation.isPending}
+                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                        >
+                          <Unlock className="w-3 h-3 mr-1" />
+                          Unlock
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">No accounts are locked.</p>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-white font-medium mb-2">Recent failed sign-ins</h4>
+              {data?.recentFailures.length ? (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-orange-500/30">
+                        <TableHead className="text-gray-300">When</TableHead>
+                        <TableHead className="text-gray-300">Username</TableHead>
+                        <TableHead className="text-gray-300">Address</TableHead>
+                        <TableHead className="text-gray-300">Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {data.recentFailures.map((attempt) => (
+                        <TableRow key={attempt.id} className="border-orange-500/20">
+                          <TableCell className="text-white whitespace-nowrap">
+                            {format(new Date(attempt.createdAt), "MMM d, yyyy HH:mm")}
+                          </TableCell>
+                          <TableCell className="text-white">{attempt.username}</TableCell>
+                          <TableCell className="text-gray-300">{attempt.ipAddress ?? "—"}</TableCell>
+                          <TableCell>
+                            <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
+                              {attempt.reason ? REASON_LABELS[attempt.reason as LoginFailureReason] ?? attempt.reason : "Failed"}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-400">No failed sign-ins recorded.</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Edit, Eye, EyeOff, Package, Plus, Trash2 } from "lucide-react";
+import type { InsertProduct, Product } from "@shared/schema";
+import { COOLING_TYPE_OPTIONS, HASHRATE_UNITS, efficiencyUnit, formatUsd, getCoolingLabel, productEfficiency } from "@shared/products";
+import { adminFetch } from "@/lib/adminApi";
+
+interface ProductFormState {
+  slug: string;
+  model: string;
+  manufacturer: string;
+  algorithm: string;
+  hashrate: string;
+  hashrateUnit: string;
+  powerWatts: string;
+  efficiency: string;
+  coolingType: string;
+  description: string;
+  bestFor: string;
+  warrantyMonths: string;
+  images: string;
+  stock: string;
+  price: string;
+  visible: boolean;
+  sortOrder: string;
+}
+
+const EMPTY_FORM: ProductFormState = {
+  slug: "",
+  model: "",
+  manufacturer: "",
+  algorithm: "SHA-256",
+  hashrate: "",
+  hashrateUnit: "TH/s",
+  powerWatts: "",
+  efficiency: "",
+  coolingType: "air",
+  description: "",
+  bestFor: "",
+  warrantyMonths: "",
+  images: "",
+  stock: "0",
+  price: "",
+  visible: true,
+  sortOrder: "0",
+};
+
+function toFormState(product: Product): ProductFormState {
+  return {
+    slug: product.slug,
+    model: product.model,
+    manufacturer: product.manufacturer,
+    algorithm: product.algorithm,
+    hashrate: String(product.hashrate),
+    hashrateUnit: product.hashrateUnit,
+    powerWatts: String(product.powerWatts),
+    efficiency: product.efficiency !== null ? String(product.efficiency) : "",
+    coolingType: product.coolingType,
+    description: product.description ?? "",
+    bestFor: product.bestFor ?? "",
+    warrantyMonths: product.warrantyMonths !== null ? String(product.warrantyMonths) : "",
+    images: product.images.join("\n"),
+    stock: String(product.stock),
+    price: product.price !== null ? String(product.price) : "",
+    visible: product.visible,
+    sortOrder: String(product.sortOrder),
+  };
+}
+
+// Blank optional inputs are saved as empty; anything else is left for the server to validate
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+const toText = (value: string) => (value.trim() === "" ? null : value.trim());
+
+// The slug defaults to the manufacturer and model when the admin leaves it empty
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+function toPayload(form: ProductFormState) {
+  return {
+    slug: form.slug.trim() || slugify(`${form.manufacturer} ${form.model}`),
+    model: form.model,
+    manufacturer: form.manufacturer,
+    algorithm: form.algorithm,
+    hashrate: Number(form.hashrate),
+    hashrateUnit: form.hashrateUnit,
+    powerWatts: Number(form.powerWatts),
+    efficiency: toNumber(form.efficiency),
+    coolingType: form.coolingType,
+    description: toText(form.description),
+    bestFor: toText(form.bestFor),
+    warrantyMonths: toNumber(form.warrantyMonths),
+    images: form.images.split("\n").map((line) => line.trim()).filter(Boolean),
+    stock: Number(form.stock || 0),
+    price: toNumber(form.price),
+    visible: form.visible,
+    sortOrder: Number(form.sortOrder || 0),
+  } as InsertProduct;
+}
+
+// The hardware catalog behind the public store page: specs, images, stock, price and visibility
+export default function ProductsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Product | "new" | null>(null);
+  const [form, setForm] = useState<ProductFormState>(EMPTY_FORM);
+
+  const { data: products, isLoading } = useQuery<Product[]>({
+    queryKey: ["/api/admin/products"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/products");
+      if (!res.ok) throw new Error("Failed to fetch products");
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/products"] });
+    // The store page reads the public list
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ productId, product }: { productId: number | null; product: InsertProduct }) => {
+      const res = await adminFetch(productId ? `/api/admin/products/${productId}` : "/api/admin/products", {
+        method: productId ? "PUT" : "POST",
+        body: JSON.stringify(product),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to save product");
+      return body;
+    },
+    onSuccess: (_, { productId }) => {
+      refresh();
+      setEditing(null);
+      toast({ title: productId ? "Product updated" : "Product added" });
+    },
+    onError: onError("Failed to save product"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      const res = await adminFetch(`/api/admin/products/${productId}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to delete product");
+      return body;
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Product deleted" });
+    },
+    onError: onError("Failed to delete product"),
+  });
+
+  const openEditor = (product: Product | "new") => {
+    setForm(product === "new" ? EMPTY_FORM : toFormState(product));
+    setEditing(product);
+  };
+
+  const toggleVisible = (product: Product) => {
+    saveMutation.mutate({ productId: product.id, product: toPayload({ ...toFormState(product), visible: !product.visible }) });
+  };
+
+  const confirmDelete = (product: Product) => {
+    if (window.confirm(`Delete ${product.manufacturer} ${product.model}? To take it off the store for now, hide it instead.`)) {
+      deleteMutation.mutate(product.id);
+    }
+  };
+
+  const update = (field: keyof ProductFormState) => (value: string) => setForm((current) => ({ ...current, [field]: value }));
+  const editingId = editing && editing !== "new" ? editing.id : null;
+  const inputClass = "bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400";
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-white flex items-center">
+            <Package className="w-5 h-5 mr-2 text-orange-500" />
+            Hardware Catalog
+          </CardTitle>
+          <CardDescription className="text-gray-300">
+            Visible products are listed on the mining store page in this order.
+          </CardDescription>
+        </div>
+        <Button onClick={() => openEditor("new")} className="bg-orange-600 hover:bg-orange-700 text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Product
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !products?.length ? (
+          <p className="text-center text-gray-300 py-8">No products yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-orange-500/30">
+                  <TableHead className="text-gray-300">Product</TableHead>
+                  <TableHead className="text-gray-300">Hashrate</TableHead>
+                  <TableHead className="text-gray-300">Power</TableHead>
+                  <TableHead className="text-gray-300">Efficiency</TableHead>
+                  <TableHead className="text-gray-300">Cooling</TableHead>
+                  <TableHead className="text-gray-300">Stock</TableHead>
+                  <TableHead className="text-gray-300">Price</TableHead>
+                  <TableHead className="text-gray-300">Store</TableHead>
+                  <TableHead className="text-gray-300">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => {
+                  const efficiency = productEfficiency(product);
+                  return (
+                    <TableRow key={product.id} className="border-orange-500/20">
+                      <TableCell className="text-white">
+                        <div className="font-medium">{product.manufacturer} {product.model}</div>
+                        <div className="text-xs text-gray-400">{product.algorithm} · {product.slug}</div>
+                      </TableCell>
+                      <TableCell className="text-white">{product.hashrate} {product.hashrateUnit}</TableCell>
+                      <TableCell className="text-white">{product.powerWatts}W</TableCell>
+                      <TableCell className="text-white">
+                        {efficiency !== null ? `${efficiency} ${efficiencyUnit(product.hashrateUnit)}` : "-"}
+                      </TableCell>
+                      <TableCell className="text-white">{getCoolingLabel(product.coolingType)}</TableCell>
+                      <TableCell className="text-white">{product.stock}</TableCell>
+                      <TableCell className="text-white">{product.price !== null ? formatUsd(product.price) : "On request"}</TableCell>
+                      <TableCell>
+                        {product.visible ? (
+                          <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Listed</Badge>
+                        ) : (
+                          <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">Hidden</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => toggleVisible(product)}
+                            disabled={saveMutation.isPending}
+                            className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                            title={product.visible ? "Hide from the store" : "List on the store"}
+                          >
+                            {product.visible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openEditor(product)}
+                            className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                            title="Edit Product"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => confirmDelete(product)}
+                            disabled={deleteMutation.isPending}
+                            className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                            title="Delete Product"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-orange-500 flex items-center">
+              <Package className="w-5 h-5 mr-2" />
+              {editingId ? "Edit Product" : "Add Product"}
+            </DialogTitle>
+            <DialogDescription className="text-gray-300">
+              Leave efficiency empty to work it out from power and hashrate, and price empty to show "Price on request".
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
+            <div className="space-y-1">
+              <Label className="text-gray-300">Manufacturer</Label>
+              <Input value={form.manufacturer} onChange={(e) => update("manufacturer")(e.target.value)} placeholder="Bitmain" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Model</Label>
+              <Input value={form.model} onChange={(e) => update("model")(e.target.value)} placeholder="Antminer S21" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Slug</Label>
+              <Input
+                value={form.slug}
+                onChange={(e) => update("slug")(e.target.value)}
+                placeholder={slugify(`${form.manufacturer} ${form.model}`) || "bitmain-antminer-s21"}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Algorithm</Label>
+              <Input value={form.algorithm} onChange={(e) => update("algorithm")(e.target.value)} placeholder="SHA-256" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Hashrate</Label>
+              <div className="flex space-x-2">
+                <Input type="number" min="0" step="any" value={form.hashrate} onChange={(e) => update("hashrate")(e.target.value)} className={inputClass} />
+                <Select value={form.hashrateUnit} onValueChange={update("hashrateUnit")}>
+                  <SelectTrigger className="bg-white/10 border-orange-500/30 text-white w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                    {HASHRATE_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit} className="text-white">{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Power (W)</Label>
+              <Input type="number" min="1" step="1" value={form.powerWatts} onChange={(e) => update("powerWatts")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Efficiency ({efficiencyUnit(form.hashrateUnit)})</Label>
+              <Input type="number" min="0" step="any" value={form.efficiency} onChange={(e) => update("efficiency")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Cooling</Label>
+              <Select value={form.coolingType} onValueChange={update("coolingType")}>
+                <SelectTrigger className="bg-white/10 border-orange-500/30 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                  {COOLING_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className="text-white">{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Best for</Label>
+              <Input value={form.bestFor} onChange={(e) => update("bestFor")(e.target.value)} placeholder="Standard Deployment" className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Warranty (months)</Label>
+              <Input type="number" min="0" step="1" value={form.warrantyMonths} onChange={(e) => update("warrantyMonths")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Stock</Label>
+              <Input type="number" min="0" step="1" value={form.stock} onChange={(e) => update("stock")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Price (USD)</Label>
+              <Input type="number" min="0" step="1" value={form.price} onChange={(e) => update("price")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label className="text-gray-300">Description</Label>
+              <Textarea value={form.description} onChange={(e) => update("description")(e.target.value)} maxLength={2000} className={inputClass} />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label className="text-gray-300">Images (one URL per line, main image first)</Label>
+              <Textarea
+                value={form.images}
+                onChange={(e) => update("images")(e.target.value)}
+                placeholder="/images/products/antminer-s21.png"
+                rows={3}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Position</Label>
+              <Input type="number" step="1" value={form.sortOrder} onChange={(e) => update("sortOrder")(e.target.value)} className={inputClass} />
+            </div>
+            <div className="flex items-center space-x-3 pt-6">
+              <Switch checked={form.visible} onCheckedChange={(visible) => setForm((current) => ({ ...current, visible }))} />
+              <Label className="text-gray-300">Listed on the store</Label>
+            </div>
+          </div>
+
+          <DialogFooter className="flex space-x-2">
+            <Button variant="outline" onClick={() => setEditing(null)} className="border-gray-500 text-gray-300">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate({ productId: editingId, product: toPayload(form) })}
+              disabled={!form.manufacturer.trim() || !form.model.trim() || !form.hashrate || !form.powerWatts || saveMutation.isPending}
+              className="bg-orange-600 hover:bg-orange-700 text-white"
+            >
+              {saveMutation.isPending ? "Saving..." : editingId ? "Save Product" : "Add Product"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,478 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Building, Download, FileText, Mail, Phone, Plus, Send, Trash2 } from "lucide-react";
+import type { Quote, QuoteRequest, QuoteRequestItem, QuoteRequestStatus } from "@shared/schema";
+import { QUOTE_REQUEST_STATUSES, quoteTotals } from "@shared/quotes";
+import { formatUsd } from "@shared/products";
+import { SPAM_THRESHOLD } from "@shared/spam";
+import { adminFetch, downloadAdminFile } from "@/lib/adminApi";
+
+// Shapes returned by the quote endpoints
+type QuoteRequestSummary = QuoteRequest & { units: number; latestVersion: number | null; latestTotal: number | null };
+
+interface QuoteRequestDetail {
+  request: QuoteRequest;
+  items: (QuoteRequestItem & { currentPrice: number | null })[];
+  quotes: Quote[];
+}
+
+const STATUS_LABELS: Record<QuoteRequestStatus, string> = {
+  new: "New",
+  quoted: "Quoted",
+  closed: "Closed",
+};
+
+const STATUS_BADGES: Record<QuoteRequestStatus, string> = {
+  new: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  quoted: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+  closed: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+};
+
+interface LineFormState {
+  productId: number | null;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+// A revision starts from the latest quote; the first one from the requested items at catalog price
+function initialLines(detail: QuoteRequestDetail): LineFormState[] {
+  const [latest] = detail.quotes;
+  if (latest) {
+    return latest.lines.map((line) => ({
+      productId: line.productId,
+      description: line.description,
+      quantity: String(line.quantity),
+      unitPrice: String(line.unitPrice),
+    }));
+  }
+  return detail.items.map((item) => ({
+    productId: item.productId,
+    description: item.productName,
+    quantity: String(item.quantity),
+    unitPrice: item.currentPrice !== null ? String(item.currentPrice) : "",
+  }));
+}
+
+const toNumber = (value: string) => (value.trim() === "" ? 0 : Number(value));
+
+interface QuotesPanelProps {
+  canUpdate: boolean;
+}
+
+// Quote requests from the store's cart, and the builder for pricing and issuing versioned quotes
+export default function QuotesPanel({ canUpdate }: QuotesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openRequestId, setOpenRequestId] = useState<number | null>(null);
+
+  const { data: requests, isLoading } = useQuery<QuoteRequestSummary[]>({
+    queryKey: ["/api/admin/quotes"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/quotes");
+      if (!res.ok) throw new Error("Failed to fetch quote requests");
+      return res.json();
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ requestId, status }: { requestId: number; status: QuoteRequestStatus }) => {
+      const res = await adminFetch(`/api/admin/quotes/${requestId}/status`, {
+        method: "PUT",
+        body: JSON.stringify({ status }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update status");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <FileText className="w-5 h-5 mr-2 text-orange-500" />
+          Quote Requests
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          Carts submitted from the mining store. Open one to price it and email the customer a quote.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : !requests?.length ? (
+          <p className="text-center text-gray-300 py-8">No quote requests yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-orange-500/30">
+                  <TableHead className="text-gray-300">Customer</TableHead>
+                  <TableHead className="text-gray-300">Units</TableHead>
+                  <TableHead className="text-gray-300">Latest quote</TableHead>
+                  <TableHead className="text-gray-300">Status</TableHead>
+                  <TableHead className="text-gray-300">Received</TableHead>
+                  <TableHead className="text-gray-300">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id} className="border-orange-500/20">
+                    <TableCell className="text-white">
+                      <div className="font-medium flex items-center gap-2">
+                        {request.fullName}
+                        {request.spamScore >= SPAM_THRESHOLD && (
+                          <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Likely spam</Badge>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-400">{request.companyName ?? request.email}</div>
+                    </TableCell>
+                    <TableCell className="text-white">{request.units}</TableCell>
+                    <TableCell className="text-white">
+                      {request.latestVersion !== null && request.latestTotal !== null
+                        ? `v${request.latestVersion} · ${formatUsd(request.latestTotal)}`
+                        : "-"}
+                    </TableCell>
+                    <TableCell>
+                      {canUpdate ? (
+                        <Select
+                          value={request.status}
+                          onValueChange={(status) => statusMutation.mutate({ requestId: request.id, status: status as QuoteRequestStatus })}
+                        >
+                          <SelectTrigger className="bg-white/10 border-orange-500/30 text-white w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                            {QUOTE_REQUEST_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status} className="text-white">
+                                {STATUS_LABELS[status]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge className={STATUS_BADGES[request.status as QuoteRequestStatus]}>
+                          {STATUS_LABELS[request.status as QuoteRequestStatus] ?? request.status}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-gray-300 text-sm">
+                      {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setOpenRequestId(request.id)}
+                        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                      >
+                        {canUpdate ? "Price" : "View"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <QuoteBuilderDialog requestId={openRequestId} canUpdate={canUpdate} onClose={() => setOpenRequestId(null)} />
+    </Card>
+  );
+}
+
+interface QuoteBuilderDialogProps {
+  requestId: number | null;
+  canUpdate: boolean;
+  onClose: () => void;
+}
+
+function QuoteBuilderDialog({ requestId, canUpdate, onClose }: QuoteBuilderDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [lines, setLines] = useState<LineFormState[]>([]);
+  const [shipping, setShipping] = useState("");
+  const [duties, setDuties] = useState("");
+  const [notes, setNotes] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+
+  const { data: detail, isLoading } = useQuery<QuoteRequestDetail>({
+    queryKey: ["/api/admin/quotes", requestId],
+    queryFn: async () => {
+      const res = await adminFetch(`/api/admin/quotes/${requestId}`);
+      if (!res.ok) throw new Error("Failed to fetch quote request");
+      return res.json();
+    },
+    enabled: requestId !== null,
+  });
+
+  // Refill the builder whenever a request is opened or a new version was issued
+  useEffect(() => {
+    if (!detail) return;
+    const [latest] = detail.quotes;
+    setLines(initialLines(detail));
+    setShipping(latest ? String(latest.shipping) : "");
+    setDuties(latest ? String(latest.duties) : "");
+    setNotes(latest?.notes ?? "");
+    setValidUntil("");
+  }, [detail?.request.id, detail?.quotes.length]);
+
+  const parsedLines = lines.map((line) => ({
+    productId: line.productId,
+    description: line.description.trim(),
+    quantity: toNumber(line.quantity),
+    unitPrice: toNumber(line.unitPrice),
+  }));
+  const totals = quoteTotals(parsedLines, toNumber(shipping), toNumber(duties));
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const res = await adminFetch(`/api/admin/quotes/${requestId}/versions`, {
+        method: "POST",
+        body: JSON.stringify({
+          lines: parsedLines,
+          shipping: toNumber(shipping),
+          duties: toNumber(duties),
+          notes: notes.trim() || null,
+          validUntil: validUntil || null,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to issue quote");
+      return body as { quote: Quote; emailed: boolean };
+    },
+    onSuccess: ({ quote, emailed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/quotes"] });
+      if (emailed) {
+        toast({ title: `Quote v${quote.version} issued`, description: "It was emailed to the customer." });
+      } else {
+        toast({
+          title: `Quote v${quote.version} issued, but not emailed`,
+          description: "The email could not be sent. Forward the quote to the customer yourself.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to issue quote", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const downloadQuote = async (quote: Quote) => {
+    try {
+      await downloadAdminFile(`/api/admin/quotes/${requestId}/versions/${quote.version}/pdf`, `quote-${requestId}-v${quote.version}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not download the quote",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateLine = (index: number, field: keyof Omit<LineFormState, "productId">) => (value: string) =>
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+
+  const request = detail?.request;
+  const inputClass = "bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400";
+  const canIssue = lines.length > 0 && lines.every((line) => line.description.trim() && line.quantity && line.unitPrice);
+
+  return (
+    <Dialog open={requestId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-orange-500 flex items-center">
+            <FileText className="w-5 h-5 mr-2" />
+            Quote Request #{requestId}
+          </DialogTitle>
+          <DialogDescription className="text-gray-300">
+            {canUpdate
+              ? "Price each line and add shipping and duties to the UAE. Issuing emails the customer a new version."
+              : "What the customer asked for and the quotes sent so far."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail || !request ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-6 py-2">
+            <div className="rounded-lg border border-orange-500/20 bg-white/5 p-4 space-y-1 text-sm">
+              <p className="text-white font-medium">{request.fullName}</p>
+              <p className="flex items-center text-gray-300"><Mail className="w-3 h-3 mr-2" />{request.email}</p>
+              {request.companyName && (
+                <p className="flex items-center text-gray-300"><Building className="w-3 h-3 mr-2" />{request.companyName}</p>
+              )}
+              {request.phoneNumber && (
+                <p className="flex items-center text-gray-300"><Phone className="w-3 h-3 mr-2" />{request.phoneNumber}</p>
+              )}
+              <p className="text-gray-300 pt-2">
+                Requested: {detail.items.map((item) => `${item.quantity} x ${item.productName}`).join(", ")}
+              </p>
+              {request.message && <p className="text-gray-400 whitespace-pre-wrap pt-1">{request.message}</p>}
+            </div>
+
+            {canUpdate && (
+              <div className="space-y-4">
+                <h3 className="text-sm font-medium text-white">
+                  {detail.quotes.length > 0 ? `New version (v${detail.quotes[0].version + 1})` : "First quote"}
+                </h3>
+                <div className="space-y-2">
+                  {lines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <Input
+                        value={line.description}
+                        onChange={(e) => updateLine(index, "description")(e.target.value)}
+                        placeholder="Description"
+                        maxLength={200}
+                        className={`${inputClass} col-span-6`}
+                      />
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, "quantity")(e.target.value)}
+                        aria-label="Quantity"
+                        className={`${inputClass} col-span-2`}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={line.unitPrice}
+                        onChange={(e) => updateLine(index, "unitPrice")(e.target.value)}
+                        placeholder="Unit USD"
+                        className={`${inputClass} col-span-3`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setLines((current) => current.filter((_, i) => i !== index))}
+                        className="col-span-1 text-gray-400 hover:text-red-400 hover:bg-transparent"
+                        title="Remove line"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setLines((current) => [...current, { productId: null, description: "", quantity: "1", unitPrice: "" }])}
+                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Line
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <Label className="text-gray-300">Shipping to UAE (USD)</Label>
+                    <Input type="number" min="0" step="1" value={shipping} onChange={(e) => setShipping(e.target.value)} className={inputClass} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-gray-300">Duties and VAT (USD)</Label>
+                    <Input type="number" min="0" step="1" value={duties} onChange={(e) => setDuties(e.target.value)} className={inputClass} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-gray-300">Valid until</Label>
+                    <Input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className={inputClass} />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-gray-300">Notes for the customer</Label>
+                  <Textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Lead time, payment terms, hosting options..."
+                    maxLength={5000}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="text-right text-sm space-y-1">
+                  <p className="text-gray-300">Subtotal: {formatUsd(totals.subtotal)}</p>
+                  <p className="text-white font-bold text-base">Total: {formatUsd(totals.total)}</p>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-white">Issued quotes</h3>
+              {detail.quotes.length === 0 ? (
+                <p className="text-sm text-gray-400">None yet</p>
+              ) : (
+                detail.quotes.map((quote) => (
+                  <div key={quote.id} className="rounded border border-orange-500/20 bg-white/5 p-3 text-sm space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-white font-medium">v{quote.version} · {formatUsd(quote.total)}</span>
+                      <span className="flex items-center gap-2 text-xs text-gray-400">
+                        {format(new Date(quote.createdAt), "MMM d, yyyy")} by {quote.issuedByUsername}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => downloadQuote(quote)}
+                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                          title="Download PDF"
+                        >
+                          <Download className="w-4 h-4" />
+                        </Button>
+                      </span>
+                    </div>
+                    <p className="text-gray-300">
+                      {quote.lines.map((line) => `${line.quantity} x ${line.description} @ ${formatUsd(line.unitPrice)}`).join(", ")}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      Shipping {formatUsd(quote.shipping)} · Duties {formatUsd(quote.duties)}
+                      {quote.validUntil && ` · Valid until ${quote.validUntil}`}
+                      {quote.emailedAt ? " · Emailed" : " · Not emailed"}
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex space-x-2">
+          <Button variant="outline" onClick={onClose} className="border-gray-500 text-gray-300">
+            Close
+          </Button>
+          {canUpdate && (
+            <Button
+              onClick={() => issueMutation.mutate()}
+              disabled={!canIssue || issueMutation.isPending}
+              className="bg-orange-600 hover:bg-orange-700 text-white"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {issueMutation.isPending ? "Issuing..." : "Issue & Email Quote"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
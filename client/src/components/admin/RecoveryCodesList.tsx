@@ -0,0 +1,57 @@
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Download } from "lucide-react";
+
+// Freshly generated recovery codes; the server only keeps hashes, so this is the one chance to save them
+export default function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "Keep the codes somewhere safe, like a password manager" });
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([`71 Digital admin recovery codes\n\n${codes.join("\n")}\n`], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "71digital-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-300">
+        Each code signs you in once if you lose your authenticator app. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 bg-white/5 rounded-lg border border-orange-500/20 font-mono text-sm text-white">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={copyCodes}
+          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+        >
+          <Copy className="w-3 h-3 mr-1" />
+          Copy
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={downloadCodes}
+          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+        >
+          <Download className="w-3 h-3 mr-1" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
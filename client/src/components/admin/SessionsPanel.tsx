@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { LogOut, MonitorSmartphone, X } from "lucide-react";
+import { adminFetch } from "@/lib/adminApi";
+
+interface SessionSummary {
+  id: number;
+  adminId: number;
+  username: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: string;
+  expiresAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// "Chrome on Windows" from a user-agent string; good enough to recognise your own devices
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  if (!browser && !os) return userAgent.slice(0, 60);
+  return [browser ?? "Browser", os && `on ${os}`].filter(Boolean).join(" ");
+}
+
+interface SessionsPanelProps {
+  canManageAll: boolean;
+}
+
+// Where you (or, for owners, anyone) are signed in, with sign-out per session
+export default function SessionsPanel({ canManageAll }: SessionsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [scope, setScope] = useState<"mine" | "all">("mine");
+
+  const url = `/api/admin/sessions${scope === "all" ? "?scope=all" : ""}`;
+  const { data: sessions, isLoading } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/admin/sessions", url],
+    queryFn: async () => {
+      const res = await adminFetch(url);
+      if (!res.ok) throw new Error("Failed to fetch sessions");
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (session: SessionSummary) => {
+      const res = await adminFetch(`/api/admin/sessions/${session.id}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to revoke session");
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        localStorage.removeItem("adminUser");
+        setLocation("/admin/login");
+        return;
+      }
+      toast({ title: "Session signed out" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sessions"] });
+    },
+    onError: onError("Failed to revoke session"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await adminFetch("/api/admin/sessions/revoke-others", { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to revoke sessions");
+      return body as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      toast({ title: "Other sessions signed out", description: `${revoked} session${revoked === 1 ? "" : "s"} ended` });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sessions"] });
+    },
+    onError: onError("Failed to revoke sessions"),
+  });
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start space-y-4 sm:space-y-0">
+          <div>
+            <CardTitle className="text-white flex items-center">
+              <MonitorSmartphone className="w-5 h-5 mr-2 text-orange-500" />
+              Sessions
+            </CardTitle>
+            <CardDescription className="text-gray-300">
+              Sessions end after a day without use and after a week at most. Changing a password signs out the account's other sessions.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {canManageAll && (
+              <Select value={scope} onValueChange={(value) => setScope(value as "mine" | "all")}>
+                <SelectTrigger className="w-[160px] bg-white/10 border-orange-500/30 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                  <SelectItem value="mine" className="text-white">My sessions</SelectItem>
+                  <SelectItem value="all" className="text-white">All admins</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+              className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out other sessions
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-orange-500/30">
+                  {scope === "all" && <TableHead className="text-gray-300">Admin</TableHead>}
+                  <TableHead className="text-gray-300">Device</TableHead>
+                  <TableHead className="text-gray-300">Address</TableHead>
+                  <TableHead className="text-gray-300">Signed in</TableHead>
+                  <TableHead className="text-gray-300">Last active</TableHead>
+                  <TableHead className="text-gray-300"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions?.map((session) => (
+                  <TableRow key={session.id} className="border-orange-500/20">
+                    {scope === "all" && <TableCell className="text-white">{session.username}</TableCell>}
+                    <TableCell className="text-white" title={session.userAgent ?? undefined}>
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <Badge className="ml-2 bg-green-500/20 text-green-400 border-green-500/30">This device</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-gray-300">{session.ipAddress ?? "—"}</TableCell>
+                    <TableCell className="text-gray-300 whitespace-nowrap">
+                      {format(new Date(session.createdAt), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-gray-300 whitespace-nowrap">
+                      {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => revokeMutation.mutate(session)}
+                        disabled={revokeMutation.isPending}
+                        className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                        title={session.current ? "Sign out" : "Sign out this session"}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, ShieldCheck, ShieldOff } from "lucide-react";
+import { adminFetch } from "@/lib/adminApi";
+import RecoveryCodesList from "@/components/admin/RecoveryCodesList";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrolment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+const postJson = async (url: string, data: unknown, fallbackError: string) => {
+  const res = await adminFetch(url, { method: "POST", body: JSON.stringify(data) });
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || fallbackError);
+  return body;
+};
+
+// Enrol in, manage and turn off two-factor sign-in for the signed-in admin
+export default function TwoFactorPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [disabling, setDisabling] = useState(false);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/admin/2fa"],
+    queryFn: async () => {
+      const res = await adminFetch("/api/admin/2fa");
+      if (!res.ok) throw new Error("Failed to fetch two-factor status");
+      return res.json();
+    },
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/2fa"] });
+
+  const setupMutation = useMutation({
+    mutationFn: () => postJson("/api/admin/2fa/setup", {}, "Failed to start two-factor enrolment"),
+    onSuccess: (data: Enrolment) => {
+      setEnrolment(data);
+      setRecoveryCodes(null);
+      setCode("");
+    },
+    onError: onError("Failed to start two-factor enrolment"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => postJson("/api/admin/2fa/enable", { code }, "Failed to turn on two-factor sign-in"),
+    onSuccess: (data) => {
+      setEnrolment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      toast({ title: "Two-factor sign-in is on", description: "You'll be asked for a code each time you sign in" });
+      refresh();
+    },
+    onError: onError("Failed to turn on two-factor sign-in"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => postJson("/api/admin/2fa/recovery-codes", { code }, "Failed to generate recovery codes"),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      toast({ title: "New recovery codes", description: "Your previous recovery codes no longer work" });
+      refresh();
+    },
+    onError: onError("Failed to generate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => postJson("/api/admin/2fa/disable", { password, code }, "Failed to turn off two-factor sign-in"),
+    onSuccess: () => {
+      setDisabling(false);
+      setRecoveryCodes(null);
+      setPassword("");
+      setCode("");
+      toast({ title: "Two-factor sign-in is off" });
+      refresh();
+    },
+    onError: onError("Failed to turn off two-factor sign-in"),
+  });
+
+  const codeInput = (placeholder: string) => (
+    <Input
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder={placeholder}
+      autoComplete="one-time-code"
+      className="w-[220px] bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+    />
+  );
+
+  return (
+    <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2 text-orange-500" />
+          Two-Factor Sign-in
+          {status && (
+            <Badge className={`ml-3 ${status.enabled ? "bg-green-500/20 text-green-300 border-green-500/30" : "bg-gray-500/20 text-gray-300 border-gray-500/30"}`}>
+              {status.enabled ? "On" : "Off"}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-gray-300">
+          Ask for a code from an authenticator app (Google Authenticator, 1Password, Authy…) after your password
+          {status?.required && " · required for all admin accounts"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <>
+            {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+            {!status.enabled && !enrolment && (
+              <Button
+                onClick={() => setupMutation.mutate()}
+                disabled={setupMutation.isPending}
+                className="bg-orange-600 hover:bg-orange-700 text-white"
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                Set up two-factor sign-in
+              </Button>
+            )}
+
+            {!status.enabled && enrolment && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-300">
+                  Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <img src={enrolment.qrCode} alt="Two-factor QR code" className="w-[200px] h-[200px] rounded bg-white p-1" />
+                <p className="text-xs text-gray-400">
+                  Can't scan it? Enter this key instead: <span className="font-mono text-gray-200 break-all">{enrolment.secret}</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {codeInput("6-digit code")}
+                  <Button
+                    onClick={() => enableMutation.mutate()}
+                    disabled={!code || enableMutation.isPending}
+                    className="bg-orange-600 hover:bg-orange-700 text-white"
+                  >
+                    Turn on
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setEnrolment(null)}
+                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {status.enabled && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-300">
+                  {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+                  {disabling
+                    ? " Confirm your password and a code to turn two-factor sign-in off."
+                    : " Enter a current code to generate a new set."}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {disabling && (
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Current password"
+                      autoComplete="current-password"
+                      className="w-[220px] bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400"
+                    />
+                  )}
+                  {codeInput(disabling ? "Code or recovery code" : "6-digit code")}
+                  {disabling ? (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => disableMutation.mutate()}
+                        disabled={!password || !code || disableMutation.isPending}
+                        className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                      >
+                        <ShieldOff className="w-4 h-4 mr-2" />
+                        Turn off
+                      </Button>
+                      <Button
+                        variant="outline"
+                        onClick={() => setDisabling(false)}
+                        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                      >
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => regenerateMutation.mutate()}
+                        disabled={!code || regenerateMutation.isPending}
+                        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                      >
+                        New recovery codes
+                      </Button>
+                      {!status.required && (
+                        <Button
+                          variant="outline"
+                          onClick={() => setDisabling(true)}
+                          className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                        >
+                          <ShieldOff className="w-4 h-4 mr-2" />
+                          Turn off
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { adminFetch } from "@/lib/adminApi";
+
+export const ADMIN_LIST_PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+export interface AdminListPage<T> {
+  entries: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AdminListFilters {
+  status: string; // "all" for no filter
+  service: string;
+  search: string;
+  from: string; // yyyy-mm-dd, local calendar day
+  to: string;
+  spam: string; // "all", "hide" or "only"
+  sort: string; // "<field>:<asc|desc>"
+}
+
+async function fetchList<T>(url: string): Promise<AdminListPage<T>> {
+  const res = await adminFetch(url);
+  if (!res.ok) throw new Error("Failed to fetch list");
+  return res.json();
+}
+
+function useDebounced<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeoutId);
+  }, [value, delay]);
+  return debounced;
+}
+
+// One page of a server-filtered admin list. Query keys start with the endpoint, so
+// invalidating e.g. ["/api/admin/contacts"] after a change refetches every page.
+export function useAdminList<T>(endpoint: string, { enabled, defaultSort }: { enabled: boolean; defaultSort: string }) {
+  const initialFilters: AdminListFilters = { status: "all", service: "all", search: "", from: "", to: "", spam: "all", sort: defaultSort };
+  const [filters, setFilters] = useState(initialFilters);
+  const [page, setPage] = useState(0);
+  const search = useDebounced(filters.search.trim(), SEARCH_DEBOUNCE_MS);
+
+  const [sort, order] = filters.sort.split(":");
+  const filterParams = new URLSearchParams({ sort, order });
+  if (filters.status !== "all") filterParams.set("status", filters.status);
+  if (filters.service !== "all") filterParams.set("service", filters.service);
+  if (search) filterParams.set("q", search);
+  if (filters.spam !== "all") filterParams.set("spam", filters.spam);
+  // Date inputs are local calendar days; send the full day as an instant range
+  if (filters.from) filterParams.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) filterParams.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  const url = `${endpoint}?page=${page + 1}&pageSize=${ADMIN_LIST_PAGE_SIZE}&${filterParams.toString()}`;
+
+  const query = useQuery<AdminListPage<T>>({
+    queryKey: [endpoint, url],
+    queryFn: () => fetchList<T>(url),
+    enabled,
+    placeholderData: (previous) => previous,
+  });
+
+  const total = query.data?.total ?? 0;
+  const hasFilters = filters.status !== "all" || filters.service !== "all" || !!filters.search || !!filters.from || !!filters.to || filters.spam !== "all";
+
+  const setFilter = (key: keyof AdminListFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setFilters((prev) => ({ ...initialFilters, sort: prev.sort }));
+    setPage(0);
+  };
+
+  return {
+    ...query,
+    entries: query.data?.entries ?? [],
+    total,
+    filters,
+    setFilter,
+    clearFilters,
+    hasFilters,
+    page,
+    setPage,
+    pageCount: Math.max(Math.ceil(total / ADMIN_LIST_PAGE_SIZE), 1),
+    // Every row matching the current filters, e.g. /api/admin/contacts/export?format=csv&...
+    exportUrl: (format: "csv" | "xlsx") => `${endpoint}/export?format=${format}&${filterParams.toString()}`,
+  };
+}
+
+// Unfiltered row count for the dashboard's summary cards
+export function useAdminListTotal(endpoint: string, enabled: boolean) {
+  const url = `${endpoint}?pageSize=1`;
+  const { data } = useQuery<AdminListPage<unknown>>({
+    queryKey: [endpoint, url],
+    queryFn: () => fetchList<unknown>(url),
+    enabled,
+  });
+  return data?.total ?? 0;
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "quoteCart";
+
+export interface QuoteCartItem {
+  productId: number;
+  quantity: number;
+}
+
+function readCart(): QuoteCartItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored)
+      ? stored.filter((item) => Number.isInteger(item?.productId) && Number.isInteger(item?.quantity) && item.quantity > 0)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// The store's quote cart, kept in localStorage so it survives reloads until the request is sent
+export function useQuoteCart() {
+  const [items, setItems] = useState<QuoteCartItem[]>(readCart);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  const add = (productId: number, quantity = 1) =>
+    setItems((current) =>
+      current.some((item) => item.productId === productId)
+        ? current.map((item) => (item.productId === productId ? { ...item, quantity: item.quantity + quantity } : item))
+        : [...current, { productId, quantity }],
+    );
+
+  const setQuantity = (productId: number, quantity: number) =>
+    setItems((current) => current.map((item) => (item.productId === productId ? { ...item, quantity } : item)));
+
+  const remove = (productId: number) => setItems((current) => current.filter((item) => item.productId !== productId));
+
+  const clear = () => setItems([]);
+
+  return { items, add, setQuantity, remove, clear };
+}
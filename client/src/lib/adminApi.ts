@@ -0,0 +1,50 @@
+// The session itself is an HttpOnly cookie the browser sends on its own; requests that change
+// anything must also echo the CSRF token the server left in a readable cookie
+export function getAdminAuthHeaders(): Record<string, string> {
+  const csrfToken = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith("admin_csrf="))
+    ?.slice("admin_csrf=".length);
+  return csrfToken ? { "X-CSRF-Token": decodeURIComponent(csrfToken) } : {};
+}
+
+// Authenticated fetch for admin endpoints, with the same 10 second timeout the dashboard uses
+export async function adminFetch(url: string, init: RequestInit = {}, timeout = 10000): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetch(url, {
+      ...init,
+      headers: {
+        ...getAdminAuthHeaders(),
+        ...(typeof init.body === "string" ? { "Content-Type": "application/json" } : {}),
+        ...init.headers,
+      },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new Error("Request timeout - please check your connection");
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Saves an authenticated download (e.g. .ics or export files), using the server's filename when it sends one
+export async function downloadAdminFile(url: string, fallbackFilename: string): Promise<void> {
+  const res = await adminFetch(url);
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || "Download failed");
+  }
+  const disposition = res.headers.get("Content-Disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackFilename;
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+}
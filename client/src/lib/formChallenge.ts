@@ -0,0 +1,25 @@
+import { leadingZeroBits, type FormChallenge } from "@shared/spam";
+
+export interface SolvedChallenge {
+  challenge: string;
+  nonce: string;
+}
+
+// Fetches a proof-of-work challenge and searches for a nonce that satisfies it.
+// The public forms send the result along with their data.
+export async function solveFormChallenge(): Promise<SolvedChallenge> {
+  const response = await fetch("/api/form-challenge", { cache: "no-store" });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "Could not verify this browser. Please try again.");
+  }
+  const { challenge, difficulty }: FormChallenge = await response.json();
+
+  const encoder = new TextEncoder();
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${nonce}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return { challenge, nonce: String(nonce) };
+    }
+  }
+}
@@ -14,23 +14,83 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
-import { LogOut, Users, Calendar, Mail, Phone, Building, Clock, MessageSquare, UserPlus, Shield, Edit, Trash2, Settings, Check, X, CheckCircle, XCircle, Filter } from "lucide-react";
+import { LogOut, Users, Calendar, Mail, Phone, Building, Clock, MessageSquare, UserPlus, Shield, Edit, Trash2, Settings, Check, X, CheckCircle, XCircle, Filter, Activity, CalendarClock, CalendarPlus, ShieldCheck, ShieldOff, UserCheck, Reply, Briefcase, Package, FileText } from "lucide-react";
 import { format } from "date-fns";
 import { z } from "zod";
+import { ADMIN_ROLES, adminUsernameSchema } from "@shared/schema";
+import { hasPermission, ROLE_LABELS, type AdminPermission } from "@shared/permissions";
+import { PASSWORD_MAX_LENGTH, passwordProblems } from "@shared/passwords";
+import { CONTACT_SERVICE_OPTIONS, SERVICE_OPTIONS, getContactServiceLabel, getServiceLabel } from "@shared/services";
+import { BUSINESS_TIMEZONE, formatAppointmentTime } from "@shared/timezones";
+import { adminFetch, downloadAdminFile, getAdminAuthHeaders } from "@/lib/adminApi";
+import ActivityLogPanel from "@/components/admin/ActivityLogPanel";
+import AvailabilityPanel from "@/components/admin/AvailabilityPanel";
+import CalendarFeedDialog from "@/components/admin/CalendarFeedDialog";
+import ExportMenu from "@/components/admin/ExportMenu";
+import LoginSecurityPanel from "@/components/admin/LoginSecurityPanel";
+import ProductsPanel from "@/components/admin/ProductsPanel";
+import HostingPlansPanel from "@/components/admin/HostingPlansPanel";
+import CalculatorDefaultsPanel from "@/components/admin/CalculatorDefaultsPanel";
+import QuotesPanel from "@/components/admin/QuotesPanel";
+import TwoFactorPanel from "@/components/admin/TwoFactorPanel";
+import SessionsPanel from "@/components/admin/SessionsPanel";
+import ContactDetailDrawer, { useContactAssignees } from "@/components/admin/ContactDetailDrawer";
+import DealFormDialog from "@/components/admin/DealFormDialog";
+import DealsBoard, { useDeals } from "@/components/admin/DealsBoard";
+import { ListPagination, ListSearchControls, SpamBadge } from "@/components/admin/ListControls";
+import { useAdminList, useAdminListTotal } from "@/hooks/use-admin-list";
+
+// Optional; needed for the admin to reset a forgotten password themselves
+const adminEmailField = z.union([z.literal(""), z.string().trim().email("Please enter a valid email address")]);
+
+// Same policy the server enforces; an empty password on edit keeps the current one
+function checkPassword(data: { username: string; password?: string }, ctx: z.RefinementCtx) {
+  const problems = data.password ? passwordProblems(data.password, data.username) : [];
+  if (problems.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["password"], message: `Password needs: ${problems.join(", ").toLowerCase()}` });
+  }
+}
 
 const createAdminSchema = z.object({
-  username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-});
+  username: adminUsernameSchema,
+  email: adminEmailField,
+  password: z.string().min(1, "Password is required").max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`),
+  role: z.enum(ADMIN_ROLES),
+}).superRefine(checkPassword);
 
 const editAdminSchema = z.object({
-  username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().optional(),
-});
+  username: adminUsernameSchema,
+  email: adminEmailField,
+  password: z.string().max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`).optional(),
+  role: z.enum(ADMIN_ROLES),
+}).superRefine(checkPassword);
 
 type CreateAdminData = z.infer<typeof createAdminSchema>;
 type EditAdminData = z.infer<typeof editAdminSchema>;
 
+// Appointment start as the client sees it, and in GST for the team
+const clientTime = (appointment: { scheduledAt: string | Date; timezone: string }) =>
+  formatAppointmentTime(appointment.scheduledAt, appointment.timezone);
+const gstTime = (appointment: { scheduledAt: string | Date }) =>
+  `${formatAppointmentTime(appointment.scheduledAt, BUSINESS_TIMEZONE)} GST`;
+
+const CONTACT_SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "fullName:asc", label: "Name (A-Z)" },
+  { value: "fullName:desc", label: "Name (Z-A)" },
+  { value: "status:asc", label: "Status" },
+];
+
+const APPOINTMENT_SORT_OPTIONS = [
+  { value: "createdAt:desc", label: "Newest booking first" },
+  { value: "createdAt:asc", label: "Oldest booking first" },
+  { value: "scheduledAt:asc", label: "Earliest meeting first" },
+  { value: "scheduledAt:desc", label: "Latest meeting first" },
+  { value: "fullName:asc", label: "Name (A-Z)" },
+  { value: "status:asc", label: "Status" },
+];
+
 export default function AdminDashboard() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
@@ -43,9 +103,8 @@ export default function AdminDashboard() {
     isOpen: boolean;
   }>({ type: null, appointment: null, isOpen: false });
   const [rejectionReason, setRejectionReason] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [serviceFilter, setServiceFilter] = useState<string>("all");
-  const [contactStatusFilter, setContactStatusFilter] = useState<string>("all");
+  const [detailContactId, setDetailContactId] = useState<number | null>(null);
+  const [convertingAppointment, setConvertingAppointment] = useState<any>(null);
   const [contactAction, setContactAction] = useState<{
     type: 'respond' | 'ignore';
     contact: any;
@@ -56,7 +115,9 @@ export default function AdminDashboard() {
     resolver: zodResolver(createAdminSchema),
     defaultValues: {
       username: "",
+      email: "",
       password: "",
+      role: "read-only",
     },
   });
 
@@ -64,76 +125,62 @@ export default function AdminDashboard() {
     resolver: zodResolver(editAdminSchema),
     defaultValues: {
       username: "",
+      email: "",
       password: "",
+      role: "read-only",
     },
   });
 
   useEffect(() => {
-    const token = localStorage.getItem("adminToken");
     const user = localStorage.getItem("adminUser");
     
-    if (!token || !user) {
+    if (!user) {
       setLocation("/admin/login");
       return;
     }
     
     setAdminUser(JSON.parse(user));
+
+    // Refresh the cached account so role changes made by an owner take effect
+    fetch("/api/admin/me")
+      .then(async (res) => {
+        if (res.status === 401) {
+          localStorage.removeItem("adminUser");
+          setLocation("/admin/login");
+          return;
+        }
+        const data = await res.json();
+        if (data.success) {
+          localStorage.setItem("adminUser", JSON.stringify(data.admin));
+          setAdminUser(data.admin);
+        }
+      })
+      .catch((error) => console.error("Session refresh error:", error));
   }, [setLocation]);
 
-  const getAuthHeaders = () => {
-    const token = localStorage.getItem("adminToken");
-    return {
-      Authorization: `Bearer ${token}`,
-    };
-  };
+  const can = (permission: AdminPermission) => hasPermission(adminUser?.role, permission);
 
-  const { data: contacts, isLoading: contactsLoading, error: contactsError } = useQuery({
-    queryKey: ["/api/admin/contacts"],
-    queryFn: async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      try {
-        const res = await fetch("/api/admin/contacts", {
-          headers: getAuthHeaders(),
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-        if (!res.ok) throw new Error("Failed to fetch contacts");
-        return res.json();
-      } catch (error) {
-        clearTimeout(timeoutId);
-        if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error("Request timeout - please check your connection");
-        }
-        throw error;
-      }
-    },
-    enabled: !!adminUser,
+  const contactList = useAdminList<any>("/api/admin/contacts", {
+    enabled: !!adminUser && can("contacts:read"),
+    defaultSort: "createdAt:desc",
   });
-
-  const { data: appointments, isLoading: appointmentsLoading, error: appointmentsError } = useQuery({
-    queryKey: ["/api/admin/appointments"],
-    queryFn: async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      try {
-        const res = await fetch("/api/admin/appointments", {
-          headers: getAuthHeaders(),
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-        if (!res.ok) throw new Error("Failed to fetch appointments");
-        return res.json();
-      } catch (error) {
-        clearTimeout(timeoutId);
-        if (error instanceof Error && error.name === 'AbortError') {
-          throw new Error("Request timeout - please check your connection");
-        }
-        throw error;
-      }
-    },
-    enabled: !!adminUser,
+  const contactsLoading = contactList.isLoading;
+  const { data: contactAssignees } = useContactAssignees(!!adminUser && can("contacts:read"));
+  const ownerName = (adminId: number | null) =>
+    adminId ? contactAssignees?.find((admin) => admin.id === adminId)?.username ?? "Unknown" : null;
+
+  const appointmentList = useAdminList<any>("/api/admin/appointments", {
+    enabled: !!adminUser && can("appointments:read"),
+    defaultSort: "createdAt:desc",
   });
+  const appointmentsLoading = appointmentList.isLoading;
+  // An appointment can only become one deal, so hide the convert action once it has
+  const { data: deals } = useDeals(!!adminUser && can("deals:read"));
+  const canConvertAppointment = (appointment: any) =>
+    can("deals:update") && appointment.status !== "rejected" && !deals?.some((deal) => deal.appointmentId === appointment.id);
+
+  const totalContacts = useAdminListTotal("/api/admin/contacts", !!adminUser && can("contacts:read"));
+  const totalAppointments = useAdminListTotal("/api/admin/appointments", !!adminUser && can("appointments:read"));
 
   const { data: admins, isLoading: adminsLoading, error: adminsError } = useQuery({
     queryKey: ["/api/admin/admins"],
@@ -142,7 +189,7 @@ export default function AdminDashboard() {
       const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
       try {
         const res = await fetch("/api/admin/admins", {
-          headers: getAuthHeaders(),
+          headers: getAdminAuthHeaders(),
           signal: controller.signal,
         });
         clearTimeout(timeoutId);
@@ -156,7 +203,7 @@ export default function AdminDashboard() {
         throw error;
       }
     },
-    enabled: !!adminUser,
+    enabled: !!adminUser && can("admins:read"),
   });
 
   const createAdminMutation = useMutation({
@@ -165,12 +212,13 @@ export default function AdminDashboard() {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          ...getAuthHeaders(),
+          ...getAdminAuthHeaders(),
         },
         body: JSON.stringify(data),
       });
-      if (!res.ok) throw new Error("Failed to create admin");
-      return res.json();
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to create admin");
+      return body;
     },
     onSuccess: (data) => {
       if (data.success) {
@@ -203,12 +251,13 @@ export default function AdminDashboard() {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
-          ...getAuthHeaders(),
+          ...getAdminAuthHeaders(),
         },
         body: JSON.stringify(data),
       });
-      if (!res.ok) throw new Error("Failed to update admin");
-      return res.json();
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update admin");
+      return body;
     },
     onSuccess: (data) => {
       if (data.success) {
@@ -240,7 +289,7 @@ export default function AdminDashboard() {
     mutationFn: async (adminId: number) => {
       const res = await fetch(`/api/admin/admins/${adminId}`, {
         method: "DELETE",
-        headers: getAuthHeaders(),
+        headers: getAdminAuthHeaders(),
       });
       if (!res.ok) throw new Error("Failed to delete admin");
       return res.json();
@@ -261,18 +310,42 @@ export default function AdminDashboard() {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (adminId: number) => {
+      const res = await adminFetch(`/api/admin/admins/${adminId}/reset-2fa`, { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to reset two-factor sign-in");
+      return body;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-factor sign-in reset",
+        description: "The admin was signed out everywhere and can sign in with just their password to set it up again",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/admins"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset two-factor sign-in",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateAppointmentStatusMutation = useMutation({
     mutationFn: async ({ appointmentId, status, rejectionReason }: { appointmentId: number; status: string; rejectionReason?: string }) => {
       const res = await fetch(`/api/admin/appointments/${appointmentId}/status`, {
         method: "PATCH",
         headers: {
-          ...getAuthHeaders(),
+          ...getAdminAuthHeaders(),
           "Content-Type": "application/json",
         },
         body: JSON.stringify({ status, rejectionReason }),
       });
-      if (!res.ok) throw new Error("Failed to update appointment status");
-      return res.json();
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to update appointment status");
+      return body;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/appointments"] });
@@ -295,7 +368,7 @@ export default function AdminDashboard() {
       const res = await fetch(`/api/admin/contacts/${contactId}/status`, {
         method: "PATCH",
         headers: {
-          ...getAuthHeaders(),
+          ...getAdminAuthHeaders(),
           "Content-Type": "application/json",
         },
         body: JSON.stringify({ status, rejectionReason }),
@@ -333,7 +406,9 @@ export default function AdminDashboard() {
   const startEdit = (admin: any) => {
     setEditingAdmin(admin);
     editAdminForm.setValue("username", admin.username);
+    editAdminForm.setValue("email", admin.email ?? "");
     editAdminForm.setValue("password", "");
+    editAdminForm.setValue("role", admin.role);
   };
 
   const cancelEdit = () => {
@@ -347,6 +422,12 @@ export default function AdminDashboard() {
     }
   };
 
+  const confirmResetTwoFactor = (adminId: number) => {
+    if (window.confirm("Reset two-factor sign-in for this admin? Only do this if they've lost their authenticator and recovery codes. They will be signed out everywhere.")) {
+      resetTwoFactorMutation.mutate(adminId);
+    }
+  };
+
   const handleApproveAppointment = (appointment: any) => {
     setAppointmentAction({
       type: 'approve',
@@ -356,9 +437,10 @@ export default function AdminDashboard() {
   };
 
   const handleRejectAppointment = (appointment: any) => {
-    updateAppointmentStatusMutation.mutate({
-      appointmentId: appointment.id,
-      status: "rejected",
+    setAppointmentAction({
+      type: 'reject',
+      appointment,
+      isOpen: true
     });
   };
 
@@ -370,6 +452,30 @@ export default function AdminDashboard() {
     });
   };
 
+  const convertAppointmentToDeal = (appointment: any) => {
+    setConvertingAppointment({
+      title: `${appointment.companyName || appointment.fullName} - ${getServiceLabel(appointment.serviceType)}`,
+      contactName: appointment.fullName,
+      email: appointment.email,
+      phoneNumber: appointment.phoneNumber,
+      companyName: appointment.companyName,
+      service: getServiceLabel(appointment.serviceType),
+      appointmentId: appointment.id,
+    });
+  };
+
+  const downloadInvite = async (appointment: any) => {
+    try {
+      await downloadAdminFile(`/api/admin/appointments/${appointment.id}/ics`, `appointment-${appointment.id}.ics`);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not download the calendar invite",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleStatusChange = (appointment: any, newStatus: string) => {
     updateAppointmentStatusMutation.mutate({
       appointmentId: appointment.id,
@@ -428,7 +534,7 @@ export default function AdminDashboard() {
     
     setAppointmentAction({
       type: 'contact',
-      appointment: appointmentAction.appointment,
+      appointment: { ...appointmentAction.appointment, status: "approved" },
       isOpen: true
     });
   };
@@ -451,7 +557,7 @@ export default function AdminDashboard() {
     
     setAppointmentAction({
       type: 'contact',
-      appointment: appointmentAction.appointment,
+      appointment: { ...appointmentAction.appointment, status: "rejected" },
       isOpen: true
     });
   };
@@ -472,12 +578,12 @@ export default function AdminDashboard() {
 
   const sendEmail = (appointment: any, isApproval: boolean) => {
     const subject = isApproval 
-      ? `Appointment Approved - ${appointment.serviceType}`
+      ? `Appointment Approved - ${getServiceLabel(appointment.serviceType)}`
       : `Regarding Your Appointment Request`;
     
     const body = isApproval
-      ? `Dear ${appointment.fullName},\n\nYour appointment request has been approved!\n\nDetails:\n- Service: ${appointment.serviceType}\n- Date: ${appointment.preferredDate}\n- Time: ${appointment.preferredTime}\n\nWe look forward to meeting with you.\n\nBest regards,\n71 Digital Team`
-      : `Dear ${appointment.fullName},\n\nThank you for your interest in our ${appointment.serviceType} service.\n\nUnfortunately, we cannot accommodate your request for ${appointment.preferredDate} at ${appointment.preferredTime}.\n\nReason: ${rejectionReason}\n\nPlease feel free to contact us to discuss alternative options.\n\nBest regards,\n71 Digital Team`;
+      ? `Dear ${appointment.fullName},\n\nYour appointment request has been approved!\n\nDetails:\n- Service: ${getServiceLabel(appointment.serviceType)}\n- When: ${clientTime(appointment)} (${appointment.timezone})\n\nWe look forward to meeting with you.\n\nBest regards,\n71 Digital Team`
+      : `Dear ${appointment.fullName},\n\nThank you for your interest in our ${getServiceLabel(appointment.serviceType)} service.\n\nUnfortunately, we cannot accommodate your request for ${clientTime(appointment)} (${appointment.timezone}).\n\nReason: ${rejectionReason}\n\nPlease feel free to contact us to discuss alternative options.\n\nBest regards,\n71 Digital Team`;
     
     window.open(`mailto:${appointment.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`);
     closeModal();
@@ -485,8 +591,8 @@ export default function AdminDashboard() {
 
   const sendWhatsApp = (appointment: any, isApproval: boolean) => {
     const message = isApproval
-      ? `Hello ${appointment.fullName}! Your appointment for ${appointment.serviceType} on ${appointment.preferredDate} at ${appointment.preferredTime} has been approved. We look forward to meeting with you!`
-      : `Hello ${appointment.fullName}, regarding your appointment request for ${appointment.serviceType}: ${rejectionReason}. Please contact us to discuss alternatives.`;
+      ? `Hello ${appointment.fullName}! Your appointment for ${getServiceLabel(appointment.serviceType)} on ${clientTime(appointment)} (${appointment.timezone}) has been approved. We look forward to meeting with you!`
+      : `Hello ${appointment.fullName}, regarding your appointment request for ${getServiceLabel(appointment.serviceType)}: ${rejectionReason}. Please contact us to discuss alternatives.`;
     
     window.open(`https://wa.me/${appointment.phoneNumber.replace(/[^0-9]/g, '')}?text=${encodeURIComponent(message)}`);
     closeModal();
@@ -509,6 +615,11 @@ export default function AdminDashboard() {
           className: "bg-blue-500/20 text-blue-400 border-blue-500/30",
           icon: <CheckCircle className="w-3 h-3 mr-1" />
         };
+      case "cancelled":
+        return { 
+          className: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+          icon: <X className="w-3 h-3 mr-1" />
+        };
       default:
         return { 
           className: "bg-orange-500/20 text-orange-400 border-orange-500/30",
@@ -537,32 +648,15 @@ export default function AdminDashboard() {
     }
   };
 
-  // Filter appointments based on status and service type
-  const filteredAppointments = appointments?.filter((appointment: any) => {
-    const statusMatch = statusFilter === "all" || appointment.status === statusFilter;
-    const serviceMatch = serviceFilter === "all" || appointment.serviceType === serviceFilter;
-    return statusMatch && serviceMatch;
-  });
-
-  // Filter contacts based on status
-  const filteredContacts = contacts?.filter((contact: any) => {
-    const statusMatch = contactStatusFilter === "all" || contact.status === contactStatusFilter;
-    return statusMatch;
-  });
-
-  // Get unique service types for filter dropdown
-  const uniqueServiceTypes = Array.from(new Set(appointments?.map((apt: any) => apt.serviceType).filter(Boolean) || [])) as string[];
-
   const handleLogout = async () => {
     try {
       await fetch("/api/admin/logout", {
         method: "POST",
-        headers: getAuthHeaders(),
+        headers: getAdminAuthHeaders(),
       });
     } catch (error) {
       console.error("Logout error:", error);
     } finally {
-      localStorage.removeItem("adminToken");
       localStorage.removeItem("adminUser");
       toast({
         title: "Logged out",
@@ -588,7 +682,14 @@ export default function AdminDashboard() {
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6 sm:mb-8 space-y-4 sm:space-y-0">
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold text-white">Admin Dashboard</h1>
-            <p className="text-gray-300 text-sm sm:text-base">Welcome back, {adminUser.username}</p>
+            <p className="text-gray-300 text-sm sm:text-base">
+              Welcome back, {adminUser.username}
+              {adminUser.role && (
+                <Badge className="ml-2 bg-orange-500/20 text-orange-400 border-orange-500/30 text-xs">
+                  {ROLE_LABELS[adminUser.role as keyof typeof ROLE_LABELS] ?? adminUser.role}
+                </Badge>
+              )}
+            </p>
           </div>
           <Button
             onClick={handleLogout}
@@ -609,7 +710,7 @@ export default function AdminDashboard() {
               <Users className="h-4 w-4 text-orange-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-white">{contacts?.length || 0}</div>
+              <div className="text-2xl font-bold text-white">{totalContacts}</div>
               <p className="text-xs text-gray-300">Contact form submissions</p>
             </CardContent>
           </Card>
@@ -619,7 +720,7 @@ export default function AdminDashboard() {
               <Calendar className="h-4 w-4 text-orange-500" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-white">{appointments?.length || 0}</div>
+              <div className="text-2xl font-bold text-white">{totalAppointments}</div>
               <p className="text-xs text-gray-300">Appointment bookings</p>
             </CardContent>
           </Card>
@@ -638,16 +739,54 @@ export default function AdminDashboard() {
               <span className="hidden sm:inline">Appointments</span>
               <span className="sm:hidden">Appts</span>
             </TabsTrigger>
-            <TabsTrigger value="create-admin" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
-              <UserPlus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-              <span className="hidden sm:inline">Create Admin</span>
-              <span className="sm:hidden">Create</span>
-            </TabsTrigger>
-            <TabsTrigger value="manage-admins" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
-              <Settings className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-              <span className="hidden sm:inline">Manage Admins</span>
-              <span className="sm:hidden">Manage</span>
+            {can("deals:read") && (
+              <TabsTrigger value="pipeline" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <Briefcase className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span>Pipeline</span>
+              </TabsTrigger>
+            )}
+            {can("products:manage") && (
+              <TabsTrigger value="products" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <Package className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span>Products</span>
+              </TabsTrigger>
+            )}
+            {can("quotes:read") && (
+              <TabsTrigger value="quotes" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <FileText className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span>Quotes</span>
+              </TabsTrigger>
+            )}
+            {can("availability:manage") && (
+              <TabsTrigger value="availability" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <CalendarClock className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span>Availability</span>
+              </TabsTrigger>
+            )}
+            {can("admins:manage") && (
+              <TabsTrigger value="create-admin" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <UserPlus className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">Create Admin</span>
+                <span className="sm:hidden">Create</span>
+              </TabsTrigger>
+            )}
+            {can("admins:read") && (
+              <TabsTrigger value="manage-admins" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <Settings className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">Manage Admins</span>
+                <span className="sm:hidden">Manage</span>
+              </TabsTrigger>
+            )}
+            <TabsTrigger value="security" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+              <ShieldCheck className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              <span>Security</span>
             </TabsTrigger>
+            {can("audit:read") && (
+              <TabsTrigger value="activity" className="data-[state=active]:bg-orange-500/20 text-white text-xs sm:text-sm px-2 py-2">
+                <Activity className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                <span>Activity</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="contacts" className="space-y-4">
@@ -668,7 +807,7 @@ export default function AdminDashboard() {
                       <span className="text-sm text-gray-300">Filter:</span>
                     </div>
                     
-                    <Select value={contactStatusFilter} onValueChange={setContactStatusFilter}>
+                    <Select value={contactList.filters.status} onValueChange={(value) => contactList.setFilter("status", value)}>
                       <SelectTrigger className="w-[140px] bg-white/10 border-orange-500/30 text-white">
                         <SelectValue placeholder="Status" />
                       </SelectTrigger>
@@ -679,21 +818,44 @@ export default function AdminDashboard() {
                         <SelectItem value="ignored" className="text-white">Ignored</SelectItem>
                       </SelectContent>
                     </Select>
+
+                    <Select value={contactList.filters.service} onValueChange={(value) => contactList.setFilter("service", value)}>
+                      <SelectTrigger className="w-[160px] bg-white/10 border-orange-500/30 text-white">
+                        <SelectValue placeholder="Service" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                        <SelectItem value="all" className="text-white">All Services</SelectItem>
+                        {CONTACT_SERVICE_OPTIONS.map((service) => (
+                          <SelectItem key={service.value} value={service.value} className="text-white">
+                            {service.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     
-                    {contactStatusFilter !== "all" && (
+                    {contactList.hasFilters && (
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setContactStatusFilter("all")}
+                        onClick={contactList.clearFilters}
                         className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
                       >
                         Clear
                       </Button>
                     )}
+
+                    <ExportMenu exportUrl={contactList.exportUrl} name="contacts" />
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
+                <ListSearchControls
+                  filters={contactList.filters}
+                  onChange={contactList.setFilter}
+                  sortOptions={CONTACT_SORT_OPTIONS}
+                  searchPlaceholder="Search name, email, company, phone or message"
+                  dateLabel="Received"
+                />
                 {contactsLoading ? (
                   <div className="flex items-center justify-center py-8">
                     <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
@@ -702,8 +864,8 @@ export default function AdminDashboard() {
                   <>
                     {/* Results Count */}
                     <div className="mb-4 text-sm text-gray-300">
-                      Showing {filteredContacts?.length || 0} of {contacts?.length || 0} contact submissions
-                      {contactStatusFilter !== "all" && (
+                      Showing {contactList.entries.length} of {contactList.total} contact submissions
+                      {contactList.hasFilters && (
                         <span className="text-orange-400"> (filtered)</span>
                       )}
                     </div>
@@ -714,15 +876,22 @@ export default function AdminDashboard() {
                   <>
                     {/* Mobile Card Layout */}
                     <div className="block lg:hidden space-y-4">
-                      {filteredContacts?.map((contact: any) => (
+                      {contactList.entries.map((contact: any) => (
                         <div key={contact.id} className="bg-white/5 rounded-lg p-4 border border-orange-500/20">
                           <div className="flex justify-between items-start mb-3">
                             <div>
-                              <h3 className="text-white font-medium text-sm">{contact.fullName}</h3>
+                              <button
+                                type="button"
+                                onClick={() => setDetailContactId(contact.id)}
+                                className="text-white font-medium text-sm hover:text-orange-400 underline-offset-2 hover:underline text-left"
+                              >
+                                {contact.fullName}
+                              </button>
                               <Badge className={`${getContactStatusBadgeProps(contact.status || 'unread').className} flex items-center w-fit mt-1`}>
                                 {getContactStatusBadgeProps(contact.status || 'unread').icon}
                                 {contact.status || 'unread'}
                               </Badge>
+                              <SpamBadge score={contact.spamScore} />
                             </div>
                             <span className="text-gray-400 text-xs">
                               {format(new Date(contact.createdAt), "MMM d")}
@@ -764,7 +933,14 @@ export default function AdminDashboard() {
                             {contact.service && (
                               <div className="flex items-center">
                                 <Settings className="w-3 h-3 text-gray-400 mr-2 flex-shrink-0" />
-                                <span className="text-gray-300">{contact.service}</span>
+                                <span className="text-gray-300">{getContactServiceLabel(contact.service)}</span>
+                              </div>
+                            )}
+
+                            {contact.assignedAdminId && (
+                              <div className="flex items-center">
+                                <UserCheck className="w-3 h-3 text-gray-400 mr-2 flex-shrink-0" />
+                                <span className="text-gray-300">{ownerName(contact.assignedAdminId)}</span>
                               </div>
                             )}
                           </div>
@@ -787,60 +963,22 @@ export default function AdminDashboard() {
                           )}
 
                           {/* Action Buttons */}
-                          <div className="mt-4 pt-3 border-t border-orange-500/20">
-                            <div className="flex space-x-1">
-                              {(contact.status === "unread" || !contact.status) ? (
-                                // Primary actions for unread contacts
-                                <>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleRespondContact(contact)}
-                                    disabled={updateContactStatusMutation.isPending}
-                                    className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs flex-1"
-                                    title="Mark as Responded"
-                                  >
-                                    <Check className="w-3 h-3" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleIgnoreContact(contact)}
-                                    disabled={updateContactStatusMutation.isPending}
-                                    className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs flex-1"
-                                    title="Mark as Ignored"
-                                  >
-                                    <X className="w-3 h-3" />
-                                  </Button>
-                                </>
-                              ) : (
-                                // Status change options for responded/ignored contacts
-                                <>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleContactStatusChange(contact, "unread")}
-                                    disabled={updateContactStatusMutation.isPending}
-                                    className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10 text-xs flex-1"
-                                    title="Mark as Unread"
-                                  >
-                                    <Mail className="w-3 h-3" />
-                                  </Button>
-                                  
-                                  {contact.status !== "responded" && (
+                          {can("contacts:update") && (
+                            <div className="mt-4 pt-3 border-t border-orange-500/20">
+                              <div className="flex space-x-1">
+                                {(contact.status === "unread" || !contact.status) ? (
+                                  // Primary actions for unread contacts
+                                  <>
                                     <Button
                                       size="sm"
                                       variant="outline"
-                                      onClick={() => handleContactStatusChange(contact, "responded")}
+                                      onClick={() => handleRespondContact(contact)}
                                       disabled={updateContactStatusMutation.isPending}
                                       className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs flex-1"
                                       title="Mark as Responded"
                                     >
-                                      <CheckCircle className="w-3 h-3" />
+                                      <Check className="w-3 h-3" />
                                     </Button>
-                                  )}
-                                  
-                                  {contact.status !== "ignored" && (
                                     <Button
                                       size="sm"
                                       variant="outline"
@@ -849,13 +987,53 @@ export default function AdminDashboard() {
                                       className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs flex-1"
                                       title="Mark as Ignored"
                                     >
-                                      <XCircle className="w-3 h-3" />
+                                      <X className="w-3 h-3" />
                                     </Button>
-                                  )}
-                                </>
-                              )}
+                                  </>
+                                ) : (
+                                  // Status change options for responded/ignored contacts
+                                  <>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleContactStatusChange(contact, "unread")}
+                                      disabled={updateContactStatusMutation.isPending}
+                                      className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10 text-xs flex-1"
+                                      title="Mark as Unread"
+                                    >
+                                      <Mail className="w-3 h-3" />
+                                    </Button>
+                                  
+                                    {contact.status !== "responded" && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => handleContactStatusChange(contact, "responded")}
+                                        disabled={updateContactStatusMutation.isPending}
+                                        className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs flex-1"
+                                        title="Mark as Responded"
+                                      >
+                                        <CheckCircle className="w-3 h-3" />
+                                      </Button>
+                                    )}
+                                  
+                                    {contact.status !== "ignored" && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => handleIgnoreContact(contact)}
+                                        disabled={updateContactStatusMutation.isPending}
+                                        className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs flex-1"
+                                        title="Mark as Ignored"
+                                      >
+                                        <XCircle className="w-3 h-3" />
+                                      </Button>
+                                    )}
+                                  </>
+                                )}
+                              </div>
                             </div>
-                          </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -873,16 +1051,28 @@ export default function AdminDashboard() {
                             <TableHead className="text-gray-300">Service</TableHead>
                             <TableHead className="text-gray-300">Message</TableHead>
                             <TableHead className="text-gray-300">Status</TableHead>
-                            <TableHead className="text-gray-300">Actions</TableHead>
+                            <TableHead className="text-gray-300">Owner</TableHead>
+                            {can("contacts:update") && (
+                              <TableHead className="text-gray-300">Actions</TableHead>
+                            )}
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {filteredContacts?.map((contact: any) => (
+                          {contactList.entries.map((contact: any) => (
                             <TableRow key={contact.id} className="border-orange-500/20">
                               <TableCell className="text-white">
                                 {format(new Date(contact.createdAt), "MMM d, yyyy")}
                               </TableCell>
-                              <TableCell className="text-white font-medium">{contact.fullName}</TableCell>
+                              <TableCell className="text-white font-medium">
+                                <button
+                                  type="button"
+                                  onClick={() => setDetailContactId(contact.id)}
+                                  className="hover:text-orange-400 underline-offset-2 hover:underline text-left"
+                                  title="Open notes and history"
+                                >
+                                  {contact.fullName}
+                                </button>
+                              </TableCell>
                               <TableCell className="text-white">
                                 <a 
                                   href={`mailto:${contact.email}`}
@@ -904,7 +1094,7 @@ export default function AdminDashboard() {
                                   </a>
                                 ) : "-"}
                               </TableCell>
-                              <TableCell className="text-white">{contact.service || "-"}</TableCell>
+                              <TableCell className="text-white">{contact.service ? getContactServiceLabel(contact.service) : "-"}</TableCell>
                               <TableCell className="text-white max-w-xs truncate" title={contact.message}>
                                 {contact.message}
                               </TableCell>
@@ -913,66 +1103,30 @@ export default function AdminDashboard() {
                                   {getContactStatusBadgeProps(contact.status || 'unread').icon}
                                   {contact.status || 'unread'}
                                 </Badge>
+                                <SpamBadge score={contact.spamScore} />
                                 {contact.status === "ignored" && contact.rejectionReason && (
                                   <div className="mt-1 text-xs text-red-400" title={contact.rejectionReason}>
                                     Reason: {contact.rejectionReason.length > 20 ? contact.rejectionReason.substring(0, 20) + "..." : contact.rejectionReason}
                                   </div>
                                 )}
                               </TableCell>
-                              <TableCell>
-                                <div className="flex space-x-1">
-                                  {(contact.status === "unread" || !contact.status) ? (
-                                    // Primary actions for unread contacts
-                                    <>
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleRespondContact(contact)}
-                                        disabled={updateContactStatusMutation.isPending}
-                                        className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs"
-                                        title="Mark as Responded"
-                                      >
-                                        <Check className="w-3 h-3" />
-                                      </Button>
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleIgnoreContact(contact)}
-                                        disabled={updateContactStatusMutation.isPending}
-                                        className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs"
-                                        title="Mark as Ignored"
-                                      >
-                                        <X className="w-3 h-3" />
-                                      </Button>
-                                    </>
-                                  ) : (
-                                    // Status change options for responded/ignored contacts
-                                    <>
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleContactStatusChange(contact, "unread")}
-                                        disabled={updateContactStatusMutation.isPending}
-                                        className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10 text-xs"
-                                        title="Mark as Unread"
-                                      >
-                                        <Mail className="w-3 h-3" />
-                                      </Button>
-                                      
-                                      {contact.status !== "responded" && (
+                              <TableCell className="text-white">{ownerName(contact.assignedAdminId) ?? "-"}</TableCell>
+                              {can("contacts:update") && (
+                                <TableCell>
+                                  <div className="flex space-x-1">
+                                    {(contact.status === "unread" || !contact.status) ? (
+                                      // Primary actions for unread contacts
+                                      <>
                                         <Button
                                           size="sm"
                                           variant="outline"
-                                          onClick={() => handleContactStatusChange(contact, "responded")}
+                                          onClick={() => handleRespondContact(contact)}
                                           disabled={updateContactStatusMutation.isPending}
                                           className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs"
                                           title="Mark as Responded"
                                         >
-                                          <CheckCircle className="w-3 h-3" />
+                                          <Check className="w-3 h-3" />
                                         </Button>
-                                      )}
-                                      
-                                      {contact.status !== "ignored" && (
                                         <Button
                                           size="sm"
                                           variant="outline"
@@ -981,18 +1135,60 @@ export default function AdminDashboard() {
                                           className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs"
                                           title="Mark as Ignored"
                                         >
-                                          <XCircle className="w-3 h-3" />
+                                          <X className="w-3 h-3" />
                                         </Button>
-                                      )}
-                                    </>
-                                  )}
-                                </div>
-                              </TableCell>
+                                      </>
+                                    ) : (
+                                      // Status change options for responded/ignored contacts
+                                      <>
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={() => handleContactStatusChange(contact, "unread")}
+                                          disabled={updateContactStatusMutation.isPending}
+                                          className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10 text-xs"
+                                          title="Mark as Unread"
+                                        >
+                                          <Mail className="w-3 h-3" />
+                                        </Button>
+                                      
+                                        {contact.status !== "responded" && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleContactStatusChange(contact, "responded")}
+                                            disabled={updateContactStatusMutation.isPending}
+                                            className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs"
+                                            title="Mark as Responded"
+                                          >
+                                            <CheckCircle className="w-3 h-3" />
+                                          </Button>
+                                        )}
+                                      
+                                        {contact.status !== "ignored" && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleIgnoreContact(contact)}
+                                            disabled={updateContactStatusMutation.isPending}
+                                            className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs"
+                                            title="Mark as Ignored"
+                                          >
+                                            <XCircle className="w-3 h-3" />
+                                          </Button>
+                                        )}
+                                      </>
+                                    )}
+                                  </div>
+                                </TableCell>
+                              )}
                             </TableRow>
                           ))}
                         </TableBody>
                       </Table>
                     </div>
+
+                    <ListPagination page={contactList.page} pageCount={contactList.pageCount} onPageChange={contactList.setPage} />
                   </>
                 )}
               </CardContent>
@@ -1017,7 +1213,7 @@ export default function AdminDashboard() {
                       <span className="text-sm text-gray-300">Filters:</span>
                     </div>
                     
-                    <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <Select value={appointmentList.filters.status} onValueChange={(value) => appointmentList.setFilter("status", value)}>
                       <SelectTrigger className="w-[140px] bg-white/10 border-orange-500/30 text-white">
                         <SelectValue placeholder="Status" />
                       </SelectTrigger>
@@ -1027,40 +1223,48 @@ export default function AdminDashboard() {
                         <SelectItem value="approved" className="text-white">Approved</SelectItem>
                         <SelectItem value="rejected" className="text-white">Rejected</SelectItem>
                         <SelectItem value="completed" className="text-white">Completed</SelectItem>
+                        <SelectItem value="cancelled" className="text-white">Cancelled</SelectItem>
                       </SelectContent>
                     </Select>
                     
-                    <Select value={serviceFilter} onValueChange={setServiceFilter}>
+                    <Select value={appointmentList.filters.service} onValueChange={(value) => appointmentList.setFilter("service", value)}>
                       <SelectTrigger className="w-[160px] bg-white/10 border-orange-500/30 text-white">
                         <SelectValue placeholder="Service" />
                       </SelectTrigger>
                       <SelectContent className="bg-[#1A0F08] border-orange-500/30">
                         <SelectItem value="all" className="text-white">All Services</SelectItem>
-                        {uniqueServiceTypes.map((service: string) => (
-                          <SelectItem key={service} value={service} className="text-white">
-                            {service}
+                        {SERVICE_OPTIONS.map((service) => (
+                          <SelectItem key={service.value} value={service.value} className="text-white">
+                            {service.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
                     
-                    {(statusFilter !== "all" || serviceFilter !== "all") && (
+                    {appointmentList.hasFilters && (
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => {
-                          setStatusFilter("all");
-                          setServiceFilter("all");
-                        }}
+                        onClick={appointmentList.clearFilters}
                         className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
                       >
                         Clear
                       </Button>
                     )}
+
+                    <ExportMenu exportUrl={appointmentList.exportUrl} name="appointments" />
+                    <CalendarFeedDialog />
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
+                <ListSearchControls
+                  filters={appointmentList.filters}
+                  onChange={appointmentList.setFilter}
+                  sortOptions={APPOINTMENT_SORT_OPTIONS}
+                  searchPlaceholder="Search name, email, company, phone or message"
+                  dateLabel="Scheduled"
+                />
                 {appointmentsLoading ? (
                   <div className="flex items-center justify-center py-8">
                     <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
@@ -1069,8 +1273,8 @@ export default function AdminDashboard() {
                   <>
                     {/* Results Count */}
                     <div className="mb-4 text-sm text-gray-300">
-                      Showing {filteredAppointments?.length || 0} of {appointments?.length || 0} appointments
-                      {(statusFilter !== "all" || serviceFilter !== "all") && (
+                      Showing {appointmentList.entries.length} of {appointmentList.total} appointments
+                      {appointmentList.hasFilters && (
                         <span className="text-orange-400"> (filtered)</span>
                       )}
                     </div>
@@ -1081,18 +1285,19 @@ export default function AdminDashboard() {
                   <>
                     {/* Mobile Card Layout */}
                     <div className="block lg:hidden space-y-4">
-                      {filteredAppointments?.map((appointment: any) => (
+                      {appointmentList.entries.map((appointment: any) => (
                         <div key={appointment.id} className="bg-white/5 rounded-lg p-4 border border-orange-500/20">
                           <div className="flex justify-between items-start mb-3">
                             <div>
                               <h3 className="text-white font-medium text-sm">{appointment.fullName}</h3>
-                              <p className="text-gray-400 text-xs mt-1">{appointment.serviceType}</p>
+                              <p className="text-gray-400 text-xs mt-1">{getServiceLabel(appointment.serviceType)}</p>
                             </div>
                             <div className="text-right">
                               <Badge className={`${getStatusBadgeProps(appointment.status).className} text-xs flex items-center w-fit ml-auto`}>
                                 {getStatusBadgeProps(appointment.status).icon}
                                 {appointment.status}
                               </Badge>
+                              <SpamBadge score={appointment.spamScore} />
                               <p className="text-gray-400 text-xs mt-1">
                                 {format(new Date(appointment.createdAt), "MMM d")}
                               </p>
@@ -1133,15 +1338,13 @@ export default function AdminDashboard() {
                             
                             <div className="flex items-center">
                               <Calendar className="w-3 h-3 text-blue-400 mr-2 flex-shrink-0" />
-                              <span className="text-gray-300">{appointment.preferredDate} at {appointment.preferredTime}</span>
+                              <span className="text-gray-300">{clientTime(appointment)} ({appointment.timezone})</span>
                             </div>
                             
-                            {appointment.timezone && (
-                              <div className="flex items-center">
-                                <Clock className="w-3 h-3 text-gray-400 mr-2 flex-shrink-0" />
-                                <span className="text-gray-300">{appointment.timezone}</span>
-                              </div>
-                            )}
+                            <div className="flex items-center">
+                              <Clock className="w-3 h-3 text-gray-400 mr-2 flex-shrink-0" />
+                              <span className="text-gray-300">{gstTime(appointment)}</span>
+                            </div>
                           </div>
                           
                           {appointment.message && (
@@ -1154,81 +1357,107 @@ export default function AdminDashboard() {
                           )}
 
                           {/* Action Buttons */}
-                          <div className="mt-4 pt-3 border-t border-orange-500/20">
-                            <div className="space-y-2">
-                              {appointment.status === "pending" && (
-                                <div className="flex space-x-2">
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleApproveAppointment(appointment)}
-                                    disabled={updateAppointmentStatusMutation.isPending}
-                                    className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs flex-1"
-                                    title="Approve Appointment"
-                                  >
-                                    <Check className="w-3 h-3" />
-                                  </Button>
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleRejectAppointment(appointment)}
-                                    disabled={updateAppointmentStatusMutation.isPending}
-                                    className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs flex-1"
-                                    title="Reject Appointment"
-                                  >
-                                    <X className="w-3 h-3" />
-                                  </Button>
-                                </div>
-                              )}
-                              
-                              {appointment.status === "approved" && (
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => handleMarkCompleted(appointment)}
-                                  disabled={updateAppointmentStatusMutation.isPending}
-                                  className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10 text-xs w-full"
-                                  title="Mark as Completed"
-                                >
-                                  <CheckCircle className="w-3 h-3" />
-                                </Button>
-                              )}
-                              
-                              {/* Status Change Options - only show secondary options */}
-                              {appointment.status !== "pending" && (
-                                <div className="flex space-x-1 mt-2">
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    onClick={() => handleStatusChange(appointment, "pending")}
-                                    disabled={updateAppointmentStatusMutation.isPending}
-                                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 text-xs flex-1"
-                                    title="Mark as Pending"
-                                  >
-                                    <Clock className="w-3 h-3" />
-                                  </Button>
-                                  
-                                  {appointment.status !== "rejected" && (
+                          {can("appointments:update") && (
+                            <div className="mt-4 pt-3 border-t border-orange-500/20">
+                              <div className="space-y-2">
+                                {appointment.status === "pending" && (
+                                  <div className="flex space-x-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleApproveAppointment(appointment)}
+                                      disabled={updateAppointmentStatusMutation.isPending}
+                                      className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs flex-1"
+                                      title="Approve Appointment"
+                                    >
+                                      <Check className="w-3 h-3" />
+                                    </Button>
                                     <Button
                                       size="sm"
                                       variant="outline"
                                       onClick={() => handleRejectAppointment(appointment)}
                                       disabled={updateAppointmentStatusMutation.isPending}
                                       className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs flex-1"
-                                      title="Mark as Rejected"
+                                      title="Reject Appointment"
                                     >
-                                      <XCircle className="w-3 h-3" />
+                                      <X className="w-3 h-3" />
                                     </Button>
-                                  )}
-                                </div>
-                              )}
-
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-
+                                  </div>
+                                )}
+                              
+                                {appointment.status === "approved" && (
+                                  <div className="flex space-x-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleMarkCompleted(appointment)}
+                                      disabled={updateAppointmentStatusMutation.isPending}
+                                      className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10 text-xs flex-1"
+                                      title="Mark as Completed"
+                                    >
+                                      <CheckCircle className="w-3 h-3" />
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => downloadInvite(appointment)}
+                                      className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 text-xs flex-1"
+                                      title="Download Calendar Invite"
+                                    >
+                                      <CalendarPlus className="w-3 h-3" />
+                                    </Button>
+                                  </div>
+                                )}
+                              
+                                {canConvertAppointment(appointment) && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => convertAppointmentToDeal(appointment)}
+                                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 text-xs w-full"
+                                    title="Convert to Deal"
+                                  >
+                                    <Briefcase className="w-3 h-3 mr-1" />
+                                    Convert to Deal
+                                  </Button>
+                                )}
+
+                                {/* Status Change Options - only show secondary options */}
+                                {appointment.status !== "pending" && (
+                                  <div className="flex space-x-1 mt-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => handleStatusChange(appointment, "pending")}
+                                      disabled={updateAppointmentStatusMutation.isPending}
+                                      className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 text-xs flex-1"
+                                      title="Mark as Pending"
+                                    >
+                                      <Clock className="w-3 h-3" />
+                                    </Button>
+                                  
+                                    {appointment.status !== "rejected" && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => handleRejectAppointment(appointment)}
+                                        disabled={updateAppointmentStatusMutation.isPending}
+                                        className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs flex-1"
+                                        title="Mark as Rejected"
+                                      >
+                                        <XCircle className="w-3 h-3" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                )}
+
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
                     {/* Desktop Table Layout */}
                     <div className="hidden lg:block overflow-x-auto">
                       <Table>
@@ -1240,14 +1469,16 @@ export default function AdminDashboard() {
                             <TableHead className="text-gray-300">Phone</TableHead>
                             <TableHead className="text-gray-300">Company</TableHead>
                             <TableHead className="text-gray-300">Service Type</TableHead>
-                            <TableHead className="text-gray-300">Preferred Date</TableHead>
-                            <TableHead className="text-gray-300">Time</TableHead>
+                            <TableHead className="text-gray-300">Client Time</TableHead>
+                            <TableHead className="text-gray-300">GST</TableHead>
                             <TableHead className="text-gray-300">Status</TableHead>
-                            <TableHead className="text-gray-300">Actions</TableHead>
+                            {can("appointments:update") && (
+                              <TableHead className="text-gray-300">Actions</TableHead>
+                            )}
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {filteredAppointments?.map((appointment: any) => (
+                          {appointmentList.entries.map((appointment: any) => (
                             <TableRow key={appointment.id} className="border-orange-500/20">
                               <TableCell className="text-white">
                                 {format(new Date(appointment.createdAt), "MMM d, yyyy")}
@@ -1274,398 +1505,619 @@ export default function AdminDashboard() {
                                 ) : "-"}
                               </TableCell>
                               <TableCell className="text-white">{appointment.companyName || "-"}</TableCell>
-                              <TableCell className="text-white">{appointment.serviceType}</TableCell>
-                              <TableCell className="text-white">{appointment.preferredDate}</TableCell>
-                              <TableCell className="text-white">{appointment.preferredTime}</TableCell>
+                              <TableCell className="text-white">{getServiceLabel(appointment.serviceType)}</TableCell>
+                              <TableCell className="text-white">
+                                {clientTime(appointment)}
+                                <div className="text-xs text-gray-400">{appointment.timezone}</div>
+                              </TableCell>
+                              <TableCell className="text-white">{gstTime(appointment)}</TableCell>
                               <TableCell>
                                 <Badge className={`${getStatusBadgeProps(appointment.status).className} flex items-center w-fit`}>
                                   {getStatusBadgeProps(appointment.status).icon}
                                   {appointment.status}
                                 </Badge>
+                                <SpamBadge score={appointment.spamScore} />
                               </TableCell>
-                              <TableCell>
-                                <div className="space-y-2">
-                                  {/* Primary Actions */}
-                                  <div className="flex space-x-2">
-                                    {appointment.status === "pending" && (
-                                      <>
+                              {can("appointments:update") && (
+                                <TableCell>
+                                  <div className="space-y-2">
+                                    {/* Primary Actions */}
+                                    <div className="flex space-x-2">
+                                      {appointment.status === "pending" && (
+                                        <>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleApproveAppointment(appointment)}
+                                            disabled={updateAppointmentStatusMutation.isPending}
+                                            className="border-green-500/30 text-green-500 hover:bg-green-500/10"
+                                            title="Approve Appointment"
+                                          >
+                                            <Check className="w-4 h-4" />
+                                          </Button>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleRejectAppointment(appointment)}
+                                            disabled={updateAppointmentStatusMutation.isPending}
+                                            className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                                            title="Reject Appointment"
+                                          >
+                                            <X className="w-4 h-4" />
+                                          </Button>
+                                        </>
+                                      )}
+                                    
+                                      {appointment.status === "approved" && (
+                                        <>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleMarkCompleted(appointment)}
+                                            disabled={updateAppointmentStatusMutation.isPending}
+                                            className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10"
+                                            title="Mark as Completed"
+                                          >
+                                            <CheckCircle className="w-4 h-4" />
+                                          </Button>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => downloadInvite(appointment)}
+                                            className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                            title="Download Calendar Invite"
+                                          >
+                                            <CalendarPlus className="w-4 h-4" />
+                                          </Button>
+                                        </>
+                                      )}
+
+                                      {canConvertAppointment(appointment) && (
                                         <Button
                                           size="sm"
                                           variant="outline"
-                                          onClick={() => handleApproveAppointment(appointment)}
-                                          disabled={updateAppointmentStatusMutation.isPending}
-                                          className="border-green-500/30 text-green-500 hover:bg-green-500/10"
-                                          title="Approve Appointment"
+                                          onClick={() => convertAppointmentToDeal(appointment)}
+                                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                          title="Convert to Deal"
                                         >
-                                          <Check className="w-4 h-4" />
+                                          <Briefcase className="w-4 h-4" />
                                         </Button>
+                                      )}
+                                    </div>
+                                  
+                                    {/* Status Change Options */}
+                                    <div className="flex space-x-1 flex-wrap">
+                                      {appointment.status !== "pending" && (
                                         <Button
                                           size="sm"
                                           variant="outline"
-                                          onClick={() => handleRejectAppointment(appointment)}
+                                          onClick={() => handleStatusChange(appointment, "pending")}
                                           disabled={updateAppointmentStatusMutation.isPending}
-                                          className="border-red-500/30 text-red-500 hover:bg-red-500/10"
-                                          title="Reject Appointment"
+                                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 text-xs"
+                                          title="Mark as Pending"
                                         >
-                                          <X className="w-4 h-4" />
+                                          <Clock className="w-3 h-3" />
                                         </Button>
-                                      </>
-                                    )}
-                                    
-                                    {appointment.status === "approved" && (
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleMarkCompleted(appointment)}
-                                        disabled={updateAppointmentStatusMutation.isPending}
-                                        className="border-blue-500/30 text-blue-500 hover:bg-blue-500/10"
-                                        title="Mark as Completed"
-                                      >
-                                        <CheckCircle className="w-4 h-4" />
-                                      </Button>
-                                    )}
-                                  </div>
-                                  
-                                  {/* Status Change Options */}
-                                  <div className="flex space-x-1 flex-wrap">
-                                    {appointment.status !== "pending" && (
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleStatusChange(appointment, "pending")}
-                                        disabled={updateAppointmentStatusMutation.isPending}
-                                        className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 text-xs"
-                                        title="Mark as Pending"
-                                      >
-                                        <Clock className="w-3 h-3" />
-                                      </Button>
-                                    )}
+                                      )}
                                     
-                                    {appointment.status !== "approved" && (
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleStatusChange(appointment, "approved")}
-                                        disabled={updateAppointmentStatusMutation.isPending}
-                                        className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs"
-                                        title="Mark as Approved"
-                                      >
-                                        <CheckCircle className="w-3 h-3" />
-                                      </Button>
-                                    )}
+                                      {appointment.status !== "approved" && (
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={() => handleStatusChange(appointment, "approved")}
+                                          disabled={updateAppointmentStatusMutation.isPending}
+                                          className="border-green-500/30 text-green-500 hover:bg-green-500/10 text-xs"
+                                          title="Mark as Approved"
+                                        >
+                                          <CheckCircle className="w-3 h-3" />
+                                        </Button>
+                                      )}
                                     
-                                    {appointment.status !== "rejected" && (
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => handleRejectAppointment(appointment)}
-                                        disabled={updateAppointmentStatusMutation.isPending}
-                                        className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs"
-                                        title="Mark as Rejected"
-                                      >
-                                        <XCircle className="w-3 h-3" />
-                                      </Button>
-                                    )}
+                                      {appointment.status !== "rejected" && (
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={() => handleRejectAppointment(appointment)}
+                                          disabled={updateAppointmentStatusMutation.isPending}
+                                          className="border-red-500/30 text-red-500 hover:bg-red-500/10 text-xs"
+                                          title="Mark as Rejected"
+                                        >
+                                          <XCircle className="w-3 h-3" />
+                                        </Button>
+                                      )}
+                                    </div>
                                   </div>
-                                </div>
-                              </TableCell>
+                                </TableCell>
+                              )}
                             </TableRow>
                           ))}
                         </TableBody>
                       </Table>
                     </div>
+
+                    <ListPagination page={appointmentList.page} pageCount={appointmentList.pageCount} onPageChange={appointmentList.setPage} />
                   </>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
 
-          <TabsContent value="create-admin" className="space-y-4">
-            <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30 max-w-md mx-auto">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center text-lg">
-                  <Shield className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-orange-500" />
-                  Create Admin Account
-                </CardTitle>
-                <CardDescription className="text-gray-300 text-sm">
-                  Create a new administrator account with full access to the dashboard
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <Form {...createAdminForm}>
-                  <form onSubmit={createAdminForm.handleSubmit(onCreateAdmin)} className="space-y-4">
-                    <FormField
-                      control={createAdminForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="text-white">Username</FormLabel>
-                          <FormControl>
-                            <Input
-                              placeholder="Enter admin username"
-                              {...field}
-                              className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={createAdminForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel className="text-white">Password</FormLabel>
-                          <FormControl>
-                            <Input
-                              type="password"
-                              placeholder="Enter admin password"
-                              {...field}
-                              className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <Button
-                      type="submit"
-                      className="w-full bg-orange-600 hover:bg-orange-700 text-white"
-                      disabled={createAdminMutation.isPending}
-                    >
-                      {createAdminMutation.isPending ? (
-                        <div className="flex items-center space-x-2">
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                          <span>Creating Admin...</span>
-                        </div>
-                      ) : (
-                        <div className="flex items-center space-x-2">
-                          <UserPlus className="w-4 h-4" />
-                          <span>Create Admin</span>
-                        </div>
-                      )}
-                    </Button>
-                  </form>
-                </Form>
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="manage-admins" className="space-y-4">
-            <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
-              <CardHeader>
-                <CardTitle className="text-white flex items-center">
-                  <Settings className="w-5 h-5 mr-2 text-orange-500" />
-                  Manage Admin Accounts
-                </CardTitle>
-                <CardDescription className="text-gray-300">
-                  View, edit, and manage all administrator accounts
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {adminsLoading ? (
-                  <div className="flex items-center justify-center py-8">
-                    <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    {/* Edit Form */}
-                    {editingAdmin && (
-                      <Card className="bg-white/5 border-orange-500/20">
-                        <CardHeader>
-                          <CardTitle className="text-white text-lg">
-                            Edit Admin: {editingAdmin.username}
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          <Form {...editAdminForm}>
-                            <form onSubmit={editAdminForm.handleSubmit(onEditAdmin)} className="space-y-4">
-                              <FormField
-                                control={editAdminForm.control}
-                                name="username"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel className="text-white">Username</FormLabel>
-                                    <FormControl>
-                                      <Input
-                                        placeholder="Enter username"
-                                        {...field}
-                                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
+          {can("deals:read") && (
+            <TabsContent value="pipeline" className="space-y-4">
+              <DealsBoard canUpdate={can("deals:update")} />
+            </TabsContent>
+          )}
+
+          {can("products:manage") && (
+            <TabsContent value="products" className="space-y-4">
+              <ProductsPanel />
+              <HostingPlansPanel />
+              <CalculatorDefaultsPanel />
+            </TabsContent>
+          )}
+
+          {can("quotes:read") && (
+            <TabsContent value="quotes" className="space-y-4">
+              <QuotesPanel canUpdate={can("quotes:update")} />
+            </TabsContent>
+          )}
+
+          {can("availability:manage") && (
+            <TabsContent value="availability" className="space-y-4">
+              <AvailabilityPanel />
+            </TabsContent>
+          )}
+
+          {can("admins:manage") && (
+            <TabsContent value="create-admin" className="space-y-4">
+              <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30 max-w-md mx-auto">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center text-lg">
+                    <Shield className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-orange-500" />
+                    Create Admin Account
+                  </CardTitle>
+                  <CardDescription className="text-gray-300 text-sm">
+                    Create a new administrator account and choose what it can access
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...createAdminForm}>
+                    <form onSubmit={createAdminForm.handleSubmit(onCreateAdmin)} className="space-y-4">
+                      <FormField
+                        control={createAdminForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-white">Username</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="Enter admin username"
+                                {...field}
+                                className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
                               />
-                              <FormField
-                                control={editAdminForm.control}
-                                name="password"
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel className="text-white">
-                                      New Password (leave empty to keep current)
-                                    </FormLabel>
-                                    <FormControl>
-                                      <Input
-                                        type="password"
-                                        placeholder="Enter new password"
-                                        {...field}
-                                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
-                                      />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createAdminForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-white">Email (optional)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="email"
+                                placeholder="For password reset links"
+                                {...field}
+                                className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
                               />
-                              <div className="flex space-x-2">
-                                <Button
-                                  type="submit"
-                                  className="bg-orange-600 hover:bg-orange-700 text-white"
-                                  disabled={editAdminMutation.isPending}
-                                >
-                                  {editAdminMutation.isPending ? (
-                                    <div className="flex items-center space-x-2">
-                                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                                      <span>Updating...</span>
-                                    </div>
-                                  ) : (
-                                    "Update Admin"
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createAdminForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-white">Password</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="password"
+                                placeholder="Enter admin password"
+                                {...field}
+                                className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createAdminForm.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-white">Role</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger className="bg-white/10 border-orange-500/30 text-white">
+                                  <SelectValue placeholder="Select a role" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                                {ADMIN_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role} className="text-white">
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="submit"
+                        className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+                        disabled={createAdminMutation.isPending}
+                      >
+                        {createAdminMutation.isPending ? (
+                          <div className="flex items-center space-x-2">
+                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                            <span>Creating Admin...</span>
+                          </div>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            <UserPlus className="w-4 h-4" />
+                            <span>Create Admin</span>
+                          </div>
+                        )}
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {can("admins:read") && (
+            <TabsContent value="manage-admins" className="space-y-4">
+              <Card className="bg-white/10 backdrop-blur-sm border-orange-500/30">
+                <CardHeader>
+                  <CardTitle className="text-white flex items-center">
+                    <Settings className="w-5 h-5 mr-2 text-orange-500" />
+                    Manage Admin Accounts
+                  </CardTitle>
+                  <CardDescription className="text-gray-300">
+                    View, edit, and manage all administrator accounts
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {adminsLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                      <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {/* Edit Form */}
+                      {editingAdmin && (
+                        <Card className="bg-white/5 border-orange-500/20">
+                          <CardHeader>
+                            <CardTitle className="text-white text-lg">
+                              Edit Admin: {editingAdmin.username}
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <Form {...editAdminForm}>
+                              <form onSubmit={editAdminForm.handleSubmit(onEditAdmin)} className="space-y-4">
+                                <FormField
+                                  control={editAdminForm.control}
+                                  name="username"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-white">Username</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          placeholder="Enter username"
+                                          {...field}
+                                          className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
                                   )}
-                                </Button>
-                                <Button
-                                  type="button"
-                                  variant="outline"
-                                  onClick={cancelEdit}
-                                  className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                />
+                                <FormField
+                                  control={editAdminForm.control}
+                                  name="email"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-white">Email (optional)</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="email"
+                                          placeholder="For password reset links"
+                                          {...field}
+                                          className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                <FormField
+                                  control={editAdminForm.control}
+                                  name="password"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel className="text-white">
+                                        New Password (leave empty to keep current)
+                                      </FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          type="password"
+                                          placeholder="Enter new password"
+                                          {...field}
+                                          className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                            <FormField
+                              control={editAdminForm.control}
+                              name="role"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel className="text-white">Role</FormLabel>
+                                  <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                      <SelectTrigger className="bg-white/10 border-orange-500/30 text-white">
+                                        <SelectValue placeholder="Select a role" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent className="bg-[#1A0F08] border-orange-500/30">
+                                      {ADMIN_ROLES.map((role) => (
+                                        <SelectItem key={role} value={role} className="text-white">
+                                          {ROLE_LABELS[role]}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                                <div className="flex space-x-2">
+                                  <Button
+                                    type="submit"
+                                    className="bg-orange-600 hover:bg-orange-700 text-white"
+                                    disabled={editAdminMutation.isPending}
+                                  >
+                                    {editAdminMutation.isPending ? (
+                                      <div className="flex items-center space-x-2">
+                                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                                        <span>Updating...</span>
+                                      </div>
+                                    ) : (
+                                      "Update Admin"
+                                    )}
+                                  </Button>
+                                  <Button
+                                    type="button"
+                                    variant="outline"
+                                    onClick={cancelEdit}
+                                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                  >
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </form>
+                            </Form>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {/* Admin List */}
+                      <>
+                        {/* Mobile Card Layout */}
+                        <div className="block lg:hidden space-y-4">
+                          {admins?.map((admin: any) => (
+                            <div key={admin.id} className="bg-white/5 rounded-lg p-4 border border-orange-500/20">
+                              <div className="flex justify-between items-start mb-3">
+                                <div>
+                                  <h3 className="text-white font-medium text-sm">{admin.username}</h3>
+                                  {admin.email && <p className="text-gray-400 text-xs">{admin.email}</p>}
+                                  <p className="text-gray-400 text-xs mt-1">
+                                    {ROLE_LABELS[admin.role as keyof typeof ROLE_LABELS] ?? admin.role} · Created {format(new Date(admin.createdAt), "MMM d, yyyy")}
+                                  </p>
+                                </div>
+                                <Badge 
+                                  className={
+                                    admin.id === adminUser?.id
+                                      ? "bg-green-500/20 text-green-400 border-green-500/30 text-xs"
+                                      : "bg-blue-500/20 text-blue-400 border-blue-500/30 text-xs"
+                                  }
                                 >
-                                  Cancel
-                                </Button>
+                                  {admin.id === adminUser?.id ? "You" : "Active"}
+                                </Badge>
                               </div>
-                            </form>
-                          </Form>
-                        </CardContent>
-                      </Card>
-                    )}
-
-                    {/* Admin List */}
-                    <>
-                      {/* Mobile Card Layout */}
-                      <div className="block lg:hidden space-y-4">
-                        {admins?.map((admin: any) => (
-                          <div key={admin.id} className="bg-white/5 rounded-lg p-4 border border-orange-500/20">
-                            <div className="flex justify-between items-start mb-3">
-                              <div>
-                                <h3 className="text-white font-medium text-sm">{admin.username}</h3>
-                                <p className="text-gray-400 text-xs mt-1">
-                                  Created {format(new Date(admin.createdAt), "MMM d, yyyy")}
+                              {admin.twoFactorEnabled && (
+                                <p className="text-green-400 text-xs mb-3 flex items-center">
+                                  <ShieldCheck className="w-3 h-3 mr-1" />
+                                  Two-factor sign-in on
                                 </p>
-                              </div>
-                              <Badge 
-                                className={
-                                  admin.id === adminUser?.id
-                                    ? "bg-green-500/20 text-green-400 border-green-500/30 text-xs"
-                                    : "bg-blue-500/20 text-blue-400 border-blue-500/30 text-xs"
-                                }
-                              >
-                                {admin.id === adminUser?.id ? "You" : "Active"}
-                              </Badge>
-                            </div>
-                            
-                            <div className="flex space-x-2">
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => startEdit(admin)}
-                                disabled={editingAdmin?.id === admin.id}
-                                className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 flex-1 text-xs"
-                              >
-                                <Edit className="w-3 h-3 mr-1" />
-                                Edit
-                              </Button>
-                              {admin.id !== adminUser?.id && (
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={() => confirmDelete(admin.id)}
-                                  disabled={deleteAdminMutation.isPending}
-                                  className="border-red-500/30 text-red-500 hover:bg-red-500/10 flex-1 text-xs"
-                                >
-                                  <Trash2 className="w-3 h-3 mr-1" />
-                                  Delete
-                                </Button>
                               )}
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-
-                      {/* Desktop Table Layout */}
-                      <div className="hidden lg:block overflow-x-auto">
-                        <Table>
-                          <TableHeader>
-                            <TableRow className="border-orange-500/30">
-                              <TableHead className="text-gray-300">Username</TableHead>
-                              <TableHead className="text-gray-300">Created</TableHead>
-                              <TableHead className="text-gray-300">Status</TableHead>
-                              <TableHead className="text-gray-300">Actions</TableHead>
-                            </TableRow>
-                          </TableHeader>
-                          <TableBody>
-                            {admins?.map((admin: any) => (
-                              <TableRow key={admin.id} className="border-orange-500/20">
-                                <TableCell className="text-white font-medium">{admin.username}</TableCell>
-                                <TableCell className="text-white">
-                                  {format(new Date(admin.createdAt), "MMM d, yyyy")}
-                                </TableCell>
-                                <TableCell>
-                                  <Badge 
-                                    className={
-                                      admin.id === adminUser?.id
-                                        ? "bg-green-500/20 text-green-400 border-green-500/30"
-                                        : "bg-blue-500/20 text-blue-400 border-blue-500/30"
-                                    }
+                            
+                              {can("admins:manage") && (
+                                <div className="flex space-x-2">
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => startEdit(admin)}
+                                    disabled={editingAdmin?.id === admin.id}
+                                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 flex-1 text-xs"
                                   >
-                                    {admin.id === adminUser?.id ? "Current User" : "Active"}
-                                  </Badge>
-                                </TableCell>
-                                <TableCell>
-                                  <div className="flex space-x-2">
+                                    <Edit className="w-3 h-3 mr-1" />
+                                    Edit
+                                  </Button>
+                                  {admin.id !== adminUser?.id && (
                                     <Button
                                       size="sm"
                                       variant="outline"
-                                      onClick={() => startEdit(admin)}
-                                      disabled={editingAdmin?.id === admin.id}
-                                      className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                      onClick={() => confirmDelete(admin.id)}
+                                      disabled={deleteAdminMutation.isPending}
+                                      className="border-red-500/30 text-red-500 hover:bg-red-500/10 flex-1 text-xs"
                                     >
-                                      <Edit className="w-4 h-4" />
+                                      <Trash2 className="w-3 h-3 mr-1" />
+                                      Delete
                                     </Button>
-                                    {admin.id !== adminUser?.id && (
-                                      <Button
-                                        size="sm"
-                                        variant="outline"
-                                        onClick={() => confirmDelete(admin.id)}
-                                        disabled={deleteAdminMutation.isPending}
-                                        className="border-red-500/30 text-red-500 hover:bg-red-500/10"
-                                      >
-                                        <Trash2 className="w-4 h-4" />
-                                      </Button>
-                                    )}
-                                  </div>
-                                </TableCell>
+                                  )}
+                                  {admin.twoFactorEnabled && admin.id !== adminUser?.id && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => confirmResetTwoFactor(admin.id)}
+                                      disabled={resetTwoFactorMutation.isPending}
+                                      className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10 flex-1 text-xs"
+                                    >
+                                      <ShieldOff className="w-3 h-3 mr-1" />
+                                      Reset 2FA
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+
+                        {/* Desktop Table Layout */}
+                        <div className="hidden lg:block overflow-x-auto">
+                          <Table>
+                            <TableHeader>
+                              <TableRow className="border-orange-500/30">
+                                <TableHead className="text-gray-300">Username</TableHead>
+                                <TableHead className="text-gray-300">Role</TableHead>
+                                <TableHead className="text-gray-300">Created</TableHead>
+                                <TableHead className="text-gray-300">Status</TableHead>
+                                {can("admins:manage") && (
+                                  <TableHead className="text-gray-300">Actions</TableHead>
+                                )}
                               </TableRow>
-                            ))}
-                          </TableBody>
-                        </Table>
-                      </div>
-                    </>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                            </TableHeader>
+                            <TableBody>
+                              {admins?.map((admin: any) => (
+                                <TableRow key={admin.id} className="border-orange-500/20">
+                                  <TableCell className="text-white font-medium">
+                                    {admin.username}
+                                    {admin.email && <div className="text-gray-400 text-xs font-normal">{admin.email}</div>}
+                                  </TableCell>
+                                  <TableCell className="text-white">
+                                    {ROLE_LABELS[admin.role as keyof typeof ROLE_LABELS] ?? admin.role}
+                                  </TableCell>
+                                  <TableCell className="text-white">
+                                    {format(new Date(admin.createdAt), "MMM d, yyyy")}
+                                  </TableCell>
+                                  <TableCell>
+                                    <Badge 
+                                      className={
+                                        admin.id === adminUser?.id
+                                          ? "bg-green-500/20 text-green-400 border-green-500/30"
+                                          : "bg-blue-500/20 text-blue-400 border-blue-500/30"
+                                      }
+                                    >
+                                      {admin.id === adminUser?.id ? "Current User" : "Active"}
+                                    </Badge>
+                                    {admin.twoFactorEnabled && (
+                                      <Badge className="ml-2 bg-green-500/20 text-green-400 border-green-500/30" title="Two-factor sign-in on">
+                                        <ShieldCheck className="w-3 h-3 mr-1" />
+                                        2FA
+                                      </Badge>
+                                    )}
+                                  </TableCell>
+                                  {can("admins:manage") && (
+                                    <TableCell>
+                                      <div className="flex space-x-2">
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={() => startEdit(admin)}
+                                          disabled={editingAdmin?.id === admin.id}
+                                          className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                        >
+                                          <Edit className="w-4 h-4" />
+                                        </Button>
+                                        {admin.id !== adminUser?.id && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => confirmDelete(admin.id)}
+                                            disabled={deleteAdminMutation.isPending}
+                                            className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                                          >
+                                            <Trash2 className="w-4 h-4" />
+                                          </Button>
+                                        )}
+                                        {admin.twoFactorEnabled && admin.id !== adminUser?.id && (
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => confirmResetTwoFactor(admin.id)}
+                                            disabled={resetTwoFactorMutation.isPending}
+                                            className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                                            title="Reset two-factor sign-in"
+                                          >
+                                            <ShieldOff className="w-4 h-4" />
+                                          </Button>
+                                        )}
+                                      </div>
+                                    </TableCell>
+                                  )}
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      </>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <LoginSecurityPanel canManage={can("admins:manage")} />
+            </TabsContent>
+          )}
+
+          <TabsContent value="security" className="space-y-4">
+            <TwoFactorPanel />
+            <SessionsPanel canManageAll={can("admins:manage")} />
           </TabsContent>
+
+          {can("audit:read") && (
+            <TabsContent value="activity" className="space-y-4">
+              <ActivityLogPanel admins={admins} />
+            </TabsContent>
+          )}
         </Tabs>
 
+        <ContactDetailDrawer
+          contactId={detailContactId}
+          onClose={() => setDetailContactId(null)}
+          canUpdate={can("contacts:update")}
+          canConvert={can("deals:update")}
+        />
+
+        <DealFormDialog
+          open={convertingAppointment !== null}
+          onClose={() => setConvertingAppointment(null)}
+          prefill={convertingAppointment ?? undefined}
+        />
+
         {/* Appointment Action Modals */}
         {appointmentAction.appointment && (
           <>
@@ -1685,9 +2137,9 @@ export default function AdminDashboard() {
                 <div className="space-y-4 py-4">
                   <div className="bg-white/5 rounded-lg p-4 space-y-2">
                     <h4 className="font-medium text-white">{appointmentAction.appointment.fullName}</h4>
-                    <p className="text-sm text-gray-300">Service: {appointmentAction.appointment.serviceType}</p>
-                    <p className="text-sm text-gray-300">Date: {appointmentAction.appointment.preferredDate}</p>
-                    <p className="text-sm text-gray-300">Time: {appointmentAction.appointment.preferredTime}</p>
+                    <p className="text-sm text-gray-300">Service: {getServiceLabel(appointmentAction.appointment.serviceType)}</p>
+                    <p className="text-sm text-gray-300">Client time: {clientTime(appointmentAction.appointment)} ({appointmentAction.appointment.timezone})</p>
+                    <p className="text-sm text-gray-300">GST: {gstTime(appointmentAction.appointment)}</p>
                   </div>
                 </div>
 
@@ -1707,7 +2159,56 @@ export default function AdminDashboard() {
               </DialogContent>
             </Dialog>
 
+            {/* Rejection Modal */}
+            <Dialog open={appointmentAction.isOpen && appointmentAction.type === 'reject'} onOpenChange={closeModal}>
+              <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-md">
+                <DialogHeader>
+                  <DialogTitle className="text-red-500 flex items-center">
+                    <XCircle className="w-5 h-5 mr-2" />
+                    Reject Appointment
+                  </DialogTitle>
+                  <DialogDescription className="text-gray-300">
+                    The client will be emailed this reason automatically
+                  </DialogDescription>
+                </DialogHeader>
+                
+                <div className="space-y-4 py-4">
+                  <div className="bg-white/5 rounded-lg p-4 space-y-2">
+                    <h4 className="font-medium text-white">{appointmentAction.appointment.fullName}</h4>
+                    <p className="text-sm text-gray-300">Service: {getServiceLabel(appointmentAction.appointment.serviceType)}</p>
+                    <p className="text-sm text-gray-300">Client time: {clientTime(appointmentAction.appointment)} ({appointmentAction.appointment.timezone})</p>
+                    <p className="text-sm text-gray-300">GST: {gstTime(appointmentAction.appointment)}</p>
+                  </div>
+                  
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Rejection Reason
+                    </label>
+                    <Textarea
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                      placeholder="Explain why this appointment cannot be accommodated..."
+                      className="bg-white/10 border-orange-500/30 text-white placeholder-gray-400"
+                      rows={3}
+                    />
+                  </div>
+                </div>
 
+                <DialogFooter className="flex space-x-2">
+                  <Button variant="outline" onClick={closeModal} className="border-gray-500 text-gray-300">
+                    Cancel
+                  </Button>
+                  <Button 
+                    onClick={confirmRejection}
+                    disabled={updateAppointmentStatusMutation.isPending}
+                    className="bg-red-600 hover:bg-red-700 text-white"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Reject & Contact
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
 
             {/* Completion Confirmation Modal */}
             <Dialog open={appointmentAction.isOpen && appointmentAction.type === 'complete'} onOpenChange={closeModal}>
@@ -1725,8 +2226,8 @@ export default function AdminDashboard() {
                 <div className="space-y-4 py-4">
                   <div className="bg-white/5 rounded-lg p-4 space-y-2">
                     <h4 className="font-medium text-white">{appointmentAction.appointment.fullName}</h4>
-                    <p className="text-sm text-gray-300">Service: {appointmentAction.appointment.serviceType}</p>
-                    <p className="text-sm text-gray-300">Date: {appointmentAction.appointment.preferredDate}</p>
+                    <p className="text-sm text-gray-300">Service: {getServiceLabel(appointmentAction.appointment.serviceType)}</p>
+                    <p className="text-sm text-gray-300">Client time: {clientTime(appointmentAction.appointment)} ({appointmentAction.appointment.timezone})</p>
                   </div>
                 </div>
 
@@ -1762,7 +2263,7 @@ export default function AdminDashboard() {
                 <div className="space-y-4 py-4">
                   <div className="bg-white/5 rounded-lg p-4">
                     <p className="text-sm text-gray-300 mb-3">
-                      The appointment status has been updated. You can now contact the client to inform them.
+                      The appointment status has been updated and the client has been emailed automatically. You can also follow up directly.
                     </p>
                     
                     <div className="space-y-3">
@@ -1783,6 +2284,17 @@ export default function AdminDashboard() {
                           Send WhatsApp to {appointmentAction.appointment.phoneNumber}
                         </Button>
                       )}
+
+                      {appointmentAction.appointment.status === 'approved' && (
+                        <Button
+                          onClick={() => downloadInvite(appointmentAction.appointment)}
+                          variant="outline"
+                          className="w-full border-orange-500/30 text-orange-500 hover:bg-orange-500/10 justify-start"
+                        >
+                          <CalendarPlus className="w-4 h-4 mr-2" />
+                          Download Calendar Invite (.ics)
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1809,7 +2321,7 @@ export default function AdminDashboard() {
                     Mark as Responded
                   </DialogTitle>
                   <DialogDescription className="text-gray-300">
-                    Mark this contact submission as responded
+                    Mark this contact submission as responded, or write the reply here and it's marked for you
                   </DialogDescription>
                 </DialogHeader>
                 
@@ -1818,7 +2330,7 @@ export default function AdminDashboard() {
                     <h4 className="font-medium text-white">{contactAction.contact.fullName}</h4>
                     <p className="text-sm text-gray-300">Email: {contactAction.contact.email}</p>
                     <p className="text-sm text-gray-300">Company: {contactAction.contact.companyName || "Not specified"}</p>
-                    <p className="text-sm text-gray-300">Service: {contactAction.contact.service || "Not specified"}</p>
+                    <p className="text-sm text-gray-300">Service: {contactAction.contact.service ? getContactServiceLabel(contactAction.contact.service) : "Not specified"}</p>
                   </div>
                 </div>
 
@@ -1826,6 +2338,17 @@ export default function AdminDashboard() {
                   <Button variant="outline" onClick={closeContactModal} className="border-gray-500 text-gray-300">
                     Cancel
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setDetailContactId(contactAction.contact.id);
+                      closeContactModal();
+                    }}
+                    className="border-orange-500/30 text-orange-500 hover:bg-orange-500/10"
+                  >
+                    <Reply className="w-4 h-4 mr-2" />
+                    Write a Reply
+                  </Button>
                   <Button 
                     onClick={confirmContactResponse}
                     disabled={updateContactStatusMutation.isPending}
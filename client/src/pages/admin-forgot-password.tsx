@@ -0,0 +1,134 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import SEOHead from "@/components/SEOHead";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { adminPasswordResetRequestSchema, type AdminPasswordResetRequestData } from "@shared/schema";
+import { Link } from "wouter";
+import { ArrowLeft, Mail, MailCheck } from "lucide-react";
+
+// Asks for a reset link; the server answers the same way whether or not the account exists
+export default function AdminForgotPassword() {
+  const { toast } = useToast();
+
+  const form = useForm<AdminPasswordResetRequestData>({
+    resolver: zodResolver(adminPasswordResetRequestSchema),
+    defaultValues: {
+      identifier: "",
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: AdminPasswordResetRequestData) => {
+      const res = await fetch("/api/admin/password-reset/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to request a password reset");
+      return body as { message: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-4"
+      style={{
+        background: "linear-gradient(135deg, #1A0F08 0%, #2D1810 50%, #1A0F08 100%)"
+      }}
+    >
+      <SEOHead
+        title="Forgot Password - 71 Digital Management Portal"
+        description="Request a password reset link for your 71 Digital admin account."
+        canonical="https://71digital.io/admin/forgot-password"
+      />
+      <Card className="w-full max-w-md bg-white/10 backdrop-blur-sm border-orange-500/30">
+        <CardHeader className="space-y-4 text-center">
+          <div className="flex justify-center">
+            <div className="w-16 h-16 bg-orange-500/20 rounded-full flex items-center justify-center">
+              {requestMutation.isSuccess ? (
+                <MailCheck className="w-8 h-8 text-orange-500" />
+              ) : (
+                <Mail className="w-8 h-8 text-orange-500" />
+              )}
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold text-white">
+              Forgot your password?
+            </CardTitle>
+            <CardDescription className="text-gray-300">
+              {requestMutation.isSuccess
+                ? requestMutation.data.message
+                : "Enter your username or email address and we'll email you a link to choose a new password."}
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!requestMutation.isSuccess && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="identifier"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white">Username or email</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Enter your username or email"
+                          autoComplete="username"
+                          {...field}
+                          className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+                  disabled={requestMutation.isPending}
+                >
+                  {requestMutation.isPending ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      <span>Sending...</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <Mail className="w-4 h-4" />
+                      <span>Send Reset Link</span>
+                    </div>
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
+          <p className="text-xs text-gray-400 text-center">
+            No email address on your account? Ask another admin to set a new password for you.
+          </p>
+          <div className="text-center">
+            <Link href="/admin/login" className="inline-flex items-center text-sm text-orange-400 hover:text-orange-300">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import SEOHead from "@/components/SEOHead";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,13 +9,43 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { adminLoginSchema, type AdminLoginData } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
-import { useLocation } from "wouter";
-import { Lock, Shield } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import { KeyRound, Lock, Shield } from "lucide-react";
+import RecoveryCodesList from "@/components/admin/RecoveryCodesList";
+
+interface SignedIn {
+  admin: { id: number; username: string; role: string };
+  recoveryCodes?: string[];
+}
+
+// The password checked out but the account still needs a code (or enrolment) before a session is issued
+interface TwoFactorStep {
+  challenge: string;
+  enrolment?: { secret: string; qrCode: string };
+}
 
 export default function AdminLogin() {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStep | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  // A fresh install has no accounts to sign in to yet
+  const { data: setup } = useQuery<{ required: boolean }>({
+    queryKey: ["/api/admin/setup"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/setup");
+      if (!res.ok) throw new Error("Setup check failed");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (setup?.required) {
+      setLocation("/admin/setup");
+    }
+  }, [setup, setLocation]);
 
   const form = useForm<AdminLoginData>({
     resolver: zodResolver(adminLoginSchema),
@@ -27,18 +57,20 @@ export default function AdminLogin() {
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: AdminLoginData) => {
-      const res = await apiRequest("POST", "/api/admin/login", credentials);
+      // Read the body on failure too, so lockout messages reach the toast
+      const res = await fetch("/api/admin/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(credentials),
+      });
       return await res.json();
     },
     onSuccess: (data) => {
-      if (data.success) {
-        localStorage.setItem("adminToken", data.sessionToken);
-        localStorage.setItem("adminUser", JSON.stringify(data.admin));
-        toast({
-          title: "Login successful",
-          description: "Welcome to the admin dashboard",
-        });
-        setLocation("/admin/dashboard");
+      if (data.success && (data.twoFactorRequired || data.twoFactorSetupRequired)) {
+        setTwoFactor({ challenge: data.challenge, enrolment: data.enrolment });
+        setCode("");
+      } else if (data.success) {
+        signedIn(data);
       } else {
         toast({
           title: "Login failed",
@@ -56,6 +88,43 @@ export default function AdminLogin() {
     },
   });
 
+  const codeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/admin/login/2fa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challenge: twoFactor?.challenge, code }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Invalid code");
+      return body as SignedIn;
+    },
+    onSuccess: signedIn,
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function signedIn(data: SignedIn) {
+    // The session is in an HttpOnly cookie now; drop any token left by older versions
+    localStorage.removeItem("adminToken");
+    localStorage.setItem("adminUser", JSON.stringify(data.admin));
+    // Codes from a just-finished enrolment are shown before moving on
+    if (data.recoveryCodes) {
+      setRecoveryCodes(data.recoveryCodes);
+      return;
+    }
+    toast({
+      title: "Login successful",
+      description: "Welcome to the admin dashboard",
+    });
+    setLocation("/admin/dashboard");
+  }
+
   const onSubmit = (data: AdminLoginData) => {
     loginMutation.mutate(data);
   };
@@ -93,11 +162,71 @@ export default function AdminLogin() {
               71 Digital Admin
             </CardTitle>
             <CardDescription className="text-gray-300">
-              Sign in to access the admin dashboard
+              {recoveryCodes
+                ? "Two-factor sign-in is on. Save your recovery codes."
+                : twoFactor?.enrolment
+                  ? "Two-factor sign-in is required. Scan the QR code with an authenticator app, then enter the code it shows."
+                  : twoFactor
+                    ? "Enter the code from your authenticator app, or one of your recovery codes"
+                    : "Sign in to access the admin dashboard"}
             </CardDescription>
           </div>
         </CardHeader>
         <CardContent>
+          {recoveryCodes ? (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              <Button
+                className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+                onClick={() => setLocation("/admin/dashboard")}
+              >
+                Continue to dashboard
+              </Button>
+            </div>
+          ) : twoFactor ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                codeMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              {twoFactor.enrolment && (
+                <div className="flex flex-col items-center space-y-2">
+                  <img src={twoFactor.enrolment.qrCode} alt="Two-factor QR code" className="w-[200px] h-[200px] rounded bg-white p-1" />
+                  <p className="text-xs text-gray-400 text-center">
+                    Can't scan it? Enter this key: <span className="font-mono text-gray-200 break-all">{twoFactor.enrolment.secret}</span>
+                  </p>
+                </div>
+              )}
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={twoFactor.enrolment ? "6-digit code" : "Code or recovery code"}
+                autoComplete="one-time-code"
+                autoFocus
+                className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+              />
+              <Button
+                type="submit"
+                className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+                disabled={!code || codeMutation.isPending}
+              >
+                <div className="flex items-center space-x-2">
+                  <KeyRound className="w-4 h-4" />
+                  <span>{codeMutation.isPending ? "Verifying..." : "Verify"}</span>
+                </div>
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full text-gray-300 hover:text-white hover:bg-white/5"
+                onClick={() => setTwoFactor(null)}
+              >
+                Back
+              </Button>
+            </form>
+          ) : (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
               <FormField
@@ -152,8 +281,14 @@ export default function AdminLogin() {
                   </div>
                 )}
               </Button>
+              <div className="text-center">
+                <Link href="/admin/forgot-password" className="text-sm text-orange-400 hover:text-orange-300">
+                  Forgot password?
+                </Link>
+              </div>
             </form>
           </Form>
+          )}
         </CardContent>
       </Card>
     </div>
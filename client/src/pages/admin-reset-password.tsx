@@ -0,0 +1,189 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import SEOHead from "@/components/SEOHead";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { adminPasswordResetSchema, type AdminPasswordResetData } from "@shared/schema";
+import { PASSWORD_RULES } from "@shared/passwords";
+import { Link, useLocation, useParams } from "wouter";
+import { Check, KeyRound, X } from "lucide-react";
+
+// Where the emailed reset link lands: checks the link, then sets a new password that meets the policy
+export default function AdminResetPassword() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: reset, isLoading, error } = useQuery<{ username: string }>({
+    queryKey: ["/api/admin/password-reset", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/password-reset/${encodeURIComponent(token)}`);
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "This reset link is invalid or has expired");
+      return body;
+    },
+    retry: false,
+  });
+
+  const form = useForm<AdminPasswordResetData>({
+    resolver: zodResolver(adminPasswordResetSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: AdminPasswordResetData) => {
+      const res = await fetch(`/api/admin/password-reset/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to reset the password");
+      return body;
+    },
+    onSuccess: () => {
+      localStorage.removeItem("adminUser");
+      toast({
+        title: "Password changed",
+        description: "You've been signed out everywhere. Sign in with your new password.",
+      });
+      setLocation("/admin/login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const password = form.watch("password");
+  const username = reset?.username ?? "";
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-4"
+      style={{
+        background: "linear-gradient(135deg, #1A0F08 0%, #2D1810 50%, #1A0F08 100%)"
+      }}
+    >
+      <SEOHead
+        title="Reset Password - 71 Digital Management Portal"
+        description="Choose a new password for your 71 Digital admin account."
+        canonical="https://71digital.io/admin/reset-password"
+      />
+      <Card className="w-full max-w-md bg-white/10 backdrop-blur-sm border-orange-500/30">
+        <CardHeader className="space-y-4 text-center">
+          <div className="flex justify-center">
+            <div className="w-16 h-16 bg-orange-500/20 rounded-full flex items-center justify-center">
+              <KeyRound className="w-8 h-8 text-orange-500" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold text-white">
+              Choose a new password
+            </CardTitle>
+            <CardDescription className="text-gray-300">
+              {reset
+                ? `For the admin account "${reset.username}". Every device signed in to it will be signed out.`
+                : "Checking your reset link..."}
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <div className="w-8 h-8 border-4 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : error ? (
+            <div className="text-center space-y-4">
+              <p className="text-red-400">{(error as Error).message}</p>
+              <Link href="/admin/forgot-password" className="text-sm text-orange-400 hover:text-orange-300">
+                Request a new link
+              </Link>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white">New password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Choose a strong password"
+                          autoComplete="new-password"
+                          {...field}
+                          className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                        />
+                      </FormControl>
+                      <ul className="space-y-1 pt-1">
+                        {PASSWORD_RULES.map((rule) => {
+                          const met = rule.test(password, username);
+                          return (
+                            <li key={rule.label} className={`flex items-center text-xs ${met ? "text-green-400" : "text-gray-400"}`}>
+                              {met ? <Check className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}
+                              {rule.label}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white">Confirm password</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Enter the password again"
+                          autoComplete="new-password"
+                          {...field}
+                          className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+                  disabled={resetMutation.isPending || PASSWORD_RULES.some((rule) => !rule.test(password, username))}
+                >
+                  {resetMutation.isPending ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      <span>Saving...</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <KeyRound className="w-4 h-4" />
+                      <span>Set New Password</span>
+                    </div>
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
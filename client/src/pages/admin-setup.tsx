@@ -0,0 +1,245 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import SEOHead from "@/components/SEOHead";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { adminSetupSchema, type AdminSetupData } from "@shared/schema";
+import { PASSWORD_RULES } from "@shared/passwords";
+import { useLocation } from "wouter";
+import { Check, KeyRound, ShieldCheck, X } from "lucide-react";
+
+// One-time page for creating the first owner account on a fresh database
+export default function AdminSetup() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: setup } = useQuery<{ required: boolean }>({
+    queryKey: ["/api/admin/setup"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/setup");
+      if (!res.ok) throw new Error("Setup check failed");
+      return res.json();
+    },
+  });
+
+  useEffect(() => {
+    if (setup && !setup.required) {
+      setLocation("/admin/login");
+    }
+  }, [setup, setLocation]);
+
+  const form = useForm<AdminSetupData>({
+    resolver: zodResolver(adminSetupSchema),
+    defaultValues: {
+      token: "",
+      username: "",
+      email: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async (data: AdminSetupData) => {
+      const res = await fetch("/api/admin/setup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Setup failed");
+      return body;
+    },
+    onSuccess: (data) => {
+      // With two-factor sign-in required, enrolment happens on the login page
+      if (data.twoFactorSetupRequired) {
+        toast({
+          title: "Owner account created",
+          description: "Sign in to set up two-factor sign-in",
+        });
+        setLocation("/admin/login");
+        return;
+      }
+      localStorage.setItem("adminUser", JSON.stringify(data.admin));
+      toast({
+        title: "Owner account created",
+        description: "Welcome to the admin dashboard",
+      });
+      setLocation("/admin/dashboard");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Setup failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const password = form.watch("password");
+  const username = form.watch("username");
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-4"
+      style={{
+        background: "linear-gradient(135deg, #1A0F08 0%, #2D1810 50%, #1A0F08 100%)"
+      }}
+    >
+      <SEOHead
+        title="Admin Setup - 71 Digital Management Portal"
+        description="Create the first owner account for the 71 Digital admin dashboard."
+        canonical="https://71digital.io/admin/setup"
+      />
+      <Card className="w-full max-w-md bg-white/10 backdrop-blur-sm border-orange-500/30">
+        <CardHeader className="space-y-4 text-center">
+          <div className="flex justify-center">
+            <div className="w-16 h-16 bg-orange-500/20 rounded-full flex items-center justify-center">
+              <ShieldCheck className="w-8 h-8 text-orange-500" />
+            </div>
+          </div>
+          <div>
+            <CardTitle className="text-2xl font-bold text-white">
+              Set up 71 Digital Admin
+            </CardTitle>
+            <CardDescription className="text-gray-300">
+              Create the owner account. The setup token is in the server log, or in ADMIN_SETUP_TOKEN if you set one.
+            </CardDescription>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => setupMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="token"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Setup token</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Paste the setup token"
+                        autoComplete="off"
+                        {...field}
+                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Username</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Choose a username"
+                        autoComplete="username"
+                        {...field}
+                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Email (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="email"
+                        placeholder="For password reset links"
+                        autoComplete="email"
+                        {...field}
+                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder="Choose a strong password"
+                        autoComplete="new-password"
+                        {...field}
+                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                      />
+                    </FormControl>
+                    <ul className="space-y-1 pt-1">
+                      {PASSWORD_RULES.map((rule) => {
+                        const met = rule.test(password, username);
+                        return (
+                          <li key={rule.label} className={`flex items-center text-xs ${met ? "text-green-400" : "text-gray-400"}`}>
+                            {met ? <Check className="w-3 h-3 mr-1" /> : <X className="w-3 h-3 mr-1" />}
+                            {rule.label}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-white">Confirm password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder="Enter the password again"
+                        autoComplete="new-password"
+                        {...field}
+                        className="bg-white/10 border-orange-500/30 text-white placeholder:text-gray-400 focus:border-orange-500"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+                disabled={setupMutation.isPending}
+              >
+                {setupMutation.isPending ? (
+                  <div className="flex items-center space-x-2">
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>Creating account...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <KeyRound className="w-4 h-4" />
+                    <span>Create Owner Account</span>
+                  </div>
+                )}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
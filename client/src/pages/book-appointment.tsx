@@ -8,61 +8,20 @@ import { Textarea } from "@/components/ui/textarea";
 import { Calendar, Clock, User, Building2, Phone, Mail, MessageCircle, CheckCircle } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { SERVICE_OPTIONS, getServiceOption, type ServiceOption as ServiceOptionData } from "@shared/services";
+import AppointmentSlotPicker, { BROWSER_TIMEZONE, invalidateAvailability } from "@/components/AppointmentSlotPicker";
+import HoneypotField from "@/components/HoneypotField";
+import { solveFormChallenge } from "@/lib/formChallenge";
+import { HONEYPOT_FIELD } from "@shared/spam";
 import logo71NoText from "@assets/71digital logo - no text.png";
 
-// Move arrays outside component to prevent re-creation on each render
-const SERVICE_OPTIONS = [
-  {
-    value: "hosting-consultation",
-    label: "Hosting Solutions Consultation",
-    description: "Discuss your mining hosting requirements and available capacity",
-    duration: "45-60 minutes"
-  },
-  {
-    value: "site-acquisition",
-    label: "Site Acquisition & Power Deals",
-    description: "Explore opportunities for new mining site development",
-    duration: "60-90 minutes"
-  },
-  {
-    value: "hardware-procurement",
-    label: "Hardware Procurement",
-    description: "Get pricing and availability for ASIC miners and equipment",
-    duration: "30-45 minutes"
-  },
-  {
-    value: "operations-management",
-    label: "Mining Operations & Site Management",
-    description: "Discuss 24/7 operations, maintenance, and monitoring services",
-    duration: "45-60 minutes"
-  },
-  {
-    value: "technical-consultation",
-    label: "Technical Consultation",
-    description: "Get expert advice on mining infrastructure and optimization",
-    duration: "30-45 minutes"
-  },
-  {
-    value: "partnership-discussion",
-    label: "Partnership & Joint Venture Discussion",
-    description: "Explore strategic partnerships and investment opportunities",
-    duration: "60-90 minutes"
-  }
-] as const;
-
-const TIME_SLOTS = [
-  "09:00 AM", "09:30 AM", "10:00 AM", "10:30 AM", "11:00 AM", "11:30 AM",
-  "12:00 PM", "12:30 PM", "01:00 PM", "01:30 PM", "02:00 PM", "02:30 PM",
-  "03:00 PM", "03:30 PM", "04:00 PM", "04:30 PM", "05:00 PM", "05:30 PM"
-] as const;
-
 // Memoized Service Option Component
 const ServiceOption = memo(({ 
   service, 
   isSelected, 
   onSelect 
 }: { 
-  service: typeof SERVICE_OPTIONS[0], 
+  service: ServiceOptionData, 
   isSelected: boolean, 
   onSelect: (value: string) => void 
 }) => (
@@ -103,25 +62,38 @@ interface AppointmentFormData {
   phoneNumber: string;
   companyName: string;
   serviceType: string;
-  preferredDate: string;
-  preferredTime: string;
+  preferredDate: string; // day picked in the client's timezone
+  scheduledAt: string; // ISO start of the chosen slot
   timezone: string;
   message: string;
 }
 
+// Other pages can link here with the service and message filled in (?service=...&message=...),
+// e.g. the hosting estimator with a summary of the estimate
+function prefilledFields() {
+  const params = new URLSearchParams(window.location.search);
+  const service = params.get("service");
+  return {
+    serviceType: service && getServiceOption(service) ? service : "",
+    message: params.get("message") ?? "",
+  };
+}
+
 export default function BookAppointment() {
   const [currentSection, setCurrentSection] = useState("appointment");
-  const [formData, setFormData] = useState<AppointmentFormData>({
+  // Link to reschedule or cancel the request just submitted (also emailed to the client)
+  const [manageUrl, setManageUrl] = useState<string | null>(null);
+  const [honeypot, setHoneypot] = useState("");
+  const [formData, setFormData] = useState<AppointmentFormData>(() => ({
     fullName: "",
     email: "",
     phoneNumber: "",
     companyName: "",
-    serviceType: "",
     preferredDate: "",
-    preferredTime: "",
-    timezone: "UTC+4 (UAE Time)",
-    message: ""
-  });
+    scheduledAt: "",
+    timezone: BROWSER_TIMEZONE,
+    ...prefilledFields()
+  }));
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -139,24 +111,27 @@ export default function BookAppointment() {
           phoneNumber: data.phoneNumber,
           companyName: data.companyName,
           serviceType: data.serviceType,
-          preferredDate: data.preferredDate,
-          preferredTime: data.preferredTime,
+          scheduledAt: data.scheduledAt,
           timezone: data.timezone,
-          message: data.message
+          message: data.message,
+          [HONEYPOT_FIELD]: honeypot,
+          ...(await solveFormChallenge()),
         }),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to submit appointment request');
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to submit appointment request. Please try again.');
       }
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { manageUrl: string }) => {
       toast({
         title: "Appointment Request Submitted",
         description: "We'll contact you within 24 hours to confirm your appointment.",
       });
+      setManageUrl(result.manageUrl);
       setFormData({
         fullName: "",
         email: "",
@@ -164,18 +139,21 @@ export default function BookAppointment() {
         companyName: "",
         serviceType: "",
         preferredDate: "",
-        preferredTime: "",
-        timezone: "UTC+4 (UAE Time)",
+        scheduledAt: "",
+        timezone: BROWSER_TIMEZONE,
         message: ""
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      invalidateAvailability(queryClient);
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to submit appointment request. Please try again.",
+        description: error.message,
         variant: "destructive",
       });
+      // The slot may have been taken in the meantime; show the current picture
+      setFormData(prev => ({ ...prev, scheduledAt: "" }));
+      invalidateAvailability(queryClient);
     },
   });
 
@@ -197,7 +175,7 @@ export default function BookAppointment() {
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.fullName || !formData.email || !formData.serviceType || !formData.preferredDate) {
+    if (!formData.fullName || !formData.email || !formData.serviceType || !formData.preferredDate || !formData.scheduledAt) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields.",
@@ -208,8 +186,12 @@ export default function BookAppointment() {
     appointmentMutation.mutate(formData);
   }, [formData, toast, appointmentMutation]);
 
+  const handleTimeSelect = useCallback((startsAt: string) => {
+    setFormData(prev => ({ ...prev, scheduledAt: startsAt }));
+  }, []);
+
   const handleServiceSelect = useCallback((value: string) => {
-    setFormData(prev => ({ ...prev, serviceType: value }));
+    setFormData(prev => ({ ...prev, serviceType: value, scheduledAt: "" }));
   }, []);
 
   // Removed scroll listener for better performance
@@ -273,8 +255,19 @@ export default function BookAppointment() {
             {/* Appointment Form */}
             <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 md:p-8 border border-orange-500/30">
               <h3 className="text-xl md:text-2xl font-bold text-orange-500 mb-6">Appointment Details</h3>
+              {manageUrl && (
+                <div className="mb-6 p-4 rounded-lg border border-green-500/30 bg-green-500/10 text-sm text-gray-200">
+                  <CheckCircle className="w-4 h-4 text-green-400 inline mr-2" />
+                  Request received. Need to change it later?{" "}
+                  <a href={manageUrl} className="text-orange-400 hover:text-orange-300 underline">
+                    Reschedule or cancel your appointment
+                  </a>
+                  {" "}(we've also emailed you this link).
+                </div>
+              )}
               
-              <form onSubmit={handleSubmit} className="space-y-6">
+              <form onSubmit={handleSubmit} className="relative space-y-6">
+                <HoneypotField value={honeypot} onChange={setHoneypot} />
                 {/* Personal Information */}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
@@ -334,59 +327,16 @@ export default function BookAppointment() {
                 </div>
 
                 {/* Date and Time Selection */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-white text-sm font-medium mb-2">
-                      Preferred Date *
-                    </label>
-                    <Input
-                      type="date"
-                      name="preferredDate"
-                      value={formData.preferredDate}
-                      onChange={handleInputChange}
-                      required
-                      min={new Date().toISOString().split('T')[0]}
-                      className="w-full h-12 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:border-orange-500"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-white text-sm font-medium mb-2">
-                      Preferred Time
-                    </label>
-                    <select
-                      name="preferredTime"
-                      value={formData.preferredTime}
-                      onChange={handleInputChange}
-                      className="w-full h-12 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:border-orange-500"
-                    >
-                      <option value="">Select time</option>
-                      {TIME_SLOTS.map((time) => (
-                        <option key={time} value={time} className="bg-gray-800">
-                          {time}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                </div>
-
-                <div>
-                  <label className="block text-white text-sm font-medium mb-2">
-                    Timezone
-                  </label>
-                  <select
-                    name="timezone"
-                    value={formData.timezone}
-                    onChange={handleInputChange}
-                    className="w-full h-12 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:border-orange-500"
-                  >
-                    <option value="UTC+4 (UAE Time)" className="bg-gray-800">UTC+4 (UAE Time)</option>
-                    <option value="UTC+0 (GMT)" className="bg-gray-800">UTC+0 (GMT)</option>
-                    <option value="UTC+1 (CET)" className="bg-gray-800">UTC+1 (CET)</option>
-                    <option value="UTC+8 (CST)" className="bg-gray-800">UTC+8 (CST)</option>
-                    <option value="UTC-5 (EST)" className="bg-gray-800">UTC-5 (EST)</option>
-                    <option value="UTC-8 (PST)" className="bg-gray-800">UTC-8 (PST)</option>
-                  </select>
-                </div>
+                <AppointmentSlotPicker
+                  serviceType={formData.serviceType}
+                  timezone={formData.timezone}
+                  date={formData.preferredDate}
+                  scheduledAt={formData.scheduledAt}
+                  // A different day or timezone means a different set of open slots
+                  onTimezoneChange={(timezone) => setFormData(prev => ({ ...prev, timezone, scheduledAt: "" }))}
+                  onDateChange={(preferredDate) => setFormData(prev => ({ ...prev, preferredDate, scheduledAt: "" }))}
+                  onSlotSelect={handleTimeSelect}
+                />
 
                 <div>
                   <label className="block text-white text-sm font-medium mb-2">
@@ -3,14 +3,18 @@ import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import SEOHead from "@/components/SEOHead";
 import { MapPin, Phone, Mail, Clock, MessageCircle, Send } from "lucide-react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import HoneypotField from "@/components/HoneypotField";
+import { solveFormChallenge } from "@/lib/formChallenge";
+import { CONTACT_SERVICE_OPTIONS } from "@shared/services";
+import { HONEYPOT_FIELD } from "@shared/spam";
 import logo71NoText from "@assets/71digital logo - no text.png";
 
 export default function Contact() {
   const [currentSection, setCurrentSection] = useState("contact");
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [honeypot, setHoneypot] = useState("");
   
   const [formData, setFormData] = useState({
     name: "",
@@ -29,7 +33,9 @@ export default function Contact() {
         companyName: data.company,
         phoneNumber: data.phone,
         service: data.service,
-        message: data.message
+        message: data.message,
+        [HONEYPOT_FIELD]: honeypot,
+        ...(await solveFormChallenge()),
       };
       
       const response = await fetch("/api/contact", {
@@ -41,13 +47,13 @@ export default function Contact() {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to submit contact form");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Please try again or contact us directly.");
       }
       
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/contact'] });
       toast({
         title: "Message sent successfully!",
         description: "We'll get back to you within 24 hours.",
@@ -61,11 +67,11 @@ export default function Contact() {
         message: ""
       });
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       console.error('Contact form error:', error);
       toast({
         title: "Failed to send message",
-        description: "Please try again or contact us directly.",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -230,7 +236,8 @@ export default function Contact() {
               <div>
                 <h3 className="text-xl font-bold text-orange-500 mb-6">Send us a Message</h3>
                 
-                <form onSubmit={handleSubmit} className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30">
+                <form onSubmit={handleSubmit} className="relative bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30">
+                  <HoneypotField value={honeypot} onChange={setHoneypot} />
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                     <div>
                       <label htmlFor="name" className="block text-white text-sm font-medium mb-2">
@@ -307,12 +314,9 @@ export default function Contact() {
                       className="w-full px-3 py-2 bg-white/20 border border-white/30 rounded-lg text-white focus:outline-none focus:border-orange-500"
                     >
                       <option value="" className="bg-gray-800">Select a service</option>
-                      <option value="hosting" className="bg-gray-800">Hosting Solutions</option>
-                      <option value="site-acquisition" className="bg-gray-800">Site Acquisition & Power Deals</option>
-                      <option value="hardware" className="bg-gray-800">Hardware Procurement</option>
-                      <option value="operations" className="bg-gray-800">Mining Operations & Site Management</option>
-                      <option value="consultation" className="bg-gray-800">General Consultation</option>
-                      <option value="other" className="bg-gray-800">Other</option>
+                      {CONTACT_SERVICE_OPTIONS.map((service) => (
+                        <option key={service.value} value={service.value} className="bg-gray-800">{service.label}</option>
+                      ))}
                     </select>
                   </div>
 
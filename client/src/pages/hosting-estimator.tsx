@@ -0,0 +1,301 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import SEOHead from "@/components/SEOHead";
+import QuoteCart from "@/components/QuoteCart";
+import { Button } from "@/components/ui/button";
+import { Calendar, Plus, Receipt, ShoppingCart, Trash2 } from "lucide-react";
+import logo71NoText from "@assets/71digital logo - no text.png";
+import type { HostingPlan, Product } from "@shared/schema";
+import { formatUsd } from "@shared/products";
+import { DAYS_PER_MONTH } from "@shared/profitability";
+import { estimateHostingContract, formatContractTerm, formatDeposit, type HostingEstimate } from "@shared/hosting";
+
+interface EstimatorLine {
+  productId: number;
+  quantity: number;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-white/20 border border-white/30 rounded-lg text-white placeholder-gray-300 focus:outline-none focus:border-orange-500";
+
+// Sent as the message of the appointment or quote request, so the team sees what the client priced
+function estimateSummary(plan: HostingPlan, site: string, lines: Array<EstimatorLine & { product: Product }>, estimate: HostingEstimate) {
+  return [
+    `Hosting estimate: ${plan.name}${site ? ` at ${site}` : ""}`,
+    ...lines.map(({ product, quantity }) => `- ${quantity} x ${product.manufacturer} ${product.model}`),
+    `Monthly hosting fees: ${formatUsd(estimate.monthlyFee)} (${Math.round(estimate.monthlyKwh).toLocaleString("en-US")} kWh at $${plan.ratePerKwh}/kWh)`,
+    `Deposit: ${formatUsd(estimate.deposit)} (${formatDeposit(plan.depositMonths).toLowerCase()})`,
+    ...(estimate.setupFees > 0 ? [`Setup fees: ${formatUsd(estimate.setupFees)}`] : []),
+    `Total contract value (${formatContractTerm(plan.contractMonths, plan.renewable)}): ${formatUsd(estimate.contractValue)}`,
+  ].join("\n");
+}
+
+function ResultRow({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between ${strong ? "border-t border-white/20 pt-2" : ""}`}>
+      <span className="text-gray-300">{label}</span>
+      <span className={strong ? "text-orange-400 font-bold" : "text-white font-semibold"}>{value}</span>
+    </div>
+  );
+}
+
+// Prices a hosting contract from the admin-maintained plans; like the profitability calculator
+// it works in the browser, and the result is handed on as a booking or a quote request
+export default function HostingEstimator() {
+  const [currentSection, setCurrentSection] = useState("estimator");
+  const { data: plans = [] } = useQuery<HostingPlan[]>({ queryKey: ["/api/hosting-plans"] });
+  const { data: products = [] } = useQuery<Product[]>({ queryKey: ["/api/products"] });
+
+  const [planSlug, setPlanSlug] = useState("");
+  const [site, setSite] = useState("");
+  const [lines, setLines] = useState<EstimatorLine[]>([]);
+  const [cartOpen, setCartOpen] = useState(false);
+
+  // A plan's first site with capacity is picked for the visitor
+  const selectPlan = (slug: string) => {
+    const selected = plans.find((entry) => entry.slug === slug);
+    setPlanSlug(slug);
+    setSite(selected?.sites.find((entry) => entry.available)?.name ?? selected?.sites[0]?.name ?? "");
+  };
+
+  // Start on the plan linked from the pricing section (?plan=slug), or the first one
+  useEffect(() => {
+    if (plans.length === 0 || planSlug) return;
+    const requested = new URLSearchParams(window.location.search).get("plan");
+    selectPlan((plans.find((plan) => plan.slug === requested) ?? plans[0]).slug);
+  }, [plans]);
+
+  useEffect(() => {
+    if (products.length > 0 && lines.length === 0) {
+      setLines([{ productId: products[0].id, quantity: 10 }]);
+    }
+  }, [products]);
+
+  const plan = plans.find((entry) => entry.slug === planSlug);
+
+  const updateLine = (index: number, changes: Partial<EstimatorLine>) =>
+    setLines((current) => current.map((line, position) => (position === index ? { ...line, ...changes } : line)));
+
+  const addLine = () => {
+    const unused = products.find((product) => !lines.some((line) => line.productId === product.id));
+    if (unused) {
+      setLines((current) => [...current, { productId: unused.id, quantity: 1 }]);
+    }
+  };
+
+  // Models taken off the store since they were picked are left out
+  const pricedLines = lines.flatMap((line) => {
+    const product = products.find((entry) => entry.id === line.productId);
+    return product && line.quantity > 0 ? [{ ...line, product }] : [];
+  });
+  const estimate = plan
+    ? estimateHostingContract(plan, pricedLines.map(({ product, quantity }) => ({ powerWatts: product.powerWatts, quantity })))
+    : null;
+  const summary = plan && estimate && pricedLines.length > 0 ? estimateSummary(plan, site, pricedLines, estimate) : "";
+  const waitlisted = plan?.sites.some((entry) => entry.name === site && !entry.available) ?? false;
+
+  const bookConsultation = () => {
+    const params = new URLSearchParams({ service: "hosting-consultation", message: summary });
+    window.open(`/book-appointment?${params}`, "_self");
+  };
+
+  const handleNavigate = (section: string) => {
+    setCurrentSection(section);
+    document.getElementById(section)?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  const estimatorSchema = {
+    "@context": "https://schema.org",
+    "@type": "WebApplication",
+    "name": "Mining Hosting Contract Estimator - 71 Digital",
+    "description": "Estimate monthly hosting fees, deposit and total contract value for hosting ASIC miners with 71 Digital.",
+    "url": "https://71digital.io/hosting-estimator",
+    "applicationCategory": "FinanceApplication",
+    "operatingSystem": "Any",
+    "offers": { "@type": "Offer", "price": 0, "priceCurrency": "USD" },
+  };
+
+  return (
+    <div className="min-h-screen">
+      <SEOHead
+        title="Mining Hosting Cost Estimator UAE | 71 Digital"
+        description="Price a hosting contract for your ASIC miners: monthly hosting fees, deposit and total contract value on our Cloud Hosting and Turnkey plans."
+        keywords="mining hosting cost, bitcoin hosting UAE, ASIC hosting rate, mining colocation price, hosting contract calculator"
+        canonical="https://71digital.io/hosting-estimator"
+        schema={estimatorSchema}
+      />
+      <Header currentSection={currentSection} onNavigate={handleNavigate} />
+      <main>
+        <section className="py-12 md:py-16 px-4" id="estimator">
+          <div className="container mx-auto max-w-6xl">
+            <div className="flex items-center mb-6 md:mb-8">
+              <img src={logo71NoText} alt="71 Digital Logo" className="w-8 h-8 md:w-12 md:h-12 mr-3 md:mr-4" />
+              <h1 className="text-2xl md:text-4xl font-bold text-orange-500">Hosting Estimator</h1>
+            </div>
+
+            <div className="mb-10 md:mb-12">
+              <h2 className="text-xl md:text-2xl font-bold text-white mb-4">What will hosting your fleet cost?</h2>
+              <p className="text-white text-base md:text-lg leading-relaxed max-w-4xl">
+                Choose a plan and the machines you want hosted. Fees are based on each machine's rated power running
+                around the clock; send the estimate to our team to book a consultation or get a formal quote.
+              </p>
+            </div>
+
+            {plans.length === 0 ? (
+              <p className="text-gray-300 text-center py-12">Hosting plans are being updated. Please book a consultation for current pricing.</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-16">
+                <div className="space-y-8">
+                  <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30 space-y-4">
+                    <h3 className="text-lg font-bold text-orange-500">Plan</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="plan" className="block text-white text-sm font-medium mb-2">Hosting plan</label>
+                        <select id="plan" value={planSlug} onChange={(e) => selectPlan(e.target.value)} className={inputClass}>
+                          {plans.map((entry) => (
+                            <option key={entry.id} value={entry.slug} className="bg-gray-800">{entry.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="site" className="block text-white text-sm font-medium mb-2">Site</label>
+                        <select id="site" value={site} onChange={(e) => setSite(e.target.value)} className={inputClass}>
+                          {plan?.sites.map((entry) => (
+                            <option key={entry.name} value={entry.name} className="bg-gray-800">
+                              {entry.available ? entry.name : `${entry.name} (waitlist)`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    {plan && (
+                      <div className="text-sm text-gray-300 space-y-1">
+                        <p>${plan.ratePerKwh}/kWh all-in · {formatContractTerm(plan.contractMonths, plan.renewable)} · {plan.cooling}</p>
+                        <p>
+                          Deposit: {formatDeposit(plan.depositMonths)}
+                          {plan.setupFeePerUnit > 0 && ` · Setup: ${formatUsd(plan.setupFeePerUnit)} per unit`}
+                          {plan.maintenanceIncluded && " · Maintenance included"}
+                        </p>
+                      </div>
+                    )}
+                    {waitlisted && (
+                      <p className="text-sm text-amber-400">This site is fully booked; we'll add you to the waitlist with this estimate.</p>
+                    )}
+                  </div>
+
+                  <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30 space-y-4">
+                    <h3 className="text-lg font-bold text-orange-500">Machines</h3>
+                    {lines.map((line, index) => (
+                      <div key={index} className="flex items-end space-x-3">
+                        <div className="flex-1">
+                          <label htmlFor={`model-${index}`} className="block text-white text-sm font-medium mb-2">Model</label>
+                          <select
+                            id={`model-${index}`}
+                            value={line.productId}
+                            onChange={(e) => updateLine(index, { productId: Number(e.target.value) })}
+                            className={inputClass}
+                          >
+                            {products.map((product) => (
+                              <option key={product.id} value={product.id} className="bg-gray-800">
+                                {product.manufacturer} {product.model} ({product.powerWatts} W)
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="w-28">
+                          <label htmlFor={`units-${index}`} className="block text-white text-sm font-medium mb-2">Units</label>
+                          <input
+                            id={`units-${index}`}
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={line.quantity || ""}
+                            onChange={(e) => updateLine(index, { quantity: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                            className={inputClass}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines((current) => current.filter((_, position) => position !== index))}
+                          className="text-gray-300 hover:text-white hover:bg-white/10 mb-1"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {lines.length < products.length && (
+                      <Button variant="ghost" size="sm" onClick={addLine} className="text-orange-400 hover:text-orange-300 hover:bg-white/10">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add another model
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-6">
+                  <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30">
+                    <div className="flex items-center mb-4">
+                      <Receipt className="w-6 h-6 text-orange-500 mr-3" />
+                      <h3 className="text-lg font-bold text-white">Your estimate</h3>
+                    </div>
+                    {estimate && estimate.units > 0 ? (
+                      <div className="space-y-2 text-sm md:text-base">
+                        <ResultRow label="Machines" value={`${estimate.units.toLocaleString("en-US")} (${estimate.powerKw.toLocaleString("en-US", { maximumFractionDigits: 1 })} kW)`} />
+                        <ResultRow label={`Energy per month (${DAYS_PER_MONTH} days)`} value={`${Math.round(estimate.monthlyKwh).toLocaleString("en-US")} kWh`} />
+                        <ResultRow label="Monthly hosting fees" value={formatUsd(estimate.monthlyFee)} />
+                        <ResultRow label="Deposit" value={formatUsd(estimate.deposit)} />
+                        {estimate.setupFees > 0 && <ResultRow label="Setup fees" value={formatUsd(estimate.setupFees)} />}
+                        <ResultRow label="Due at signing" value={formatUsd(estimate.dueAtSigning)} />
+                        <ResultRow label={`Total contract value (${plan!.contractMonths} months)`} value={formatUsd(estimate.contractValue)} strong />
+                      </div>
+                    ) : (
+                      <p className="text-gray-300">Add at least one machine to see the fees.</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-4">
+                      An estimate, not an offer: the contract is billed on metered consumption and confirmed in writing.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Button
+                      className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
+                      onClick={bookConsultation}
+                      disabled={!summary}
+                    >
+                      <Calendar className="w-4 h-4 mr-2" />
+                      Book a Consultation
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors"
+                      onClick={() => setCartOpen(true)}
+                      disabled={!summary}
+                    >
+                      <ShoppingCart className="w-4 h-4 mr-2" />
+                      Request a Quote
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+      <QuoteCart
+        open={cartOpen}
+        onOpenChange={setCartOpen}
+        products={products}
+        items={pricedLines.map(({ productId, quantity }) => ({ productId, quantity }))}
+        onQuantityChange={(productId, quantity) =>
+          setLines((current) => current.map((line) => (line.productId === productId ? { ...line, quantity } : line)))}
+        onRemove={(productId) => setLines((current) => current.filter((line) => line.productId !== productId))}
+        onSubmitted={() => undefined}
+        initialMessage={summary}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import SEOHead from "@/components/SEOHead";
+import AppointmentSlotPicker, { BROWSER_TIMEZONE, invalidateAvailability } from "@/components/AppointmentSlotPicker";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Calendar, CalendarX, Clock, MessageCircle, Phone } from "lucide-react";
+import { getServiceLabel } from "@shared/services";
+import { BUSINESS_TIMEZONE, formatAppointmentTime } from "@shared/timezones";
+import logo71NoText from "@assets/71digital logo - no text.png";
+
+interface ManagedAppointment {
+  id: number;
+  fullName: string;
+  serviceType: string;
+  scheduledAt: string;
+  timezone: string;
+  status: string;
+  rejectionReason: string | null;
+  canCancel: boolean;
+  canReschedule: boolean;
+}
+
+const STATUS_TEXT: Record<string, { label: string; className: string; description: string }> = {
+  pending: {
+    label: "Pending",
+    className: "bg-orange-500/20 text-orange-400 border-orange-500/30",
+    description: "We've received your request and will confirm it shortly.",
+  },
+  approved: {
+    label: "Confirmed",
+    className: "bg-green-500/20 text-green-400 border-green-500/30",
+    description: "Your appointment is confirmed. We look forward to meeting you.",
+  },
+  rejected: {
+    label: "Not available",
+    className: "bg-red-500/20 text-red-400 border-red-500/30",
+    description: "We couldn't accommodate this time. You can pick another slot below.",
+  },
+  completed: {
+    label: "Completed",
+    className: "bg-blue-500/20 text-blue-400 border-blue-500/30",
+    description: "Thank you for meeting with us.",
+  },
+  cancelled: {
+    label: "Cancelled",
+    className: "bg-gray-500/20 text-gray-300 border-gray-500/30",
+    description: "This appointment has been cancelled.",
+  },
+};
+
+async function postManageAction(url: string, body?: object): Promise<ManagedAppointment> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body ?? {}),
+  });
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(result?.error || "Something went wrong. Please try again.");
+  }
+  return result.appointment;
+}
+
+export default function ManageAppointment() {
+  const { token = "" } = useParams<{ token: string }>();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const [reschedule, setReschedule] = useState({ timezone: BROWSER_TIMEZONE, date: "", scheduledAt: "" });
+
+  const manageUrl = `/api/appointments/manage/${token}`;
+  const { data, isLoading, error } = useQuery<{ appointment: ManagedAppointment }>({
+    queryKey: [manageUrl],
+  });
+  const appointment = data?.appointment;
+
+  const onChanged = (updated: ManagedAppointment) => {
+    queryClient.setQueryData([manageUrl], { appointment: updated });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: () => postManageAction(`${manageUrl}/cancel`),
+    onSuccess: (updated) => {
+      onChanged(updated);
+      setConfirmCancel(false);
+      toast({ title: "Appointment cancelled", description: "We've let our team know." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rescheduleMutation = useMutation({
+    mutationFn: () =>
+      postManageAction(`${manageUrl}/reschedule`, {
+        scheduledAt: reschedule.scheduledAt,
+        timezone: reschedule.timezone,
+      }),
+    onSuccess: (updated) => {
+      onChanged(updated);
+      setReschedule((prev) => ({ ...prev, date: "", scheduledAt: "" }));
+      invalidateAvailability(queryClient);
+      toast({ title: "Appointment moved", description: "Your new time is pending confirmation from our team." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not reschedule", description: error.message, variant: "destructive" });
+      setReschedule((prev) => ({ ...prev, scheduledAt: "" }));
+      invalidateAvailability(queryClient);
+    },
+  });
+
+  const status = appointment ? STATUS_TEXT[appointment.status] ?? STATUS_TEXT.pending : null;
+
+  return (
+    <div className="min-h-screen" style={{ backgroundColor: '#1A0F08' }}>
+      <SEOHead
+        title="Manage Your Appointment | 71 Digital"
+        description="View, reschedule or cancel your consultation with 71 Digital."
+      />
+      <Header currentSection="appointment" onNavigate={() => {}} />
+      <main>
+        <section className="py-12 md:py-16 px-4">
+          <div className="container mx-auto max-w-3xl">
+            <div className="flex items-center justify-center mb-8">
+              <img src={logo71NoText} alt="71 Digital Logo" className="w-12 h-12 mr-4" />
+              <h1 className="text-3xl md:text-4xl font-bold text-orange-500">Your Appointment</h1>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : error || !appointment || !status ? (
+              <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 md:p-8 border border-orange-500/30 text-center">
+                <CalendarX className="w-10 h-10 text-orange-500 mx-auto mb-4" />
+                <p className="text-white text-lg mb-2">We couldn't find this appointment.</p>
+                <p className="text-gray-300 text-sm">
+                  The link may be incomplete. Please use the link from your confirmation email, or contact us at{" "}
+                  <a href="mailto:info@71digital.io" className="text-orange-500 hover:underline">info@71digital.io</a>.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 md:p-8 border border-orange-500/30">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <h2 className="text-xl font-bold text-white">{getServiceLabel(appointment.serviceType)}</h2>
+                    <Badge className={`${status.className} w-fit`}>{status.label}</Badge>
+                  </div>
+                  <div className="space-y-2 text-gray-200">
+                    <p className="flex items-center">
+                      <Calendar className="w-4 h-4 text-orange-500 mr-2" />
+                      {formatAppointmentTime(appointment.scheduledAt, appointment.timezone)} ({appointment.timezone.replace(/_/g, " ")})
+                    </p>
+                    {appointment.timezone !== BUSINESS_TIMEZONE && (
+                      <p className="flex items-center text-sm text-gray-400">
+                        <Clock className="w-4 h-4 mr-2" />
+                        {formatAppointmentTime(appointment.scheduledAt, BUSINESS_TIMEZONE)} UAE time
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-gray-300 text-sm mt-4">{status.description}</p>
+                  {appointment.status === "rejected" && appointment.rejectionReason && (
+                    <p className="text-gray-400 text-sm mt-2">Reason: {appointment.rejectionReason}</p>
+                  )}
+                  {appointment.canCancel && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setConfirmCancel(true)}
+                      className="mt-6 border-red-500/30 text-red-400 hover:bg-red-500/10"
+                    >
+                      <CalendarX className="w-4 h-4 mr-2" />
+                      Cancel Appointment
+                    </Button>
+                  )}
+                </div>
+
+                {appointment.canReschedule && (
+                  <form
+                    className="bg-white/10 backdrop-blur-sm rounded-lg p-6 md:p-8 border border-orange-500/30 space-y-6"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (reschedule.scheduledAt) rescheduleMutation.mutate();
+                    }}
+                  >
+                    <div>
+                      <h3 className="text-xl font-bold text-orange-500 mb-1">Pick a New Time</h3>
+                      <p className="text-gray-300 text-sm">
+                        A new time needs to be confirmed by our team again, so your appointment will return to pending.
+                      </p>
+                    </div>
+                    <AppointmentSlotPicker
+                      serviceType={appointment.serviceType}
+                      timezone={reschedule.timezone}
+                      date={reschedule.date}
+                      scheduledAt={reschedule.scheduledAt}
+                      onTimezoneChange={(timezone) => setReschedule({ timezone, date: reschedule.date, scheduledAt: "" })}
+                      onDateChange={(date) => setReschedule({ ...reschedule, date, scheduledAt: "" })}
+                      onSlotSelect={(scheduledAt) => setReschedule({ ...reschedule, scheduledAt })}
+                      manageToken={token}
+                    />
+                    <Button
+                      type="submit"
+                      disabled={!reschedule.scheduledAt || rescheduleMutation.isPending}
+                      className="w-full h-12 bg-orange-500 hover:bg-orange-600 text-white font-semibold"
+                    >
+                      {rescheduleMutation.isPending ? "Rescheduling..." : "Reschedule Appointment"}
+                    </Button>
+                  </form>
+                )}
+
+                <div className="text-center">
+                  <p className="text-gray-300 text-sm mb-4">Questions about your appointment?</p>
+                  <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                    <Button
+                      className="bg-orange-500 hover:bg-orange-600 text-white transition-colors"
+                      onClick={() => window.open('tel:+971503578552', '_self')}
+                    >
+                      <Phone className="w-4 h-4 mr-2" />
+                      Call: +971 50 357 8552
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors"
+                      onClick={() => window.open('https://wa.me/971503578552', '_blank')}
+                    >
+                      <MessageCircle className="w-4 h-4 mr-2" />
+                      WhatsApp Business
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </section>
+      </main>
+      <Footer />
+
+      <Dialog open={confirmCancel} onOpenChange={setConfirmCancel}>
+        <DialogContent className="bg-[#1A0F08] border-orange-500/30 text-white max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-orange-500">Cancel this appointment?</DialogTitle>
+            <DialogDescription className="text-gray-300">
+              Your slot will be released. You can always book a new consultation later.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex space-x-2">
+            <Button variant="outline" onClick={() => setConfirmCancel(false)} className="border-gray-500 text-gray-300">
+              Keep Appointment
+            </Button>
+            <Button
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Appointment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,14 +1,163 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import SEOHead from "@/components/SEOHead";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, Phone, Download, MessageCircle } from "lucide-react";
-import productsImage from "@assets/4.png";
+import QuoteCart from "@/components/QuoteCart";
+import { useQuoteCart } from "@/hooks/use-quote-cart";
+import { CheckCircle, Phone, Download, MessageCircle, ShoppingCart, Calculator } from "lucide-react";
 import logo71NoText from "@assets/71digital logo - no text.png";
-import s21AirImage from "@assets/Antminer s21 air cooling.png";
-import s21HydroImage from "@assets/S21 hydro.png";
-import l9Image from "@assets/l9.png";
+import type { Product } from "@shared/schema";
+import { efficiencyUnit, formatUsd, getCoolingLabel, productEfficiency } from "@shared/products";
+import { isBitcoinMiner } from "@shared/profitability";
+
+const SITE_URL = "https://71digital.io";
+
+const absoluteUrl = (path: string) => (path.startsWith("/") ? `${SITE_URL}${path}` : path);
+
+const productName = (product: Product) => `${product.manufacturer} ${product.model}`;
+
+// One entry in the store's structured data, so search engines can show each machine's specs and price
+function productOffer(product: Product) {
+  const efficiency = productEfficiency(product);
+  return {
+    "@type": "Offer",
+    "url": `${SITE_URL}/mining-store#${product.slug}`,
+    "availability": product.stock > 0 ? "https://schema.org/InStock" : "https://schema.org/BackOrder",
+    ...(product.price !== null && { "price": product.price, "priceCurrency": "USD" }),
+    "itemOffered": {
+      "@type": "Product",
+      "name": productName(product),
+      "sku": product.slug,
+      "brand": { "@type": "Brand", "name": product.manufacturer },
+      "category": `${product.algorithm} Mining Hardware`,
+      ...(product.description && { "description": product.description }),
+      ...(product.images.length > 0 && { "image": product.images.map(absoluteUrl) }),
+      "additionalProperty": [
+        { "@type": "PropertyValue", "name": "Hashrate", "value": product.hashrate, "unitText": product.hashrateUnit },
+        { "@type": "PropertyValue", "name": "Power", "value": product.powerWatts, "unitCode": "WTT" },
+        ...(efficiency !== null ? [{ "@type": "PropertyValue", "name": "Efficiency", "value": efficiency, "unitText": efficiencyUnit(product.hashrateUnit) }] : []),
+        { "@type": "PropertyValue", "name": "Cooling", "value": getCoolingLabel(product.coolingType) },
+      ],
+    },
+  };
+}
+
+const ALGORITHM_BADGES: Record<string, string> = {
+  "SHA-256": "bg-orange-500/20 text-orange-400",
+  "Scrypt": "bg-green-500/20 text-green-400",
+};
+
+const COOLING_BADGES: Record<string, string> = {
+  air: "bg-blue-500/20 text-blue-400",
+  hydro: "bg-cyan-500/20 text-cyan-400",
+  immersion: "bg-purple-500/20 text-purple-400",
+};
+
+function SpecRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between">
+      <span className="text-gray-300 text-sm md:text-base">{label}:</span>
+      <span className="text-white font-semibold text-sm md:text-base">{value}</span>
+    </div>
+  );
+}
+
+// A store card; the image alternates sides down the page
+function ProductListing({ product, imageFirst, onAddToQuote }: { product: Product; imageFirst: boolean; onAddToQuote: () => void }) {
+  const efficiency = productEfficiency(product);
+  const [image] = product.images;
+
+  return (
+    <div
+      id={product.slug}
+      className="bg-white/5 rounded-xl border border-orange-500/20 overflow-hidden hover:border-orange-500/40 transition-all duration-300"
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-0">
+        {/* Product Image */}
+        <div className={`lg:col-span-1 bg-white/10 p-6 md:p-8 flex items-center justify-center ${imageFirst ? "" : "lg:order-2"}`}>
+          {image && (
+            <img
+              src={image}
+              alt={productName(product)}
+              className="w-full max-w-xs h-auto object-contain"
+            />
+          )}
+        </div>
+
+        {/* Product Details */}
+        <div className={`lg:col-span-2 p-6 md:p-8 ${imageFirst ? "" : "lg:order-1"}`}>
+          <div className="mb-4 md:mb-6">
+            <h3 className="text-xl md:text-2xl font-bold text-orange-500 mb-2">
+              {productName(product)}
+            </h3>
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <span className={`${ALGORITHM_BADGES[product.algorithm] ?? "bg-gray-500/20 text-gray-300"} px-3 py-1 rounded-full text-xs md:text-sm`}>
+                {product.algorithm} Mining
+              </span>
+              <span className={`${COOLING_BADGES[product.coolingType] ?? "bg-gray-500/20 text-gray-300"} px-3 py-1 rounded-full text-xs md:text-sm`}>
+                {getCoolingLabel(product.coolingType)}
+              </span>
+              <span className="bg-white/10 text-gray-300 px-3 py-1 rounded-full text-xs md:text-sm">
+                {product.stock > 0 ? "In stock" : "Available to order"}
+              </span>
+            </div>
+            {product.description && (
+              <p className="text-gray-300 text-sm md:text-base">{product.description}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 mb-6 md:mb-8">
+            <div className="space-y-2 md:space-y-3">
+              <SpecRow label="Hashrate" value={`${product.hashrate} ${product.hashrateUnit}`} />
+              <SpecRow label="Power" value={`~${product.powerWatts}W`} />
+              {efficiency !== null && (
+                <SpecRow label="Efficiency" value={`${efficiency} ${efficiencyUnit(product.hashrateUnit)}`} />
+              )}
+            </div>
+            <div className="space-y-2 md:space-y-3">
+              <SpecRow label="Algorithm" value={product.algorithm} />
+              {product.bestFor && <SpecRow label="Best For" value={product.bestFor} />}
+              {product.warrantyMonths !== null && <SpecRow label="Warranty" value={`${product.warrantyMonths} months`} />}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+            <p className="text-lg md:text-xl font-bold text-white">
+              {product.price !== null ? formatUsd(product.price) : "Price on request"}
+            </p>
+            {isBitcoinMiner(product) && (
+              <a
+                href={`/profitability-calculator?model=${product.slug}`}
+                className="flex items-center text-sm text-orange-400 hover:text-orange-300 transition-colors"
+              >
+                <Calculator className="w-4 h-4 mr-1" />
+                Estimate earnings
+              </a>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 md:gap-4">
+            <Button
+              className="w-full text-sm md:text-base bg-orange-500 hover:bg-orange-600 text-white transition-colors"
+              onClick={onAddToQuote}
+            >
+              <ShoppingCart className="w-3 h-3 md:w-4 md:h-4 mr-2" />
+              Add to Quote
+            </Button>
+            <Button asChild variant="outline" className="w-full text-sm md:text-base border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors">
+              <a href={`/api/products/${product.slug}/spec.pdf`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Download Spec
+              </a>
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
 
 export default function MiningStore() {
   const [currentSection, setCurrentSection] = useState("store");
@@ -41,29 +190,31 @@ export default function MiningStore() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  const storeSchema = {
+  const { data, isLoading, error } = useQuery<Product[]>({ queryKey: ["/api/products"] });
+  const products = data ?? [];
+  const cart = useQuoteCart();
+  const [cartOpen, setCartOpen] = useState(false);
+  const cartUnits = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  const addToQuote = (product: Product) => {
+    cart.add(product.id);
+    setCartOpen(true);
+  };
+
+  const storeSchema = useMemo(() => ({
     "@context": "https://schema.org",
     "@type": "Store",
     "name": "Bitcoin Mining Hardware Store - 71 Digital UAE",
-    "description": "Professional Bitcoin mining hardware including Antminer S21 Pro, S21 Hyd, and Goldshell KD Max. ASIC miners with competitive pricing and UAE delivery.",
+    "description": "Professional Bitcoin mining hardware including Antminer S21, S21 Hydro and L9 ASIC miners. Competitive pricing and UAE delivery.",
     "url": "https://71digital.io/mining-store",
-    "makesOffer": [
-      {
-        "@type": "Offer",
-        "itemOffered": {
-          "@type": "Product",
-          "name": "Antminer S21 Pro 234TH",
-          "category": "Bitcoin Mining Hardware"
-        }
-      }
-    ]
-  };
+    "makesOffer": (data ?? []).map(productOffer),
+  }), [data]);
 
   return (
     <div className="min-h-screen">
       <SEOHead
         title="Bitcoin Mining Hardware Store UAE - ASIC Miners | 71 Digital"
-        description="Professional Bitcoin mining hardware store in UAE. Antminer S21 Pro 234TH, S21 Hyd 335TH, Goldshell KD Max miners. Competitive pricing with local delivery and support."
+        description="Professional Bitcoin mining hardware store in UAE. Antminer S21, S21 Hydro and L9 ASIC miners. Competitive pricing with local delivery and support."
         keywords="bitcoin mining hardware UAE, ASIC miners UAE, Antminer S21 Pro, mining equipment store, cryptocurrency hardware UAE, mining hardware Dubai, Abu Dhabi mining equipment"
         canonical="https://71digital.io/mining-store"
         schema={storeSchema}
@@ -92,236 +243,50 @@ export default function MiningStore() {
             </div>
 
             {/* Products Layout */}
-            <div className="space-y-12 md:space-y-16 mb-12 md:mb-16">
-              {/* Bitmain Antminer S21 (Air Cooling) */}
-              <div className="bg-white/5 rounded-xl border border-orange-500/20 overflow-hidden hover:border-orange-500/40 transition-all duration-300">
-                <div className="grid grid-cols-1 lg:grid-cols-3 gap-0">
-                  {/* Product Image */}
-                  <div className="lg:col-span-1 bg-white/10 p-6 md:p-8 flex items-center justify-center">
-                    <img 
-                      src={s21AirImage}
-                      alt="Bitmain Antminer S21 Air Cooling"
-                      className="w-full max-w-xs h-auto object-contain"
-                    />
-                  </div>
-                  
-                  {/* Product Details */}
-                  <div className="lg:col-span-2 p-6 md:p-8">
-                    <div className="mb-4 md:mb-6">
-                      <h3 className="text-xl md:text-2xl font-bold text-orange-500 mb-2">
-                        Bitmain Antminer S21 (Air Cooling)
-                      </h3>
-                      <div className="flex flex-wrap items-center gap-2 mb-4">
-                        <span className="bg-orange-500/20 text-orange-400 px-3 py-1 rounded-full text-xs md:text-sm">Bitcoin Mining</span>
-                        <span className="bg-blue-500/20 text-blue-400 px-3 py-1 rounded-full text-xs md:text-sm">Air Cooled</span>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 mb-6 md:mb-8">
-                      <div className="space-y-2 md:space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-gray-300 text-sm md:text-base">Hashrate:</span>
-                          <span className="text-white font-semibold text-sm md:text-base">234 TH/s</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300 text-sm md:text-base">Power:</span>
-                          <span className="text-white font-semibold text-sm md:text-base">~3500W</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300 text-sm md:text-base">Efficiency:</span>
-                          <span className="text-white font-semibold text-sm md:text-base">17.5 J/TH</span>
-                        </div>
-                      </div>
-                      <div className="space-y-2 md:space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-gray-300 text-sm md:text-base">Cooling:</span>
-                          <span className="text-white font-semibold text-sm md:text-base">Air Cooling</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300 text-sm md:text-base">Best For:</span>
-                          <span className="text-white font-semibold text-sm md:text-base">Standard Deployment</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300 text-sm md:text-base">Warranty:</span>
-                          <span className="text-white font-semibold text-sm md:text-base">12 months</span>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-3 md:gap-4">
-                      <Button 
-                        className="w-full text-sm md:text-base bg-orange-500 hover:bg-orange-600 text-white transition-colors"
-                        onClick={() => window.open('/book-appointment', '_self')}
-                      >
-                        <MessageCircle className="w-3 h-3 md:w-4 md:h-4 mr-2" />
-                        Inquire Now
-                      </Button>
-                      <Button variant="outline" className="w-full text-sm md:text-base border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors">
-                        <Download className="w-4 h-4 mr-2" />
-                        Download Spec
-                      </Button>
-                    </div>
-                  </div>
-                </div>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <div className="w-8 h-8 border-2 border-orange-500 border-t-transparent rounded-full animate-spin"></div>
               </div>
-
-              {/* Bitmain Antminer S21 Hydro */}
-              <div className="bg-white/5 rounded-xl border border-orange-500/20 overflow-hidden hover:border-orange-500/40 transition-all duration-300">
-                <div className="grid grid-cols-1 lg:grid-cols-3 gap-0">
-                  {/* Product Details */}
-                  <div className="lg:col-span-2 p-8 order-2 lg:order-1">
-                    <div className="mb-6">
-                      <h3 className="text-2xl font-bold text-orange-500 mb-2">
-                        Bitmain Antminer S21 Hydro
-                      </h3>
-                      <div className="flex items-center gap-2 mb-4">
-                        <span className="bg-orange-500/20 text-orange-400 px-3 py-1 rounded-full text-sm">Bitcoin Mining</span>
-                        <span className="bg-cyan-500/20 text-cyan-400 px-3 py-1 rounded-full text-sm">Hydro Cooled</span>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                      <div className="space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Hashrate:</span>
-                          <span className="text-white font-semibold">335 TH/s</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Power:</span>
-                          <span className="text-white font-semibold">~5300W</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Efficiency:</span>
-                          <span className="text-white font-semibold">21.2 J/TH</span>
-                        </div>
-                      </div>
-                      <div className="space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Cooling:</span>
-                          <span className="text-white font-semibold">Hydro-Cooling</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Best For:</span>
-                          <span className="text-white font-semibold">High-density Sites</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Requirements:</span>
-                          <span className="text-white font-semibold">Water Loop</span>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <Button 
-                        className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
-                        onClick={() => window.open('/book-appointment', '_self')}
-                      >
-                        <MessageCircle className="w-4 h-4 mr-2" />
-                        Inquire Now
-                      </Button>
-                      <Button variant="outline" className="w-full border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors">
-                        <Download className="w-4 h-4 mr-2" />
-                        Download Spec
-                      </Button>
-                    </div>
-                  </div>
-                  
-                  {/* Product Image */}
-                  <div className="lg:col-span-1 bg-white/10 p-8 flex items-center justify-center order-1 lg:order-2">
-                    <img 
-                      src={s21HydroImage}
-                      alt="Bitmain Antminer S21 Hydro"
-                      className="w-full max-w-xs h-auto object-contain"
-                    />
-                  </div>
-                </div>
+            ) : products.length === 0 ? (
+              <div className="text-center bg-white/5 rounded-lg p-8 border border-orange-500/20 mb-12 md:mb-16">
+                <p className="text-white text-lg">
+                  {error ? "We couldn't load the catalog just now." : "Our current stock is being updated."} Talk to our team for
+                  pricing and availability.
+                </p>
               </div>
-
-              {/* Bitmain Antminer L9 */}
-              <div className="bg-white/5 rounded-xl border border-orange-500/20 overflow-hidden hover:border-orange-500/40 transition-all duration-300">
-                <div className="grid grid-cols-1 lg:grid-cols-3 gap-0">
-                  {/* Product Image */}
-                  <div className="lg:col-span-1 bg-white/10 p-8 flex items-center justify-center">
-                    <img 
-                      src={l9Image}
-                      alt="Bitmain Antminer L9 Scrypt Miner"
-                      className="w-full max-w-xs h-auto object-contain"
-                    />
-                  </div>
-                  
-                  {/* Product Details */}
-                  <div className="lg:col-span-2 p-8">
-                    <div className="mb-6">
-                      <h3 className="text-2xl font-bold text-orange-500 mb-2">
-                        Bitmain Antminer L9 (Scrypt Miner)
-                      </h3>
-                      <div className="flex items-center gap-2 mb-4">
-                        <span className="bg-green-500/20 text-green-400 px-3 py-1 rounded-full text-sm">Scrypt Mining</span>
-                        <span className="bg-blue-500/20 text-blue-400 px-3 py-1 rounded-full text-sm">Air Cooled</span>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                      <div className="space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Hashrate:</span>
-                          <span className="text-white font-semibold">17-18 GH/s</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Power:</span>
-                          <span className="text-white font-semibold">~3300W</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Algorithm:</span>
-                          <span className="text-white font-semibold">Scrypt</span>
-                        </div>
-                      </div>
-                      <div className="space-y-3">
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Cooling:</span>
-                          <span className="text-white font-semibold">Air Cooling</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Best For:</span>
-                          <span className="text-white font-semibold">LTC/DOGE Mining</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-300">Use Case:</span>
-                          <span className="text-white font-semibold">Diversification</span>
-                        </div>
-                      </div>
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <Button 
-                        className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
-                        onClick={() => window.open('/book-appointment', '_self')}
-                      >
-                        <MessageCircle className="w-4 h-4 mr-2" />
-                        Inquire Now
-                      </Button>
-                      <Button variant="outline" className="w-full border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors">
-                        <Download className="w-4 h-4 mr-2" />
-                        Download Spec
-                      </Button>
-                    </div>
-                  </div>
-                </div>
+            ) : (
+              <div className="space-y-12 md:space-y-16 mb-12 md:mb-16">
+                {products.map((product, index) => (
+                  <ProductListing
+                    key={product.id}
+                    product={product}
+                    imageFirst={index % 2 === 0}
+                    onAddToQuote={() => addToQuote(product)}
+                  />
+                ))}
               </div>
-            </div>
+            )}
 
             {/* Help Section */}
             <div className="text-center bg-white/5 rounded-lg p-8 border border-orange-500/20 mb-16">
               <h3 className="text-xl font-bold text-orange-500 mb-4">Need help choosing the right machine?</h3>
               <p className="text-white text-lg mb-6">Let our team recommend the best model for your site setup.</p>
-              <div className="flex justify-center">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-2xl mx-auto">
                 <Button 
-                  className="w-full max-w-md bg-orange-500 hover:bg-orange-600 text-white transition-colors"
+                  className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
                   onClick={() => window.open('/book-appointment', '_self')}
                 >
                   <MessageCircle className="w-5 h-5 mr-2" />
                   Talk to a Hardware Specialist
                 </Button>
+                <Button 
+                  variant="outline"
+                  className="w-full border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors"
+                  onClick={() => window.open('/profitability-calculator', '_self')}
+                >
+                  <Calculator className="w-5 h-5 mr-2" />
+                  Estimate Profitability
+                </Button>
               </div>
             </div>
 
@@ -366,7 +331,7 @@ export default function MiningStore() {
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-md mx-auto">
                 <Button 
                   className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
-                  onClick={() => window.open('/book-appointment', '_self')}
+                  onClick={() => setCartOpen(true)}
                 >
                   <Phone className="w-5 h-5 mr-2" />
                   Request Quote
@@ -385,6 +350,25 @@ export default function MiningStore() {
         </section>
       </main>
       <Footer />
+
+      {cartUnits > 0 && !cartOpen && (
+        <Button
+          onClick={() => setCartOpen(true)}
+          className="fixed bottom-6 right-6 z-40 rounded-full shadow-lg bg-orange-500 hover:bg-orange-600 text-white"
+        >
+          <ShoppingCart className="w-4 h-4 mr-2" />
+          Quote ({cartUnits})
+        </Button>
+      )}
+      <QuoteCart
+        open={cartOpen}
+        onOpenChange={setCartOpen}
+        products={products}
+        items={cart.items}
+        onQuantityChange={cart.setQuantity}
+        onRemove={cart.remove}
+        onSubmitted={cart.clear}
+      />
     </div>
   );
 }
\ No newline at end of file
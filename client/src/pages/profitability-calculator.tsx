@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import SEOHead from "@/components/SEOHead";
+import { Button } from "@/components/ui/button";
+import { Calculator, RotateCcw, ShoppingCart, Calendar } from "lucide-react";
+import logo71NoText from "@assets/71digital logo - no text.png";
+import type { Product } from "@shared/schema";
+import { formatUsd } from "@shared/products";
+import {
+  DAYS_PER_MONTH,
+  DEFAULT_PROFITABILITY_MARKET,
+  calculateProfitability,
+  isBitcoinMiner,
+  toTerahash,
+  type ProfitabilityMarket,
+} from "@shared/profitability";
+
+const CUSTOM_MODEL = "custom";
+
+interface CalculatorForm {
+  model: string; // product slug, or CUSTOM_MODEL
+  hashrate: string;
+  powerWatts: string;
+  hardwareCost: string;
+  electricityRate: string;
+  networkDifficulty: string;
+  blockReward: string;
+  btcPrice: string;
+  poolFee: string;
+}
+
+function marketFields(market: ProfitabilityMarket) {
+  return {
+    electricityRate: String(market.electricityRate),
+    networkDifficulty: String(market.networkDifficulty),
+    blockReward: String(market.blockReward),
+    btcPrice: String(market.btcPrice),
+    poolFee: String(market.poolFee),
+  };
+}
+
+function machineFields(product: Product) {
+  return {
+    model: product.slug,
+    hashrate: String(toTerahash(product.hashrate, product.hashrateUnit)),
+    powerWatts: String(product.powerWatts),
+    hardwareCost: product.price !== null ? String(product.price) : "",
+  };
+}
+
+const toNumber = (value: string) => (value.trim() === "" ? 0 : Number(value));
+
+// Losses show with a minus sign rather than the accounting brackets Intl can produce
+const formatSignedUsd = (amount: number) => (amount < 0 ? `-${formatUsd(-amount)}` : formatUsd(amount));
+
+const inputClass =
+  "w-full px-3 py-2 bg-white/20 border border-white/30 rounded-lg text-white placeholder-gray-300 focus:outline-none focus:border-orange-500";
+
+function Field({ id, label, hint, value, onChange, step = "any" }: {
+  id: string;
+  label: string;
+  hint?: string;
+  value: string;
+  onChange: (value: string) => void;
+  step?: string;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-white text-sm font-medium mb-2">{label}</label>
+      <input id={id} type="number" min="0" step={step} value={value} onChange={(e) => onChange(e.target.value)} className={inputClass} />
+      {hint && <p className="text-xs text-gray-400 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+function ResultCard({ title, revenue, cost, profit }: { title: string; revenue: number; cost: number; profit: number }) {
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30">
+      <h3 className="text-lg font-bold text-orange-500 mb-4">{title}</h3>
+      <div className="space-y-2 text-sm md:text-base">
+        <div className="flex justify-between">
+          <span className="text-gray-300">Revenue</span>
+          <span className="text-white font-semibold">{formatUsd(revenue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-300">Electricity</span>
+          <span className="text-white font-semibold">{formatUsd(cost)}</span>
+        </div>
+        <div className="flex justify-between border-t border-white/20 pt-2">
+          <span className="text-gray-300">Profit</span>
+          <span className={`font-bold ${profit >= 0 ? "text-green-400" : "text-red-400"}`}>{formatSignedUsd(profit)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Works everything out in the browser, so visitors can try their own difficulty and price
+// assumptions without another request; the server only supplies the catalog and starting values
+export default function ProfitabilityCalculator() {
+  const [currentSection, setCurrentSection] = useState("calculator");
+  const { data: products } = useQuery<Product[]>({ queryKey: ["/api/products"] });
+  const { data: defaults } = useQuery<ProfitabilityMarket>({ queryKey: ["/api/profitability/defaults"] });
+  const miners = useMemo(() => (products ?? []).filter(isBitcoinMiner), [products]);
+  const market = defaults ?? DEFAULT_PROFITABILITY_MARKET;
+
+  const [form, setForm] = useState<CalculatorForm>(() => ({
+    model: CUSTOM_MODEL,
+    hashrate: "",
+    powerWatts: "",
+    hardwareCost: "",
+    ...marketFields(DEFAULT_PROFITABILITY_MARKET),
+  }));
+  const [touchedMarket, setTouchedMarket] = useState(false);
+
+  // Pick the model linked from the store (?model=slug), or the first miner in the catalog
+  useEffect(() => {
+    if (miners.length === 0 || form.model !== CUSTOM_MODEL || form.hashrate) return;
+    const requested = new URLSearchParams(window.location.search).get("model");
+    const product = miners.find((miner) => miner.slug === requested) ?? miners[0];
+    setForm((current) => ({ ...current, ...machineFields(product) }));
+  }, [miners]);
+
+  // Admin defaults replace the built-in ones unless the visitor has started editing
+  useEffect(() => {
+    if (defaults && !touchedMarket) {
+      setForm((current) => ({ ...current, ...marketFields(defaults) }));
+    }
+  }, [defaults]);
+
+  const update = (field: keyof CalculatorForm) => (value: string) => {
+    if (field in DEFAULT_PROFITABILITY_MARKET) {
+      setTouchedMarket(true);
+    }
+    // Editing the machine's specs turns the selection into a custom machine
+    const custom = field === "hashrate" || field === "powerWatts" ? { model: CUSTOM_MODEL } : {};
+    setForm((current) => ({ ...current, ...custom, [field]: value }));
+  };
+
+  const selectModel = (slug: string) => {
+    const product = miners.find((miner) => miner.slug === slug);
+    setForm((current) => (product ? { ...current, ...machineFields(product) } : { ...current, model: CUSTOM_MODEL }));
+  };
+
+  const resetMarket = () => {
+    setTouchedMarket(false);
+    setForm((current) => ({ ...current, ...marketFields(market) }));
+  };
+
+  const result = calculateProfitability({
+    hashrate: toNumber(form.hashrate),
+    powerWatts: toNumber(form.powerWatts),
+    hardwareCost: form.hardwareCost.trim() === "" ? null : toNumber(form.hardwareCost),
+    electricityRate: toNumber(form.electricityRate),
+    networkDifficulty: toNumber(form.networkDifficulty),
+    blockReward: toNumber(form.blockReward),
+    btcPrice: toNumber(form.btcPrice),
+    poolFee: toNumber(form.poolFee),
+  });
+
+  const handleNavigate = (section: string) => {
+    setCurrentSection(section);
+    document.getElementById(section)?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  const calculatorSchema = {
+    "@context": "https://schema.org",
+    "@type": "WebApplication",
+    "name": "Bitcoin Mining Profitability Calculator - 71 Digital",
+    "description": "Estimate daily and monthly revenue, electricity cost, profit and break-even time for ASIC miners hosted in the UAE.",
+    "url": "https://71digital.io/profitability-calculator",
+    "applicationCategory": "FinanceApplication",
+    "operatingSystem": "Any",
+    "offers": { "@type": "Offer", "price": 0, "priceCurrency": "USD" },
+  };
+
+  return (
+    <div className="min-h-screen">
+      <SEOHead
+        title="Bitcoin Mining Profitability Calculator UAE | 71 Digital"
+        description="Work out what an Antminer earns: daily and monthly revenue, hosting electricity cost, profit and break-even days at current difficulty and BTC price."
+        keywords="bitcoin mining calculator, mining profitability UAE, antminer profit calculator, ASIC break even, bitcoin hosting electricity cost"
+        canonical="https://71digital.io/profitability-calculator"
+        schema={calculatorSchema}
+      />
+      <Header currentSection={currentSection} onNavigate={handleNavigate} />
+      <main>
+        <section className="py-12 md:py-16 px-4" id="calculator">
+          <div className="container mx-auto max-w-6xl">
+            <div className="flex items-center mb-6 md:mb-8">
+              <img src={logo71NoText} alt="71 Digital Logo" className="w-8 h-8 md:w-12 md:h-12 mr-3 md:mr-4" />
+              <h1 className="text-2xl md:text-4xl font-bold text-orange-500">Profitability Calculator</h1>
+            </div>
+
+            <div className="mb-10 md:mb-12">
+              <h2 className="text-xl md:text-2xl font-bold text-white mb-4">What will your miner earn?</h2>
+              <p className="text-white text-base md:text-lg leading-relaxed max-w-4xl">
+                Pick a machine from our store or enter your own, then adjust the network and market assumptions.
+                Results update as you type and are estimates only: difficulty and BTC price change constantly.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-16">
+              <div className="space-y-8">
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30 space-y-4">
+                  <h3 className="text-lg font-bold text-orange-500">Machine</h3>
+                  <div>
+                    <label htmlFor="model" className="block text-white text-sm font-medium mb-2">Model</label>
+                    <select id="model" value={form.model} onChange={(e) => selectModel(e.target.value)} className={inputClass}>
+                      {miners.map((miner) => (
+                        <option key={miner.id} value={miner.slug} className="bg-gray-800">
+                          {miner.manufacturer} {miner.model}
+                        </option>
+                      ))}
+                      <option value={CUSTOM_MODEL} className="bg-gray-800">Custom machine</option>
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <Field id="hashrate" label="Hashrate (TH/s)" value={form.hashrate} onChange={update("hashrate")} />
+                    <Field id="power" label="Power (W)" value={form.powerWatts} onChange={update("powerWatts")} step="1" />
+                    <Field id="cost" label="Hardware cost (USD)" value={form.hardwareCost} onChange={update("hardwareCost")} step="1" />
+                  </div>
+                </div>
+
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-orange-500">Network &amp; Market</h3>
+                    {touchedMarket && (
+                      <Button variant="ghost" size="sm" onClick={resetMarket} className="text-gray-300 hover:text-white hover:bg-white/10">
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Reset
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <Field
+                      id="electricity"
+                      label="Electricity (USD/kWh)"
+                      hint="Our all-in hosting rate by default"
+                      value={form.electricityRate}
+                      onChange={update("electricityRate")}
+                    />
+                    <Field id="btc-price" label="BTC price (USD)" value={form.btcPrice} onChange={update("btcPrice")} step="1" />
+                    <Field id="difficulty" label="Network difficulty" value={form.networkDifficulty} onChange={update("networkDifficulty")} />
+                    <Field id="block-reward" label="Block reward (BTC)" value={form.blockReward} onChange={update("blockReward")} />
+                    <Field id="pool-fee" label="Pool fee (%)" value={form.poolFee} onChange={update("poolFee")} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-6">
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30">
+                  <div className="flex items-center mb-2">
+                    <Calculator className="w-6 h-6 text-orange-500 mr-3" />
+                    <h3 className="text-lg font-bold text-white">Mined per day</h3>
+                  </div>
+                  <p className="text-2xl md:text-3xl font-bold text-white">{result.btcPerDay.toFixed(8)} BTC</p>
+                </div>
+                <ResultCard title="Daily" {...result.daily} />
+                <ResultCard title={`Monthly (${DAYS_PER_MONTH} days)`} {...result.monthly} />
+                <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6 border border-orange-500/30">
+                  <h3 className="text-lg font-bold text-orange-500 mb-2">Break-even</h3>
+                  <p className="text-white text-base md:text-lg">
+                    {result.breakEvenDays !== null
+                      ? `About ${result.breakEvenDays.toLocaleString("en-US")} days (${(result.breakEvenDays / DAYS_PER_MONTH).toFixed(1)} months)`
+                      : form.hardwareCost.trim() === ""
+                        ? "Enter the hardware cost to see when the machine pays for itself."
+                        : "Not at these numbers: the machine costs more to run than it earns."}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-2">Assumes today's difficulty and price hold; in practice difficulty tends to rise.</p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Button
+                    className="w-full bg-orange-500 hover:bg-orange-600 text-white transition-colors"
+                    onClick={() => window.open(form.model === CUSTOM_MODEL ? "/mining-store" : `/mining-store#${form.model}`, "_self")}
+                  >
+                    <ShoppingCart className="w-4 h-4 mr-2" />
+                    Get a Quote
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full border-orange-500 text-orange-500 hover:bg-orange-500 hover:text-white transition-colors"
+                    onClick={() => window.open("/book-appointment", "_self")}
+                  >
+                    <Calendar className="w-4 h-4 mr-2" />
+                    Talk to Hosting
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </section>
+      </main>
+      <Footer />
+    </div>
+  );
+}
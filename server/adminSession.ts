@@ -0,0 +1,84 @@
+import { timingSafeEqual } from "crypto";
+import type { CookieOptions, Request, Response } from "express";
+import { sign } from "./signing.js";
+import type { AdminUser } from "../shared/schema.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by requireAdmin (routes.ts) for the handlers behind it
+      admin?: AdminUser;
+      sessionToken?: string;
+    }
+  }
+}
+
+// How admin sessions travel. Browsers get the session token in an HttpOnly cookie, out of
+// reach of page scripts, plus a readable CSRF token they must echo in a header on every
+// mutating request. API clients can still ask for the token and send it as a bearer header;
+// those requests carry no ambient credentials, so they skip the CSRF check.
+
+export const SESSION_COOKIE = "admin_session";
+export const CSRF_COOKIE = "admin_csrf";
+export const CSRF_HEADER = "x-csrf-token";
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// A session ends after a day without use, and after a week no matter what
+export const SESSION_IDLE_MS = 24 * 60 * 60 * 1000;
+export const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// How stale lastSeenAt may get before a request slides the expiry forward
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+export const SESSION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface SessionCredentials {
+  token: string;
+  viaCookie: boolean;
+}
+
+export function getSessionCredentials(req: Request): SessionCredentials | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Bearer ")) {
+    return { token: authorization.slice("Bearer ".length), viaCookie: false };
+  }
+  const cookie = req.cookies?.[SESSION_COOKIE];
+  return typeof cookie === "string" && cookie ? { token: cookie, viaCookie: true } : null;
+}
+
+// Tied to the session token, so there's nothing extra to store and it dies with the session
+const csrfTokenFor = (sessionToken: string) => sign(`csrf:${sessionToken}`);
+
+// True unless a cookie-authenticated request changes state without echoing the CSRF token
+export function passesCsrfCheck(req: Request, credentials: SessionCredentials): boolean {
+  if (!credentials.viaCookie || SAFE_METHODS.includes(req.method)) {
+    return true;
+  }
+  const supplied = req.get(CSRF_HEADER);
+  if (!supplied) {
+    return false;
+  }
+  const expected = Buffer.from(csrfTokenFor(credentials.token));
+  const given = Buffer.from(supplied);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function cookieOptions(path: string, httpOnly: boolean): CookieOptions {
+  return {
+    path,
+    httpOnly,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+  };
+}
+
+// The cookies last as long as the absolute cap; the server enforces the idle expiry
+export function setSessionCookies(res: Response, sessionToken: string, expiresAt: Date) {
+  // Only the API reads the session cookie; the CSRF cookie has to be visible to the admin pages
+  res.cookie(SESSION_COOKIE, sessionToken, { ...cookieOptions("/api", true), expires: expiresAt });
+  res.cookie(CSRF_COOKIE, csrfTokenFor(sessionToken), { ...cookieOptions("/", false), expires: expiresAt });
+}
+
+export function clearSessionCookies(res: Response) {
+  res.clearCookie(SESSION_COOKIE, cookieOptions("/api", true));
+  res.clearCookie(CSRF_COOKIE, cookieOptions("/", false));
+}
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getDaySchedule, isSlotFree } from "./availability.js";
+import type { Appointment } from "../shared/schema.js";
+
+const storage = vi.hoisted(() => ({
+  getWorkingHours: vi.fn(),
+  getBlackoutDate: vi.fn(),
+  getBookedAppointmentsBetween: vi.fn(),
+}));
+
+vi.mock("./storage.js", () => ({ storage }));
+
+// 10:00 to 11:00 in Dubai on Monday 2 June 2025
+const booking = { id: 1, scheduledAt: new Date("2025-06-02T06:00:00Z"), serviceType: "hosting-consultation" } as Appointment;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2025-05-30T00:00:00Z"));
+  // No saved schedule: Monday to Friday, 09:00 to 18:00 Dubai time
+  storage.getWorkingHours.mockResolvedValue([]);
+  storage.getBlackoutDate.mockResolvedValue(undefined);
+  storage.getBookedAppointmentsBetween.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.clearAllMocks();
+});
+
+describe("getDaySchedule", () => {
+  it("offers half-hourly starts that finish by closing time", async () => {
+    const schedule = await getDaySchedule("2025-06-02", "hosting-consultation", "Asia/Dubai");
+    expect(schedule.closed).toBe(false);
+    expect(schedule.slots).toHaveLength(17);
+    expect(schedule.slots[0].startsAt).toBe("2025-06-02T05:00:00.000Z");
+    expect(schedule.slots.at(-1)?.startsAt).toBe("2025-06-02T13:00:00.000Z");
+    expect(schedule.slots.every((slot) => slot.available)).toBe(true);
+  });
+
+  it("stops earlier for longer services", async () => {
+    const schedule = await getDaySchedule("2025-06-02", "site-acquisition", "Asia/Dubai");
+    expect(schedule.slots.at(-1)?.startsAt).toBe("2025-06-02T12:30:00.000Z");
+  });
+
+  it("marks slots that overlap a booking as unavailable", async () => {
+    storage.getBookedAppointmentsBetween.mockResolvedValue([booking]);
+    const schedule = await getDaySchedule("2025-06-02", "hosting-consultation", "Asia/Dubai");
+    const taken = schedule.slots.filter((slot) => !slot.available).map((slot) => slot.startsAt);
+    expect(taken).toEqual(["2025-06-02T05:30:00.000Z", "2025-06-02T06:00:00.000Z", "2025-06-02T06:30:00.000Z"]);
+  });
+
+  it("treats the rescheduling customer's own booking as free", async () => {
+    storage.getBookedAppointmentsBetween.mockResolvedValue([booking]);
+    const schedule = await getDaySchedule("2025-06-02", "hosting-consultation", "Asia/Dubai", booking.id);
+    expect(schedule.slots.every((slot) => slot.available)).toBe(true);
+  });
+
+  it("builds a client's day from parts of two business days", async () => {
+    // Tuesday in Auckland (UTC+12) runs from Monday 16:00 to Tuesday 16:00 in Dubai
+    const schedule = await getDaySchedule("2025-06-03", "hosting-consultation", "Pacific/Auckland");
+    expect(schedule.slots).toHaveLength(17);
+    expect(schedule.slots[0].startsAt).toBe("2025-06-02T12:00:00.000Z");
+    expect(schedule.slots.at(-1)?.startsAt).toBe("2025-06-03T11:30:00.000Z");
+  });
+
+  it("is closed on weekends, blackout dates and past days", async () => {
+    expect(await getDaySchedule("2025-06-07", "hosting-consultation", "Asia/Dubai")).toMatchObject({ closed: true, reason: "We are closed on this day", slots: [] });
+
+    storage.getBlackoutDate.mockResolvedValue({ id: 1, date: "2025-06-02", reason: "Eid holiday" });
+    expect(await getDaySchedule("2025-06-02", "hosting-consultation", "Asia/Dubai")).toMatchObject({ closed: true, reason: "Eid holiday" });
+
+    expect(await getDaySchedule("2025-05-28", "hosting-consultation", "Asia/Dubai")).toMatchObject({ closed: true, reason: "This date is in the past" });
+  });
+
+  it("offers nothing that has already started today", async () => {
+    vi.setSystemTime(new Date("2025-06-02T08:10:00Z"));
+    const schedule = await getDaySchedule("2025-06-02", "hosting-consultation", "Asia/Dubai");
+    const firstOpen = schedule.slots.find((slot) => slot.available);
+    expect(firstOpen?.startsAt).toBe("2025-06-02T08:30:00.000Z");
+  });
+});
+
+describe("isSlotFree", () => {
+  it("lets appointments touch but not overlap", () => {
+    expect(isSlotFree([booking], new Date("2025-06-02T05:00:00Z"), "hosting-consultation")).toBe(true);
+    expect(isSlotFree([booking], new Date("2025-06-02T07:00:00Z"), "hosting-consultation")).toBe(true);
+    expect(isSlotFree([booking], new Date("2025-06-02T05:15:00Z"), "hardware-procurement")).toBe(true);
+    expect(isSlotFree([booking], new Date("2025-06-02T05:30:00Z"), "hardware-procurement")).toBe(false);
+    expect(isSlotFree([booking], new Date("2025-06-02T06:45:00Z"), "site-acquisition")).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Appointment, WorkingHours } from "../shared/schema.js";
+import { getServiceDurationMinutes, MAX_SERVICE_DURATION_MINUTES } from "../shared/services.js";
+import { addDays, BUSINESS_TIMEZONE, getZonedParts, zonedTimeToUtc } from "../shared/timezones.js";
+import { storage } from "./storage.js";
+
+const MINUTE = 60 * 1000;
+
+export const SLOT_INTERVAL_MINUTES = 30;
+
+// Monday to Friday, 9 AM to 6 PM (business timezone), until an admin saves a schedule
+export const DEFAULT_WORKING_HOURS: Omit<WorkingHours, "id">[] = [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+  dayOfWeek,
+  isOpen: dayOfWeek >= 1 && dayOfWeek <= 5,
+  startTime: "09:00",
+  endTime: "18:00",
+}));
+
+export interface TimeSlot {
+  startsAt: string; // ISO instant
+  available: boolean;
+}
+
+export interface DaySchedule {
+  date: string; // calendar day in timeZone
+  timeZone: string;
+  serviceType: string;
+  durationMinutes: number;
+  closed: boolean;
+  reason?: string;
+  slots: TimeSlot[];
+}
+
+function clockToMinutes(clock: string) {
+  const [hours, minutes] = clock.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+async function getWeek() {
+  const saved = await storage.getWorkingHours();
+  return saved.length > 0 ? saved : DEFAULT_WORKING_HOURS;
+}
+
+// True when [start, start + duration) doesn't overlap any booked appointment
+export function isSlotFree(booked: Appointment[], startsAt: Date, serviceType: string) {
+  const start = startsAt.getTime();
+  const end = start + getServiceDurationMinutes(serviceType) * MINUTE;
+  return booked.every((appointment) => {
+    const bookedStart = new Date(appointment.scheduledAt).getTime();
+    const bookedEnd = bookedStart + getServiceDurationMinutes(appointment.serviceType) * MINUTE;
+    return end <= bookedStart || start >= bookedEnd;
+  });
+}
+
+// Start instants offered on one business-timezone day, or why there are none
+async function businessDaySlots(
+  businessDate: string,
+  durationMinutes: number,
+  week: Awaited<ReturnType<typeof getWeek>>,
+): Promise<{ starts: Date[]; reason?: string }> {
+  const blackout = await storage.getBlackoutDate(businessDate);
+  if (blackout) {
+    return { starts: [], reason: blackout.reason || "We are closed on this date" };
+  }
+
+  const dayOfWeek = new Date(`${businessDate}T00:00:00Z`).getUTCDay();
+  const hours = week.find((day) => day.dayOfWeek === dayOfWeek);
+  if (!hours || !hours.isOpen) {
+    return { starts: [], reason: "We are closed on this day" };
+  }
+
+  const opens = clockToMinutes(hours.startTime);
+  const closes = clockToMinutes(hours.endTime);
+  const starts: Date[] = [];
+  // Only offer start times that let the whole consultation finish before closing
+  for (let start = opens; start + durationMinutes <= closes; start += SLOT_INTERVAL_MINUTES) {
+    starts.push(zonedTimeToUtc(businessDate, start, BUSINESS_TIMEZONE));
+  }
+  return { starts };
+}
+
+// Slots that start on `date` as seen from `timeZone`. Working hours are defined in
+// the business timezone, so a client's day can span parts of two business days.
+// `exceptAppointmentId` lets a customer who is rescheduling see their own slot as free.
+export async function getDaySchedule(
+  date: string,
+  serviceType: string,
+  timeZone: string = BUSINESS_TIMEZONE,
+  exceptAppointmentId?: number,
+): Promise<DaySchedule> {
+  const durationMinutes = getServiceDurationMinutes(serviceType);
+  const base = { date, timeZone, serviceType, durationMinutes };
+  const dayStart = zonedTimeToUtc(date, 0, timeZone);
+  const dayEnd = zonedTimeToUtc(addDays(date, 1), 0, timeZone);
+  const now = new Date();
+
+  if (dayEnd <= now) {
+    return { ...base, closed: true, reason: "This date is in the past", slots: [] };
+  }
+
+  const firstBusinessDate = getZonedParts(dayStart, BUSINESS_TIMEZONE).date;
+  const lastBusinessDate = getZonedParts(new Date(dayEnd.getTime() - 1), BUSINESS_TIMEZONE).date;
+  const week = await getWeek();
+  const starts: Date[] = [];
+  const reasons: string[] = [];
+  for (let businessDate = firstBusinessDate; businessDate <= lastBusinessDate; businessDate = addDays(businessDate, 1)) {
+    const day = await businessDaySlots(businessDate, durationMinutes, week);
+    starts.push(...day.starts.filter((start) => start >= dayStart && start < dayEnd));
+    if (day.reason) {
+      reasons.push(day.reason);
+    }
+  }
+
+  if (starts.length === 0) {
+    return { ...base, closed: true, reason: reasons[0] ?? "No consultations are offered on this day", slots: [] };
+  }
+
+  // Appointments that started earlier may still run into the first slot
+  const booked = (await storage.getBookedAppointmentsBetween(
+    new Date(dayStart.getTime() - MAX_SERVICE_DURATION_MINUTES * MINUTE),
+    dayEnd,
+  )).filter((appointment) => appointment.id !== exceptAppointmentId);
+  const slots = starts.map((start) => ({
+    startsAt: start.toISOString(),
+    available: start > now && isSlotFree(booked, start, serviceType),
+  }));
+
+  return { ...base, closed: false, slots };
+}
+
+// Returns why the requested start can't be booked, or null if it looks free. The
+// insert re-checks conflicts under a lock, since another booking may land in between.
+export async function checkSlotOnSchedule(
+  scheduledAt: Date,
+  serviceType: string,
+  exceptAppointmentId?: number,
+): Promise<string | null> {
+  const businessDate = getZonedParts(scheduledAt, BUSINESS_TIMEZONE).date;
+  const schedule = await getDaySchedule(businessDate, serviceType, BUSINESS_TIMEZONE, exceptAppointmentId);
+  if (schedule.closed) {
+    return schedule.reason ?? "This date is not available";
+  }
+  const slot = schedule.slots.find((candidate) => candidate.startsAt === scheduledAt.toISOString());
+  if (!slot) {
+    return "Please choose one of the available time slots";
+  }
+  if (!slot.available) {
+    return "That time slot is no longer available. Please choose another.";
+  }
+  return null;
+}
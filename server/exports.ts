@@ -0,0 +1,120 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import type { Appointment, ContactSubmission } from "../shared/schema.js";
+import { getContactServiceLabel, getServiceLabel } from "../shared/services.js";
+import { BUSINESS_TIMEZONE, formatInTimeZone } from "../shared/timezones.js";
+
+// CSV and XLSX downloads of the admin lists, written a batch at a time so large exports never sit in memory
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_BATCH_SIZE = 500;
+
+export interface ExportColumn<T> {
+  header: string;
+  width: number; // XLSX column width, in characters
+  value: (row: T) => string | number | Date | null | undefined;
+}
+
+// Spreadsheet-friendly local time, e.g. 2025-07-01 09:30
+const localTime = (instant: Date | string, timeZone: string) =>
+  formatInTimeZone(instant, timeZone, {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).replace(/(\d{2})\/(\d{2})\/(\d{4}),?/, "$3-$1-$2");
+
+export const CONTACT_EXPORT_COLUMNS: ExportColumn<ContactSubmission>[] = [
+  { header: "ID", width: 8, value: (contact) => contact.id },
+  { header: "Received (GST)", width: 18, value: (contact) => localTime(contact.createdAt, BUSINESS_TIMEZONE) },
+  { header: "Name", width: 24, value: (contact) => contact.fullName },
+  { header: "Email", width: 30, value: (contact) => contact.email },
+  { header: "Company", width: 24, value: (contact) => contact.companyName },
+  { header: "Phone", width: 18, value: (contact) => contact.phoneNumber },
+  { header: "Service", width: 24, value: (contact) => contact.service && getContactServiceLabel(contact.service) },
+  { header: "Message", width: 60, value: (contact) => contact.message },
+  { header: "Status", width: 12, value: (contact) => contact.status },
+  { header: "Ignore Reason", width: 30, value: (contact) => contact.rejectionReason },
+  { header: "Spam Score", width: 12, value: (contact) => contact.spamScore },
+];
+
+export const APPOINTMENT_EXPORT_COLUMNS: ExportColumn<Appointment>[] = [
+  { header: "ID", width: 8, value: (appointment) => appointment.id },
+  { header: "Scheduled (GST)", width: 18, value: (appointment) => localTime(appointment.scheduledAt, BUSINESS_TIMEZONE) },
+  { header: "Client Time", width: 18, value: (appointment) => localTime(appointment.scheduledAt, appointment.timezone) },
+  { header: "Client Timezone", width: 22, value: (appointment) => appointment.timezone },
+  { header: "Service", width: 28, value: (appointment) => getServiceLabel(appointment.serviceType) },
+  { header: "Name", width: 24, value: (appointment) => appointment.fullName },
+  { header: "Email", width: 30, value: (appointment) => appointment.email },
+  { header: "Company", width: 24, value: (appointment) => appointment.companyName },
+  { header: "Phone", width: 18, value: (appointment) => appointment.phoneNumber },
+  { header: "Message", width: 60, value: (appointment) => appointment.message },
+  { header: "Status", width: 12, value: (appointment) => appointment.status },
+  { header: "Rejection Reason", width: 30, value: (appointment) => appointment.rejectionReason },
+  { header: "Spam Score", width: 12, value: (appointment) => appointment.spamScore },
+  { header: "Booked (GST)", width: 18, value: (appointment) => localTime(appointment.createdAt, BUSINESS_TIMEZONE) },
+];
+
+function csvCell(value: string | number | Date | null | undefined) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Stop spreadsheet apps from evaluating user-supplied text as a formula (phone numbers like +971 are left alone)
+  if (/^[=+\-@\t\r]/.test(text) && !/^\+?[\d\s()-]+$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine<T>(columns: ExportColumn<T>[], row: T) {
+  return columns.map((column) => csvCell(column.value(row))).join(",") + "\r\n";
+}
+
+export function exportFilename(name: string, format: ExportFormat) {
+  return `71digital-${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+// Streams every batch `nextBatch` yields (until it returns fewer than EXPORT_BATCH_SIZE rows) to the response
+export async function streamExport<T>(
+  res: Response,
+  format: ExportFormat,
+  name: string,
+  columns: ExportColumn<T>[],
+  nextBatch: (offset: number) => Promise<T[]>
+) {
+  res.setHeader("Content-Disposition", `attachment; filename="${exportFilename(name, format)}"`);
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    // BOM so Excel opens the file as UTF-8
+    res.write("\uFEFF" + columns.map((column) => csvCell(column.header)).join(",") + "\r\n");
+    for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+      const batch = await nextBatch(offset);
+      res.write(batch.map((row) => csvLine(columns, row)).join(""));
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+    }
+    res.end();
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const sheet = workbook.addWorksheet(name.charAt(0).toUpperCase() + name.slice(1));
+  sheet.columns = columns.map((column) => ({ header: column.header, width: column.width }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const batch = await nextBatch(offset);
+    for (const row of batch) {
+      sheet.addRow(columns.map((column) => column.value(row) ?? null)).commit();
+    }
+    if (batch.length < EXPORT_BATCH_SIZE) break;
+  }
+  sheet.commit();
+  await workbook.commit();
+}
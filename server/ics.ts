@@ -0,0 +1,96 @@
+import type { Appointment } from "../shared/schema.js";
+import { getServiceDurationMinutes, getServiceLabel } from "../shared/services.js";
+import { formatAppointmentTime } from "../shared/timezones.js";
+
+// iCalendar (RFC 5545) output for appointments: single-event invites and the team feed
+
+const PRODUCT_ID = "-//71 Digital//Appointments//EN";
+const UID_DOMAIN = "71digital.io";
+
+// The customer's invite describes the meeting; the team's copy carries the client's details
+export type EventAudience = "customer" | "team";
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// 20250701T050000Z
+function formatUtc(instant: Date) {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Content lines may not exceed 75 octets; continuation lines start with a space
+function fold(line: string) {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) {
+    return line;
+  }
+  const chunks: string[] = [];
+  let chunk = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(chunk + char, "utf8") > limit) {
+      chunks.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n ");
+}
+
+function appointmentEvent(appointment: Appointment, audience: EventAudience, stamp: Date) {
+  const start = new Date(appointment.scheduledAt);
+  const end = new Date(start.getTime() + getServiceDurationMinutes(appointment.serviceType) * 60 * 1000);
+  const service = getServiceLabel(appointment.serviceType);
+  const clientTime = `${formatAppointmentTime(start, appointment.timezone)} (${appointment.timezone})`;
+
+  const summary = audience === "customer"
+    ? `71 Digital: ${service}`
+    : `${appointment.status === "pending" ? "[Pending] " : ""}${service} - ${appointment.fullName}`;
+  const description = audience === "customer"
+    ? `Your ${service} consultation with 71 Digital.\nQuestions? Reply to our email or reach us on WhatsApp at +971 50 357 8552.`
+    : [
+        `Client: ${appointment.fullName}`,
+        `Email: ${appointment.email}`,
+        appointment.phoneNumber && `Phone: ${appointment.phoneNumber}`,
+        appointment.companyName && `Company: ${appointment.companyName}`,
+        `Client time: ${clientTime}`,
+        appointment.message && `\nMessage:\n${appointment.message}`,
+      ].filter(Boolean).join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:appointment-${appointment.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${appointment.status === "approved" ? "CONFIRMED" : "TENTATIVE"}`,
+    "END:VEVENT",
+  ];
+}
+
+export function buildCalendar(appointments: Appointment[], audience: EventAudience, calendarName?: string): string {
+  const stamp = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`] : []),
+    ...appointments.flatMap((appointment) => appointmentEvent(appointment, audience, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+export function appointmentInviteFilename(appointment: Appointment) {
+  return `71digital-appointment-${appointment.id}.ics`;
+}
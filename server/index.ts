@@ -1,11 +1,11 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { applyBaseMiddleware } from "./middleware";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+applyBaseMiddleware(app);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { LOGIN_LOCKOUT_MS, LOGIN_LOCKOUT_THRESHOLD, failureDelay, lockoutDuration } from "./loginProtection.js";
+
+describe("lockoutDuration", () => {
+  it("does not lock before the threshold", () => {
+    expect(lockoutDuration(0)).toBe(0);
+    expect(lockoutDuration(LOGIN_LOCKOUT_THRESHOLD - 1)).toBe(0);
+  });
+
+  it("locks at the threshold and doubles with each further failure", () => {
+    expect(lockoutDuration(LOGIN_LOCKOUT_THRESHOLD)).toBe(LOGIN_LOCKOUT_MS);
+    expect(lockoutDuration(LOGIN_LOCKOUT_THRESHOLD + 1)).toBe(LOGIN_LOCKOUT_MS * 2);
+    expect(lockoutDuration(LOGIN_LOCKOUT_THRESHOLD + 3)).toBe(LOGIN_LOCKOUT_MS * 8);
+  });
+
+  it("never locks for more than a day", () => {
+    expect(lockoutDuration(LOGIN_LOCKOUT_THRESHOLD + 50)).toBe(24 * 60 * 60 * 1000);
+  });
+});
+
+describe("failureDelay", () => {
+  it("lets the first typos through, then backs off up to 8 seconds", () => {
+    expect([0, 1, 2, 3, 4, 5, 6, 7, 20].map(failureDelay)).toEqual([0, 0, 0, 1000, 2000, 4000, 8000, 8000, 8000]);
+  });
+});
@@ -0,0 +1,30 @@
+// Brute-force protection for admin sign-in. Attempts are recorded in login_attempts and
+// counted over a sliding window; accounts lock after repeated failures.
+
+// Failures per account (or per unknown username) before sign-in is refused
+export const LOGIN_LOCKOUT_THRESHOLD = 5;
+export const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+// Failures from one IP, across all usernames, before that IP is refused
+export const LOGIN_IP_FAILURE_LIMIT = 20;
+export const LOGIN_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// How long to lock an account that has failed `failedLoginCount` times in a row, or 0.
+// Each failure past the threshold doubles the lock, so a patient attacker gains nothing.
+export function lockoutDuration(failedLoginCount: number): number {
+  if (failedLoginCount < LOGIN_LOCKOUT_THRESHOLD) {
+    return 0;
+  }
+  return Math.min(LOGIN_LOCKOUT_MS * 2 ** (failedLoginCount - LOGIN_LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+}
+
+// Delay before answering a failed attempt: none for the first couple of typos, then 1s, 2s, 4s, 8s
+export function failureDelay(consecutiveFailures: number): number {
+  if (consecutiveFailures < 3) {
+    return 0;
+  }
+  return Math.min(1000 * 2 ** (consecutiveFailures - 3), 8000);
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
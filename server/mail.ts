@@ -0,0 +1,116 @@
+import nodemailer from "nodemailer";
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+}
+
+// A transport delivers a fully rendered message; pick one with MAIL_TRANSPORT
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  async send(message: MailMessage & { from: string }) {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message to MAIL_FILE_DIR as JSON so it can be inspected during local testing
+class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.json`;
+    const attachments = message.attachments?.map(({ filename, contentType, content }) => ({
+      filename,
+      contentType,
+      content: Buffer.isBuffer(content) ? content.toString("base64") : content,
+    }));
+    await fs.writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, attachments }, null, 2),
+    );
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }) {
+    const attachments = message.attachments?.map((attachment) => attachment.filename).join(", ");
+    console.log(
+      [
+        "---------- outgoing mail ----------",
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        ...(attachments ? [`Attachments: ${attachments}`] : []),
+        "",
+        message.text,
+        "-----------------------------------",
+      ].join("\n"),
+    );
+  }
+}
+
+function createTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console");
+  switch (kind) {
+    case "smtp":
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport(process.env.MAIL_FILE_DIR ?? path.resolve(process.cwd(), "mail-outbox"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}". Use smtp, file or console.`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// Replaces the transport chosen from the environment; the route tests use it to capture mail
+export function setMailTransport(custom: MailTransport) {
+  transport = custom;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= createTransport();
+  await transport.send({
+    from: process.env.MAIL_FROM ?? "71 Digital <no-reply@71digital.io>",
+    ...message,
+  });
+}
+
+// Address for internal alerts about new submissions; alerts are skipped when unset
+export function getTeamAddress(): string | undefined {
+  return process.env.MAIL_TEAM_TO || undefined;
+}
+
+// Notifications must never fail the request that triggered them
+export function sendMailInBackground(message: MailMessage, context: string) {
+  sendMail(message).catch((error) => {
+    console.error(`Failed to send ${context} email:`, error);
+  });
+}
@@ -0,0 +1,169 @@
+import type { AdminUser, Appointment, ContactSubmission, Quote, QuoteRequest } from "../shared/schema.js";
+import { getServiceLabel } from "../shared/services.js";
+import { formatUsd } from "../shared/products.js";
+import { BUSINESS_TIMEZONE, formatAppointmentTime } from "../shared/timezones.js";
+import type { MailMessage } from "./mail.js";
+
+type Template = Pick<MailMessage, "subject" | "text" | "html">;
+
+const SIGNATURE = "Best regards,\n71 Digital Team";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Wraps plain paragraphs in the branded HTML layout; the text part stays the source of truth
+function layout(text: string) {
+  const paragraphs = text
+    .split("\n\n")
+    .map((paragraph) => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("");
+  return `<div style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;color:#1A0F08">
+<div style="background:#1A0F08;padding:16px 24px"><span style="color:#f97316;font-size:20px;font-weight:bold">71 Digital</span></div>
+<div style="padding:24px;border:1px solid #f9731633;border-top:none">${paragraphs}</div>
+</div>`;
+}
+
+function render(subject: string, text: string): Template {
+  return { subject, text, html: layout(text) };
+}
+
+function detailLines(fields: Array<[string, string | null | undefined]>) {
+  return fields
+    .filter(([, value]) => value)
+    .map(([label, value]) => `- ${label}: ${value}`)
+    .join("\n");
+}
+
+// Client's local time first, with GST alongside when they differ
+function appointmentWhen(appointment: Appointment) {
+  const local = `${formatAppointmentTime(appointment.scheduledAt, appointment.timezone)} (${appointment.timezone})`;
+  if (appointment.timezone === BUSINESS_TIMEZONE) {
+    return local;
+  }
+  return `${local} / ${formatAppointmentTime(appointment.scheduledAt, BUSINESS_TIMEZONE)} GST`;
+}
+
+export function newContactAlert(submission: ContactSubmission): Template {
+  return render(
+    `New contact submission from ${submission.fullName}`,
+    `A new message was submitted through the website.\n\n${detailLines([
+      ["Name", submission.fullName],
+      ["Email", submission.email],
+      ["Company", submission.companyName],
+      ["Phone", submission.phoneNumber],
+      ["Service", submission.service],
+    ])}\n\nMessage:\n${submission.message}\n\nOpen the admin dashboard to respond.`,
+  );
+}
+
+export function newAppointmentAlert(appointment: Appointment): Template {
+  return render(
+    `New appointment request from ${appointment.fullName}`,
+    `A new appointment was requested through the website.\n\n${detailLines([
+      ["Name", appointment.fullName],
+      ["Email", appointment.email],
+      ["Company", appointment.companyName],
+      ["Phone", appointment.phoneNumber],
+      ["Service", getServiceLabel(appointment.serviceType)],
+      ["Requested time", appointmentWhen(appointment)],
+    ])}${appointment.message ? `\n\nMessage:\n${appointment.message}` : ""}\n\nOpen the admin dashboard to approve or reject it.`,
+  );
+}
+
+export function appointmentReceived(appointment: Appointment, manageUrl: string): Template {
+  return render(
+    `We received your appointment request - ${getServiceLabel(appointment.serviceType)}`,
+    `Dear ${appointment.fullName},\n\nThank you for booking a consultation with 71 Digital. We'll review your request and confirm it shortly.\n\n${detailLines([
+      ["Service", getServiceLabel(appointment.serviceType)],
+      ["Requested time", appointmentWhen(appointment)],
+    ])}\n\nNeed a different time, or can't make it? Reschedule or cancel here:\n${manageUrl}\n\n${SIGNATURE}`,
+  );
+}
+
+export function appointmentApproved(appointment: Appointment, manageUrl: string): Template {
+  return render(
+    `Appointment Approved - ${getServiceLabel(appointment.serviceType)}`,
+    `Dear ${appointment.fullName},\n\nYour appointment request has been approved!\n\n${detailLines([
+      ["Service", getServiceLabel(appointment.serviceType)],
+      ["When", appointmentWhen(appointment)],
+    ])}\n\nWe look forward to meeting with you. If your plans change, you can reschedule or cancel here:\n${manageUrl}\n\n${SIGNATURE}`,
+  );
+}
+
+export function appointmentRejected(appointment: Appointment, manageUrl: string): Template {
+  const reason = appointment.rejectionReason ? `\n\nReason: ${appointment.rejectionReason}` : "";
+  return render(
+    "Regarding Your Appointment Request",
+    `Dear ${appointment.fullName},\n\nThank you for your interest in our ${getServiceLabel(appointment.serviceType)} service.\n\nUnfortunately, we cannot accommodate your request for ${appointmentWhen(appointment)}.${reason}\n\nYou can pick another time here:\n${manageUrl}\n\nOr feel free to contact us to discuss alternative options.\n\n${SIGNATURE}`,
+  );
+}
+
+export function appointmentChangedAlert(appointment: Appointment, change: "rescheduled" | "cancelled"): Template {
+  return render(
+    `${appointment.fullName} ${change} their appointment`,
+    `${appointment.fullName} ${change} their appointment using their manage link.\n\n${detailLines([
+      ["Email", appointment.email],
+      ["Service", getServiceLabel(appointment.serviceType)],
+      [change === "rescheduled" ? "New time" : "Was booked for", appointmentWhen(appointment)],
+    ])}${change === "rescheduled" ? "\n\nThe appointment is back to pending. Open the admin dashboard to approve or reject it." : ""}`,
+  );
+}
+
+export function appointmentCompleted(appointment: Appointment): Template {
+  return render(
+    "Thank You for Meeting with 71 Digital",
+    `Dear ${appointment.fullName},\n\nThank you for taking the time to meet with us about ${getServiceLabel(appointment.serviceType)}.\n\nIf you have any follow-up questions, simply reply to this email or reach us on WhatsApp at +971 50 357 8552.\n\n${SIGNATURE}`,
+  );
+}
+
+// A reply written in the dashboard, with the original message quoted underneath
+export function contactReply(submission: ContactSubmission, subject: string, message: string): Template {
+  const quoted = submission.message.split("\n").map((line) => `> ${line}`).join("\n");
+  return render(
+    subject,
+    `Dear ${submission.fullName},\n\n${message}\n\n${SIGNATURE}\n\nOn ${formatAppointmentTime(submission.createdAt, BUSINESS_TIMEZONE)} GST you wrote:\n${quoted}`,
+  );
+}
+
+export function newQuoteRequestAlert(request: QuoteRequest, items: Array<{ productName: string; quantity: number }>): Template {
+  return render(
+    `New quote request from ${request.fullName}`,
+    `A new quote request was submitted from the mining store.\n\n${detailLines([
+      ["Name", request.fullName],
+      ["Email", request.email],
+      ["Company", request.companyName],
+      ["Phone", request.phoneNumber],
+    ])}\n\nRequested:\n${items.map((item) => `- ${item.quantity} x ${item.productName}`).join("\n")}${request.message ? `\n\nMessage:\n${request.message}` : ""}\n\nOpen the Quotes tab in the admin dashboard to price it.`,
+  );
+}
+
+// The priced quote as the customer sees it, sent with the proforma PDF; a revised quote goes out the same way with its new version number
+export function quoteIssued(request: QuoteRequest, quote: Quote): Template {
+  const lines = quote.lines
+    .map((line) => `- ${line.quantity} x ${line.description} @ ${formatUsd(line.unitPrice)} = ${formatUsd(line.quantity * line.unitPrice)}`)
+    .join("\n");
+  const validUntil = quote.validUntil ? `\n\nThis quote is valid until ${quote.validUntil}.` : "";
+  const notes = quote.notes ? `\n\n${quote.notes}` : "";
+  return render(
+    `Your 71 Digital quote #${request.id}${quote.version > 1 ? ` (revision ${quote.version})` : ""}`,
+    `Dear ${request.fullName},\n\nThank you for your interest in our mining hardware. Here is your quote, with the proforma attached:\n\n${lines}\n\n${detailLines([
+      ["Subtotal", formatUsd(quote.subtotal)],
+      ["Shipping to the UAE", formatUsd(quote.shipping)],
+      ["Duties and taxes", formatUsd(quote.duties)],
+      ["Total", formatUsd(quote.total)],
+    ])}${validUntil}${notes}\n\nTo go ahead or ask about any of the above, simply reply to this email.\n\n${SIGNATURE}`,
+  );
+}
+
+export function adminPasswordReset(admin: AdminUser, resetUrl: string, expiresInMinutes: number): Template {
+  return render(
+    "Reset your 71 Digital admin password",
+    `Hello ${admin.username},\n\nSomeone asked to reset the password for your 71 Digital admin account. To choose a new password, open this link within ${expiresInMinutes} minutes:\n${resetUrl}\n\nThe link works once. Resetting your password signs you out on every device.\n\nIf you didn't ask for this, you can ignore this email; your password stays the same.\n\n${SIGNATURE}`,
+  );
+}
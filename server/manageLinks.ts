@@ -0,0 +1,32 @@
+import { timingSafeEqual } from "crypto";
+import { sign } from "./signing.js";
+
+// Customers manage their appointment through a link signed with SESSION_SECRET, so
+// nothing extra is stored and the token can't be forged for someone else's booking.
+
+function signAppointment(appointmentId: number) {
+  return sign(`appointment:${appointmentId}`);
+}
+
+export function createAppointmentManageToken(appointmentId: number) {
+  return `${appointmentId}.${signAppointment(appointmentId)}`;
+}
+
+// Returns the appointment id the token was issued for, or null if it wasn't issued by us
+export function verifyAppointmentManageToken(token: string): number | null {
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(token);
+  if (!match) {
+    return null;
+  }
+  const appointmentId = Number(match[1]);
+  const expected = Buffer.from(signAppointment(appointmentId));
+  const supplied = Buffer.from(match[2]);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return null;
+  }
+  return appointmentId;
+}
+
+export function appointmentManagePath(appointmentId: number) {
+  return `/appointments/manage/${createAppointmentManageToken(appointmentId)}`;
+}
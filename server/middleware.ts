@@ -0,0 +1,23 @@
+import express, { type Express } from "express";
+import cookieParser from "cookie-parser";
+
+// Behind a reverse proxy (e.g. Replit deployments) set TRUST_PROXY to the number of proxy hops,
+// so req.ip, used for rate limits and the activity log, is the visitor's address.
+// Vercel always puts its one edge proxy in front of the function, so that is the default there.
+function trustProxySetting(): string | undefined {
+  return process.env.TRUST_PROXY || (process.env.VERCEL ? "1" : undefined);
+}
+
+// Proxy trust and request parsing shared by the long-running server (server/index.ts) and
+// the serverless entry (api/index.ts); both must register it before the routes
+export function applyBaseMiddleware(app: Express) {
+  const trustProxy = trustProxySetting();
+  if (trustProxy) {
+    const hops = Number(trustProxy);
+    app.set("trust proxy", Number.isNaN(hops) ? trustProxy : hops);
+  }
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  // Admin sessions ride in a cookie (see adminSession.ts)
+  app.use(cookieParser());
+}
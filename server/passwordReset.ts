@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from "crypto";
+
+// "Forgot password" for admins. A random token is mailed to the address on the account and
+// only its hash is stored, so a leaked database doesn't hand out working reset links.
+
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+export function generateResetToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isResetToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(token);
+}
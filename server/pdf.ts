@@ -0,0 +1,248 @@
+import PDFDocument from "pdfkit";
+import fs from "fs";
+import path from "path";
+import type { Product, Quote, QuoteRequest } from "../shared/schema.js";
+import { efficiencyUnit, formatUsd, getCoolingLabel, productEfficiency } from "../shared/products.js";
+
+// Branded PDFs: a spec sheet per catalog product and a proforma for each issued quote
+
+const BRAND_DARK = "#1A0F08";
+const BRAND_ORANGE = "#f97316";
+const MUTED = "#6b7280";
+const PAGE_MARGIN = 50;
+const COMPANY_LINE = "71 Digital Inc. · Opus Tower, 6th floor, Business Bay, Dubai, UAE · info@71digital.io · +971 50 357 8552";
+
+// Product images are stored as site paths (/images/...); the files live in client/public during
+// development and next to the server bundle once built
+const PUBLIC_DIRS = [
+  path.resolve(import.meta.dirname, "public"),
+  path.resolve(import.meta.dirname, "..", "client", "public"),
+];
+
+function localImagePath(url: string): string | null {
+  if (!url.startsWith("/") || url.includes("..")) {
+    return null;
+  }
+  for (const dir of PUBLIC_DIRS) {
+    const candidate = path.join(dir, url);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function renderToBuffer(title: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, info: { Title: title, Author: "71 Digital" } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+    draw(doc);
+    doc.end();
+  });
+}
+
+// Dark band across the top with the wordmark on the left and the document type on the right
+function header(doc: PDFKit.PDFDocument, label: string) {
+  doc.rect(0, 0, doc.page.width, 80).fill(BRAND_DARK);
+  doc.fillColor(BRAND_ORANGE).font("Helvetica-Bold").fontSize(22).text("71 Digital", PAGE_MARGIN, 28);
+  doc.fillColor("#ffffff").font("Helvetica").fontSize(11)
+    .text(label, PAGE_MARGIN, 34, { width: doc.page.width - PAGE_MARGIN * 2, align: "right" });
+  doc.fillColor(BRAND_DARK).font("Helvetica");
+  doc.y = 110;
+}
+
+function footer(doc: PDFKit.PDFDocument, note: string) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const top = doc.page.height - PAGE_MARGIN - 30;
+  doc.moveTo(PAGE_MARGIN, top).lineTo(PAGE_MARGIN + width, top).strokeColor(BRAND_ORANGE).lineWidth(1).stroke();
+  doc.fillColor(MUTED).font("Helvetica").fontSize(8);
+  // Writing below the bottom margin would start a new page
+  const bottomMargin = doc.page.margins.bottom;
+  doc.page.margins.bottom = 0;
+  doc.text(COMPANY_LINE, PAGE_MARGIN, top + 8, { width, align: "center" });
+  doc.text(note, PAGE_MARGIN, top + 20, { width, align: "center" });
+  doc.page.margins.bottom = bottomMargin;
+}
+
+function labelledRows(
+  doc: PDFKit.PDFDocument,
+  rows: Array<[string, string | null]>,
+  x: number,
+  width: number,
+  valueAlign: "left" | "right" = "left",
+) {
+  doc.fontSize(10);
+  for (const [label, value] of rows) {
+    if (!value) continue;
+    const y = doc.y;
+    doc.fillColor(MUTED).font("Helvetica").text(label, x, y, { width: width * 0.4 });
+    doc.fillColor(BRAND_DARK).font("Helvetica-Bold").text(value, x + width * 0.4, y, { width: width * 0.6 - 4, align: valueAlign });
+    doc.moveDown(0.6);
+  }
+}
+
+export function specSheetFilename(product: Product) {
+  return `71digital-${product.slug}-spec.pdf`;
+}
+
+export function buildSpecSheet(product: Product): Promise<Buffer> {
+  const name = `${product.manufacturer} ${product.model}`;
+  return renderToBuffer(`${name} Spec Sheet`, (doc) => {
+    header(doc, "Hardware Spec Sheet");
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    doc.fillColor(BRAND_DARK).font("Helvetica-Bold").fontSize(24).text(name, PAGE_MARGIN, doc.y, { width });
+    doc.fillColor(BRAND_ORANGE).font("Helvetica").fontSize(12)
+      .text(`${product.algorithm} Mining · ${getCoolingLabel(product.coolingType)}`, { width });
+    doc.moveDown(1.5);
+
+    const top = doc.y;
+    const image = product.images.map(localImagePath).find((file): file is string => file !== null);
+    const tableWidth = image ? width * 0.55 : width;
+    if (image) {
+      try {
+        doc.image(image, PAGE_MARGIN + width * 0.6, top, { fit: [width * 0.4, 220], align: "center", valign: "center" });
+      } catch (error) {
+        // A broken or unsupported image shouldn't cost the customer the spec sheet
+        console.error(`Could not embed ${image} in spec sheet:`, error);
+      }
+    }
+
+    const efficiency = productEfficiency(product);
+    doc.y = top;
+    labelledRows(doc, [
+      ["Manufacturer", product.manufacturer],
+      ["Model", product.model],
+      ["Algorithm", product.algorithm],
+      ["Hashrate", `${product.hashrate} ${product.hashrateUnit}`],
+      ["Power", `~${product.powerWatts} W`],
+      ["Efficiency", efficiency !== null ? `${efficiency} ${efficiencyUnit(product.hashrateUnit)}` : null],
+      ["Cooling", getCoolingLabel(product.coolingType)],
+      ["Best for", product.bestFor],
+      ["Warranty", product.warrantyMonths !== null ? `${product.warrantyMonths} months` : null],
+      ["Availability", product.stock > 0 ? "In stock" : "Available to order"],
+      ["Price", product.price !== null ? `${formatUsd(product.price)} per unit` : "On request"],
+    ], PAGE_MARGIN, tableWidth);
+
+    doc.y = Math.max(doc.y, top + 230);
+    if (product.description) {
+      doc.fillColor(BRAND_DARK).font("Helvetica-Bold").fontSize(12).text("Overview", PAGE_MARGIN, doc.y, { width });
+      doc.moveDown(0.4);
+      doc.font("Helvetica").fontSize(10).text(product.description, { width });
+      doc.moveDown(1);
+    }
+
+    doc.fillColor(BRAND_DARK).font("Helvetica-Bold").fontSize(12).text("Buying through 71 Digital", PAGE_MARGIN, doc.y, { width });
+    doc.moveDown(0.4);
+    doc.font("Helvetica").fontSize(10).text(
+      "Every unit ships with its manufacturer warranty and our support package, delivered duty paid to your facility in the UAE. "
+        + "Hosting, configuration and deployment are available on request. Add this model to a quote at 71digital.io/mining-store.",
+      { width },
+    );
+
+    footer(doc, `Generated ${new Date().toISOString().slice(0, 10)}. Figures are manufacturer specifications and may vary by unit and site conditions.`);
+  });
+}
+
+export function quoteDocumentFilename(request: QuoteRequest, quote: Quote) {
+  return `71digital-quote-${request.id}-v${quote.version}.pdf`;
+}
+
+export function buildQuoteDocument(request: QuoteRequest, quote: Quote): Promise<Buffer> {
+  return renderToBuffer(`Quote ${request.id}-${quote.version}`, (doc) => {
+    header(doc, "Proforma Quote");
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    const half = width / 2;
+
+    const top = doc.y;
+    doc.fillColor(MUTED).font("Helvetica").fontSize(9).text("PREPARED FOR", PAGE_MARGIN, top);
+    doc.fillColor(BRAND_DARK).font("Helvetica-Bold").fontSize(11).text(request.fullName, { width: half });
+    doc.font("Helvetica").fontSize(10);
+    for (const line of [request.companyName, request.email, request.phoneNumber]) {
+      if (line) doc.text(line, { width: half });
+    }
+    const leftBottom = doc.y;
+
+    doc.y = top;
+    labelledRows(doc, [
+      ["Quote", `#${request.id}-${quote.version}`],
+      ["Issued", quote.createdAt.toISOString().slice(0, 10)],
+      ["Valid until", quote.validUntil],
+      ["Prepared by", quote.issuedByUsername],
+    ], PAGE_MARGIN + half, half);
+    doc.y = Math.max(leftBottom, doc.y) + 20;
+
+    // Line items table
+    const columns = [
+      { label: "Description", width: width * 0.5, align: "left" as const },
+      { label: "Qty", width: width * 0.1, align: "right" as const },
+      { label: "Unit price", width: width * 0.2, align: "right" as const },
+      { label: "Amount", width: width * 0.2, align: "right" as const },
+    ];
+    const row = (cells: string[], bold: boolean) => {
+      // Long quotes continue on a new page, clear of the footer
+      if (doc.y > doc.page.height - PAGE_MARGIN - 80) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      let height = 0;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10);
+      cells.forEach((cell, index) => {
+        const { width: cellWidth, align } = columns[index];
+        doc.text(cell, x + 4, y, { width: cellWidth - 8, align });
+        height = Math.max(height, doc.heightOfString(cell, { width: cellWidth - 8 }));
+        x += cellWidth;
+      });
+      doc.y = y + height + 8;
+    };
+
+    doc.rect(PAGE_MARGIN, doc.y - 4, width, 20).fill(BRAND_DARK);
+    doc.fillColor("#ffffff");
+    row(columns.map((column) => column.label), true);
+    doc.fillColor(BRAND_DARK);
+    for (const line of quote.lines) {
+      row([line.description, String(line.quantity), formatUsd(line.unitPrice), formatUsd(line.quantity * line.unitPrice)], false);
+      doc.moveTo(PAGE_MARGIN, doc.y - 4).lineTo(PAGE_MARGIN + width, doc.y - 4).strokeColor("#e5e7eb").lineWidth(0.5).stroke();
+    }
+
+    doc.moveDown(0.5);
+    // Keep the totals together rather than splitting them across pages
+    if (doc.y > doc.page.height - PAGE_MARGIN - 160) {
+      doc.addPage();
+    }
+    const totalsX = PAGE_MARGIN + width * 0.5;
+    labelledRows(doc, [
+      ["Subtotal", formatUsd(quote.subtotal)],
+      ["Shipping to the UAE", formatUsd(quote.shipping)],
+      ["Duties and VAT", formatUsd(quote.duties)],
+    ], totalsX + 4, width * 0.5 - 4, "right");
+    const totalY = doc.y;
+    doc.rect(totalsX, totalY - 4, width * 0.5, 22).fill(BRAND_ORANGE);
+    doc.fillColor("#ffffff").font("Helvetica-Bold").fontSize(12)
+      .text("Total (USD)", totalsX + 4, totalY, { width: width * 0.2 })
+      .text(formatUsd(quote.total), totalsX, totalY, { width: width * 0.5 - 4, align: "right" });
+    doc.fillColor(BRAND_DARK);
+    doc.y = totalY + 36;
+
+    if (quote.notes) {
+      doc.font("Helvetica-Bold").fontSize(11).text("Notes", PAGE_MARGIN, doc.y, { width });
+      doc.moveDown(0.3);
+      doc.font("Helvetica").fontSize(10).text(quote.notes, { width });
+      doc.moveDown(1);
+    }
+
+    doc.fillColor(MUTED).font("Helvetica").fontSize(9).text(
+      "This proforma is not a tax invoice. Prices are in US dollars and subject to availability until an order is confirmed. "
+        + "To accept, reply to the email this quote came with or contact your 71 Digital representative.",
+      PAGE_MARGIN,
+      doc.y,
+      { width },
+    );
+
+    footer(doc, `Quote #${request.id}-${quote.version}`);
+  });
+}
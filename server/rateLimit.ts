@@ -0,0 +1,57 @@
+import type { Request, RequestHandler } from "express";
+
+// In-memory fixed-window rate limiting for the public endpoints. Counters live in this
+// process, so when the deployment scales out each instance enforces its own limit.
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+interface RateLimitOptions {
+  name: string; // keeps separate limiters from sharing counters
+  windowMs: number;
+  max: number;
+  key?: (req: Request) => string | undefined; // defaults to the client IP
+  message?: string;
+}
+
+const windows = new Map<string, RateWindow>();
+
+// Drop expired windows so the map doesn't grow with every IP ever seen
+setInterval(() => {
+  const now = Date.now();
+  windows.forEach((window, key) => {
+    if (window.resetAt <= now) windows.delete(key);
+  });
+}, 60 * 1000).unref();
+
+// Counts one hit against `key`; returns the seconds until the window resets once the limit is exceeded
+export function hitRateLimit(key: string, windowMs: number, max: number): number | null {
+  const now = Date.now();
+  let window = windows.get(key);
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + windowMs };
+    windows.set(key, window);
+  }
+  window.count += 1;
+  return window.count > max ? Math.ceil((window.resetAt - now) / 1000) : null;
+}
+
+export function rateLimit({ name, windowMs, max, key, message }: RateLimitOptions): RequestHandler {
+  return (req, res, next) => {
+    const subject = key ? key(req) : req.ip;
+    if (!subject) {
+      return next();
+    }
+    const retryAfter = hitRateLimit(`${name}:${subject}`, windowMs, max);
+    if (retryAfter !== null) {
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        error: message ?? "Too many requests. Please try again later.",
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,227 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import express, { type Express } from "express";
+import request from "supertest";
+import { applyBaseMiddleware } from "./middleware.js";
+import { registerRoutes } from "./routes.js";
+import { setMailTransport, type MailMessage } from "./mail.js";
+import { createAppointmentManageToken } from "./manageLinks.js";
+import { SESSION_COOKIE } from "./adminSession.js";
+import type { AdminUser, Appointment } from "../shared/schema.js";
+
+// No database here: each test stubs the storage calls it expects
+const storage = vi.hoisted(() => ({
+  countAdmins: vi.fn(async () => 1),
+  purgeExpiredSessions: vi.fn(async () => 0),
+  getAdminBySessionToken: vi.fn(),
+  getAdminByUsername: vi.fn(),
+  createPasswordReset: vi.fn(),
+  touchAdminSession: vi.fn(),
+  getAppointment: vi.fn(),
+  updateAppointmentStatus: vi.fn(),
+}));
+
+vi.mock("./storage.js", () => ({
+  storage,
+  SYSTEM_ACTOR: { adminId: null, username: "system" },
+}));
+
+// The only admin routes reachable without a session
+const PUBLIC_ADMIN_ROUTES = [
+  "POST /api/admin/login",
+  "POST /api/admin/login/2fa",
+  "GET /api/admin/setup",
+  "POST /api/admin/setup",
+  "POST /api/admin/password-reset/request",
+  "GET /api/admin/password-reset/:token",
+  "POST /api/admin/password-reset/:token",
+  "POST /api/admin/logout",
+  "GET /api/admin/me",
+];
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+  handlers: string[];
+}
+
+// The parts of Express 4's router stack read here; app._router is not in its public types
+interface RouterLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { name: string }[];
+  };
+}
+
+function adminRoutes(app: Express): RegisteredRoute[] {
+  const stack: RouterLayer[] = app._router.stack;
+  return stack.flatMap(({ route }) => {
+    if (!route?.path.startsWith("/api/admin")) {
+      return [];
+    }
+    return Object.keys(route.methods).map((method) => ({
+      method: method.toUpperCase(),
+      path: route.path,
+      handlers: route.stack.map((handler) => handler.name),
+    }));
+  });
+}
+
+// Any id will do: the request must be refused before it is looked up
+const concretePath = (path: string) => path.replace(/:\w+/g, "1");
+
+const sentMail: MailMessage[] = [];
+
+let app: Express;
+
+beforeAll(async () => {
+  setMailTransport({ send: async (message) => { sentMail.push(message); } });
+
+  app = express();
+  applyBaseMiddleware(app);
+  await registerRoutes(app);
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+  sentMail.length = 0;
+});
+
+describe("removed public endpoints", () => {
+  it.each(["/api/contact", "/api/appointments"])("GET %s is not served", async (path) => {
+    const res = await request(app).get(path);
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("admin routes", () => {
+  const protectedRoutes = () => adminRoutes(app).filter((route) => !PUBLIC_ADMIN_ROUTES.includes(`${route.method} ${route.path}`));
+
+  it("puts every non-public admin route behind requireAdmin", () => {
+    const routes = protectedRoutes();
+    expect(routes.length).toBeGreaterThan(0);
+    const unguarded = routes.filter((route) => !route.handlers.includes("requireAdmin"));
+    expect(unguarded.map((route) => `${route.method} ${route.path}`)).toEqual([]);
+  });
+
+  it("refuses every protected route without a session", async () => {
+    for (const route of protectedRoutes()) {
+      const res = await request(app)[route.method.toLowerCase() as "get"](concretePath(route.path));
+      expect(res.status, `${route.method} ${route.path}`).toBe(401);
+    }
+  });
+
+  it("refuses cookie-authenticated changes without the CSRF token", async () => {
+    const admin = { id: 1, username: "owner", role: "owner" } as AdminUser;
+    storage.getAdminBySessionToken.mockResolvedValue(admin);
+
+    const mutating = protectedRoutes().filter((route) => route.method !== "GET");
+    expect(mutating.length).toBeGreaterThan(0);
+    for (const route of mutating) {
+      const res = await request(app)[route.method.toLowerCase() as "post"](concretePath(route.path))
+        .set("Cookie", `${SESSION_COOKIE}=session-token`);
+      expect(res.status, `${route.method} ${route.path}`).toBe(403);
+    }
+    expect(storage.touchAdminSession).not.toHaveBeenCalled();
+  });
+});
+
+describe("admin accounts", () => {
+  const strongPassword = "Correct-Horse-42";
+
+  it.each([
+    ["a whitespace-only username", { username: "   ", password: strongPassword }],
+    ["a username over 50 characters", { username: "a".repeat(51), password: strongPassword }],
+    ["a weak password", { username: "new-admin", password: "short" }],
+    ["an unknown role", { username: "new-admin", password: strongPassword, role: "root" }],
+  ])("refuses %s on create and edit", async (_case, body) => {
+    storage.getAdminBySessionToken.mockResolvedValue({ id: 1, username: "owner", role: "owner" } as AdminUser);
+
+    const create = await request(app).post("/api/admin/create-admin").set("Authorization", "Bearer session-token").send(body);
+    const edit = await request(app).put("/api/admin/admins/2").set("Authorization", "Bearer session-token").send(body);
+
+    expect([create.status, edit.status]).toEqual([400, 400]);
+    expect(create.body.error).toBe(edit.body.error);
+    expect(storage.getAdminByUsername).not.toHaveBeenCalled();
+  });
+});
+
+describe("availability", () => {
+  it.each(["2025-13-45", "2025-02-30", "2025-1-05"])("answers 400 for the impossible date %s", async (date) => {
+    const res = await request(app).get("/api/availability")
+      .query({ date, service: "hosting-consultation", timezone: "Asia/Dubai" });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("password reset links", () => {
+  it("are built from PUBLIC_BASE_URL, never the Host header", async () => {
+    storage.getAdminByUsername.mockResolvedValue({ id: 1, username: "owner", email: "owner@example.com" } as AdminUser);
+
+    const res = await request(app).post("/api/admin/password-reset/request")
+      .set("Host", "attacker.example")
+      .send({ identifier: "owner" });
+
+    expect(res.status).toBe(200);
+    await vi.waitFor(() => expect(sentMail).toHaveLength(1));
+    expect(sentMail[0].text).toContain("https://71digital.example/admin/reset-password/");
+    expect(sentMail[0].text).not.toContain("attacker.example");
+  });
+});
+
+describe("appointment manage links", () => {
+  const appointment = {
+    id: 7,
+    fullName: "Jane Client",
+    email: "jane@example.com",
+    serviceType: "consultation",
+    scheduledAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    timezone: "Asia/Dubai",
+    status: "pending",
+    rejectionReason: null,
+  } as Appointment;
+
+  // The id of one appointment with the signature issued for another
+  const forgedTokens = [
+    `7.${createAppointmentManageToken(8).split(".")[1]}`,
+    "7.not-a-real-signature",
+    "7",
+  ];
+
+  it("serves the appointment for a token we issued", async () => {
+    storage.getAppointment.mockResolvedValue(appointment);
+    const res = await request(app).get(`/api/appointments/manage/${createAppointmentManageToken(7)}`);
+    expect(res.status).toBe(200);
+    expect(res.body.appointment.id).toBe(7);
+  });
+
+  it("are emailed with PUBLIC_BASE_URL, never the Host header", async () => {
+    storage.getAdminBySessionToken.mockResolvedValue({ id: 1, username: "owner", role: "owner" } as AdminUser);
+    storage.getAppointment.mockResolvedValue(appointment);
+    storage.updateAppointmentStatus.mockResolvedValue({ ...appointment, status: "rejected", rejectionReason: "Fully booked" });
+
+    const res = await request(app).patch("/api/admin/appointments/7/status")
+      .set("Host", "attacker.example")
+      .set("Authorization", "Bearer session-token")
+      .send({ status: "rejected", rejectionReason: "Fully booked" });
+
+    expect(res.status).toBe(200);
+    await vi.waitFor(() => expect(sentMail).toHaveLength(1));
+    expect(sentMail[0].text).toContain(`https://71digital.example/appointments/manage/${createAppointmentManageToken(7)}`);
+    expect(sentMail[0].text).not.toContain("attacker.example");
+  });
+
+  it.each(forgedTokens)("rejects the forged token %s", async (token) => {
+    storage.getAppointment.mockResolvedValue(appointment);
+
+    const view = await request(app).get(`/api/appointments/manage/${token}`);
+    const cancel = await request(app).post(`/api/appointments/manage/${token}/cancel`);
+    const reschedule = await request(app).post(`/api/appointments/manage/${token}/reschedule`)
+      .send({ scheduledAt: new Date().toISOString() });
+
+    expect([view.status, cancel.status, reschedule.status]).toEqual([404, 404, 404]);
+    expect(storage.getAppointment).not.toHaveBeenCalled();
+    expect(storage.updateAppointmentStatus).not.toHaveBeenCalled();
+    expect(sentMail).toEqual([]);
+  });
+});
@@ -1,7 +1,29 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage.js";
-import { insertContactSubmissionSchema, insertAppointmentSchema, adminLoginSchema } from "../shared/schema.js";
+import { storage, SYSTEM_ACTOR, type AuditActor, type ListQuery } from "./storage.js";
+import type { AdminUser, Appointment, InsertAdminUser } from "../shared/schema.js";
+import { insertContactSubmissionSchema, insertAppointmentSchema, rescheduleAppointmentSchema, adminLoginSchema, adminTwoFactorLoginSchema, workingHoursSchema, insertBlackoutDateSchema, adminSetupSchema, adminPasswordResetRequestSchema, adminPasswordResetSchema, insertContactNoteSchema, contactReplySchema, assignContactSchema, insertDealSchema, updateDealSchema, insertProductSchema, insertQuoteRequestSchema, issueQuoteSchema, updateQuoteRequestStatusSchema, profitabilityMarketSchema, profitabilityRequestSchema, insertHostingPlanSchema, auditLogQuerySchema, adminAccountSchema, CONTACT_SORT_FIELDS, APPOINTMENT_SORT_FIELDS } from "../shared/schema.js";
+import { getServiceOption } from "../shared/services.js";
+import { BUSINESS_TIMEZONE, isCalendarDate, isValidTimeZone } from "../shared/timezones.js";
+import { PASSWORD_MAX_LENGTH, passwordProblems } from "../shared/passwords.js";
+import { quoteTotals } from "../shared/quotes.js";
+import { DEFAULT_PROFITABILITY_MARKET, calculateProfitability, isBitcoinMiner, toTerahash, type ProfitabilityMarket } from "../shared/profitability.js";
+import { hasPermission, type AdminPermission } from "../shared/permissions.js";
+import { getTeamAddress, sendMail, sendMailInBackground } from "./mail.js";
+import { DEFAULT_WORKING_HOURS, checkSlotOnSchedule, getDaySchedule, isSlotFree } from "./availability.js";
+import { newContactAlert, newAppointmentAlert, appointmentReceived, appointmentApproved, appointmentRejected, appointmentCompleted, appointmentChangedAlert, contactReply, newQuoteRequestAlert, quoteIssued, adminPasswordReset } from "./mailTemplates.js";
+import { appointmentManagePath, verifyAppointmentManageToken } from "./manageLinks.js";
+import { appointmentInviteFilename, buildCalendar } from "./ics.js";
+import { buildQuoteDocument, buildSpecSheet, quoteDocumentFilename, specSheetFilename } from "./pdf.js";
+import { rateLimit } from "./rateLimit.js";
+import { beginSetup, endSetup, verifySetupToken } from "./setup.js";
+import { PASSWORD_RESET_TTL_MS, generateResetToken, hashResetToken, isResetToken } from "./passwordReset.js";
+import { SESSION_IDLE_MS, SESSION_MAX_AGE_MS, SESSION_PURGE_INTERVAL_MS, SESSION_TOUCH_INTERVAL_MS, clearSessionCookies, getSessionCredentials, passesCsrfCheck, setSessionCookies } from "./adminSession.js";
+import { enrolmentDetails, generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, isTotpCode, isTwoFactorRequired, issueLoginChallenge, verifyLoginChallenge, verifyTotp } from "./twoFactor.js";
+import { LOGIN_FAILURE_WINDOW_MS, LOGIN_IP_FAILURE_LIMIT, LOGIN_LOCKOUT_MS, LOGIN_LOCKOUT_THRESHOLD, failureDelay, lockoutDuration, sleep } from "./loginProtection.js";
+import { issueFormChallenge, scoreSubmission, verifyFormChallenge } from "./spam.js";
+import { HONEYPOT_FIELD, SPAM_THRESHOLD } from "../shared/spam.js";
+import { APPOINTMENT_EXPORT_COLUMNS, CONTACT_EXPORT_COLUMNS, EXPORT_BATCH_SIZE, EXPORT_FORMATS, streamExport, type ExportFormat } from "./exports.js";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 
@@ -24,244 +46,1660 @@ function generateSessionToken() {
   return randomBytes(32).toString("hex");
 }
 
+// Signs the admin in: browsers get the session cookie, bearer clients get the token in the body
+async function startAdminSession(req: Request, res: Response, admin: AdminUser, bearer: boolean) {
+  await storage.recordLoginAttempt({ username: admin.username.toLowerCase(), adminId: admin.id, ipAddress: req.ip, succeeded: true });
+  const sessionToken = generateSessionToken();
+  const absoluteExpiresAt = new Date(Date.now() + SESSION_MAX_AGE_MS);
+  await storage.createAdminSession(admin.id, sessionToken, {
+    expiresAt: new Date(Date.now() + SESSION_IDLE_MS),
+    absoluteExpiresAt,
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent"),
+  }, auditActor(req, admin));
+  if (!bearer) {
+    setSessionCookies(res, sessionToken, absoluteExpiresAt);
+  }
+  return {
+    success: true,
+    ...(bearer ? { sessionToken } : {}),
+    admin: { id: admin.id, username: admin.username, role: admin.role },
+  };
+}
+
+// After the password checks out: sign in, or hand back a challenge for the two-factor step
+async function passwordAccepted(req: Request, res: Response, admin: AdminUser, bearer: boolean) {
+  if (admin.totpSecret) {
+    return { success: true, twoFactorRequired: true, challenge: issueLoginChallenge(admin.id) };
+  }
+  if (isTwoFactorRequired()) {
+    // Enrolment is part of signing in, so no session exists until a code has checked out
+    const secret = generateTotpSecret();
+    await storage.setPendingTotpSecret(admin.id, secret);
+    return {
+      success: true,
+      twoFactorSetupRequired: true,
+      challenge: issueLoginChallenge(admin.id),
+      enrolment: await enrolmentDetails(secret, admin.username),
+    };
+  }
+  return await startAdminSession(req, res, admin, bearer);
+}
+
+// An authenticator code, or an unused recovery code (which is then spent)
+async function verifySecondFactor(req: Request, admin: AdminUser, code: string) {
+  if (!admin.totpSecret) {
+    return false;
+  }
+  if (isTotpCode(code)) {
+    const step = verifyTotp(admin.totpSecret, code, admin.totpLastStep);
+    return step !== null && (await storage.recordTotpStep(admin.id, step));
+  }
+  return await storage.useRecoveryCode(admin.id, hashRecoveryCode(code), auditActor(req, admin));
+}
+
+function refuseLockedSignIn(res: Response, lockedUntil: Date) {
+  const retryAfter = Math.ceil((lockedUntil.getTime() - Date.now()) / 1000);
+  res.setHeader("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    error: `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+  });
+}
+
+// The policy message the reset form shows, or undefined when the password is acceptable
+function passwordPolicyError(password: unknown, username: string): string | undefined {
+  if (typeof password !== "string") {
+    return "Password is required";
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  const problems = passwordProblems(password, username);
+  return problems.length > 0 ? `Password needs: ${problems.join(", ").toLowerCase()}` : undefined;
+}
+
+// The site's own address, from configuration only. The Host header is chosen by the client, so
+// links built from it could send a reset or manage token to someone else's domain.
+function siteBaseUrl(): string {
+  const base = process.env.PUBLIC_BASE_URL;
+  if (!base || !/^https?:\/\/[^/]+/.test(base)) {
+    throw new Error("PUBLIC_BASE_URL must be set to the site's address, e.g. https://71digital.io");
+  }
+  return base.replace(/\/$/, "");
+}
+
+// Absolute URL for links sent in emails and handed out to calendar apps
+function siteUrl(path: string) {
+  return `${siteBaseUrl()}${path}`;
+}
+
+// The admin requireAdmin attached; only for handlers that run behind it
+function signedInAdmin(req: Request): AdminUser {
+  if (!req.admin) {
+    throw new Error("requireAdmin must run before this handler");
+  }
+  return req.admin;
+}
+
+function signedInToken(req: Request): string {
+  if (!req.sessionToken) {
+    throw new Error("requireAdmin must run before this handler");
+  }
+  return req.sessionToken;
+}
+
+function auditActor(req: Request, admin: { id: number; username: string }): AuditActor {
+  return { adminId: admin.id, username: admin.username, ipAddress: req.ip };
+}
+
+// Changes made by the customer through their manage link
+function customerActor(req: Request, appointment: Appointment): AuditActor {
+  return { adminId: null, username: `customer:${appointment.email}`, ipAddress: req.ip };
+}
+
+// What the customer sees on the manage page and may do from it
+function manageView(appointment: Appointment) {
+  const upcoming = new Date(appointment.scheduledAt) > new Date();
+  return {
+    id: appointment.id,
+    fullName: appointment.fullName,
+    serviceType: appointment.serviceType,
+    scheduledAt: appointment.scheduledAt,
+    timezone: appointment.timezone,
+    status: appointment.status,
+    rejectionReason: appointment.rejectionReason,
+    canCancel: upcoming && ["pending", "approved"].includes(appointment.status),
+    canReschedule: ["pending", "approved", "rejected"].includes(appointment.status),
+  };
+}
+
+// Page, filters and sort for the admin lists; returns an error message when the query is unusable
+function parseListQuery<TSort extends string>(
+  query: Request["query"],
+  sortFields: readonly TSort[],
+  defaultSort: TSort
+): { page: number; pageSize: number; query: ListQuery<TSort> } | { error: string } {
+  const { status, service, from, to, q, spam, sort, order } = query as Record<string, string | undefined>;
+  const page = Math.max(parseInt(query.page as string) || 1, 1);
+  const pageSize = Math.min(Math.max(parseInt(query.pageSize as string) || 25, 1), 100);
+
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return { error: "Invalid date range" };
+  }
+  if (sort && !(sortFields as readonly string[]).includes(sort)) {
+    return { error: "Invalid sort field" };
+  }
+
+  return {
+    page,
+    pageSize,
+    query: {
+      status: status || undefined,
+      service: service || undefined,
+      from: fromDate,
+      to: toDate,
+      search: q?.trim() || undefined,
+      spam: spam === "hide" || spam === "only" ? spam : undefined,
+      sort: (sort as TSort) || defaultSort,
+      order: order === "asc" ? "asc" : "desc",
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    },
+  };
+}
+
+// What an export was filtered by, for the audit trail
+function exportDetails(format: ExportFormat, query: ListQuery<string>) {
+  return {
+    format,
+    status: query.status,
+    service: query.service,
+    from: query.from?.toISOString(),
+    to: query.to?.toISOString(),
+    search: query.search,
+    spam: query.spam,
+  };
+}
+
+// Rejects bots before a public form is processed: the honeypot must be empty and the
+// proof-of-work challenge solved. Returns the error to send, or null to carry on.
+function screenFormSubmission(req: Request): string | null {
+  const honeypot = req.body?.[HONEYPOT_FIELD];
+  if (typeof honeypot === "string" && honeypot.trim() !== "") {
+    return "Invalid form data";
+  }
+  const refused = verifyFormChallenge(req.body?.challenge, req.body?.nonce);
+  if (refused) {
+    console.warn(`Form challenge refused (${refused}) from ${req.ip}`);
+    return "Verification failed. Please reload the page and try again.";
+  }
+  return null;
+}
+
+// Rate limit keyed by the submitted email address, so one sender can't flood from many IPs
+const byEmail = (req: Request) =>
+  typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined;
+
+const contactRateLimits = [
+  rateLimit({ name: "contact-ip", windowMs: 10 * 60 * 1000, max: 5 }),
+  rateLimit({ name: "contact-email", windowMs: 60 * 60 * 1000, max: 3, key: byEmail }),
+];
+
+const quoteRequestRateLimits = [
+  rateLimit({ name: "quote-request-ip", windowMs: 10 * 60 * 1000, max: 5 }),
+  rateLimit({ name: "quote-request-email", windowMs: 60 * 60 * 1000, max: 3, key: byEmail }),
+];
+
+const appointmentRateLimits = [
+  rateLimit({ name: "appointment-ip", windowMs: 60 * 60 * 1000, max: 5 }),
+  rateLimit({ name: "appointment-email", windowMs: 24 * 60 * 60 * 1000, max: 3, key: byEmail }),
+];
+
+// Per address, and per account asked about, so nobody can fill an admin's inbox with reset mail
+const passwordResetRateLimits = [
+  rateLimit({ name: "password-reset-ip", windowMs: 60 * 60 * 1000, max: 10 }),
+  rateLimit({
+    name: "password-reset-account",
+    windowMs: 60 * 60 * 1000,
+    max: 3,
+    key: (req) => (typeof req.body?.identifier === "string" ? req.body.identifier.trim().toLowerCase() : undefined),
+  }),
+];
+
+// The calculator's market values: whatever admins saved last, or the built-in defaults
+async function profitabilityDefaults(): Promise<ProfitabilityMarket & { updatedAt: Date | null }> {
+  const saved = await storage.getCalculatorDefaults();
+  if (!saved) {
+    return { ...DEFAULT_PROFITABILITY_MARKET, updatedAt: null };
+  }
+  const { electricityRate, networkDifficulty, blockReward, btcPrice, poolFee, updatedAt } = saved;
+  return { electricityRate, networkDifficulty, blockReward, btcPrice, poolFee, updatedAt };
+}
+
+const isExportFormat = (format: unknown): format is ExportFormat =>
+  typeof format === "string" && (EXPORT_FORMATS as readonly string[]).includes(format);
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Create default admin user if none exists
-  const initializeAdmin = async () => {
-    try {
-      const existingAdmin = await storage.getAdminByUsername("admin");
-      if (!existingAdmin) {
-        const hashedPassword = await hashPassword("admin123");
-        await storage.createAdminUser({
-          username: "admin",
-          password: hashedPassword,
+  // Fail at startup rather than on the first email that needs a link
+  siteBaseUrl();
+
+  // On a fresh database, open first-run setup so the first owner can be created
+  const initializeSetup = async () => {
+    try {
+      if ((await storage.countAdmins()) === 0) {
+        beginSetup();
+      }
+    } catch (error) {
+      console.error("Error checking for admin accounts:", error);
+    }
+  };
+
+  initializeSetup();
+
+  // Expired sessions are refused anyway; this just keeps the table from growing forever
+  setInterval(async () => {
+    try {
+      const purged = await storage.purgeExpiredSessions();
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired admin session(s)`);
+      }
+    } catch (error) {
+      console.error("Error purging expired sessions:", error);
+    }
+  }, SESSION_PURGE_INTERVAL_MS).unref();
+
+  // Proof-of-work challenge the public forms solve before submitting
+  app.get("/api/form-challenge", rateLimit({ name: "form-challenge", windowMs: 10 * 60 * 1000, max: 30 }), (req, res) => {
+    res.setHeader("Cache-Control", "no-store");
+    res.json(issueFormChallenge());
+  });
+
+  // Contact form submission endpoint
+  app.post("/api/contact", ...contactRateLimits, async (req, res) => {
+    try {
+      const screeningError = screenFormSubmission(req);
+      if (screeningError) {
+        return res.status(400).json({ success: false, error: screeningError });
+      }
+
+      const validatedData = insertContactSubmissionSchema.parse(req.body);
+      const spamScore = scoreSubmission(validatedData);
+      const submission = await storage.createContactSubmission(validatedData, spamScore);
+      const teamAddress = getTeamAddress();
+      if (teamAddress && spamScore < SPAM_THRESHOLD) {
+        sendMailInBackground({ to: teamAddress, replyTo: submission.email, ...newContactAlert(submission) }, "new contact alert");
+      }
+      res.json({ success: true, id: submission.id });
+    } catch (error) {
+      console.error("Contact form submission error:", error);
+      res.status(400).json({ 
+        success: false, 
+        error: "Invalid form data" 
+      });
+    }
+  });
+
+  // Hardware listed on the store page, in the order admins arranged it
+  app.get("/api/products", async (req, res) => {
+    try {
+      res.json(await storage.listProducts({ visibleOnly: true }));
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch products" });
+    }
+  });
+
+  // Printable spec sheet for a listed product, linked from its store card
+  app.get("/api/products/:slug/spec.pdf", rateLimit({ name: "spec-sheet", windowMs: 10 * 60 * 1000, max: 30 }), async (req, res) => {
+    try {
+      const product = await storage.getProductBySlug(req.params.slug);
+      if (!product || !product.visible) {
+        return res.status(404).json({ success: false, error: "Product not found" });
+      }
+
+      const pdf = await buildSpecSheet(product);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${specSheetFilename(product)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating spec sheet:", error);
+      res.status(500).json({ success: false, error: "Failed to generate spec sheet" });
+    }
+  });
+
+  // Starting values for the profitability calculator page
+  app.get("/api/profitability/defaults", async (req, res) => {
+    try {
+      res.json(await profitabilityDefaults());
+    } catch (error) {
+      console.error("Error fetching calculator defaults:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch calculator defaults" });
+    }
+  });
+
+  // Earnings for a catalog model or a custom hashrate and power; omitted market values use the defaults
+  app.post("/api/profitability", rateLimit({ name: "profitability", windowMs: 10 * 60 * 1000, max: 60 }), async (req, res) => {
+    try {
+      const parsed = profitabilityRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid calculator inputs" });
+      }
+      const { productId, hashrate, powerWatts, hardwareCost, ...market } = parsed.data;
+
+      let machine = { hashrate: hashrate ?? 0, powerWatts: powerWatts ?? 0, hardwareCost: hardwareCost ?? null };
+      if (productId !== undefined) {
+        const product = await storage.getProduct(productId);
+        if (!product || !product.visible || !isBitcoinMiner(product)) {
+          return res.status(404).json({ success: false, error: "That model isn't available in the calculator" });
+        }
+        machine = {
+          hashrate: hashrate ?? toTerahash(product.hashrate, product.hashrateUnit),
+          powerWatts: powerWatts ?? product.powerWatts,
+          hardwareCost: hardwareCost !== undefined ? hardwareCost : product.price,
+        };
+      }
+
+      const { updatedAt, ...defaults } = await profitabilityDefaults();
+      const inputs = { ...defaults, ...market, ...machine };
+      res.json({ success: true, inputs, result: calculateProfitability(inputs) });
+    } catch (error) {
+      console.error("Error calculating profitability:", error);
+      res.status(500).json({ success: false, error: "Failed to calculate profitability" });
+    }
+  });
+
+  // Plans for the pricing section and the hosting contract estimator, in the order admins arranged them
+  app.get("/api/hosting-plans", async (req, res) => {
+    try {
+      res.json(await storage.listHostingPlans({ visibleOnly: true }));
+    } catch (error) {
+      console.error("Error fetching hosting plans:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch hosting plans" });
+    }
+  });
+
+  // Quote cart submitted from the store page
+  app.post("/api/quote-requests", ...quoteRequestRateLimits, async (req, res) => {
+    try {
+      const screeningError = screenFormSubmission(req);
+      if (screeningError) {
+        return res.status(400).json({ success: false, error: screeningError });
+      }
+
+      const parsed = insertQuoteRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid quote request" });
+      }
+      const { items, ...request } = parsed.data;
+
+      // Only what's on sale can be requested; the same model added twice is merged into one line
+      const catalog = await storage.listProducts({ visibleOnly: true });
+      const lines = new Map<number, { productId: number; productName: string; quantity: number }>();
+      for (const item of items) {
+        const product = catalog.find((entry) => entry.id === item.productId);
+        if (!product) {
+          return res.status(400).json({ success: false, error: "One of the products in your quote is no longer available" });
+        }
+        const line = lines.get(product.id);
+        if (line) {
+          line.quantity += item.quantity;
+        } else {
+          lines.set(product.id, { productId: product.id, productName: `${product.manufacturer} ${product.model}`, quantity: item.quantity });
+        }
+      }
+
+      const requestedItems = Array.from(lines.values());
+      const spamScore = scoreSubmission(request);
+      const quoteRequest = await storage.createQuoteRequest(request, requestedItems, spamScore);
+      const teamAddress = getTeamAddress();
+      if (teamAddress && spamScore < SPAM_THRESHOLD) {
+        sendMailInBackground(
+          { to: teamAddress, replyTo: quoteRequest.email, ...newQuoteRequestAlert(quoteRequest, requestedItems) },
+          "new quote request alert",
+        );
+      }
+      res.json({ success: true, id: quoteRequest.id });
+    } catch (error) {
+      console.error("Quote request submission error:", error);
+      res.status(500).json({ success: false, error: "Failed to submit quote request" });
+    }
+  });
+
+  // Open consultation slots for one day in the client's timezone, used by the booking page
+  app.get("/api/availability", async (req, res) => {
+    try {
+      const date = String(req.query.date ?? "");
+      const service = String(req.query.service ?? "");
+      const timeZone = String(req.query.timezone || BUSINESS_TIMEZONE);
+      // A customer rescheduling shouldn't see their current slot as taken
+      const exceptAppointmentId = req.query.manage ? verifyAppointmentManageToken(String(req.query.manage)) ?? undefined : undefined;
+
+      if (!isCalendarDate(date) || !getServiceOption(service) || !isValidTimeZone(timeZone)) {
+        return res.status(400).json({ success: false, error: "A valid date, service and timezone are required" });
+      }
+
+      res.json(await getDaySchedule(date, service, timeZone, exceptAppointmentId));
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch availability" });
+    }
+  });
+
+  // Appointment booking submission endpoint
+  app.post("/api/appointments", ...appointmentRateLimits, async (req, res) => {
+    try {
+      const screeningError = screenFormSubmission(req);
+      if (screeningError) {
+        return res.status(400).json({ success: false, error: screeningError });
+      }
+
+      const validatedData = insertAppointmentSchema.parse(req.body);
+      const { scheduledAt, serviceType } = validatedData;
+
+      const unavailableReason = await checkSlotOnSchedule(scheduledAt, serviceType);
+      if (unavailableReason) {
+        return res.status(409).json({ success: false, error: unavailableReason });
+      }
+
+      const spamScore = scoreSubmission(validatedData);
+      const appointment = await storage.createAppointmentIfFree(
+        validatedData,
+        (booked) => isSlotFree(booked, scheduledAt, serviceType),
+        spamScore
+      );
+      if (!appointment) {
+        return res.status(409).json({ success: false, error: "That time slot was just booked. Please choose another." });
+      }
+      const manageUrl = siteUrl(appointmentManagePath(appointment.id));
+      // Likely spam gets no email at all, so the form can't be used to mail arbitrary addresses
+      if (spamScore < SPAM_THRESHOLD) {
+        const teamAddress = getTeamAddress();
+        if (teamAddress) {
+          sendMailInBackground({ to: teamAddress, replyTo: appointment.email, ...newAppointmentAlert(appointment) }, "new appointment alert");
+        }
+        sendMailInBackground({ to: appointment.email, ...appointmentReceived(appointment, manageUrl) }, "appointment received");
+      }
+      res.json({ success: true, id: appointment.id, manageUrl });
+    } catch (error) {
+      console.error("Appointment booking error:", error);
+      res.status(400).json({ 
+        success: false, 
+        error: "Invalid appointment data" 
+      });
+    }
+  });
+
+  // Customer self-service, authorised by the signed token in the manage link. This is the only
+  // public way to read an appointment, and it only exposes the fields in manageView.
+  async function findManagedAppointment(token: string) {
+    const appointmentId = verifyAppointmentManageToken(token);
+    return appointmentId === null ? undefined : await storage.getAppointment(appointmentId);
+  }
+
+  app.use("/api/appointments/manage", rateLimit({ name: "manage", windowMs: 15 * 60 * 1000, max: 60 }));
+
+  app.get("/api/appointments/manage/:token", async (req, res) => {
+    try {
+      const appointment = await findManagedAppointment(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ success: false, error: "This link is invalid or the appointment no longer exists" });
+      }
+      res.json({ success: true, appointment: manageView(appointment) });
+    } catch (error) {
+      console.error("Error fetching managed appointment:", error);
+      res.status(500).json({ success: false, error: "Failed to load appointment" });
+    }
+  });
+
+  app.post("/api/appointments/manage/:token/cancel", async (req, res) => {
+    try {
+      const appointment = await findManagedAppointment(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ success: false, error: "This link is invalid or the appointment no longer exists" });
+      }
+      if (!manageView(appointment).canCancel) {
+        return res.status(409).json({ success: false, error: "This appointment can no longer be cancelled" });
+      }
+
+      // Cancelling frees the slot, so there is nothing to check it against
+      const cancelled = await storage.updateAppointmentStatus(appointment.id, "cancelled", undefined, () => true, customerActor(req, appointment));
+      if (!cancelled) {
+        return res.status(404).json({ success: false, error: "This link is invalid or the appointment no longer exists" });
+      }
+      const teamAddress = getTeamAddress();
+      if (teamAddress) {
+        sendMailInBackground({ to: teamAddress, replyTo: cancelled.email, ...appointmentChangedAlert(cancelled, "cancelled") }, "appointment cancelled alert");
+      }
+      res.json({ success: true, appointment: manageView(cancelled) });
+    } catch (error) {
+      console.error("Error cancelling appointment:", error);
+      res.status(500).json({ success: false, error: "Failed to cancel appointment" });
+    }
+  });
+
+  app.post("/api/appointments/manage/:token/reschedule", async (req, res) => {
+    try {
+      const appointment = await findManagedAppointment(req.params.token);
+      if (!appointment) {
+        return res.status(404).json({ success: false, error: "This link is invalid or the appointment no longer exists" });
+      }
+      if (!manageView(appointment).canReschedule) {
+        return res.status(409).json({ success: false, error: "This appointment can no longer be rescheduled" });
+      }
+
+      const change = rescheduleAppointmentSchema.safeParse(req.body);
+      if (!change.success) {
+        return res.status(400).json({ success: false, error: "Please select a new time slot" });
+      }
+      const { scheduledAt } = change.data;
+
+      const unavailableReason = await checkSlotOnSchedule(scheduledAt, appointment.serviceType, appointment.id);
+      if (unavailableReason) {
+        return res.status(409).json({ success: false, error: unavailableReason });
+      }
+
+      const rescheduled = await storage.rescheduleAppointmentIfFree(
+        appointment.id,
+        change.data,
+        (booked) => isSlotFree(booked, scheduledAt, appointment.serviceType),
+        customerActor(req, appointment)
+      );
+      if (!rescheduled) {
+        return res.status(409).json({ success: false, error: "That time slot was just booked. Please choose another." });
+      }
+      const teamAddress = getTeamAddress();
+      if (teamAddress) {
+        sendMailInBackground({ to: teamAddress, replyTo: rescheduled.email, ...appointmentChangedAlert(rescheduled, "rescheduled") }, "appointment rescheduled alert");
+      }
+      res.json({ success: true, appointment: manageView(rescheduled) });
+    } catch (error) {
+      console.error("Error rescheduling appointment:", error);
+      res.status(500).json({ success: false, error: "Failed to reschedule appointment" });
+    }
+  });
+
+  // Admin authentication routes
+  app.post("/api/admin/login", async (req, res) => {
+    try {
+      const validatedData = adminLoginSchema.parse(req.body);
+      const username = validatedData.username.toLowerCase();
+      const since = new Date(Date.now() - LOGIN_FAILURE_WINDOW_MS);
+
+      // One address guessing across many usernames
+      const ipFailures = req.ip ? await storage.countFailedLogins({ ipAddress: req.ip }, since) : 0;
+      if (ipFailures >= LOGIN_IP_FAILURE_LIMIT) {
+        await storage.recordLoginAttempt({ username, adminId: null, ipAddress: req.ip, succeeded: false, reason: "ip_blocked" });
+        res.setHeader("Retry-After", String(Math.ceil(LOGIN_FAILURE_WINDOW_MS / 1000)));
+        return res.status(429).json({ success: false, error: "Too many failed sign-in attempts from this network. Please try again later." });
+      }
+
+      const admin = await storage.getAdminByUsername(validatedData.username);
+
+      // Unknown usernames get the same treatment as real ones so lockouts don't reveal which accounts exist
+      const lockedUntil = admin
+        ? admin.lockedUntil
+        : (await storage.countFailedLogins({ username }, since)) >= LOGIN_LOCKOUT_THRESHOLD
+          ? new Date(Date.now() + LOGIN_LOCKOUT_MS)
+          : null;
+      if (lockedUntil && lockedUntil > new Date()) {
+        await storage.recordLoginAttempt({ username, adminId: admin?.id ?? null, ipAddress: req.ip, succeeded: false, reason: "locked" });
+        return refuseLockedSignIn(res, lockedUntil);
+      }
+
+      if (!admin || !(await comparePasswords(validatedData.password, admin.password))) {
+        await storage.recordLoginAttempt({
+          username,
+          adminId: admin?.id ?? null,
+          ipAddress: req.ip,
+          succeeded: false,
+          reason: admin ? "bad_password" : "unknown_user",
         });
-        console.log("Default admin user created: username=admin, password=admin123");
+        const failures = admin
+          ? (await storage.registerFailedLogin(admin.id, lockoutDuration, { ...SYSTEM_ACTOR, ipAddress: req.ip })).failedLoginCount
+          : await storage.countFailedLogins({ username }, since);
+        // Slow down each guess in a run of failures
+        await sleep(failureDelay(failures));
+        return res.status(401).json({ success: false, error: "Invalid credentials" });
+      }
+
+      res.json(await passwordAccepted(req, res, admin, validatedData.tokenType === "bearer"));
+    } catch (error) {
+      console.error("Admin login error:", error);
+      res.status(400).json({ success: false, error: "Invalid login data" });
+    }
+  });
+
+  // Second sign-in step for accounts with two-factor sign-in, or finishing required enrolment
+  app.post("/api/admin/login/2fa", rateLimit({ name: "login-2fa", windowMs: 15 * 60 * 1000, max: 30 }), async (req, res) => {
+    try {
+      const parsed = adminTwoFactorLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid code" });
+      }
+      const { challenge, code, tokenType } = parsed.data;
+
+      const adminId = verifyLoginChallenge(challenge);
+      const admin = adminId !== null ? await storage.getAdmin(adminId) : undefined;
+      if (!admin) {
+        return res.status(401).json({ success: false, error: "Your sign-in has expired. Please enter your password again." });
+      }
+      if (admin.lockedUntil && admin.lockedUntil > new Date()) {
+        await storage.recordLoginAttempt({ username: admin.username.toLowerCase(), adminId: admin.id, ipAddress: req.ip, succeeded: false, reason: "locked" });
+        return refuseLockedSignIn(res, admin.lockedUntil);
+      }
+
+      let verified = false;
+      let recoveryCodes: string[] | undefined;
+      if (admin.totpSecret) {
+        verified = await verifySecondFactor(req, admin, code);
+      } else if (admin.totpPendingSecret) {
+        const step = verifyTotp(admin.totpPendingSecret, code, null);
+        if (step !== null) {
+          recoveryCodes = generateRecoveryCodes();
+          await storage.enableTwoFactor(admin.id, admin.totpPendingSecret, step, recoveryCodes.map(hashRecoveryCode), auditActor(req, admin));
+          verified = true;
+        }
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      if (!verified) {
+        await storage.recordLoginAttempt({ username: admin.username.toLowerCase(), adminId: admin.id, ipAddress: req.ip, succeeded: false, reason: "bad_code" });
+        const { failedLoginCount } = await storage.registerFailedLogin(admin.id, lockoutDuration, { ...SYSTEM_ACTOR, ipAddress: req.ip });
+        await sleep(failureDelay(failedLoginCount));
+        return res.status(401).json({ success: false, error: "Invalid code" });
+      }
+
+      res.json({ ...(await startAdminSession(req, res, admin, tokenType === "bearer")), recoveryCodes });
+    } catch (error) {
+      console.error("Admin two-factor login error:", error);
+      res.status(500).json({ success: false, error: "Sign-in failed" });
+    }
+  });
+
+  // Whether first-run setup is still needed; the login page redirects to setup while it is
+  app.get("/api/admin/setup", async (req, res) => {
+    try {
+      const required = (await storage.countAdmins()) === 0;
+      if (required) {
+        beginSetup();
+      }
+      res.json({ required });
+    } catch (error) {
+      console.error("Admin setup check error:", error);
+      res.status(500).json({ success: false, error: "Setup check failed" });
+    }
+  });
+
+  app.post("/api/admin/setup", rateLimit({ name: "admin-setup", windowMs: 15 * 60 * 1000, max: 10 }), async (req, res) => {
+    try {
+      const parsed = adminSetupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid setup data" });
+      }
+      const { token, username, email, password } = parsed.data;
+
+      if (!verifySetupToken(token)) {
+        return res.status(403).json({ success: false, error: "Invalid setup token" });
+      }
+
+      const admin = await storage.createInitialOwner(
+        { username, email: email ? email.toLowerCase() : null, password: await hashPassword(password), role: "owner" },
+        { adminId: null, username: "setup", ipAddress: req.ip }
+      );
+      endSetup();
+      if (!admin) {
+        return res.status(409).json({ success: false, error: "Setup has already been completed" });
+      }
+
+      // Sign the new owner straight in (via enrolment when two-factor sign-in is required)
+      res.json(await passwordAccepted(req, res, admin, false));
+    } catch (error) {
+      console.error("Admin setup error:", error);
+      res.status(500).json({ success: false, error: "Failed to create the owner account" });
+    }
+  });
+
+  // Forgot password. The answer is the same whether or not an account matched, so the form
+  // can't be used to find out which usernames or addresses exist.
+  app.post("/api/admin/password-reset/request", ...passwordResetRateLimits, async (req, res) => {
+    try {
+      const parsed = adminPasswordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid request" });
+      }
+      const { identifier } = parsed.data;
+
+      const admin = identifier.includes("@")
+        ? await storage.getAdminByEmail(identifier)
+        : await storage.getAdminByUsername(identifier);
+      if (admin?.email) {
+        const token = generateResetToken();
+        await storage.createPasswordReset(
+          admin.id,
+          hashResetToken(token),
+          new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+          { ...SYSTEM_ACTOR, ipAddress: req.ip }
+        );
+        const resetUrl = siteUrl(`/admin/reset-password/${token}`);
+        sendMailInBackground({ to: admin.email, ...adminPasswordReset(admin, resetUrl, PASSWORD_RESET_TTL_MS / 60000) }, "admin password reset");
+      }
+
+      res.json({
+        success: true,
+        message: "If that account has an email address, a reset link is on its way. It expires in one hour.",
+      });
+    } catch (error) {
+      console.error("Password reset request error:", error);
+      res.status(500).json({ success: false, error: "Failed to request a password reset" });
+    }
+  });
+
+  // Lets the reset page say whose password is being changed before the form is filled in
+  app.get("/api/admin/password-reset/:token", rateLimit({ name: "password-reset-check", windowMs: 15 * 60 * 1000, max: 30 }), async (req, res) => {
+    try {
+      const admin = isResetToken(req.params.token)
+        ? await storage.getAdminByPasswordReset(hashResetToken(req.params.token))
+        : undefined;
+      if (!admin) {
+        return res.status(404).json({ success: false, error: "This reset link is invalid or has expired" });
+      }
+      res.json({ success: true, username: admin.username });
+    } catch (error) {
+      console.error("Password reset check error:", error);
+      res.status(500).json({ success: false, error: "Failed to check the reset link" });
+    }
+  });
+
+  app.post("/api/admin/password-reset/:token", rateLimit({ name: "password-reset", windowMs: 15 * 60 * 1000, max: 10 }), async (req, res) => {
+    try {
+      const parsed = adminPasswordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid password" });
+      }
+
+      const tokenHash = isResetToken(req.params.token) ? hashResetToken(req.params.token) : null;
+      const admin = tokenHash ? await storage.getAdminByPasswordReset(tokenHash) : undefined;
+      if (!tokenHash || !admin) {
+        return res.status(404).json({ success: false, error: "This reset link is invalid or has expired" });
+      }
+
+      const passwordError = passwordPolicyError(parsed.data.password, admin.username);
+      if (passwordError) {
+        return res.status(400).json({ success: false, error: passwordError });
+      }
+
+      // Spending the link happens with the update, so two submissions can't both succeed
+      const updated = await storage.resetAdminPassword(tokenHash, await hashPassword(parsed.data.password), req.ip);
+      if (!updated) {
+        return res.status(404).json({ success: false, error: "This reset link is invalid or has expired" });
+      }
+      clearSessionCookies(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ success: false, error: "Failed to reset the password" });
+    }
+  });
+
+  app.post("/api/admin/logout", async (req, res) => {
+    try {
+      const credentials = getSessionCredentials(req);
+      if (credentials) {
+        if (!passesCsrfCheck(req, credentials)) {
+          return res.status(403).json({ success: false, error: "Invalid or missing CSRF token" });
+        }
+        const admin = await storage.getAdminBySessionToken(credentials.token);
+        await storage.deleteAdminSession(credentials.token, admin && auditActor(req, admin));
+      }
+      clearSessionCookies(res);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Admin logout error:", error);
+      res.status(500).json({ success: false, error: "Logout failed" });
+    }
+  });
+
+  app.get("/api/admin/me", async (req, res) => {
+    try {
+      const credentials = getSessionCredentials(req);
+      if (!credentials) {
+        return res.status(401).json({ success: false, error: "No session token" });
+      }
+
+      const admin = await storage.getAdminBySessionToken(credentials.token);
+      if (!admin) {
+        return res.status(401).json({ success: false, error: "Invalid session" });
+      }
+
+      res.json({ 
+        success: true, 
+        admin: { id: admin.id, username: admin.username, role: admin.role }
+      });
+    } catch (error) {
+      console.error("Admin session check error:", error);
+      res.status(500).json({ success: false, error: "Session check failed" });
+    }
+  });
+
+  // Two-factor sign-in for the signed-in admin's own account
+  app.get("/api/admin/2fa", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      res.json({
+        enabled: admin.totpSecret !== null,
+        required: isTwoFactorRequired(),
+        recoveryCodesRemaining: admin.totpSecret ? await storage.countRecoveryCodes(admin.id) : 0,
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Starts enrolment: a new secret that only takes effect once a code from it is confirmed
+  app.post("/api/admin/2fa/setup", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      if (admin.totpSecret) {
+        return res.status(400).json({ success: false, error: "Two-factor sign-in is already on" });
+      }
+      const secret = generateTotpSecret();
+      await storage.setPendingTotpSecret(admin.id, secret);
+      res.json({ success: true, ...(await enrolmentDetails(secret, admin.username)) });
+    } catch (error) {
+      console.error("Error starting two-factor enrolment:", error);
+      res.status(500).json({ success: false, error: "Failed to start two-factor enrolment" });
+    }
+  });
+
+  app.post("/api/admin/2fa/enable", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const code = typeof req.body.code === "string" ? req.body.code : "";
+      if (!admin.totpPendingSecret) {
+        return res.status(400).json({ success: false, error: "Start two-factor enrolment first" });
+      }
+      const step = verifyTotp(admin.totpPendingSecret, code, null);
+      if (step === null) {
+        return res.status(400).json({ success: false, error: "That code didn't match. Check the time on your phone and try again." });
+      }
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(admin.id, admin.totpPendingSecret, step, recoveryCodes.map(hashRecoveryCode), auditActor(req, admin));
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor sign-in:", error);
+      res.status(500).json({ success: false, error: "Failed to turn on two-factor sign-in" });
+    }
+  });
+
+  app.post("/api/admin/2fa/recovery-codes", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const code = typeof req.body.code === "string" ? req.body.code : "";
+      if (!isTotpCode(code) || !(await verifySecondFactor(req, admin, code))) {
+        return res.status(400).json({ success: false, error: "Enter a current code from your authenticator app" });
+      }
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(admin.id, recoveryCodes.map(hashRecoveryCode), auditActor(req, admin));
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ success: false, error: "Failed to generate recovery codes" });
+    }
+  });
+
+  app.post("/api/admin/2fa/disable", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const { password, code } = req.body;
+      if (isTwoFactorRequired()) {
+        return res.status(400).json({ success: false, error: "Two-factor sign-in is required for all admin accounts" });
+      }
+      if (typeof password !== "string" || !(await comparePasswords(password, admin.password))) {
+        return res.status(400).json({ success: false, error: "Incorrect password" });
+      }
+      if (typeof code !== "string" || !(await verifySecondFactor(req, admin, code))) {
+        return res.status(400).json({ success: false, error: "Invalid code" });
+      }
+      await storage.disableTwoFactor(admin.id, auditActor(req, admin));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error disabling two-factor sign-in:", error);
+      res.status(500).json({ success: false, error: "Failed to turn off two-factor sign-in" });
+    }
+  });
+
+  // Protected admin routes
+  async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    try {
+      const credentials = getSessionCredentials(req);
+      if (!credentials) {
+        return res.status(401).json({ success: false, error: "No session token" });
+      }
+
+      const admin = await storage.getAdminBySessionToken(credentials.token);
+      if (!admin) {
+        return res.status(401).json({ success: false, error: "Invalid session" });
+      }
+
+      if (!passesCsrfCheck(req, credentials)) {
+        return res.status(403).json({ success: false, error: "Invalid or missing CSRF token" });
+      }
+
+      // Sliding expiry: activity keeps the session alive, up to its absolute cap
+      await storage.touchAdminSession(
+        credentials.token,
+        new Date(Date.now() - SESSION_TOUCH_INTERVAL_MS),
+        new Date(Date.now() + SESSION_IDLE_MS),
+        req.ip,
+        req.get("user-agent")
+      );
+
+      req.admin = admin;
+      req.sessionToken = credentials.token;
+      next();
+    } catch (error) {
+      console.error("Admin auth middleware error:", error);
+      res.status(500).json({ success: false, error: "Authentication failed" });
+    }
+  }
+
+  // Must run after requireAdmin, which attaches the admin (and its role) to the request
+  function requirePermission(permission: AdminPermission) {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!hasPermission(req.admin?.role, permission)) {
+        return res.status(403).json({ success: false, error: "You do not have permission to perform this action" });
+      }
+      next();
+    };
+  }
+
+  const canOwnDeals = async (adminId: number) => {
+    const admin = await storage.getAdmin(adminId);
+    return !!admin && hasPermission(admin.role, "deals:update");
+  };
+
+  app.get("/api/admin/contacts", requireAdmin, requirePermission("contacts:read"), async (req, res) => {
+    try {
+      const parsed = parseListQuery(req.query, CONTACT_SORT_FIELDS, "createdAt");
+      if ("error" in parsed) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+
+      const result = await storage.listContactSubmissions(parsed.query);
+      res.json({ ...result, page: parsed.page, pageSize: parsed.pageSize });
+    } catch (error) {
+      console.error("Error fetching admin contacts:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch contacts" });
+    }
+  });
+
+  // Same filters and sort as the list, every matching row
+  app.get("/api/admin/contacts/export", requireAdmin, requirePermission("contacts:read"), async (req, res) => {
+    try {
+      const format = req.query.format ?? "csv";
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ success: false, error: "Invalid export format" });
+      }
+      const parsed = parseListQuery(req.query, CONTACT_SORT_FIELDS, "createdAt");
+      if ("error" in parsed) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+
+      await storage.recordExport(auditActor(req, signedInAdmin(req)), "contact", exportDetails(format, parsed.query));
+      await streamExport(res, format, "contacts", CONTACT_EXPORT_COLUMNS, async (offset) => {
+        const { entries } = await storage.listContactSubmissions({ ...parsed.query, limit: EXPORT_BATCH_SIZE, offset });
+        return entries;
+      });
+    } catch (error) {
+      console.error("Error exporting contacts:", error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ success: false, error: "Failed to export contacts" });
+    }
+  });
+
+  // Update contact submission status
+  app.patch("/api/admin/contacts/:id/status", requireAdmin, requirePermission("contacts:update"), async (req, res) => {
+    try {
+      const submissionId = parseInt(req.params.id);
+      const { status, rejectionReason } = req.body;
+
+      if (!status || !["unread", "responded", "ignored"].includes(status)) {
+        return res.status(400).json({ success: false, error: "Invalid status" });
+      }
+
+      if (status === "ignored" && !rejectionReason) {
+        return res.status(400).json({ success: false, error: "Ignore reason is required" });
+      }
+
+      const updatedSubmission = await storage.updateContactSubmissionStatus(
+        submissionId,
+        status,
+        rejectionReason,
+        auditActor(req, signedInAdmin(req))
+      );
+
+      res.json({ success: true, submission: updatedSubmission });
+    } catch (error) {
+      console.error("Error updating contact status:", error);
+      res.status(500).json({ success: false, error: "Failed to update contact status" });
+    }
+  });
+
+  // Names for the owner columns; only admins allowed to work on contacts (or deals) can be given new ones
+  app.get("/api/admin/contacts/assignees", requireAdmin, requirePermission("contacts:read"), async (req, res) => {
+    try {
+      const admins = await storage.getAllAdmins();
+      res.json(admins.map(admin => ({
+        id: admin.id,
+        username: admin.username,
+        assignable: hasPermission(admin.role, "contacts:update"),
+        canOwnDeals: hasPermission(admin.role, "deals:update"),
+      })));
+    } catch (error) {
+      console.error("Error fetching assignees:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch assignees" });
+    }
+  });
+
+  // One contact with its owner and timeline of notes, status and owner changes, oldest first
+  app.get("/api/admin/contacts/:id", requireAdmin, requirePermission("contacts:read"), async (req, res) => {
+    try {
+      const submissionId = parseInt(req.params.id);
+      const contact = await storage.getContactSubmission(submissionId);
+      if (!contact) {
+        return res.status(404).json({ success: false, error: "Contact not found" });
+      }
+      const events = await storage.getContactEvents(submissionId);
+      const deal = await storage.getDealBySource({ contactSubmissionId: submissionId });
+      res.json({ contact, events, deal: deal ?? null });
+    } catch (error) {
+      console.error("Error fetching contact:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch contact" });
+    }
+  });
+
+  // Internal notes are only ever shown in the dashboard, never sent to the client
+  app.post("/api/admin/contacts/:id/notes", requireAdmin, requirePermission("contacts:update"), async (req, res) => {
+    try {
+      const submissionId = parseInt(req.params.id);
+      const parsed = insertContactNoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid note" });
+      }
+      if (!(await storage.getContactSubmission(submissionId))) {
+        return res.status(404).json({ success: false, error: "Contact not found" });
+      }
+
+      const note = await storage.addContactNote(submissionId, parsed.data.body, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, note });
+    } catch (error) {
+      console.error("Error adding contact note:", error);
+      res.status(500).json({ success: false, error: "Failed to add note" });
+    }
+  });
+
+  // Emails the person who submitted the form. The reply is only stored, and the contact marked
+  // responded, once the mail transport has accepted it.
+  app.post("/api/admin/contacts/:id/replies", requireAdmin, requirePermission("contacts:update"), async (req, res) => {
+    try {
+      const submissionId = parseInt(req.params.id);
+      const parsed = contactReplySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid reply" });
+      }
+      const contact = await storage.getContactSubmission(submissionId);
+      if (!contact) {
+        return res.status(404).json({ success: false, error: "Contact not found" });
+      }
+
+      const admin = signedInAdmin(req);
+      try {
+        await sendMail({
+          to: contact.email,
+          replyTo: getTeamAddress() ?? admin.email ?? undefined,
+          ...contactReply(contact, parsed.data.subject, parsed.data.message),
+        });
+      } catch (error) {
+        console.error("Failed to send contact reply email:", error);
+        return res.status(502).json({ success: false, error: "The reply could not be sent. Please try again." });
+      }
+
+      const result = await storage.recordContactReply(submissionId, contact.email, parsed.data, auditActor(req, admin));
+      res.json({ success: true, ...result });
+    } catch (error) {
+      console.error("Error replying to contact:", error);
+      res.status(500).json({ success: false, error: "Failed to reply to contact" });
+    }
+  });
+
+  app.put("/api/admin/contacts/:id/owner", requireAdmin, requirePermission("contacts:update"), async (req, res) => {
+    try {
+      const submissionId = parseInt(req.params.id);
+      const parsed = assignContactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: "Invalid owner" });
+      }
+
+      let assignee: AdminUser | undefined;
+      if (parsed.data.adminId !== null) {
+        assignee = await storage.getAdmin(parsed.data.adminId);
+        if (!assignee || !hasPermission(assignee.role, "contacts:update")) {
+          return res.status(400).json({ success: false, error: "That admin can't be assigned leads" });
+        }
+      }
+
+      const updatedSubmission = await storage.assignContactSubmission(
+        submissionId,
+        assignee ? { id: assignee.id, username: assignee.username } : null,
+        auditActor(req, signedInAdmin(req))
+      );
+      if (!updatedSubmission) {
+        return res.status(404).json({ success: false, error: "Contact not found" });
+      }
+      res.json({ success: true, submission: updatedSubmission });
+    } catch (error) {
+      console.error("Error assigning contact:", error);
+      res.status(500).json({ success: false, error: "Failed to assign contact" });
+    }
+  });
+
+  app.get("/api/admin/appointments", requireAdmin, requirePermission("appointments:read"), async (req, res) => {
+    try {
+      const parsed = parseListQuery(req.query, APPOINTMENT_SORT_FIELDS, "createdAt");
+      if ("error" in parsed) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+
+      const result = await storage.listAppointments(parsed.query);
+      res.json({ ...result, page: parsed.page, pageSize: parsed.pageSize });
+    } catch (error) {
+      console.error("Error fetching admin appointments:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch appointments" });
+    }
+  });
+
+  app.get("/api/admin/appointments/export", requireAdmin, requirePermission("appointments:read"), async (req, res) => {
+    try {
+      const format = req.query.format ?? "csv";
+      if (!isExportFormat(format)) {
+        return res.status(400).json({ success: false, error: "Invalid export format" });
+      }
+      const parsed = parseListQuery(req.query, APPOINTMENT_SORT_FIELDS, "createdAt");
+      if ("error" in parsed) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+
+      await storage.recordExport(auditActor(req, signedInAdmin(req)), "appointment", exportDetails(format, parsed.query));
+      await streamExport(res, format, "appointments", APPOINTMENT_EXPORT_COLUMNS, async (offset) => {
+        const { entries } = await storage.listAppointments({ ...parsed.query, limit: EXPORT_BATCH_SIZE, offset });
+        return entries;
+      });
+    } catch (error) {
+      console.error("Error exporting appointments:", error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ success: false, error: "Failed to export appointments" });
+    }
+  });
+
+  // Single-event .ics download for adding an appointment to a calendar
+  app.get("/api/admin/appointments/:id/ics", requireAdmin, requirePermission("appointments:read"), async (req, res) => {
+    try {
+      const appointment = await storage.getAppointment(parseInt(req.params.id));
+      if (!appointment) {
+        return res.status(404).json({ success: false, error: "Appointment not found" });
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${appointmentInviteFilename(appointment)}"`);
+      res.send(buildCalendar([appointment], "team"));
+    } catch (error) {
+      console.error("Error generating appointment invite:", error);
+      res.status(500).json({ success: false, error: "Failed to generate calendar invite" });
+    }
+  });
+
+  // The signed-in admin's subscribable feed URL, issuing a token on first use
+  app.get("/api/admin/calendar-feed", requireAdmin, requirePermission("appointments:read"), async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      let token = admin.calendarFeedToken;
+      if (!token) {
+        token = generateSessionToken();
+        await storage.setCalendarFeedToken(admin.id, token, auditActor(req, admin));
+      }
+      res.json({ success: true, url: siteUrl(`/api/calendar/${token}.ics`) });
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch calendar feed" });
+    }
+  });
+
+  // Replaces the feed token so a leaked URL stops working
+  app.post("/api/admin/calendar-feed/reset", requireAdmin, requirePermission("appointments:read"), async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const token = generateSessionToken();
+      await storage.setCalendarFeedToken(admin.id, token, auditActor(req, admin));
+      res.json({ success: true, url: siteUrl(`/api/calendar/${token}.ics`) });
+    } catch (error) {
+      console.error("Error resetting calendar feed:", error);
+      res.status(500).json({ success: false, error: "Failed to reset calendar feed" });
+    }
+  });
+
+  // Calendar apps can't send auth headers, so the feed is protected by the token in its URL
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const admin = await storage.getAdminByCalendarFeedToken(req.params.token);
+      if (!admin || !hasPermission(admin.role, "appointments:read")) {
+        return res.status(404).json({ success: false, error: "Calendar not found" });
+      }
+
+      const appointments = await storage.getAppointmentsWithStatus(["pending", "approved"]);
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Cache-Control", "no-store");
+      res.send(buildCalendar(appointments, "team", "71 Digital Appointments"));
+    } catch (error) {
+      console.error("Error serving calendar feed:", error);
+      res.status(500).json({ success: false, error: "Failed to load calendar" });
+    }
+  });
+
+  // Update appointment status
+  app.patch("/api/admin/appointments/:id/status", requireAdmin, requirePermission("appointments:update"), async (req, res) => {
+    try {
+      const appointmentId = parseInt(req.params.id);
+      const { status, rejectionReason } = req.body;
+
+      if (!status || !["pending", "approved", "rejected", "completed", "cancelled"].includes(status)) {
+        return res.status(400).json({ success: false, error: "Invalid status" });
+      }
+
+      const existingAppointment = await storage.getAppointment(appointmentId);
+      if (!existingAppointment) {
+        return res.status(404).json({ success: false, error: "Appointment not found" });
+      }
+
+      const updatedAppointment = await storage.updateAppointmentStatus(
+        appointmentId,
+        status,
+        rejectionReason,
+        (booked) => isSlotFree(booked, existingAppointment.scheduledAt, existingAppointment.serviceType),
+        auditActor(req, signedInAdmin(req))
+      );
+      if (!updatedAppointment) {
+        return res.status(409).json({ success: false, error: "That time slot has been booked by another appointment since. Ask the client to pick a new time." });
+      }
+
+      // Tell the customer about decisions, but only when the status actually changes
+      const customerTemplates: Record<string, typeof appointmentApproved> = {
+        approved: appointmentApproved,
+        rejected: appointmentRejected,
+        completed: appointmentCompleted,
+      };
+      const template = customerTemplates[status];
+      if (template && existingAppointment.status !== status) {
+        // Approvals carry an invite the customer can add to their calendar
+        const attachments = status === "approved"
+          ? [{
+              filename: appointmentInviteFilename(updatedAppointment),
+              content: buildCalendar([updatedAppointment], "customer"),
+              contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+            }]
+          : undefined;
+        sendMailInBackground(
+          {
+            to: updatedAppointment.email,
+            ...template(updatedAppointment, siteUrl(appointmentManagePath(updatedAppointment.id))),
+            attachments,
+          },
+          `appointment ${status}`
+        );
       }
+
+      res.json({ success: true, appointment: updatedAppointment });
     } catch (error) {
-      console.error("Error initializing admin user:", error);
+      console.error("Error updating appointment status:", error);
+      res.status(500).json({ success: false, error: "Failed to update appointment status" });
     }
-  };
-  
-  initializeAdmin();
+  });
 
-  // Contact form submission endpoint
-  app.post("/api/contact", async (req, res) => {
+  app.get("/api/admin/deals", requireAdmin, requirePermission("deals:read"), async (req, res) => {
     try {
-      const validatedData = insertContactSubmissionSchema.parse(req.body);
-      const submission = await storage.createContactSubmission(validatedData);
-      res.json({ success: true, id: submission.id });
+      res.json(await storage.listDeals());
     } catch (error) {
-      console.error("Contact form submission error:", error);
-      res.status(400).json({ 
-        success: false, 
-        error: "Invalid form data" 
+      console.error("Error fetching deals:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch deals" });
+    }
+  });
+
+  // New deal, usually converted from a contact submission or appointment (once each)
+  app.post("/api/admin/deals", requireAdmin, requirePermission("deals:update"), async (req, res) => {
+    try {
+      const parsed = insertDealSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid deal" });
+      }
+      const { contactSubmissionId, appointmentId, ownerAdminId } = parsed.data;
+
+      if (contactSubmissionId && !(await storage.getContactSubmission(contactSubmissionId))) {
+        return res.status(404).json({ success: false, error: "Contact not found" });
+      }
+      if (appointmentId && !(await storage.getAppointment(appointmentId))) {
+        return res.status(404).json({ success: false, error: "Appointment not found" });
+      }
+      const existing = await storage.getDealBySource({
+        contactSubmissionId: contactSubmissionId ?? undefined,
+        appointmentId: appointmentId ?? undefined,
       });
+      if (existing) {
+        return res.status(409).json({ success: false, error: `Already converted into deal #${existing.id}` });
+      }
+      if (ownerAdminId && !(await canOwnDeals(ownerAdminId))) {
+        return res.status(400).json({ success: false, error: "That admin can't own deals" });
+      }
+
+      const deal = await storage.createDeal(parsed.data, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, deal });
+    } catch (error) {
+      console.error("Error creating deal:", error);
+      res.status(500).json({ success: false, error: "Failed to create deal" });
     }
   });
 
-  // Get all contact submissions (for admin purposes)
-  app.get("/api/contact", async (req, res) => {
+  // Edits and stage moves from the pipeline board
+  app.patch("/api/admin/deals/:id", requireAdmin, requirePermission("deals:update"), async (req, res) => {
     try {
-      const submissions = await storage.getContactSubmissions();
-      res.json(submissions);
+      const parsed = updateDealSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid deal" });
+      }
+      const dealId = parseInt(req.params.id);
+      const current = await storage.getDeal(dealId);
+      if (!current) {
+        return res.status(404).json({ success: false, error: "Deal not found" });
+      }
+      // An owner who has since lost access keeps the deal until someone reassigns it
+      const { ownerAdminId } = parsed.data;
+      if (ownerAdminId && ownerAdminId !== current.ownerAdminId && !(await canOwnDeals(ownerAdminId))) {
+        return res.status(400).json({ success: false, error: "That admin can't own deals" });
+      }
+
+      const deal = await storage.updateDeal(dealId, parsed.data, auditActor(req, signedInAdmin(req)));
+      if (!deal) {
+        return res.status(404).json({ success: false, error: "Deal not found" });
+      }
+      res.json({ success: true, deal });
     } catch (error) {
-      console.error("Error fetching contact submissions:", error);
-      res.status(500).json({ 
-        success: false, 
-        error: "Failed to fetch submissions" 
-      });
+      console.error("Error updating deal:", error);
+      res.status(500).json({ success: false, error: "Failed to update deal" });
     }
   });
 
-  // Appointment booking submission endpoint
-  app.post("/api/appointments", async (req, res) => {
+  // The whole catalog, hidden products included
+  app.get("/api/admin/products", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const validatedData = insertAppointmentSchema.parse(req.body);
-      const appointment = await storage.createAppointment(validatedData);
-      res.json({ success: true, id: appointment.id });
+      res.json(await storage.listProducts());
     } catch (error) {
-      console.error("Appointment booking error:", error);
-      res.status(400).json({ 
-        success: false, 
-        error: "Invalid appointment data" 
-      });
+      console.error("Error fetching products:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch products" });
     }
   });
 
-  // Get all appointments (for admin purposes)
-  app.get("/api/appointments", async (req, res) => {
+  app.post("/api/admin/products", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const appointments = await storage.getAppointments();
-      res.json(appointments);
+      const parsed = insertProductSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid product" });
+      }
+      if (await storage.getProductBySlug(parsed.data.slug)) {
+        return res.status(409).json({ success: false, error: "Another product already uses that slug" });
+      }
+
+      const product = await storage.createProduct(parsed.data, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, product });
     } catch (error) {
-      console.error("Error fetching appointments:", error);
-      res.status(500).json({ 
-        success: false, 
-        error: "Failed to fetch appointments" 
-      });
+      console.error("Error creating product:", error);
+      res.status(500).json({ success: false, error: "Failed to create product" });
     }
   });
 
-  // Admin authentication routes
-  app.post("/api/admin/login", async (req, res) => {
+  app.put("/api/admin/products/:id", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const validatedData = adminLoginSchema.parse(req.body);
-      const admin = await storage.getAdminByUsername(validatedData.username);
-      
-      if (!admin || !(await comparePasswords(validatedData.password, admin.password))) {
-        return res.status(401).json({ success: false, error: "Invalid credentials" });
+      const parsed = insertProductSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid product" });
+      }
+      const productId = parseInt(req.params.id);
+      const sameSlug = await storage.getProductBySlug(parsed.data.slug);
+      if (sameSlug && sameSlug.id !== productId) {
+        return res.status(409).json({ success: false, error: "Another product already uses that slug" });
       }
 
-      const sessionToken = generateSessionToken();
-      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-      
-      await storage.createAdminSession(admin.id, sessionToken, expiresAt);
-      
-      res.json({ 
-        success: true, 
-        sessionToken,
-        admin: { id: admin.id, username: admin.username }
-      });
+      const product = await storage.updateProduct(productId, parsed.data, auditActor(req, signedInAdmin(req)));
+      if (!product) {
+        return res.status(404).json({ success: false, error: "Product not found" });
+      }
+      res.json({ success: true, product });
     } catch (error) {
-      console.error("Admin login error:", error);
-      res.status(400).json({ success: false, error: "Invalid login data" });
+      console.error("Error updating product:", error);
+      res.status(500).json({ success: false, error: "Failed to update product" });
     }
   });
 
-  app.post("/api/admin/logout", async (req, res) => {
+  app.delete("/api/admin/products/:id", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const sessionToken = req.headers.authorization?.replace("Bearer ", "");
-      if (sessionToken) {
-        await storage.deleteAdminSession(sessionToken);
+      const product = await storage.deleteProduct(parseInt(req.params.id), auditActor(req, signedInAdmin(req)));
+      if (!product) {
+        return res.status(404).json({ success: false, error: "Product not found" });
       }
       res.json({ success: true });
     } catch (error) {
-      console.error("Admin logout error:", error);
-      res.status(500).json({ success: false, error: "Logout failed" });
+      console.error("Error deleting product:", error);
+      res.status(500).json({ success: false, error: "Failed to delete product" });
     }
   });
 
-  app.get("/api/admin/me", async (req, res) => {
+  app.put("/api/admin/profitability/defaults", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const sessionToken = req.headers.authorization?.replace("Bearer ", "");
-      if (!sessionToken) {
-        return res.status(401).json({ success: false, error: "No session token" });
+      const parsed = profitabilityMarketSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid calculator defaults" });
       }
 
-      const admin = await storage.getAdminBySessionToken(sessionToken);
-      if (!admin) {
-        return res.status(401).json({ success: false, error: "Invalid session" });
-      }
+      const defaults = await storage.saveCalculatorDefaults(parsed.data, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, defaults });
+    } catch (error) {
+      console.error("Error saving calculator defaults:", error);
+      res.status(500).json({ success: false, error: "Failed to save calculator defaults" });
+    }
+  });
 
-      res.json({ 
-        success: true, 
-        admin: { id: admin.id, username: admin.username }
-      });
+  // Every hosting plan, hidden ones included
+  app.get("/api/admin/hosting-plans", requireAdmin, requirePermission("products:manage"), async (req, res) => {
+    try {
+      res.json(await storage.listHostingPlans());
     } catch (error) {
-      console.error("Admin session check error:", error);
-      res.status(500).json({ success: false, error: "Session check failed" });
+      console.error("Error fetching hosting plans:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch hosting plans" });
     }
   });
 
-  // Protected admin routes
-  async function requireAdmin(req: any, res: any, next: any) {
+  app.post("/api/admin/hosting-plans", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const sessionToken = req.headers.authorization?.replace("Bearer ", "");
-      if (!sessionToken) {
-        return res.status(401).json({ success: false, error: "No session token" });
+      const parsed = insertHostingPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid hosting plan" });
+      }
+      if (await storage.getHostingPlanBySlug(parsed.data.slug)) {
+        return res.status(409).json({ success: false, error: "Another plan already uses that slug" });
       }
 
-      const admin = await storage.getAdminBySessionToken(sessionToken);
-      if (!admin) {
-        return res.status(401).json({ success: false, error: "Invalid session" });
+      const plan = await storage.createHostingPlan(parsed.data, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, plan });
+    } catch (error) {
+      console.error("Error creating hosting plan:", error);
+      res.status(500).json({ success: false, error: "Failed to create hosting plan" });
+    }
+  });
+
+  app.put("/api/admin/hosting-plans/:id", requireAdmin, requirePermission("products:manage"), async (req, res) => {
+    try {
+      const parsed = insertHostingPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid hosting plan" });
+      }
+      const planId = parseInt(req.params.id);
+      const sameSlug = await storage.getHostingPlanBySlug(parsed.data.slug);
+      if (sameSlug && sameSlug.id !== planId) {
+        return res.status(409).json({ success: false, error: "Another plan already uses that slug" });
       }
 
-      req.admin = admin;
-      next();
+      const plan = await storage.updateHostingPlan(planId, parsed.data, auditActor(req, signedInAdmin(req)));
+      if (!plan) {
+        return res.status(404).json({ success: false, error: "Hosting plan not found" });
+      }
+      res.json({ success: true, plan });
     } catch (error) {
-      console.error("Admin auth middleware error:", error);
-      res.status(500).json({ success: false, error: "Authentication failed" });
+      console.error("Error updating hosting plan:", error);
+      res.status(500).json({ success: false, error: "Failed to update hosting plan" });
     }
-  }
+  });
 
-  app.get("/api/admin/contacts", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/hosting-plans/:id", requireAdmin, requirePermission("products:manage"), async (req, res) => {
     try {
-      const submissions = await storage.getContactSubmissions();
-      res.json(submissions);
+      const plan = await storage.deleteHostingPlan(parseInt(req.params.id), auditActor(req, signedInAdmin(req)));
+      if (!plan) {
+        return res.status(404).json({ success: false, error: "Hosting plan not found" });
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching admin contacts:", error);
-      res.status(500).json({ success: false, error: "Failed to fetch contacts" });
+      console.error("Error deleting hosting plan:", error);
+      res.status(500).json({ success: false, error: "Failed to delete hosting plan" });
     }
   });
 
-  // Update contact submission status
-  app.patch("/api/admin/contacts/:id/status", requireAdmin, async (req, res) => {
+  app.get("/api/admin/quotes", requireAdmin, requirePermission("quotes:read"), async (req, res) => {
     try {
-      const submissionId = parseInt(req.params.id);
-      const { status, rejectionReason } = req.body;
+      res.json(await storage.listQuoteRequests());
+    } catch (error) {
+      console.error("Error fetching quote requests:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch quote requests" });
+    }
+  });
 
-      if (!status || !["unread", "responded", "ignored"].includes(status)) {
-        return res.status(400).json({ success: false, error: "Invalid status" });
+  app.get("/api/admin/quotes/:id", requireAdmin, requirePermission("quotes:read"), async (req, res) => {
+    try {
+      const detail = await storage.getQuoteRequest(parseInt(req.params.id));
+      if (!detail) {
+        return res.status(404).json({ success: false, error: "Quote request not found" });
       }
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching quote request:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch quote request" });
+    }
+  });
 
-      if (status === "ignored" && !rejectionReason) {
-        return res.status(400).json({ success: false, error: "Ignore reason is required" });
+  // Issues the next version of the quote and emails it to the customer. The quote is kept
+  // even if the email fails, so it can be forwarded by hand.
+  app.post("/api/admin/quotes/:id/versions", requireAdmin, requirePermission("quotes:update"), async (req, res) => {
+    try {
+      const parsed = issueQuoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid quote" });
+      }
+      const detail = await storage.getQuoteRequest(parseInt(req.params.id));
+      if (!detail) {
+        return res.status(404).json({ success: false, error: "Quote request not found" });
       }
 
-      const updatedSubmission = await storage.updateContactSubmissionStatus(
-        submissionId,
-        status,
-        rejectionReason
-      );
+      const admin = signedInAdmin(req);
+      const totals = quoteTotals(parsed.data.lines, parsed.data.shipping, parsed.data.duties);
+      const quote = await storage.issueQuote(detail.request.id, parsed.data, totals, auditActor(req, admin));
+      if (!quote) {
+        return res.status(404).json({ success: false, error: "Quote request not found" });
+      }
 
-      res.json({ success: true, submission: updatedSubmission });
+      let emailed = false;
+      try {
+        await sendMail({
+          to: detail.request.email,
+          replyTo: getTeamAddress() ?? admin.email ?? undefined,
+          ...quoteIssued(detail.request, quote),
+          attachments: [{
+            filename: quoteDocumentFilename(detail.request, quote),
+            content: await buildQuoteDocument(detail.request, quote),
+            contentType: "application/pdf",
+          }],
+        });
+        await storage.markQuoteEmailed(quote.id);
+        emailed = true;
+      } catch (error) {
+        console.error("Failed to send quote email:", error);
+      }
+      res.json({ success: true, quote, emailed });
     } catch (error) {
-      console.error("Error updating contact status:", error);
-      res.status(500).json({ success: false, error: "Failed to update contact status" });
+      console.error("Error issuing quote:", error);
+      res.status(500).json({ success: false, error: "Failed to issue quote" });
     }
   });
 
-  app.get("/api/admin/appointments", requireAdmin, async (req, res) => {
+  // Proforma PDF of one issued version
+  app.get("/api/admin/quotes/:id/versions/:version/pdf", requireAdmin, requirePermission("quotes:read"), async (req, res) => {
     try {
-      const appointments = await storage.getAppointments();
-      res.json(appointments);
+      const detail = await storage.getQuoteRequest(parseInt(req.params.id));
+      const quote = detail?.quotes.find((entry) => entry.version === parseInt(req.params.version));
+      if (!detail || !quote) {
+        return res.status(404).json({ success: false, error: "Quote not found" });
+      }
+
+      const pdf = await buildQuoteDocument(detail.request, quote);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${quoteDocumentFilename(detail.request, quote)}"`);
+      res.send(pdf);
     } catch (error) {
-      console.error("Error fetching admin appointments:", error);
-      res.status(500).json({ success: false, error: "Failed to fetch appointments" });
+      console.error("Error generating quote PDF:", error);
+      res.status(500).json({ success: false, error: "Failed to generate quote PDF" });
     }
   });
 
-  // Update appointment status
-  app.patch("/api/admin/appointments/:id/status", requireAdmin, async (req, res) => {
+  app.put("/api/admin/quotes/:id/status", requireAdmin, requirePermission("quotes:update"), async (req, res) => {
     try {
-      const appointmentId = parseInt(req.params.id);
-      const { status, rejectionReason } = req.body;
-
-      if (!status || !["pending", "approved", "rejected", "completed"].includes(status)) {
+      const parsed = updateQuoteRequestStatusSchema.safeParse(req.body);
+      if (!parsed.success) {
         return res.status(400).json({ success: false, error: "Invalid status" });
       }
 
-
-
-      const updatedAppointment = await storage.updateAppointmentStatus(
-        appointmentId,
-        status,
-        rejectionReason
-      );
-
-      res.json({ success: true, appointment: updatedAppointment });
+      const request = await storage.updateQuoteRequestStatus(parseInt(req.params.id), parsed.data.status, auditActor(req, signedInAdmin(req)));
+      if (!request) {
+        return res.status(404).json({ success: false, error: "Quote request not found" });
+      }
+      res.json({ success: true, request });
     } catch (error) {
-      console.error("Error updating appointment status:", error);
-      res.status(500).json({ success: false, error: "Failed to update appointment status" });
+      console.error("Error updating quote request status:", error);
+      res.status(500).json({ success: false, error: "Failed to update quote request" });
     }
   });
 
-  app.post("/api/admin/create-admin", requireAdmin, async (req, res) => {
+  app.post("/api/admin/create-admin", requireAdmin, requirePermission("admins:manage"), async (req, res) => {
     try {
-      const { username, password } = req.body;
-      
-      if (!username || !password) {
-        return res.status(400).json({ success: false, error: "Username and password are required" });
+      const parsed = adminAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid admin details" });
+      }
+      const { username, password, role = "read-only" } = parsed.data;
+      const email = parsed.data.email ?? null;
+      if (!password) {
+        return res.status(400).json({ success: false, error: "Password is required" });
       }
 
       const existingAdmin = await storage.getAdminByUsername(username);
@@ -269,15 +1707,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ success: false, error: "Username already exists" });
       }
 
+      if (email && (await storage.getAdminByEmail(email))) {
+        return res.status(400).json({ success: false, error: "Email address is already used by another admin" });
+      }
+
       const hashedPassword = await hashPassword(password);
       const newAdmin = await storage.createAdminUser({
         username,
         password: hashedPassword,
-      });
+        email,
+        role,
+      }, auditActor(req, signedInAdmin(req)));
 
       res.json({ 
         success: true, 
-        admin: { id: newAdmin.id, username: newAdmin.username }
+        admin: { id: newAdmin.id, username: newAdmin.username, email: newAdmin.email, role: newAdmin.role }
       });
     } catch (error) {
       console.error("Error creating admin:", error);
@@ -285,13 +1729,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/admins", requireAdmin, async (req, res) => {
+  app.get("/api/admin/admins", requireAdmin, requirePermission("admins:read"), async (req, res) => {
     try {
       const admins = await storage.getAllAdmins();
       // Don't return passwords
       const safeAdmins = admins.map(admin => ({
         id: admin.id,
         username: admin.username,
+        email: admin.email,
+        role: admin.role,
+        twoFactorEnabled: admin.totpSecret !== null,
         createdAt: admin.createdAt
       }));
       res.json(safeAdmins);
@@ -301,13 +1748,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/admins/:id", requireAdmin, async (req, res) => {
+  app.put("/api/admin/admins/:id", requireAdmin, requirePermission("admins:manage"), async (req, res) => {
     try {
       const adminId = parseInt(req.params.id);
-      const { username, password } = req.body;
-      
-      if (!username) {
-        return res.status(400).json({ success: false, error: "Username is required" });
+      const parsed = adminAccountSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid admin details" });
+      }
+      const { username, email, password, role } = parsed.data;
+
+      // Never leave the dashboard without an owner who can manage accounts
+      if (role !== undefined && role !== "owner") {
+        const admins = await storage.getAllAdmins();
+        const owners = admins.filter(admin => admin.role === "owner");
+        if (owners.length === 1 && owners[0].id === adminId) {
+          return res.status(400).json({ success: false, error: "Cannot remove the last owner" });
+        }
       }
 
       // Check if username already exists (excluding current admin)
@@ -316,15 +1772,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ success: false, error: "Username already exists" });
       }
 
-      const updates: any = { username };
+      if (email) {
+        const emailOwner = await storage.getAdminByEmail(email);
+        if (emailOwner && emailOwner.id !== adminId) {
+          return res.status(400).json({ success: false, error: "Email address is already used by another admin" });
+        }
+      }
+
+      const updates: Partial<InsertAdminUser> = { username };
+      if (role !== undefined) {
+        updates.role = role;
+      }
+      if (email !== undefined) {
+        updates.email = email;
+      }
       if (password) {
         updates.password = await hashPassword(password);
       }
 
-      const updatedAdmin = await storage.updateAdminUser(adminId, updates);
+      // Changing your own password keeps this session; every other session of the account ends
+      const currentAdmin = signedInAdmin(req);
+      const keepSessionToken = adminId === currentAdmin.id ? req.sessionToken : undefined;
+      const updatedAdmin = await storage.updateAdminUser(adminId, updates, auditActor(req, currentAdmin), keepSessionToken);
       res.json({ 
         success: true, 
-        admin: { id: updatedAdmin.id, username: updatedAdmin.username }
+        admin: { id: updatedAdmin.id, username: updatedAdmin.username, email: updatedAdmin.email, role: updatedAdmin.role }
       });
     } catch (error) {
       console.error("Error updating admin:", error);
@@ -332,17 +1804,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/admins/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/admin/admins/:id", requireAdmin, requirePermission("admins:manage"), async (req, res) => {
     try {
       const adminId = parseInt(req.params.id);
-      const currentAdmin = (req as any).admin;
+      const currentAdmin = signedInAdmin(req);
       
       // Prevent deleting self
       if (adminId === currentAdmin.id) {
         return res.status(400).json({ success: false, error: "Cannot delete your own account" });
       }
 
-      await storage.deleteAdminUser(adminId);
+      await storage.deleteAdminUser(adminId, auditActor(req, currentAdmin));
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting admin:", error);
@@ -350,6 +1822,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Locked accounts and recent failed sign-ins, for spotting password guessing
+  app.get("/api/admin/login-security", requireAdmin, requirePermission("admins:read"), async (req, res) => {
+    try {
+      const lockedAdmins = await storage.getLockedAdmins();
+      const recentFailures = await storage.getRecentLoginAttempts(50, true);
+      const failedLast24h = await storage.countFailedLogins({}, new Date(Date.now() - 24 * 60 * 60 * 1000));
+      res.json({
+        lockedAdmins: lockedAdmins.map(admin => ({
+          id: admin.id,
+          username: admin.username,
+          failedLoginCount: admin.failedLoginCount,
+          lockedUntil: admin.lockedUntil,
+        })),
+        recentFailures,
+        failedLast24h,
+      });
+    } catch (error) {
+      console.error("Error fetching login security:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch sign-in activity" });
+    }
+  });
+
+  app.post("/api/admin/admins/:id/unlock", requireAdmin, requirePermission("admins:manage"), async (req, res) => {
+    try {
+      const adminId = parseInt(req.params.id);
+      const unlocked = await storage.unlockAdmin(adminId, auditActor(req, signedInAdmin(req)));
+      if (!unlocked) {
+        return res.status(404).json({ success: false, error: "Admin account not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error unlocking admin:", error);
+      res.status(500).json({ success: false, error: "Failed to unlock admin account" });
+    }
+  });
+
+  // Signed-in sessions: your own, or with admins:manage and ?scope=all, everyone's
+  app.get("/api/admin/sessions", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const all = req.query.scope === "all";
+      if (all && !hasPermission(admin.role, "admins:manage")) {
+        return res.status(403).json({ success: false, error: "You do not have permission to perform this action" });
+      }
+      res.json(await storage.listAdminSessions(signedInToken(req), all ? undefined : admin.id));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/admin/sessions/:id", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const session = await storage.getAdminSession(parseInt(req.params.id));
+      if (!session || (session.adminId !== admin.id && !hasPermission(admin.role, "admins:manage"))) {
+        return res.status(404).json({ success: false, error: "Session not found" });
+      }
+      await storage.revokeAdminSession(session.id, auditActor(req, admin));
+      if (session.sessionToken === req.sessionToken) {
+        clearSessionCookies(res);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ success: false, error: "Failed to revoke session" });
+    }
+  });
+
+  app.post("/api/admin/sessions/revoke-others", requireAdmin, async (req, res) => {
+    try {
+      const admin = signedInAdmin(req);
+      const revoked = await storage.revokeOtherAdminSessions(admin.id, signedInToken(req), auditActor(req, admin));
+      res.json({ success: true, revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ success: false, error: "Failed to revoke sessions" });
+    }
+  });
+
+  // For an admin who lost their authenticator and recovery codes. Their sessions end too, since
+  // a lost device may still be signed in; they re-enrol on next sign-in if required
+  app.post("/api/admin/admins/:id/reset-2fa", requireAdmin, requirePermission("admins:manage"), async (req, res) => {
+    try {
+      const adminId = parseInt(req.params.id);
+      const currentAdmin = signedInAdmin(req);
+      if (adminId === currentAdmin.id) {
+        return res.status(400).json({ success: false, error: "Turn off your own two-factor sign-in from the Security tab" });
+      }
+      const target = await storage.getAdmin(adminId);
+      if (!target) {
+        return res.status(404).json({ success: false, error: "Admin account not found" });
+      }
+      await storage.disableTwoFactor(adminId, auditActor(req, currentAdmin), true);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error resetting two-factor sign-in:", error);
+      res.status(500).json({ success: false, error: "Failed to reset two-factor sign-in" });
+    }
+  });
+
+  app.get("/api/admin/availability", requireAdmin, requirePermission("availability:manage"), async (req, res) => {
+    try {
+      const saved = await storage.getWorkingHours();
+      const blackoutDates = await storage.getBlackoutDates();
+      res.json({
+        workingHours: saved.length > 0 ? saved : DEFAULT_WORKING_HOURS,
+        blackoutDates,
+      });
+    } catch (error) {
+      console.error("Error fetching availability settings:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch availability settings" });
+    }
+  });
+
+  app.put("/api/admin/availability/working-hours", requireAdmin, requirePermission("availability:manage"), async (req, res) => {
+    try {
+      const parsed = workingHoursSchema.safeParse(req.body.workingHours);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid working hours" });
+      }
+
+      const workingHours = await storage.replaceWorkingHours(parsed.data, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, workingHours });
+    } catch (error) {
+      console.error("Error updating working hours:", error);
+      res.status(500).json({ success: false, error: "Failed to update working hours" });
+    }
+  });
+
+  app.post("/api/admin/availability/blackout-dates", requireAdmin, requirePermission("availability:manage"), async (req, res) => {
+    try {
+      const parsed = insertBlackoutDateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: "A valid date is required" });
+      }
+
+      if (await storage.getBlackoutDate(parsed.data.date)) {
+        return res.status(400).json({ success: false, error: "That date is already blocked" });
+      }
+
+      const blackoutDate = await storage.createBlackoutDate(parsed.data, auditActor(req, signedInAdmin(req)));
+      res.json({ success: true, blackoutDate });
+    } catch (error) {
+      console.error("Error creating blackout date:", error);
+      res.status(500).json({ success: false, error: "Failed to block date" });
+    }
+  });
+
+  app.delete("/api/admin/availability/blackout-dates/:id", requireAdmin, requirePermission("availability:manage"), async (req, res) => {
+    try {
+      await storage.deleteBlackoutDate(parseInt(req.params.id), auditActor(req, signedInAdmin(req)));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting blackout date:", error);
+      res.status(500).json({ success: false, error: "Failed to unblock date" });
+    }
+  });
+
+  app.get("/api/admin/audit", requireAdmin, requirePermission("audit:read"), async (req, res) => {
+    try {
+      const parsed = auditLogQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ success: false, error: parsed.error.errors[0]?.message ?? "Invalid filters" });
+      }
+      const { action, adminId, entityType, from, to, limit = 50, offset = 0 } = parsed.data;
+
+      const result = await storage.getAuditLogs({
+        action: action || undefined,
+        adminId,
+        entityType: entityType || undefined,
+        from,
+        to,
+        limit,
+        offset,
+      });
+      res.json({ ...result, limit, offset });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch audit log" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
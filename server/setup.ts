@@ -0,0 +1,34 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+
+// First-run setup. While no admin accounts exist, the first owner is created at /admin/setup
+// by whoever holds the bootstrap token: ADMIN_SETUP_TOKEN when set, otherwise a random token
+// printed to the server log once.
+
+let setupToken: string | null = null;
+
+export function beginSetup(): void {
+  if (setupToken) {
+    return;
+  }
+  if (process.env.ADMIN_SETUP_TOKEN) {
+    setupToken = process.env.ADMIN_SETUP_TOKEN;
+    console.log("No admin accounts exist yet. Open /admin/setup and enter ADMIN_SETUP_TOKEN to create the first owner.");
+  } else {
+    setupToken = randomBytes(18).toString("base64url");
+    console.log(`No admin accounts exist yet. Open /admin/setup and enter this one-time setup token to create the first owner: ${setupToken}`);
+  }
+}
+
+// Once an owner exists the token is useless, so forget it
+export function endSetup(): void {
+  setupToken = null;
+}
+
+export function verifySetupToken(supplied: string): boolean {
+  if (!setupToken) {
+    return false;
+  }
+  const expected = Buffer.from(setupToken);
+  const given = Buffer.from(supplied);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
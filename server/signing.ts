@@ -0,0 +1,23 @@
+import { createHmac, randomBytes } from "crypto";
+
+// HMAC signing for tokens the server hands out and later has to trust again
+// (appointment manage links, form challenges, two-factor sign-in challenges), keyed by SESSION_SECRET.
+
+let warned = false;
+const fallbackSecret = randomBytes(32).toString("hex");
+
+function getSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (!warned) {
+    warned = true;
+    console.warn("SESSION_SECRET is not set; appointment manage links and form challenges will stop working after a restart");
+  }
+  return fallbackSecret;
+}
+
+export function sign(value: string) {
+  return createHmac("sha256", getSecret()).update(value).digest("base64url");
+}
@@ -0,0 +1,102 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { leadingZeroBits, type FormChallenge } from "../shared/spam.js";
+import { sign } from "./signing.js";
+
+// Spam protection for the public contact and booking forms: a self-hosted proof-of-work
+// challenge every submission must solve, and a heuristic score stored on what gets through.
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+// ~2^16 hashes on average; a second or two in a browser, expensive across thousands of posts
+const DEFAULT_DIFFICULTY = 16;
+
+function getDifficulty() {
+  const difficulty = Number(process.env.FORM_CHALLENGE_DIFFICULTY);
+  return Number.isInteger(difficulty) && difficulty >= 0 && difficulty <= 24 ? difficulty : DEFAULT_DIFFICULTY;
+}
+
+// Solved challenges, kept until they expire so each one is accepted only once
+const usedChallenges = new Map<string, number>();
+
+setInterval(() => {
+  const now = Date.now();
+  usedChallenges.forEach((expiresAt, challenge) => {
+    if (expiresAt <= now) usedChallenges.delete(challenge);
+  });
+}, 60 * 1000).unref();
+
+// <expiresAt>.<difficulty>.<random>.<signature>, so nothing needs storing until it's solved
+export function issueFormChallenge(): FormChallenge {
+  const difficulty = getDifficulty();
+  const payload = `${Date.now() + CHALLENGE_TTL_MS}.${difficulty}.${randomBytes(12).toString("hex")}`;
+  return { challenge: `${payload}.${sign(`challenge:${payload}`)}`, difficulty };
+}
+
+// Returns why the proof was refused, or null when it's valid (and marks the challenge used)
+export function verifyFormChallenge(challenge: unknown, nonce: unknown): string | null {
+  if (typeof challenge !== "string" || typeof nonce !== "string" || nonce.length > 32) {
+    return "missing";
+  }
+  const match = /^(\d+)\.(\d+)\.([0-9a-f]+)\.([A-Za-z0-9_-]+)$/.exec(challenge);
+  if (!match) {
+    return "malformed";
+  }
+  const [, expiresAt, difficulty, random, signature] = match;
+  const expected = Buffer.from(sign(`challenge:${expiresAt}.${difficulty}.${random}`));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return "forged";
+  }
+  if (Number(expiresAt) <= Date.now()) {
+    return "expired";
+  }
+  if (usedChallenges.has(challenge)) {
+    return "reused";
+  }
+  const hash = createHash("sha256").update(`${challenge}:${nonce}`).digest();
+  if (leadingZeroBits(hash) < Number(difficulty)) {
+    return "unsolved";
+  }
+  usedChallenges.set(challenge, Number(expiresAt));
+  return null;
+}
+
+interface ScoredFields {
+  fullName: string;
+  email: string;
+  companyName?: string | null;
+  message?: string | null;
+}
+
+const SPAM_PHRASES = [
+  "viagra", "cialis", "casino", "porn", "escort", "payday loan", "backlink", "seo service",
+  "guest post", "rank your website", "first page of google", "web traffic", "click here", "unsubscribe",
+];
+
+const DISPOSABLE_DOMAINS = [
+  "mailinator.com", "guerrillamail.com", "10minutemail.com", "temp-mail.org", "tempmail.com",
+  "yopmail.com", "trashmail.com", "sharklasers.com", "getnada.com", "dispostable.com",
+];
+
+// 0 (looks genuine) to 100 (almost certainly junk); see SPAM_THRESHOLD
+export function scoreSubmission({ fullName, email, companyName, message }: ScoredFields): number {
+  const text = `${companyName ?? ""} ${message ?? ""}`.toLowerCase();
+  let score = 0;
+
+  const links = (text.match(/https?:\/\/|www\./g) ?? []).length;
+  if (links >= 3) score += 40;
+  else if (links > 0) score += 10;
+  if (/\[url=|<a\s+href/.test(text)) score += 30;
+
+  if (/https?:\/\/|www\.|\d{5,}/i.test(fullName)) score += 30;
+
+  const matchedPhrases = SPAM_PHRASES.filter((phrase) => text.includes(phrase)).length;
+  score += Math.min(matchedPhrases * 20, 60);
+
+  const letters = (message ?? "").replace(/[^A-Za-z]/g, "");
+  if (letters.length > 20 && letters === letters.toUpperCase()) score += 15;
+
+  const domain = email.split("@")[1]?.toLowerCase();
+  if (domain && DISPOSABLE_DOMAINS.includes(domain)) score += 25;
+
+  return Math.min(score, 100);
+}
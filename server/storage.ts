@@ -1,29 +1,274 @@
-import { users, contactSubmissions, appointments, adminUsers, adminSessions, type User, type InsertUser, type ContactSubmission, type InsertContactSubmission, type Appointment, type InsertAppointment, type AdminUser, type InsertAdminUser, type AdminSession } from "../shared/schema.js";
+import { users, contactSubmissions, contactEvents, appointments, deals, products, quoteRequests, quoteRequestItems, quotes, calculatorDefaults, hostingPlans, adminUsers, adminSessions, adminRecoveryCodes, adminPasswordResets, auditLogs, loginAttempts, workingHours, blackoutDates, type WorkingHours, type InsertWorkingHours, type BlackoutDate, type InsertBlackoutDate, type User, type InsertUser, type ContactSubmission, type InsertContactSubmission, type ContactEvent, type ContactEventType, type ContactReply, type Deal, type InsertDeal, type UpdateDeal, type Product, type InsertProduct, type QuoteRequest, type QuoteRequestItem, type QuoteRequestStatus, type InsertQuoteRequest, type Quote, type IssueQuote, type CalculatorDefaults, type HostingPlan, type InsertHostingPlan, type Appointment, type InsertAppointment, type RescheduleAppointment, type AdminUser, type InsertAdminUser, type AdminSession, type AuditAction, type AuditLog, type LoginAttempt, type LoginFailureReason, CONTACT_SORT_FIELDS, APPOINTMENT_SORT_FIELDS } from "../shared/schema.js";
+import type { ProfitabilityMarket } from "../shared/profitability.js";
 import { db } from "./db.js";
-import { eq, desc, and, gt } from "drizzle-orm";
+import { eq, ne, desc, and, or, gt, gte, lt, lte, count, ilike, inArray, isNull, asc, sql, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import { SPAM_THRESHOLD } from "../shared/spam.js";
+
+// Who performed a change; recorded with it in the audit log
+export interface AuditActor {
+  adminId: number | null;
+  username: string;
+  ipAddress?: string;
+}
+
+// Used for changes that no admin initiated, such as the bootstrap account
+export const SYSTEM_ACTOR: AuditActor = { adminId: null, username: "system" };
+
+export interface AuditLogFilters {
+  action?: string;
+  adminId?: number;
+  entityType?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export interface NewSessionDetails {
+  expiresAt: Date;
+  absoluteExpiresAt: Date;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// A session as listed in the dashboard: never includes the token itself
+export type AdminSessionSummary = Omit<AdminSession, "sessionToken"> & {
+  username: string;
+  current: boolean;
+};
+
+export interface LoginAttemptRecord {
+  username: string;
+  adminId: number | null;
+  ipAddress?: string;
+  succeeded: boolean;
+  reason?: LoginFailureReason;
+}
+
+// Filters, sorting and paging for the admin contact and appointment lists
+export interface ListQuery<TSort extends string> {
+  status?: string;
+  service?: string;
+  from?: Date; // contacts: received at, appointments: scheduled at
+  to?: Date;
+  search?: string; // matched against names, emails, companies, phone numbers and messages
+  spam?: "hide" | "only"; // relative to SPAM_THRESHOLD
+  sort: TSort;
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+export type ContactListQuery = ListQuery<typeof CONTACT_SORT_FIELDS[number]>;
+export type AppointmentListQuery = ListQuery<typeof APPOINTMENT_SORT_FIELDS[number]>;
+
+export interface ListPage<T> {
+  entries: T[];
+  total: number;
+}
+
+type AuditWriter = Pick<typeof db, "insert">;
+type ContactWriter = Pick<typeof db, "select" | "update" | "insert">;
+
+// A deal with its owner's username, for the pipeline board
+export type DealSummary = Deal & { ownerUsername: string | null };
+
+// A quote request with what the Quotes tab lists alongside it
+export type QuoteRequestSummary = QuoteRequest & {
+  units: number;
+  latestVersion: number | null;
+  latestTotal: number | null;
+};
+
+// Everything the quote builder needs; currentPrice is the catalog price, to start pricing from
+export interface QuoteRequestDetail {
+  request: QuoteRequest;
+  items: (QuoteRequestItem & { currentPrice: number | null })[];
+  quotes: Quote[];
+}
+
+// A contact with the username of whoever it's assigned to, for the detail drawer
+export type ContactDetail = ContactSubmission & { assignedAdminUsername: string | null };
+
+// Case-insensitive substring match across columns, with LIKE wildcards in the input escaped
+function matchesSearch(search: string, columns: PgColumn[]) {
+  const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+  return or(...columns.map((column) => ilike(column, pattern)));
+}
 
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createContactSubmission(submission: InsertContactSubmission): Promise<ContactSubmission>;
-  getContactSubmissions(): Promise<ContactSubmission[]>;
-  updateContactSubmissionStatus(submissionId: number, status: string, rejectionReason?: string): Promise<ContactSubmission>;
+  createContactSubmission(submission: InsertContactSubmission, spamScore?: number): Promise<ContactSubmission>;
+  listContactSubmissions(query: ContactListQuery): Promise<ListPage<ContactSubmission>>;
+  updateContactSubmissionStatus(submissionId: number, status: string, rejectionReason: string | undefined, actor: AuditActor): Promise<ContactSubmission>;
+  getContactSubmission(submissionId: number): Promise<ContactDetail | undefined>;
+  getContactEvents(submissionId: number): Promise<ContactEvent[]>;
+  addContactNote(submissionId: number, body: string, actor: AuditActor): Promise<ContactEvent>;
+  recordContactReply(submissionId: number, to: string, reply: ContactReply, actor: AuditActor): Promise<{ reply: ContactEvent; submission: ContactSubmission }>;
+  assignContactSubmission(submissionId: number, assignee: { id: number; username: string } | null, actor: AuditActor): Promise<ContactSubmission | undefined>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  getAppointments(): Promise<Appointment[]>;
-  updateAppointmentStatus(appointmentId: number, status: string, rejectionReason?: string): Promise<Appointment>;
+  listAppointments(query: AppointmentListQuery): Promise<ListPage<Appointment>>;
+  getAppointment(appointmentId: number): Promise<Appointment | undefined>;
+  getBookedAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]>;
+  getAppointmentsWithStatus(statuses: string[]): Promise<Appointment[]>;
+  createAppointmentIfFree(appointment: InsertAppointment, isFree: (booked: Appointment[]) => boolean, spamScore?: number): Promise<Appointment | undefined>;
+  updateAppointmentStatus(appointmentId: number, status: string, rejectionReason: string | undefined, isFree: (booked: Appointment[]) => boolean, actor: AuditActor): Promise<Appointment | undefined>;
+  rescheduleAppointmentIfFree(appointmentId: number, change: RescheduleAppointment, isFree: (booked: Appointment[]) => boolean, actor: AuditActor): Promise<Appointment | undefined>;
+  // Availability
+  getWorkingHours(): Promise<WorkingHours[]>;
+  replaceWorkingHours(hours: InsertWorkingHours[], actor: AuditActor): Promise<WorkingHours[]>;
+  getBlackoutDates(): Promise<BlackoutDate[]>;
+  getBlackoutDate(date: string): Promise<BlackoutDate | undefined>;
+  createBlackoutDate(blackoutDate: InsertBlackoutDate, actor: AuditActor): Promise<BlackoutDate>;
+  deleteBlackoutDate(blackoutDateId: number, actor: AuditActor): Promise<void>;
   // Admin functionality
-  createAdminUser(adminUser: InsertAdminUser): Promise<AdminUser>;
+  createAdminUser(adminUser: InsertAdminUser, actor?: AuditActor): Promise<AdminUser>;
+  getAdmin(adminId: number): Promise<AdminUser | undefined>;
   getAdminByUsername(username: string): Promise<AdminUser | undefined>;
+  getAdminByEmail(email: string): Promise<AdminUser | undefined>;
+  countAdmins(): Promise<number>;
+  createInitialOwner(insertAdminUser: InsertAdminUser, actor: AuditActor): Promise<AdminUser | undefined>;
   getAllAdmins(): Promise<AdminUser[]>;
-  updateAdminUser(adminId: number, updates: Partial<InsertAdminUser>): Promise<AdminUser>;
-  deleteAdminUser(adminId: number): Promise<void>;
-  createAdminSession(adminId: number, sessionToken: string, expiresAt: Date): Promise<AdminSession>;
+  updateAdminUser(adminId: number, updates: Partial<InsertAdminUser>, actor: AuditActor, keepSessionToken?: string): Promise<AdminUser>;
+  deleteAdminUser(adminId: number, actor: AuditActor): Promise<void>;
+  createAdminSession(adminId: number, sessionToken: string, details: NewSessionDetails, actor: AuditActor): Promise<AdminSession>;
   getAdminBySessionToken(sessionToken: string): Promise<AdminUser | undefined>;
-  deleteAdminSession(sessionToken: string): Promise<void>;
+  getAdminByCalendarFeedToken(token: string): Promise<AdminUser | undefined>;
+  setCalendarFeedToken(adminId: number, token: string, actor: AuditActor): Promise<void>;
+  deleteAdminSession(sessionToken: string, actor?: AuditActor): Promise<void>;
+  // Session management
+  touchAdminSession(sessionToken: string, seenBefore: Date, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void>;
+  listAdminSessions(currentToken: string, adminId?: number): Promise<AdminSessionSummary[]>;
+  getAdminSession(sessionId: number): Promise<AdminSession | undefined>;
+  revokeAdminSession(sessionId: number, actor: AuditActor): Promise<void>;
+  revokeOtherAdminSessions(adminId: number, keepSessionToken: string, actor: AuditActor): Promise<number>;
+  purgeExpiredSessions(): Promise<number>;
+  // Sign-in throttling
+  recordLoginAttempt(attempt: LoginAttemptRecord): Promise<void>;
+  countFailedLogins(by: { username?: string; ipAddress?: string }, since: Date): Promise<number>;
+  getRecentLoginAttempts(limit: number, failedOnly: boolean): Promise<LoginAttempt[]>;
+  registerFailedLogin(adminId: number, lockoutDuration: (failedLoginCount: number) => number, actor: AuditActor): Promise<AdminUser>;
+  getLockedAdmins(): Promise<AdminUser[]>;
+  unlockAdmin(adminId: number, actor: AuditActor): Promise<AdminUser | undefined>;
+  // Two-factor sign-in
+  setPendingTotpSecret(adminId: number, secret: string): Promise<void>;
+  enableTwoFactor(adminId: number, secret: string, step: number, recoveryCodeHashes: string[], actor: AuditActor): Promise<void>;
+  disableTwoFactor(adminId: number, actor: AuditActor, revokeSessions?: boolean): Promise<void>;
+  recordTotpStep(adminId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(adminId: number, recoveryCodeHashes: string[], actor: AuditActor): Promise<void>;
+  useRecoveryCode(adminId: number, codeHash: string, actor: AuditActor): Promise<boolean>;
+  countRecoveryCodes(adminId: number): Promise<number>;
+
+  createPasswordReset(adminId: number, tokenHash: string, expiresAt: Date, actor: AuditActor): Promise<void>;
+  getAdminByPasswordReset(tokenHash: string): Promise<AdminUser | undefined>;
+  resetAdminPassword(tokenHash: string, passwordHash: string, ipAddress?: string): Promise<AdminUser | undefined>;
+  listDeals(): Promise<DealSummary[]>;
+  getDeal(dealId: number): Promise<Deal | undefined>;
+  getDealBySource(source: { contactSubmissionId?: number; appointmentId?: number }): Promise<Deal | undefined>;
+  createDeal(deal: InsertDeal, actor: AuditActor): Promise<Deal>;
+  updateDeal(dealId: number, updates: UpdateDeal, actor: AuditActor): Promise<Deal | undefined>;
+  listProducts(options?: { visibleOnly?: boolean }): Promise<Product[]>;
+  getProduct(productId: number): Promise<Product | undefined>;
+  getProductBySlug(slug: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct, actor: AuditActor): Promise<Product>;
+  updateProduct(productId: number, updates: InsertProduct, actor: AuditActor): Promise<Product | undefined>;
+  deleteProduct(productId: number, actor: AuditActor): Promise<Product | undefined>;
+  createQuoteRequest(request: Omit<InsertQuoteRequest, "items">, items: { productId: number; productName: string; quantity: number }[], spamScore?: number): Promise<QuoteRequest>;
+  listQuoteRequests(): Promise<QuoteRequestSummary[]>;
+  getQuoteRequest(quoteRequestId: number): Promise<QuoteRequestDetail | undefined>;
+  updateQuoteRequestStatus(quoteRequestId: number, status: QuoteRequestStatus, actor: AuditActor): Promise<QuoteRequest | undefined>;
+  issueQuote(quoteRequestId: number, quote: IssueQuote, totals: { subtotal: number; total: number }, actor: AuditActor): Promise<Quote | undefined>;
+  markQuoteEmailed(quoteId: number): Promise<void>;
+  getCalculatorDefaults(): Promise<CalculatorDefaults | undefined>;
+  saveCalculatorDefaults(market: ProfitabilityMarket, actor: AuditActor): Promise<CalculatorDefaults>;
+  listHostingPlans(options?: { visibleOnly?: boolean }): Promise<HostingPlan[]>;
+  getHostingPlanBySlug(slug: string): Promise<HostingPlan | undefined>;
+  createHostingPlan(plan: InsertHostingPlan, actor: AuditActor): Promise<HostingPlan>;
+  updateHostingPlan(planId: number, updates: InsertHostingPlan, actor: AuditActor): Promise<HostingPlan | undefined>;
+  deleteHostingPlan(planId: number, actor: AuditActor): Promise<HostingPlan | undefined>;
+
+  // Audit log (append-only: entries are written by the methods above, never updated or deleted)
+  recordExport(actor: AuditActor, entityType: "contact" | "appointment", details: Record<string, unknown>): Promise<void>;
+  getAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLog[]; total: number }>;
 }
 
 export class DatabaseStorage implements IStorage {
+  private async recordAudit(
+    writer: AuditWriter,
+    actor: AuditActor,
+    action: AuditAction,
+    entityType: string,
+    entityId: number | null,
+    details?: Record<string, unknown>,
+  ): Promise<void> {
+    await writer.insert(auditLogs).values({
+      adminId: actor.adminId,
+      adminUsername: actor.username,
+      action,
+      entityType,
+      entityId,
+      details: details ?? null,
+      ipAddress: actor.ipAddress ?? null,
+    });
+  }
+
+  private async changeContactStatus(
+    tx: ContactWriter,
+    submissionId: number,
+    status: string,
+    rejectionReason: string | undefined,
+    actor: AuditActor,
+  ): Promise<ContactSubmission> {
+    const [previous] = await tx
+      .select({ status: contactSubmissions.status })
+      .from(contactSubmissions)
+      .where(eq(contactSubmissions.id, submissionId));
+
+    const [updatedSubmission] = await tx
+      .update(contactSubmissions)
+      .set({ 
+        status,
+        rejectionReason: rejectionReason || null
+      })
+      .where(eq(contactSubmissions.id, submissionId))
+      .returning();
+
+    if (updatedSubmission) {
+      const change = {
+        from: previous?.status,
+        to: status,
+        ...(rejectionReason && { reason: rejectionReason }),
+      };
+      await this.recordAudit(tx, actor, "contact.status_changed", "contact", submissionId, change);
+      await this.recordContactEvent(tx, submissionId, "status", actor, { details: change });
+    }
+    return updatedSubmission;
+  }
+
+  private async recordContactEvent(
+    writer: AuditWriter,
+    contactId: number,
+    type: ContactEventType,
+    actor: AuditActor,
+    fields: { body?: string; details?: Record<string, unknown> },
+  ): Promise<ContactEvent> {
+    const [event] = await writer
+      .insert(contactEvents)
+      .values({
+        contactId,
+        type,
+        adminId: actor.adminId,
+        adminUsername: actor.username,
+        body: fields.body ?? null,
+        details: fields.details ?? null,
+      })
+      .returning();
+    return event;
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -42,32 +287,115 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createContactSubmission(insertSubmission: InsertContactSubmission): Promise<ContactSubmission> {
+  async createContactSubmission(insertSubmission: InsertContactSubmission, spamScore = 0): Promise<ContactSubmission> {
     const [submission] = await db
       .insert(contactSubmissions)
-      .values(insertSubmission)
+      .values({ ...insertSubmission, spamScore })
       .returning();
     return submission;
   }
 
-  async getContactSubmissions(): Promise<ContactSubmission[]> {
-    const submissions = await db
+  async listContactSubmissions(query: ContactListQuery): Promise<ListPage<ContactSubmission>> {
+    const conditions: (SQL | undefined)[] = [];
+    if (query.status) conditions.push(eq(contactSubmissions.status, query.status));
+    if (query.service) conditions.push(eq(contactSubmissions.service, query.service));
+    if (query.from) conditions.push(gte(contactSubmissions.createdAt, query.from));
+    if (query.to) conditions.push(lte(contactSubmissions.createdAt, query.to));
+    if (query.spam === "hide") conditions.push(lt(contactSubmissions.spamScore, SPAM_THRESHOLD));
+    if (query.spam === "only") conditions.push(gte(contactSubmissions.spamScore, SPAM_THRESHOLD));
+    if (query.search) {
+      conditions.push(matchesSearch(query.search, [
+        contactSubmissions.fullName,
+        contactSubmissions.email,
+        contactSubmissions.companyName,
+        contactSubmissions.phoneNumber,
+        contactSubmissions.message,
+      ]));
+    }
+    const where = and(...conditions);
+    const direction = query.order === "asc" ? asc : desc;
+
+    const entries = await db
       .select()
       .from(contactSubmissions)
-      .orderBy(desc(contactSubmissions.createdAt));
-    return submissions;
+      .where(where)
+      .orderBy(direction(contactSubmissions[query.sort]), direction(contactSubmissions.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(contactSubmissions)
+      .where(where);
+    return { entries, total };
   }
 
-  async updateContactSubmissionStatus(submissionId: number, status: string, rejectionReason?: string): Promise<ContactSubmission> {
-    const [updatedSubmission] = await db
-      .update(contactSubmissions)
-      .set({ 
-        status,
-        rejectionReason: rejectionReason || null
-      })
-      .where(eq(contactSubmissions.id, submissionId))
-      .returning();
-    return updatedSubmission;
+  async updateContactSubmissionStatus(submissionId: number, status: string, rejectionReason: string | undefined, actor: AuditActor): Promise<ContactSubmission> {
+    return await db.transaction(async (tx) => {
+      return await this.changeContactStatus(tx, submissionId, status, rejectionReason, actor);
+    });
+  }
+
+  // Stores a reply that has been sent. Replying counts as responding, so the status follows.
+  async recordContactReply(submissionId: number, to: string, reply: ContactReply, actor: AuditActor): Promise<{ reply: ContactEvent; submission: ContactSubmission }> {
+    return await db.transaction(async (tx) => {
+      const event = await this.recordContactEvent(tx, submissionId, "reply", actor, {
+        body: reply.message,
+        details: { to, subject: reply.subject },
+      });
+      await this.recordAudit(tx, actor, "contact.replied", "contact", submissionId, { replyId: event.id, subject: reply.subject });
+
+      const [current] = await tx.select().from(contactSubmissions).where(eq(contactSubmissions.id, submissionId));
+      const submission = current.status === "responded"
+        ? current
+        : await this.changeContactStatus(tx, submissionId, "responded", undefined, actor);
+      return { reply: event, submission };
+    });
+  }
+
+  async getContactSubmission(submissionId: number): Promise<ContactDetail | undefined> {
+    const [result] = await db
+      .select({ contact: contactSubmissions, assignedAdminUsername: adminUsers.username })
+      .from(contactSubmissions)
+      .leftJoin(adminUsers, eq(contactSubmissions.assignedAdminId, adminUsers.id))
+      .where(eq(contactSubmissions.id, submissionId));
+    return result ? { ...result.contact, assignedAdminUsername: result.assignedAdminUsername } : undefined;
+  }
+
+  async getContactEvents(submissionId: number): Promise<ContactEvent[]> {
+    return await db
+      .select()
+      .from(contactEvents)
+      .where(eq(contactEvents.contactId, submissionId))
+      .orderBy(asc(contactEvents.createdAt), asc(contactEvents.id));
+  }
+
+  async addContactNote(submissionId: number, body: string, actor: AuditActor): Promise<ContactEvent> {
+    return await db.transaction(async (tx) => {
+      const note = await this.recordContactEvent(tx, submissionId, "note", actor, { body });
+      await this.recordAudit(tx, actor, "contact.note_added", "contact", submissionId, { noteId: note.id });
+      return note;
+    });
+  }
+
+  async assignContactSubmission(submissionId: number, assignee: { id: number; username: string } | null, actor: AuditActor): Promise<ContactSubmission | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ username: adminUsers.username })
+        .from(contactSubmissions)
+        .leftJoin(adminUsers, eq(contactSubmissions.assignedAdminId, adminUsers.id))
+        .where(eq(contactSubmissions.id, submissionId));
+      const [updatedSubmission] = await tx
+        .update(contactSubmissions)
+        .set({ assignedAdminId: assignee?.id ?? null })
+        .where(eq(contactSubmissions.id, submissionId))
+        .returning();
+      if (updatedSubmission) {
+        const change = { from: previous?.username ?? null, to: assignee?.username ?? null };
+        await this.recordAudit(tx, actor, "contact.assigned", "contact", submissionId, change);
+        await this.recordContactEvent(tx, submissionId, "owner", actor, { details: change });
+      }
+      return updatedSubmission;
+    });
   }
 
   async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
@@ -78,38 +406,289 @@ export class DatabaseStorage implements IStorage {
     return appointment;
   }
 
-  async getAppointments(): Promise<Appointment[]> {
-    const appointmentList = await db
+  async listAppointments(query: AppointmentListQuery): Promise<ListPage<Appointment>> {
+    const conditions: (SQL | undefined)[] = [];
+    if (query.status) conditions.push(eq(appointments.status, query.status));
+    if (query.service) conditions.push(eq(appointments.serviceType, query.service));
+    if (query.from) conditions.push(gte(appointments.scheduledAt, query.from));
+    if (query.to) conditions.push(lte(appointments.scheduledAt, query.to));
+    if (query.spam === "hide") conditions.push(lt(appointments.spamScore, SPAM_THRESHOLD));
+    if (query.spam === "only") conditions.push(gte(appointments.spamScore, SPAM_THRESHOLD));
+    if (query.search) {
+      conditions.push(matchesSearch(query.search, [
+        appointments.fullName,
+        appointments.email,
+        appointments.companyName,
+        appointments.phoneNumber,
+        appointments.message,
+      ]));
+    }
+    const where = and(...conditions);
+    const direction = query.order === "asc" ? asc : desc;
+
+    const entries = await db
+      .select()
+      .from(appointments)
+      .where(where)
+      .orderBy(direction(appointments[query.sort]), direction(appointments.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(appointments)
+      .where(where);
+    return { entries, total };
+  }
+
+  async getAppointment(appointmentId: number): Promise<Appointment | undefined> {
+    const [appointment] = await db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.id, appointmentId));
+    return appointment || undefined;
+  }
+
+  // Appointments in these statuses hold their slot; rejected and completed ones free it
+  private static readonly BOOKED_STATUSES = ["pending", "approved"];
+
+  // Booked appointments starting in [from, to)
+  private static bookedBetween(from: Date, to: Date) {
+    return and(
+      gte(appointments.scheduledAt, from),
+      lt(appointments.scheduledAt, to),
+      inArray(appointments.status, DatabaseStorage.BOOKED_STATUSES)
+    );
+  }
+
+  async getBookedAppointmentsBetween(from: Date, to: Date): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(DatabaseStorage.bookedBetween(from, to));
+  }
+
+  async getAppointmentsWithStatus(statuses: string[]): Promise<Appointment[]> {
+    return await db
+      .select()
+      .from(appointments)
+      .where(inArray(appointments.status, statuses))
+      .orderBy(asc(appointments.scheduledAt));
+  }
+
+  // Locks out concurrent bookings and returns what's booked around `scheduledAt`;
+  // no consultation lasts a day, so anything that could overlap starts within a day either side
+  private static async lockAndReadBookedAround(tx: Pick<typeof db, "execute" | "select">, scheduledAt: Date, exceptAppointmentId?: number) {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext('appointments'))`);
+    const start = scheduledAt.getTime();
+    const day = 24 * 60 * 60 * 1000;
+    return await tx
       .select()
       .from(appointments)
-      .orderBy(desc(appointments.createdAt));
-    return appointmentList;
+      .where(
+        and(
+          DatabaseStorage.bookedBetween(new Date(start - day), new Date(start + day)),
+          exceptAppointmentId === undefined ? undefined : ne(appointments.id, exceptAppointmentId)
+        )
+      );
   }
 
-  async updateAppointmentStatus(appointmentId: number, status: string, rejectionReason?: string): Promise<Appointment> {
-    const updateData: any = {
+  async createAppointmentIfFree(insertAppointment: InsertAppointment, isFree: (booked: Appointment[]) => boolean, spamScore = 0): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      // Serialise bookings so two requests can't both claim one slot
+      const booked = await DatabaseStorage.lockAndReadBookedAround(tx, insertAppointment.scheduledAt);
+      if (!isFree(booked)) {
+        return undefined;
+      }
+      const [appointment] = await tx
+        .insert(appointments)
+        .values({ ...insertAppointment, spamScore })
+        .returning();
+      return appointment;
+    });
+  }
+
+  // A moved appointment needs approving again, so it always returns to pending
+  async rescheduleAppointmentIfFree(appointmentId: number, change: RescheduleAppointment, isFree: (booked: Appointment[]) => boolean, actor: AuditActor): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const booked = await DatabaseStorage.lockAndReadBookedAround(tx, change.scheduledAt, appointmentId);
+      if (!isFree(booked)) {
+        return undefined;
+      }
+      const [previous] = await tx
+        .select()
+        .from(appointments)
+        .where(eq(appointments.id, appointmentId));
+      const [appointment] = await tx
+        .update(appointments)
+        .set({
+          scheduledAt: change.scheduledAt,
+          timezone: change.timezone,
+          status: "pending",
+          approvedAt: null,
+          rejectionReason: null,
+        })
+        .where(eq(appointments.id, appointmentId))
+        .returning();
+      if (appointment) {
+        await this.recordAudit(tx, actor, "appointment.rescheduled", "appointment", appointmentId, {
+          from: previous?.scheduledAt.toISOString(),
+          to: change.scheduledAt.toISOString(),
+          timezone: change.timezone,
+          previousStatus: previous?.status,
+        });
+      }
+      return appointment;
+    });
+  }
+
+  // Returns undefined when a rejected, cancelled or completed appointment would be put back
+  // into a slot that has since been booked
+  async updateAppointmentStatus(
+    appointmentId: number,
+    status: string,
+    rejectionReason: string | undefined,
+    isFree: (booked: Appointment[]) => boolean,
+    actor: AuditActor,
+  ): Promise<Appointment | undefined> {
+    const updateData: Partial<typeof appointments.$inferInsert> = {
       status,
       ...(status === "approved" && { approvedAt: new Date() }),
       ...(status === "completed" && { completedAt: new Date() }),
       ...(status === "rejected" && rejectionReason && { rejectionReason }),
     };
 
-    const [updatedAppointment] = await db
-      .update(appointments)
-      .set(updateData)
-      .where(eq(appointments.id, appointmentId))
-      .returning();
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select()
+        .from(appointments)
+        .where(eq(appointments.id, appointmentId));
+
+      // Reactivating takes the slot again, so it is checked under the same lock as new bookings
+      const reactivating = previous
+        && DatabaseStorage.BOOKED_STATUSES.includes(status)
+        && !DatabaseStorage.BOOKED_STATUSES.includes(previous.status);
+      if (reactivating) {
+        const booked = await DatabaseStorage.lockAndReadBookedAround(tx, previous.scheduledAt, appointmentId);
+        if (!isFree(booked)) {
+          return undefined;
+        }
+      }
+
+      const [updatedAppointment] = await tx
+        .update(appointments)
+        .set(updateData)
+        .where(eq(appointments.id, appointmentId))
+        .returning();
+
+      if (updatedAppointment) {
+        await this.recordAudit(tx, actor, "appointment.status_changed", "appointment", appointmentId, {
+          from: previous?.status,
+          to: status,
+          ...(rejectionReason && { reason: rejectionReason }),
+        });
+      }
+      return updatedAppointment;
+    });
+  }
+
+  // Availability
+  async getWorkingHours(): Promise<WorkingHours[]> {
+    return await db.select().from(workingHours).orderBy(asc(workingHours.dayOfWeek));
+  }
+
+  async replaceWorkingHours(hours: InsertWorkingHours[], actor: AuditActor): Promise<WorkingHours[]> {
+    return await db.transaction(async (tx) => {
+      const previous = await tx.delete(workingHours).returning();
+      const saved = await tx.insert(workingHours).values(hours).returning();
+      const days = hours
+        .filter((day) => {
+          const before = previous.find((row) => row.dayOfWeek === day.dayOfWeek);
+          return !before || before.isOpen !== day.isOpen || before.startTime !== day.startTime || before.endTime !== day.endTime;
+        })
+        .map((day) => day.dayOfWeek);
+      if (days.length > 0) {
+        await this.recordAudit(tx, actor, "availability.hours_updated", "working_hours", null, { days });
+      }
+      return saved;
+    });
+  }
+
+  async getBlackoutDates(): Promise<BlackoutDate[]> {
+    return await db.select().from(blackoutDates).orderBy(asc(blackoutDates.date));
+  }
+
+  async getBlackoutDate(date: string): Promise<BlackoutDate | undefined> {
+    const [blackoutDate] = await db.select().from(blackoutDates).where(eq(blackoutDates.date, date));
+    return blackoutDate || undefined;
+  }
 
-    return updatedAppointment;
+  async createBlackoutDate(insertBlackoutDate: InsertBlackoutDate, actor: AuditActor): Promise<BlackoutDate> {
+    return await db.transaction(async (tx) => {
+      const [blackoutDate] = await tx
+        .insert(blackoutDates)
+        .values(insertBlackoutDate)
+        .returning();
+      await this.recordAudit(tx, actor, "availability.date_blocked", "blackout_date", blackoutDate.id, {
+        date: blackoutDate.date,
+        ...(blackoutDate.reason && { reason: blackoutDate.reason }),
+      });
+      return blackoutDate;
+    });
+  }
+
+  async deleteBlackoutDate(blackoutDateId: number, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [blackoutDate] = await tx.delete(blackoutDates).where(eq(blackoutDates.id, blackoutDateId)).returning();
+      if (blackoutDate) {
+        await this.recordAudit(tx, actor, "availability.date_unblocked", "blackout_date", blackoutDateId, { date: blackoutDate.date });
+      }
+    });
   }
 
   // Admin functionality
-  async createAdminUser(insertAdminUser: InsertAdminUser): Promise<AdminUser> {
-    const [adminUser] = await db
-      .insert(adminUsers)
-      .values(insertAdminUser)
-      .returning();
-    return adminUser;
+  async createAdminUser(insertAdminUser: InsertAdminUser, actor: AuditActor = SYSTEM_ACTOR): Promise<AdminUser> {
+    return await db.transaction(async (tx) => {
+      const [adminUser] = await tx
+        .insert(adminUsers)
+        .values(insertAdminUser)
+        .returning();
+      await this.recordAudit(tx, actor, "admin.created", "admin", adminUser.id, {
+        username: adminUser.username,
+        role: adminUser.role,
+      });
+      return adminUser;
+    });
+  }
+
+  async countAdmins(): Promise<number> {
+    const [{ total }] = await db.select({ total: count() }).from(adminUsers);
+    return total;
+  }
+
+  // Creates the first owner, or returns undefined when an account already exists.
+  // The table lock stops two setup requests from both seeing an empty table.
+  async createInitialOwner(insertAdminUser: InsertAdminUser, actor: AuditActor): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`lock table ${adminUsers} in exclusive mode`);
+      const [{ total }] = await tx.select({ total: count() }).from(adminUsers);
+      if (total > 0) {
+        return undefined;
+      }
+      const [adminUser] = await tx
+        .insert(adminUsers)
+        .values({ ...insertAdminUser, role: "owner" })
+        .returning();
+      await this.recordAudit(tx, actor, "admin.created", "admin", adminUser.id, {
+        username: adminUser.username,
+        role: adminUser.role,
+      });
+      return adminUser;
+    });
+  }
+
+  async getAdmin(adminId: number): Promise<AdminUser | undefined> {
+    const [adminUser] = await db.select().from(adminUsers).where(eq(adminUsers.id, adminId));
+    return adminUser || undefined;
   }
 
   async getAdminByUsername(username: string): Promise<AdminUser | undefined> {
@@ -120,16 +699,36 @@ export class DatabaseStorage implements IStorage {
     return adminUser || undefined;
   }
 
-  async createAdminSession(adminId: number, sessionToken: string, expiresAt: Date): Promise<AdminSession> {
-    const [session] = await db
-      .insert(adminSessions)
-      .values({
-        adminId,
-        sessionToken,
-        expiresAt,
-      })
-      .returning();
-    return session;
+  // Addresses are compared case-insensitively, as people type them
+  async getAdminByEmail(email: string): Promise<AdminUser | undefined> {
+    const [adminUser] = await db
+      .select()
+      .from(adminUsers)
+      .where(sql`lower(${adminUsers.email}) = ${email.toLowerCase()}`);
+    return adminUser || undefined;
+  }
+
+  async createAdminSession(adminId: number, sessionToken: string, details: NewSessionDetails, actor: AuditActor): Promise<AdminSession> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx
+        .insert(adminSessions)
+        .values({
+          adminId,
+          sessionToken,
+          expiresAt: details.expiresAt,
+          absoluteExpiresAt: details.absoluteExpiresAt,
+          ipAddress: details.ipAddress ?? null,
+          userAgent: details.userAgent ?? null,
+        })
+        .returning();
+      // A successful sign-in ends any run of failures
+      await tx
+        .update(adminUsers)
+        .set({ failedLoginCount: 0, lockedUntil: null })
+        .where(eq(adminUsers.id, adminId));
+      await this.recordAudit(tx, actor, "admin.login", "admin", adminId);
+      return session;
+    });
   }
 
   async getAdminBySessionToken(sessionToken: string): Promise<AdminUser | undefined> {
@@ -138,6 +737,14 @@ export class DatabaseStorage implements IStorage {
         id: adminUsers.id,
         username: adminUsers.username,
         password: adminUsers.password,
+        email: adminUsers.email,
+        role: adminUsers.role,
+        calendarFeedToken: adminUsers.calendarFeedToken,
+        failedLoginCount: adminUsers.failedLoginCount,
+        lockedUntil: adminUsers.lockedUntil,
+        totpSecret: adminUsers.totpSecret,
+        totpPendingSecret: adminUsers.totpPendingSecret,
+        totpLastStep: adminUsers.totpLastStep,
         createdAt: adminUsers.createdAt,
       })
       .from(adminSessions)
@@ -145,36 +752,806 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(adminSessions.sessionToken, sessionToken),
-          gt(adminSessions.expiresAt, new Date())
+          gt(adminSessions.expiresAt, new Date()),
+          gt(adminSessions.absoluteExpiresAt, new Date())
         )
       );
     return result || undefined;
   }
 
+  async getAdminByCalendarFeedToken(token: string): Promise<AdminUser | undefined> {
+    const [admin] = await db
+      .select()
+      .from(adminUsers)
+      .where(eq(adminUsers.calendarFeedToken, token));
+    return admin || undefined;
+  }
+
+  // Issuing a new token invalidates any previously shared feed URL
+  async setCalendarFeedToken(adminId: number, token: string, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(adminUsers)
+        .set({ calendarFeedToken: token })
+        .where(eq(adminUsers.id, adminId));
+      await this.recordAudit(tx, actor, "admin.calendar_feed_issued", "admin", adminId);
+    });
+  }
+
   async getAllAdmins(): Promise<AdminUser[]> {
     return await db.select().from(adminUsers).orderBy(adminUsers.createdAt);
   }
 
-  async updateAdminUser(adminId: number, updates: Partial<InsertAdminUser>): Promise<AdminUser> {
-    const [updatedAdmin] = await db
-      .update(adminUsers)
-      .set(updates)
-      .where(eq(adminUsers.id, adminId))
-      .returning();
-    return updatedAdmin;
+  // A new password signs the account out everywhere except keepSessionToken (the editor's own session)
+  async updateAdminUser(adminId: number, updates: Partial<InsertAdminUser>, actor: AuditActor, keepSessionToken?: string): Promise<AdminUser> {
+    return await db.transaction(async (tx) => {
+      const [updatedAdmin] = await tx
+        .update(adminUsers)
+        .set(updates)
+        .where(eq(adminUsers.id, adminId))
+        .returning();
+      if (updatedAdmin) {
+        let sessionsRevoked = 0;
+        if (updates.password) {
+          const revoked = await tx
+            .delete(adminSessions)
+            .where(and(
+              eq(adminSessions.adminId, adminId),
+              keepSessionToken ? ne(adminSessions.sessionToken, keepSessionToken) : undefined,
+            ))
+            .returning({ id: adminSessions.id });
+          sessionsRevoked = revoked.length;
+        }
+        // Never copy the password hash into the log, only the fact that it changed
+        const { password, ...changes } = updates;
+        await this.recordAudit(tx, actor, "admin.updated", "admin", adminId, {
+          ...changes,
+          ...(password && { passwordChanged: true, sessionsRevoked }),
+        });
+      }
+      return updatedAdmin;
+    });
+  }
+
+  async deleteAdminUser(adminId: number, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      // First delete all sessions, recovery codes and reset links for this admin
+      await tx.delete(adminSessions).where(eq(adminSessions.adminId, adminId));
+      await tx.delete(adminRecoveryCodes).where(eq(adminRecoveryCodes.adminId, adminId));
+      await tx.delete(adminPasswordResets).where(eq(adminPasswordResets.adminId, adminId));
+      // Their leads and deals go back to unassigned; the timeline keeps their name
+      await tx
+        .update(contactSubmissions)
+        .set({ assignedAdminId: null })
+        .where(eq(contactSubmissions.assignedAdminId, adminId));
+      await tx
+        .update(deals)
+        .set({ ownerAdminId: null })
+        .where(eq(deals.ownerAdminId, adminId));
+      // Then delete the admin user
+      const [deletedAdmin] = await tx
+        .delete(adminUsers)
+        .where(eq(adminUsers.id, adminId))
+        .returning();
+      if (deletedAdmin) {
+        await this.recordAudit(tx, actor, "admin.deleted", "admin", adminId, {
+          username: deletedAdmin.username,
+          role: deletedAdmin.role,
+        });
+      }
+    });
   }
 
-  async deleteAdminUser(adminId: number): Promise<void> {
-    // First delete all sessions for this admin
-    await db.delete(adminSessions).where(eq(adminSessions.adminId, adminId));
-    // Then delete the admin user
-    await db.delete(adminUsers).where(eq(adminUsers.id, adminId));
+  async deleteAdminSession(sessionToken: string, actor?: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [session] = await tx
+        .delete(adminSessions)
+        .where(eq(adminSessions.sessionToken, sessionToken))
+        .returning();
+      if (session && actor) {
+        await this.recordAudit(tx, actor, "admin.logout", "admin", session.adminId);
+      }
+    });
   }
 
-  async deleteAdminSession(sessionToken: string): Promise<void> {
+  // Slides the idle expiry forward (capped at the absolute expiry). Only writes when the session
+  // was last seen before seenBefore, so a busy dashboard doesn't update the row on every request.
+  async touchAdminSession(sessionToken: string, seenBefore: Date, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void> {
     await db
+      .update(adminSessions)
+      .set({
+        lastSeenAt: new Date(),
+        expiresAt: sql`least(${expiresAt.toISOString()}::timestamp, ${adminSessions.absoluteExpiresAt})`,
+        ipAddress: ipAddress ?? null,
+        userAgent: userAgent ?? null,
+      })
+      .where(and(eq(adminSessions.sessionToken, sessionToken), lt(adminSessions.lastSeenAt, seenBefore)));
+  }
+
+  // Live sessions, most recently used first; all admins' when adminId is omitted
+  async listAdminSessions(currentToken: string, adminId?: number): Promise<AdminSessionSummary[]> {
+    const now = new Date();
+    const rows = await db
+      .select({ session: adminSessions, username: adminUsers.username })
+      .from(adminSessions)
+      .innerJoin(adminUsers, eq(adminSessions.adminId, adminUsers.id))
+      .where(and(
+        gt(adminSessions.expiresAt, now),
+        gt(adminSessions.absoluteExpiresAt, now),
+        adminId !== undefined ? eq(adminSessions.adminId, adminId) : undefined,
+      ))
+      .orderBy(desc(adminSessions.lastSeenAt));
+    return rows.map(({ session: { sessionToken, ...session }, username }) => ({
+      ...session,
+      username,
+      current: sessionToken === currentToken,
+    }));
+  }
+
+  async getAdminSession(sessionId: number): Promise<AdminSession | undefined> {
+    const [session] = await db.select().from(adminSessions).where(eq(adminSessions.id, sessionId));
+    return session || undefined;
+  }
+
+  async revokeAdminSession(sessionId: number, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [session] = await tx
+        .delete(adminSessions)
+        .where(eq(adminSessions.id, sessionId))
+        .returning();
+      if (session) {
+        await this.recordAudit(tx, actor, "admin.session_revoked", "session", session.id, {
+          adminId: session.adminId,
+          ipAddress: session.ipAddress,
+        });
+      }
+    });
+  }
+
+  async revokeOtherAdminSessions(adminId: number, keepSessionToken: string, actor: AuditActor): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const revoked = await tx
+        .delete(adminSessions)
+        .where(and(eq(adminSessions.adminId, adminId), ne(adminSessions.sessionToken, keepSessionToken)))
+        .returning({ id: adminSessions.id });
+      if (revoked.length > 0) {
+        await this.recordAudit(tx, actor, "admin.session_revoked", "admin", adminId, { count: revoked.length });
+      }
+      return revoked.length;
+    });
+  }
+
+  async purgeExpiredSessions(): Promise<number> {
+    const now = new Date();
+    const purged = await db
       .delete(adminSessions)
-      .where(eq(adminSessions.sessionToken, sessionToken));
+      .where(or(lte(adminSessions.expiresAt, now), lte(adminSessions.absoluteExpiresAt, now)))
+      .returning({ id: adminSessions.id });
+    return purged.length;
+  }
+
+  async recordLoginAttempt(attempt: LoginAttemptRecord): Promise<void> {
+    await db.insert(loginAttempts).values({
+      username: attempt.username,
+      adminId: attempt.adminId,
+      ipAddress: attempt.ipAddress ?? null,
+      succeeded: attempt.succeeded,
+      reason: attempt.reason ?? null,
+    });
+  }
+
+  async countFailedLogins(by: { username?: string; ipAddress?: string }, since: Date): Promise<number> {
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.succeeded, false),
+        gte(loginAttempts.createdAt, since),
+        by.username !== undefined ? eq(loginAttempts.username, by.username) : undefined,
+        by.ipAddress !== undefined ? eq(loginAttempts.ipAddress, by.ipAddress) : undefined,
+      ));
+    return total;
+  }
+
+  async getRecentLoginAttempts(limit: number, failedOnly: boolean): Promise<LoginAttempt[]> {
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(failedOnly ? eq(loginAttempts.succeeded, false) : undefined)
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(limit);
+  }
+
+  // Counts a failed sign-in and locks the account once lockoutDuration says so
+  async registerFailedLogin(adminId: number, lockoutDuration: (failedLoginCount: number) => number, actor: AuditActor): Promise<AdminUser> {
+    return await db.transaction(async (tx) => {
+      const [counted] = await tx
+        .update(adminUsers)
+        .set({ failedLoginCount: sql`${adminUsers.failedLoginCount} + 1` })
+        .where(eq(adminUsers.id, adminId))
+        .returning();
+      const lockMs = lockoutDuration(counted.failedLoginCount);
+      if (lockMs <= 0) {
+        return counted;
+      }
+      const [locked] = await tx
+        .update(adminUsers)
+        .set({ lockedUntil: new Date(Date.now() + lockMs) })
+        .where(eq(adminUsers.id, adminId))
+        .returning();
+      await this.recordAudit(tx, actor, "admin.locked", "admin", adminId, {
+        username: locked.username,
+        failedAttempts: locked.failedLoginCount,
+        until: locked.lockedUntil?.toISOString(),
+      });
+      return locked;
+    });
+  }
+
+  async getLockedAdmins(): Promise<AdminUser[]> {
+    return await db
+      .select()
+      .from(adminUsers)
+      .where(gt(adminUsers.lockedUntil, new Date()))
+      .orderBy(adminUsers.username);
+  }
+
+  async unlockAdmin(adminId: number, actor: AuditActor): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      const [unlocked] = await tx
+        .update(adminUsers)
+        .set({ failedLoginCount: 0, lockedUntil: null })
+        .where(eq(adminUsers.id, adminId))
+        .returning();
+      if (unlocked) {
+        await this.recordAudit(tx, actor, "admin.unlocked", "admin", adminId, { username: unlocked.username });
+      }
+      return unlocked;
+    });
+  }
+
+  async setPendingTotpSecret(adminId: number, secret: string): Promise<void> {
+    await db.update(adminUsers).set({ totpPendingSecret: secret }).where(eq(adminUsers.id, adminId));
+  }
+
+  // Finishes enrolment: the confirmed secret goes live with a fresh set of recovery codes
+  async enableTwoFactor(adminId: number, secret: string, step: number, recoveryCodeHashes: string[], actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(adminUsers)
+        .set({ totpSecret: secret, totpPendingSecret: null, totpLastStep: step })
+        .where(eq(adminUsers.id, adminId));
+      await tx.delete(adminRecoveryCodes).where(eq(adminRecoveryCodes.adminId, adminId));
+      await tx.insert(adminRecoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ adminId, codeHash })));
+      await this.recordAudit(tx, actor, "admin.two_factor_enabled", "admin", adminId);
+    });
+  }
+
+  // revokeSessions signs the account out everywhere, for when another admin resets a lost authenticator
+  async disableTwoFactor(adminId: number, actor: AuditActor, revokeSessions = false): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [admin] = await tx
+        .update(adminUsers)
+        .set({ totpSecret: null, totpPendingSecret: null, totpLastStep: null })
+        .where(eq(adminUsers.id, adminId))
+        .returning();
+      await tx.delete(adminRecoveryCodes).where(eq(adminRecoveryCodes.adminId, adminId));
+      if (admin) {
+        const revoked = revokeSessions
+          ? await tx.delete(adminSessions).where(eq(adminSessions.adminId, adminId)).returning({ id: adminSessions.id })
+          : [];
+        await this.recordAudit(tx, actor, "admin.two_factor_disabled", "admin", adminId, {
+          username: admin.username,
+          ...(revokeSessions && { sessionsRevoked: revoked.length }),
+        });
+      }
+    });
+  }
+
+  // Moves the replay guard forward; false when the step was already used (e.g. two requests racing)
+  async recordTotpStep(adminId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(adminUsers)
+      .set({ totpLastStep: step })
+      .where(and(
+        eq(adminUsers.id, adminId),
+        or(isNull(adminUsers.totpLastStep), lt(adminUsers.totpLastStep, step)),
+      ))
+      .returning({ id: adminUsers.id });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(adminId: number, recoveryCodeHashes: string[], actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(adminRecoveryCodes).where(eq(adminRecoveryCodes.adminId, adminId));
+      await tx.insert(adminRecoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ adminId, codeHash })));
+      await this.recordAudit(tx, actor, "admin.recovery_codes_generated", "admin", adminId);
+    });
+  }
+
+  async useRecoveryCode(adminId: number, codeHash: string, actor: AuditActor): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [used] = await tx
+        .update(adminRecoveryCodes)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(adminRecoveryCodes.adminId, adminId),
+          eq(adminRecoveryCodes.codeHash, codeHash),
+          isNull(adminRecoveryCodes.usedAt),
+        ))
+        .returning();
+      if (!used) {
+        return false;
+      }
+      const [{ remaining }] = await tx
+        .select({ remaining: count() })
+        .from(adminRecoveryCodes)
+        .where(and(eq(adminRecoveryCodes.adminId, adminId), isNull(adminRecoveryCodes.usedAt)));
+      await this.recordAudit(tx, actor, "admin.recovery_code_used", "admin", adminId, { remaining });
+      return true;
+    });
+  }
+
+  async countRecoveryCodes(adminId: number): Promise<number> {
+    const [{ remaining }] = await db
+      .select({ remaining: count() })
+      .from(adminRecoveryCodes)
+      .where(and(eq(adminRecoveryCodes.adminId, adminId), isNull(adminRecoveryCodes.usedAt)));
+    return remaining;
+  }
+
+  // Only the newest link works: asking again cancels any earlier one that hasn't been used
+  async createPasswordReset(adminId: number, tokenHash: string, expiresAt: Date, actor: AuditActor): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(adminPasswordResets)
+        .where(and(eq(adminPasswordResets.adminId, adminId), isNull(adminPasswordResets.usedAt)));
+      await tx.insert(adminPasswordResets).values({ adminId, tokenHash, expiresAt, ipAddress: actor.ipAddress ?? null });
+      await this.recordAudit(tx, actor, "admin.password_reset_requested", "admin", adminId);
+    });
+  }
+
+  async getAdminByPasswordReset(tokenHash: string): Promise<AdminUser | undefined> {
+    const [result] = await db
+      .select({ admin: adminUsers })
+      .from(adminPasswordResets)
+      .innerJoin(adminUsers, eq(adminPasswordResets.adminId, adminUsers.id))
+      .where(and(
+        eq(adminPasswordResets.tokenHash, tokenHash),
+        isNull(adminPasswordResets.usedAt),
+        gt(adminPasswordResets.expiresAt, new Date()),
+      ));
+    return result?.admin;
+  }
+
+  // Spends the link and sets the new password, signing the account out everywhere and
+  // clearing any lockout. Returns undefined when the link is unknown, used or expired.
+  async resetAdminPassword(tokenHash: string, passwordHash: string, ipAddress?: string): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reset] = await tx
+        .update(adminPasswordResets)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(adminPasswordResets.tokenHash, tokenHash),
+          isNull(adminPasswordResets.usedAt),
+          gt(adminPasswordResets.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!reset) {
+        return undefined;
+      }
+      const [admin] = await tx
+        .update(adminUsers)
+        .set({ password: passwordHash, failedLoginCount: 0, lockedUntil: null })
+        .where(eq(adminUsers.id, reset.adminId))
+        .returning();
+      if (!admin) {
+        return undefined;
+      }
+      const revoked = await tx
+        .delete(adminSessions)
+        .where(eq(adminSessions.adminId, admin.id))
+        .returning({ id: adminSessions.id });
+      await this.recordAudit(tx, { adminId: admin.id, username: admin.username, ipAddress }, "admin.password_reset", "admin", admin.id, {
+        sessionsRevoked: revoked.length,
+      });
+      return admin;
+    });
+  }
+
+  async listDeals(): Promise<DealSummary[]> {
+    const rows = await db
+      .select({ deal: deals, ownerUsername: adminUsers.username })
+      .from(deals)
+      .leftJoin(adminUsers, eq(deals.ownerAdminId, adminUsers.id))
+      .orderBy(desc(deals.stageChangedAt), desc(deals.id));
+    return rows.map(({ deal, ownerUsername }) => ({ ...deal, ownerUsername }));
+  }
+
+  async getDeal(dealId: number): Promise<Deal | undefined> {
+    const [deal] = await db.select().from(deals).where(eq(deals.id, dealId));
+    return deal || undefined;
+  }
+
+  async getDealBySource(source: { contactSubmissionId?: number; appointmentId?: number }): Promise<Deal | undefined> {
+    const condition = source.contactSubmissionId !== undefined
+      ? eq(deals.contactSubmissionId, source.contactSubmissionId)
+      : source.appointmentId !== undefined
+        ? eq(deals.appointmentId, source.appointmentId)
+        : undefined;
+    if (!condition) {
+      return undefined;
+    }
+    const [deal] = await db.select().from(deals).where(condition);
+    return deal || undefined;
+  }
+
+  async createDeal(insertDeal: InsertDeal, actor: AuditActor): Promise<Deal> {
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx
+        .insert(deals)
+        .values(insertDeal)
+        .returning();
+      await this.recordAudit(tx, actor, "deal.created", "deal", deal.id, {
+        title: deal.title,
+        stage: deal.stage,
+        ...(deal.contactSubmissionId && { contactSubmissionId: deal.contactSubmissionId }),
+        ...(deal.appointmentId && { appointmentId: deal.appointmentId }),
+      });
+      return deal;
+    });
+  }
+
+  // Moving to another stage is logged on its own so the pipeline's history is easy to follow
+  async updateDeal(dealId: number, updates: UpdateDeal, actor: AuditActor): Promise<Deal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(deals).where(eq(deals.id, dealId));
+      if (!previous) {
+        return undefined;
+      }
+      const stageChanged = updates.stage !== undefined && updates.stage !== previous.stage;
+      const [deal] = await tx
+        .update(deals)
+        .set({
+          ...updates,
+          // A lost reason only makes sense while the deal is lost
+          ...(stageChanged && updates.stage !== "lost" && { lostReason: null }),
+          ...(stageChanged && { stageChangedAt: new Date() }),
+          updatedAt: new Date(),
+        })
+        .where(eq(deals.id, dealId))
+        .returning();
+
+      if (stageChanged) {
+        await this.recordAudit(tx, actor, "deal.stage_changed", "deal", dealId, {
+          from: previous.stage,
+          to: deal.stage,
+          ...(deal.lostReason && { reason: deal.lostReason }),
+        });
+      }
+      const changed = (Object.keys(updates) as (keyof UpdateDeal)[])
+        .filter((key) => key !== "stage" && updates[key] !== previous[key]);
+      if (changed.length > 0) {
+        await this.recordAudit(tx, actor, "deal.updated", "deal", dealId, { fields: changed });
+      }
+      return deal;
+    });
+  }
+
+  async listProducts(options: { visibleOnly?: boolean } = {}): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(options.visibleOnly ? eq(products.visible, true) : undefined)
+      .orderBy(asc(products.sortOrder), asc(products.id));
+  }
+
+  async getProduct(productId: number): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.id, productId));
+    return product || undefined;
+  }
+
+  async getProductBySlug(slug: string): Promise<Product | undefined> {
+    const [product] = await db.select().from(products).where(eq(products.slug, slug));
+    return product || undefined;
+  }
+
+  async createProduct(insertProduct: InsertProduct, actor: AuditActor): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      const [product] = await tx
+        .insert(products)
+        .values(insertProduct)
+        .returning();
+      await this.recordAudit(tx, actor, "product.created", "product", product.id, {
+        model: product.model,
+        visible: product.visible,
+      });
+      return product;
+    });
+  }
+
+  async updateProduct(productId: number, updates: InsertProduct, actor: AuditActor): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(products).where(eq(products.id, productId));
+      if (!previous) {
+        return undefined;
+      }
+      const [product] = await tx
+        .update(products)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(products.id, productId))
+        .returning();
+      // Arrays compare by content so re-saving the same images isn't reported as a change
+      const changed = (Object.keys(updates) as (keyof InsertProduct)[])
+        .filter((key) => JSON.stringify(updates[key]) !== JSON.stringify(previous[key]));
+      if (changed.length > 0) {
+        await this.recordAudit(tx, actor, "product.updated", "product", productId, { model: product.model, fields: changed });
+      }
+      return product;
+    });
+  }
+
+  async deleteProduct(productId: number, actor: AuditActor): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => {
+      // Quote requests keep the copied product name
+      await tx
+        .update(quoteRequestItems)
+        .set({ productId: null })
+        .where(eq(quoteRequestItems.productId, productId));
+      const [product] = await tx
+        .delete(products)
+        .where(eq(products.id, productId))
+        .returning();
+      if (product) {
+        await this.recordAudit(tx, actor, "product.deleted", "product", productId, { model: product.model });
+      }
+      return product || undefined;
+    });
+  }
+
+  async createQuoteRequest(
+    request: Omit<InsertQuoteRequest, "items">,
+    items: { productId: number; productName: string; quantity: number }[],
+    spamScore = 0,
+  ): Promise<QuoteRequest> {
+    return await db.transaction(async (tx) => {
+      const [quoteRequest] = await tx
+        .insert(quoteRequests)
+        .values({ ...request, spamScore })
+        .returning();
+      await tx.insert(quoteRequestItems).values(items.map((item) => ({ ...item, quoteRequestId: quoteRequest.id })));
+      return quoteRequest;
+    });
+  }
+
+  async listQuoteRequests(): Promise<QuoteRequestSummary[]> {
+    const requests = await db.select().from(quoteRequests).orderBy(desc(quoteRequests.createdAt));
+    if (requests.length === 0) {
+      return [];
+    }
+    const ids = requests.map((request) => request.id);
+    const units = await db
+      .select({ quoteRequestId: quoteRequestItems.quoteRequestId, units: sql<number>`sum(${quoteRequestItems.quantity})::int` })
+      .from(quoteRequestItems)
+      .where(inArray(quoteRequestItems.quoteRequestId, ids))
+      .groupBy(quoteRequestItems.quoteRequestId);
+    const issued = await db
+      .select({ quoteRequestId: quotes.quoteRequestId, version: quotes.version, total: quotes.total })
+      .from(quotes)
+      .where(inArray(quotes.quoteRequestId, ids))
+      .orderBy(asc(quotes.version));
+
+    return requests.map((request) => {
+      const latest = issued.filter((quote) => quote.quoteRequestId === request.id).pop();
+      return {
+        ...request,
+        units: units.find((row) => row.quoteRequestId === request.id)?.units ?? 0,
+        latestVersion: latest?.version ?? null,
+        latestTotal: latest?.total ?? null,
+      };
+    });
+  }
+
+  async getQuoteRequest(quoteRequestId: number): Promise<QuoteRequestDetail | undefined> {
+    const [request] = await db.select().from(quoteRequests).where(eq(quoteRequests.id, quoteRequestId));
+    if (!request) {
+      return undefined;
+    }
+    const items = await db
+      .select({ item: quoteRequestItems, currentPrice: products.price })
+      .from(quoteRequestItems)
+      .leftJoin(products, eq(quoteRequestItems.productId, products.id))
+      .where(eq(quoteRequestItems.quoteRequestId, quoteRequestId))
+      .orderBy(asc(quoteRequestItems.id));
+    const issued = await db
+      .select()
+      .from(quotes)
+      .where(eq(quotes.quoteRequestId, quoteRequestId))
+      .orderBy(desc(quotes.version));
+    return {
+      request,
+      items: items.map(({ item, currentPrice }) => ({ ...item, currentPrice })),
+      quotes: issued,
+    };
+  }
+
+  async updateQuoteRequestStatus(quoteRequestId: number, status: QuoteRequestStatus, actor: AuditActor): Promise<QuoteRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(quoteRequests).where(eq(quoteRequests.id, quoteRequestId));
+      if (!previous) {
+        return undefined;
+      }
+      const [request] = await tx
+        .update(quoteRequests)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(quoteRequests.id, quoteRequestId))
+        .returning();
+      if (previous.status !== status) {
+        await this.recordAudit(tx, actor, "quote.status_changed", "quote_request", quoteRequestId, { from: previous.status, to: status });
+      }
+      return request;
+    });
+  }
+
+  // Numbers the quote after the request's latest one; the request row is locked so two
+  // admins issuing at once can't both take the same version
+  async issueQuote(quoteRequestId: number, issue: IssueQuote, totals: { subtotal: number; total: number }, actor: AuditActor): Promise<Quote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .select()
+        .from(quoteRequests)
+        .where(eq(quoteRequests.id, quoteRequestId))
+        .for("update");
+      if (!request) {
+        return undefined;
+      }
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${quotes.version}), 0)::int` })
+        .from(quotes)
+        .where(eq(quotes.quoteRequestId, quoteRequestId));
+      const [quote] = await tx
+        .insert(quotes)
+        .values({
+          quoteRequestId,
+          version: latest + 1,
+          lines: issue.lines,
+          shipping: issue.shipping,
+          duties: issue.duties,
+          subtotal: totals.subtotal,
+          total: totals.total,
+          notes: issue.notes ?? null,
+          validUntil: issue.validUntil ?? null,
+          issuedByAdminId: actor.adminId,
+          issuedByUsername: actor.username,
+        })
+        .returning();
+      if (request.status === "new") {
+        await tx
+          .update(quoteRequests)
+          .set({ status: "quoted", updatedAt: new Date() })
+          .where(eq(quoteRequests.id, quoteRequestId));
+      }
+      await this.recordAudit(tx, actor, "quote.issued", "quote_request", quoteRequestId, {
+        version: quote.version,
+        total: quote.total,
+      });
+      return quote;
+    });
+  }
+
+  async markQuoteEmailed(quoteId: number): Promise<void> {
+    await db.update(quotes).set({ emailedAt: new Date() }).where(eq(quotes.id, quoteId));
+  }
+
+  async getCalculatorDefaults(): Promise<CalculatorDefaults | undefined> {
+    const [defaults] = await db.select().from(calculatorDefaults).orderBy(asc(calculatorDefaults.id)).limit(1);
+    return defaults;
+  }
+
+  // The table holds a single row: the first save creates it and later ones update it
+  async saveCalculatorDefaults(market: ProfitabilityMarket, actor: AuditActor): Promise<CalculatorDefaults> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(calculatorDefaults).orderBy(asc(calculatorDefaults.id)).limit(1).for("update");
+      const values = { ...market, updatedByUsername: actor.username, updatedAt: new Date() };
+      const [saved] = previous
+        ? await tx.update(calculatorDefaults).set(values).where(eq(calculatorDefaults.id, previous.id)).returning()
+        : await tx.insert(calculatorDefaults).values(values).returning();
+      const fields = (Object.keys(market) as (keyof ProfitabilityMarket)[]).filter((field) => previous?.[field] !== market[field]);
+      if (fields.length > 0) {
+        await this.recordAudit(tx, actor, "calculator.defaults_updated", "calculator", null, { fields });
+      }
+      return saved;
+    });
+  }
+
+  async listHostingPlans(options: { visibleOnly?: boolean } = {}): Promise<HostingPlan[]> {
+    return await db
+      .select()
+      .from(hostingPlans)
+      .where(options.visibleOnly ? eq(hostingPlans.visible, true) : undefined)
+      .orderBy(asc(hostingPlans.sortOrder), asc(hostingPlans.id));
+  }
+
+  async getHostingPlanBySlug(slug: string): Promise<HostingPlan | undefined> {
+    const [plan] = await db.select().from(hostingPlans).where(eq(hostingPlans.slug, slug));
+    return plan || undefined;
+  }
+
+  async createHostingPlan(insertPlan: InsertHostingPlan, actor: AuditActor): Promise<HostingPlan> {
+    return await db.transaction(async (tx) => {
+      const [plan] = await tx
+        .insert(hostingPlans)
+        .values(insertPlan)
+        .returning();
+      await this.recordAudit(tx, actor, "hosting_plan.created", "hosting_plan", plan.id, {
+        name: plan.name,
+        visible: plan.visible,
+      });
+      return plan;
+    });
+  }
+
+  async updateHostingPlan(planId: number, updates: InsertHostingPlan, actor: AuditActor): Promise<HostingPlan | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(hostingPlans).where(eq(hostingPlans.id, planId));
+      if (!previous) {
+        return undefined;
+      }
+      const [plan] = await tx
+        .update(hostingPlans)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(hostingPlans.id, planId))
+        .returning();
+      // Sites compare by content, like product images
+      const changed = (Object.keys(updates) as (keyof InsertHostingPlan)[])
+        .filter((key) => JSON.stringify(updates[key]) !== JSON.stringify(previous[key]));
+      if (changed.length > 0) {
+        await this.recordAudit(tx, actor, "hosting_plan.updated", "hosting_plan", planId, { name: plan.name, fields: changed });
+      }
+      return plan;
+    });
+  }
+
+  async deleteHostingPlan(planId: number, actor: AuditActor): Promise<HostingPlan | undefined> {
+    return await db.transaction(async (tx) => {
+      const [plan] = await tx
+        .delete(hostingPlans)
+        .where(eq(hostingPlans.id, planId))
+        .returning();
+      if (plan) {
+        await this.recordAudit(tx, actor, "hosting_plan.deleted", "hosting_plan", planId, { name: plan.name });
+      }
+      return plan || undefined;
+    });
+  }
+
+  // Downloads of customer data leave a trail even though nothing in the database changes
+  async recordExport(actor: AuditActor, entityType: "contact" | "appointment", details: Record<string, unknown>): Promise<void> {
+    await this.recordAudit(db, actor, entityType === "contact" ? "contact.exported" : "appointment.exported", entityType, null, details);
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<{ entries: AuditLog[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.adminId !== undefined) conditions.push(eq(auditLogs.adminId, filters.adminId));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+    const where = conditions.length ? and(...conditions) : undefined;
+
+    const entries = await db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(filters.limit)
+      .offset(filters.offset);
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(auditLogs)
+      .where(where);
+
+    return { entries, total };
   }
 }
 
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateRecoveryCodes, hashRecoveryCode, isTotpCode, verifyTotp } from "./twoFactor.js";
+
+// RFC 6238 appendix B: the SHA-1 key "12345678901234567890" gives 94287082 at T = 59s (step 1)
+// and 07081804 at T = 1111111109s (step 37037036)
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const CODE_AT_STEP_1 = "287082";
+const LATER_STEP = 37037036;
+const CODE_AT_LATER_STEP = "081804";
+
+describe("verifyTotp", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts the current code and returns its step", () => {
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_STEP_1, null)).toBe(1);
+    expect(verifyTotp(SECRET, "287 082", null)).toBe(1);
+  });
+
+  it("allows one step of clock drift either way", () => {
+    vi.setSystemTime((LATER_STEP + 1) * 30 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_LATER_STEP, null)).toBe(LATER_STEP);
+    vi.setSystemTime((LATER_STEP - 1) * 30 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_LATER_STEP, null)).toBe(LATER_STEP);
+  });
+
+  it("rejects a code more than one step away", () => {
+    vi.setSystemTime((LATER_STEP + 2) * 30 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_LATER_STEP, null)).toBeNull();
+    vi.setSystemTime((LATER_STEP - 2) * 30 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_LATER_STEP, null)).toBeNull();
+  });
+
+  it("never accepts a step at or before the last one used", () => {
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_STEP_1, 1)).toBeNull();
+    expect(verifyTotp(SECRET, CODE_AT_STEP_1, 0)).toBe(1);
+  });
+
+  it("rejects wrong and malformed codes", () => {
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(SECRET, "287083", null)).toBeNull();
+    expect(verifyTotp(SECRET, "28708", null)).toBeNull();
+    expect(verifyTotp(SECRET, "abcdef", null)).toBeNull();
+  });
+});
+
+describe("isTotpCode", () => {
+  it("takes six digits, ignoring spaces", () => {
+    expect(isTotpCode("123 456")).toBe(true);
+    expect(isTotpCode("12345")).toBe(false);
+    expect(isTotpCode("k7mq2-xh9rt")).toBe(false);
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates ten distinct codes from the unambiguous alphabet", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{5}-[a-hjkmnp-z2-9]{5}$/);
+    }
+  });
+
+  it("hashes the same code the same way regardless of case, spaces and dashes", () => {
+    const hash = hashRecoveryCode("k7mq2-xh9rt");
+    expect(hashRecoveryCode("K7MQ2 XH9RT")).toBe(hash);
+    expect(hashRecoveryCode("k7mq2xh9rt")).toBe(hash);
+    expect(hashRecoveryCode("k7mq2-xh9rs")).not.toBe(hash);
+    expect(hash).not.toContain("k7mq2");
+  });
+});
@@ -0,0 +1,131 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { sign } from "./signing.js";
+
+// TOTP two-factor sign-in (RFC 6238 with SHA-1, 30 second steps and 6 digits, which every
+// authenticator app understands), recovery codes, and the short-lived token that carries a
+// sign-in from the password step to the code step.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ISSUER = "71 Digital";
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const RECOVERY_CODE_COUNT = 10;
+// No 0/o, 1/l/i, so codes survive being written down
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// When set, accounts without two-factor sign-in must enrol before they get a session
+export function isTwoFactorRequired() {
+  return process.env.REQUIRE_ADMIN_2FA === "true";
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, "").toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+// What the dashboard shows while enrolling: the QR code, plus the secret for typing in by hand
+export async function enrolmentDetails(secret: string, username: string) {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 }) };
+}
+
+function codeAt(key: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+  const hmac = createHmac("sha1", key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+export const isTotpCode = (code: string) => /^\d{6}$/.test(code.replace(/\s/g, ""));
+
+// Returns the time step the code belongs to, or null. One step either side is accepted for
+// clock drift, but never a step at or before lastStep, so each code works only once.
+export function verifyTotp(secret: string, code: string, lastStep: number | null): number | null {
+  const supplied = Buffer.from(code.replace(/\s/g, ""));
+  if (!isTotpCode(code)) {
+    return null;
+  }
+  const key = base32Decode(secret);
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (const step of [current - 1, current, current + 1]) {
+    if (lastStep !== null && step <= lastStep) {
+      continue;
+    }
+    if (timingSafeEqual(Buffer.from(codeAt(key, step)), supplied)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Ten codes like "k7mq2-xh9rt"; shown once, stored only as hashes
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+// The codes are random enough that a plain hash is safe; case, spaces and dashes are ignored
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.toLowerCase().replace(/[\s-]/g, "")).digest("hex");
+}
+
+// <adminId>.<expiresAt>.<signature>: proves the password step passed, without creating a session
+export function issueLoginChallenge(adminId: number): string {
+  const payload = `${adminId}.${Date.now() + LOGIN_CHALLENGE_TTL_MS}`;
+  return `${payload}.${sign(`login:${payload}`)}`;
+}
+
+// Returns the admin the challenge was issued to, or null when it's forged or expired
+export function verifyLoginChallenge(challenge: string): number | null {
+  const match = /^(\d+)\.(\d+)\.([A-Za-z0-9_-]+)$/.exec(challenge);
+  if (!match) {
+    return null;
+  }
+  const [, adminId, expiresAt, signature] = match;
+  const expected = Buffer.from(sign(`login:${adminId}.${expiresAt}`));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied) || Number(expiresAt) <= Date.now()) {
+    return null;
+  }
+  return Number(adminId);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { estimateHostingContract, formatContractTerm, formatDeposit, type HostingTerms } from "./hosting.js";
+
+const TERMS: HostingTerms = {
+  ratePerKwh: 0.06,
+  contractMonths: 24,
+  depositMonths: 2,
+  setupFeePerUnit: 100,
+};
+
+describe("estimateHostingContract", () => {
+  it("prices every machine around the clock over a 30-day month", () => {
+    const estimate = estimateHostingContract(TERMS, [
+      { powerWatts: 3000, quantity: 2 },
+      { powerWatts: 1500, quantity: 1 },
+    ]);
+    expect(estimate.units).toBe(3);
+    expect(estimate.powerKw).toBeCloseTo(7.5);
+    expect(estimate.monthlyKwh).toBeCloseTo(5400);
+    expect(estimate.monthlyFee).toBeCloseTo(324);
+    expect(estimate.deposit).toBeCloseTo(648);
+    expect(estimate.setupFees).toBe(300);
+    expect(estimate.dueAtSigning).toBeCloseTo(948);
+    expect(estimate.contractValue).toBeCloseTo(324 * 24 + 300);
+  });
+
+  it("is all zeros with no machines", () => {
+    expect(estimateHostingContract(TERMS, [])).toEqual({
+      units: 0,
+      powerKw: 0,
+      monthlyKwh: 0,
+      monthlyFee: 0,
+      deposit: 0,
+      setupFees: 0,
+      dueAtSigning: 0,
+      contractValue: 0,
+    });
+  });
+});
+
+describe("formatContractTerm", () => {
+  it("uses years for whole years and months otherwise", () => {
+    expect(formatContractTerm(12, false)).toBe("1 year");
+    expect(formatContractTerm(24, true)).toBe("2 years, renewable");
+    expect(formatContractTerm(18, false)).toBe("18 months");
+    expect(formatContractTerm(1, false)).toBe("1 month");
+  });
+});
+
+describe("formatDeposit", () => {
+  it("describes the months paid in advance", () => {
+    expect(formatDeposit(0)).toBe("None");
+    expect(formatDeposit(1)).toBe("1 month in advance");
+    expect(formatDeposit(3)).toBe("3 months in advance");
+  });
+});
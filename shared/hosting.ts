@@ -0,0 +1,68 @@
+// Hosting plans shown in the pricing section and the contract estimator built on them.
+import { DAYS_PER_MONTH } from "./profitability.js";
+
+// A location a plan can be hosted at; unavailable sites take waitlist requests only
+export interface HostingSite {
+  name: string;
+  available: boolean;
+}
+
+// The parts of a plan that price a contract
+export interface HostingTerms {
+  ratePerKwh: number; // USD, all-in hosting rate
+  contractMonths: number;
+  depositMonths: number; // months of hosting fees paid in advance
+  setupFeePerUnit: number; // USD, charged once per machine
+}
+
+export interface HostingEstimateLine {
+  powerWatts: number;
+  quantity: number;
+}
+
+export interface HostingEstimate {
+  units: number;
+  powerKw: number;
+  monthlyKwh: number;
+  monthlyFee: number;
+  deposit: number;
+  setupFees: number;
+  dueAtSigning: number; // deposit plus setup fees
+  contractValue: number; // hosting fees over the whole term plus setup fees
+}
+
+// "2 years, renewable", "18 months"
+export function formatContractTerm(months: number, renewable: boolean): string {
+  const length = months % 12 === 0
+    ? `${months / 12} year${months === 12 ? "" : "s"}`
+    : `${months} month${months === 1 ? "" : "s"}`;
+  return renewable ? `${length}, renewable` : length;
+}
+
+export function formatDeposit(depositMonths: number): string {
+  if (depositMonths === 0) {
+    return "None";
+  }
+  return `${depositMonths} month${depositMonths === 1 ? "" : "s"} in advance`;
+}
+
+// Machines run around the clock, billed on their rated power over a DAYS_PER_MONTH month
+export function estimateHostingContract(terms: HostingTerms, lines: HostingEstimateLine[]): HostingEstimate {
+  const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const powerKw = lines.reduce((sum, line) => sum + line.powerWatts * line.quantity, 0) / 1000;
+  const monthlyKwh = powerKw * 24 * DAYS_PER_MONTH;
+  const monthlyFee = monthlyKwh * terms.ratePerKwh;
+  const deposit = monthlyFee * terms.depositMonths;
+  const setupFees = terms.setupFeePerUnit * units;
+
+  return {
+    units,
+    powerKw,
+    monthlyKwh,
+    monthlyFee,
+    deposit,
+    setupFees,
+    dueAtSigning: deposit + setupFees,
+    contractValue: monthlyFee * terms.contractMonths + setupFees,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { passwordProblems } from "./passwords.js";
+
+describe("passwordProblems", () => {
+  it("accepts a long mixed-case password with a number or symbol", () => {
+    expect(passwordProblems("Correct-Horse-42", "owner")).toEqual([]);
+  });
+
+  it("lists every rule a password breaks", () => {
+    expect(passwordProblems("short", "owner")).toEqual([
+      "At least 12 characters",
+      "Upper and lower case letters",
+      "A number or symbol",
+    ]);
+  });
+
+  it("rejects passwords containing the username, in any case", () => {
+    expect(passwordProblems("Xx-Owner-2025-xX", "owner")).toEqual(["Not the username or a common password"]);
+  });
+
+  it("rejects common passwords dressed up with symbols and suffixes", () => {
+    expect(passwordProblems("P@ssw0rd-Longer-1", "owner")).toEqual([]);
+    expect(passwordProblems("Pass.word-12345", "owner")).toEqual(["Not the username or a common password"]);
+    expect(passwordProblems("Bitcoin2025!!", "owner")).toEqual(["Not the username or a common password"]);
+  });
+
+  it("skips the username rule when there is no username yet", () => {
+    expect(passwordProblems("Correct-Horse-42")).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+// Password rules for admin accounts. Shared so forms can show which rules a password
+// still misses while the server enforces the same list.
+
+export const PASSWORD_MIN_LENGTH = 12;
+export const PASSWORD_MAX_LENGTH = 128;
+
+// Passwords that appear near the top of every breach list
+const COMMON_PASSWORDS = [
+  "password", "passw0rd", "123456", "12345678", "123456789", "1234567890", "qwerty", "qwertyuiop",
+  "letmein", "welcome", "iloveyou", "admin", "admin123", "administrator", "changeme", "monkey",
+  "dragon", "football", "baseball", "sunshine", "trustno1", "bitcoin", "71digital",
+];
+
+interface PasswordRule {
+  label: string;
+  test: (password: string, username: string) => boolean;
+}
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+  },
+  {
+    label: "Upper and lower case letters",
+    test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password),
+  },
+  {
+    label: "A number or symbol",
+    test: (password) => /[^A-Za-z]/.test(password),
+  },
+  {
+    label: "Not the username or a common password",
+    test: (password, username) => {
+      const lowered = password.toLowerCase();
+      return !(username && lowered.includes(username.toLowerCase()))
+        && !COMMON_PASSWORDS.some((common) => lowered.replace(/[^a-z0-9]/g, "").startsWith(common));
+    },
+  },
+];
+
+// Labels of the rules the password breaks; empty when it's strong enough
+export function passwordProblems(password: string, username = ""): string[] {
+  return PASSWORD_RULES.filter((rule) => !rule.test(password, username)).map((rule) => rule.label);
+}
@@ -0,0 +1,79 @@
+import type { AdminRole } from "./schema.js";
+
+// Every action an admin route can be guarded by
+export type AdminPermission =
+  | "contacts:read"
+  | "contacts:update"
+  | "appointments:read"
+  | "appointments:update"
+  | "deals:read"
+  | "deals:update"
+  | "products:manage"
+  | "quotes:read"
+  | "quotes:update"
+  | "admins:read"
+  | "admins:manage"
+  | "audit:read"
+  | "availability:manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: [
+    "contacts:read",
+    "contacts:update",
+    "appointments:read",
+    "appointments:update",
+    "deals:read",
+    "deals:update",
+    "quotes:read",
+    "quotes:update",
+    "products:manage",
+    "admins:read",
+    "admins:manage",
+    "audit:read",
+    "availability:manage",
+  ],
+  manager: [
+    "contacts:read",
+    "contacts:update",
+    "appointments:read",
+    "appointments:update",
+    "deals:read",
+    "deals:update",
+    "quotes:read",
+    "quotes:update",
+    "products:manage",
+    "admins:read",
+    "audit:read",
+    "availability:manage",
+  ],
+  sales: [
+    "contacts:read",
+    "contacts:update",
+    "appointments:read",
+    "appointments:update",
+    "deals:read",
+    "deals:update",
+    "quotes:read",
+    "quotes:update",
+  ],
+  "read-only": [
+    "contacts:read",
+    "appointments:read",
+    "deals:read",
+    "quotes:read",
+  ],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  sales: "Sales",
+  "read-only": "Read-only",
+};
+
+export function hasPermission(role: string | null | undefined, permission: AdminPermission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[role as AdminRole].includes(permission);
+}
@@ -0,0 +1,32 @@
+// Mining hardware catalog shown on the store page and managed from the dashboard.
+
+export const COOLING_TYPE_OPTIONS = [
+  { value: "air", label: "Air Cooling" },
+  { value: "hydro", label: "Hydro Cooling" },
+  { value: "immersion", label: "Immersion Cooling" },
+] as const;
+
+export const COOLING_TYPES = ["air", "hydro", "immersion"] as const;
+
+export const HASHRATE_UNITS = ["TH/s", "GH/s", "MH/s"] as const;
+
+export function getCoolingLabel(value: string | null | undefined): string {
+  return COOLING_TYPE_OPTIONS.find((option) => option.value === value)?.label ?? value ?? "";
+}
+
+// Efficiency is joules per unit of hashrate: J/TH for TH/s machines, J/GH for GH/s and so on
+export function efficiencyUnit(hashrateUnit: string): string {
+  return `J/${hashrateUnit.replace(/\/s$/, "")}`;
+}
+
+// The listed efficiency, or one worked out from power and hashrate when none was entered
+export function productEfficiency(product: { efficiency: number | null; powerWatts: number; hashrate: number }): number | null {
+  if (product.efficiency !== null) {
+    return product.efficiency;
+  }
+  return product.hashrate > 0 ? Math.round((product.powerWatts / product.hashrate) * 10) / 10 : null;
+}
+
+export function formatUsd(amount: number): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { calculateProfitability, isBitcoinMiner, toTerahash, type ProfitabilityInputs } from "./profitability.js";
+
+// 1 TH/s against this difficulty finds exactly one block a day, which keeps the numbers readable
+const ONE_BLOCK_A_DAY: ProfitabilityInputs = {
+  hashrate: 1,
+  networkDifficulty: (1e12 * 86400) / 2 ** 32,
+  blockReward: 3,
+  poolFee: 0,
+  btcPrice: 100,
+  powerWatts: 1000,
+  electricityRate: 0.5,
+  hardwareCost: 1000,
+};
+
+describe("calculateProfitability", () => {
+  it("works out daily and monthly revenue, power cost and profit", () => {
+    const result = calculateProfitability(ONE_BLOCK_A_DAY);
+    expect(result.btcPerDay).toBeCloseTo(3);
+    expect(result.daily.revenue).toBeCloseTo(300);
+    expect(result.daily.cost).toBeCloseTo(12);
+    expect(result.daily.profit).toBeCloseTo(288);
+    expect(result.monthly.profit).toBeCloseTo(288 * 30);
+    expect(result.breakEvenDays).toBe(4);
+  });
+
+  it("takes the pool fee off the mined bitcoin", () => {
+    expect(calculateProfitability({ ...ONE_BLOCK_A_DAY, poolFee: 50 }).btcPerDay).toBeCloseTo(1.5);
+  });
+
+  it("has no break-even without a hardware cost or at a loss", () => {
+    expect(calculateProfitability({ ...ONE_BLOCK_A_DAY, hardwareCost: null }).breakEvenDays).toBeNull();
+    const losing = calculateProfitability({ ...ONE_BLOCK_A_DAY, electricityRate: 20 });
+    expect(losing.daily.profit).toBeLessThan(0);
+    expect(losing.breakEvenDays).toBeNull();
+  });
+
+  it("mines nothing when the difficulty is zero", () => {
+    expect(calculateProfitability({ ...ONE_BLOCK_A_DAY, networkDifficulty: 0 }).btcPerDay).toBe(0);
+  });
+});
+
+describe("toTerahash", () => {
+  it("converts catalog units to TH/s", () => {
+    expect(toTerahash(200, "TH/s")).toBe(200);
+    expect(toTerahash(9500, "GH/s")).toBeCloseTo(9.5);
+    expect(toTerahash(16000, "MH/s")).toBeCloseTo(0.016);
+  });
+});
+
+describe("isBitcoinMiner", () => {
+  it("only counts SHA-256 machines", () => {
+    expect(isBitcoinMiner({ algorithm: "SHA-256" })).toBe(true);
+    expect(isBitcoinMiner({ algorithm: "sha-256" })).toBe(true);
+    expect(isBitcoinMiner({ algorithm: "Scrypt" })).toBe(false);
+  });
+});
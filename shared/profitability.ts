@@ -0,0 +1,78 @@
+// Bitcoin mining profitability, shared by the public calculator page (which works it out in the
+// browser as inputs change) and the /api/profitability endpoint.
+
+export interface ProfitabilityMarket {
+  electricityRate: number; // USD per kWh
+  networkDifficulty: number;
+  blockReward: number; // BTC per block
+  btcPrice: number; // USD
+  poolFee: number; // percent of mined BTC
+}
+
+export interface ProfitabilityInputs extends ProfitabilityMarket {
+  hashrate: number; // TH/s
+  powerWatts: number;
+  hardwareCost: number | null; // USD, for the break-even estimate
+}
+
+export interface ProfitabilityPeriod {
+  revenue: number;
+  cost: number;
+  profit: number;
+}
+
+export interface ProfitabilityResult {
+  btcPerDay: number;
+  daily: ProfitabilityPeriod;
+  monthly: ProfitabilityPeriod;
+  breakEvenDays: number | null; // null when there's no hardware cost or the miner runs at a loss
+}
+
+// Used until an admin saves their own in the dashboard
+export const DEFAULT_PROFITABILITY_MARKET: ProfitabilityMarket = {
+  electricityRate: 0.065,
+  networkDifficulty: 127.6e12,
+  blockReward: 3.125,
+  btcPrice: 100000,
+  poolFee: 2,
+};
+
+export const DAYS_PER_MONTH = 30;
+
+const HASHES_PER_TH: Record<string, number> = {
+  "TH/s": 1,
+  "GH/s": 1e-3,
+  "MH/s": 1e-6,
+};
+
+// Catalog hashrates come in the product's own unit; the calculator works in TH/s
+export function toTerahash(hashrate: number, unit: string): number {
+  return hashrate * (HASHES_PER_TH[unit] ?? 1);
+}
+
+// Only SHA-256 machines mine bitcoin
+export function isBitcoinMiner(product: { algorithm: string }): boolean {
+  return product.algorithm.toUpperCase() === "SHA-256";
+}
+
+function period(revenue: number, cost: number, days: number): ProfitabilityPeriod {
+  return { revenue: revenue * days, cost: cost * days, profit: (revenue - cost) * days };
+}
+
+// Expected share of block rewards: a miner finds hashrate * 86400 / (difficulty * 2^32) blocks a day
+export function calculateProfitability(inputs: ProfitabilityInputs): ProfitabilityResult {
+  const hashesPerSecond = inputs.hashrate * 1e12;
+  const blocksPerDay = inputs.networkDifficulty > 0 ? (hashesPerSecond * 86400) / (inputs.networkDifficulty * 2 ** 32) : 0;
+  const btcPerDay = blocksPerDay * inputs.blockReward * (1 - inputs.poolFee / 100);
+
+  const revenue = btcPerDay * inputs.btcPrice;
+  const cost = (inputs.powerWatts / 1000) * 24 * inputs.electricityRate;
+  const dailyProfit = revenue - cost;
+
+  return {
+    btcPerDay,
+    daily: period(revenue, cost, 1),
+    monthly: period(revenue, cost, DAYS_PER_MONTH),
+    breakEvenDays: inputs.hardwareCost && dailyProfit > 0 ? Math.ceil(inputs.hardwareCost / dailyProfit) : null,
+  };
+}
@@ -0,0 +1,17 @@
+// Quote requests from the store's cart and the priced, versioned quotes admins issue for them.
+
+export const QUOTE_REQUEST_STATUSES = ["new", "quoted", "closed"] as const;
+
+// One priced line on an issued quote. productId is kept for reference only; the description
+// is what the customer saw, so later catalog changes don't rewrite old quotes.
+export interface QuoteLine {
+  productId: number | null;
+  description: string;
+  quantity: number;
+  unitPrice: number; // USD
+}
+
+export function quoteTotals(lines: Pick<QuoteLine, "quantity" | "unitPrice">[], shipping: number, duties: number) {
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+  return { subtotal, total: subtotal + shipping + duties };
+}
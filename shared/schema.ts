@@ -1,6 +1,12 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, doublePrecision, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { getServiceOption } from "./services.js";
+import { isCalendarDate, isValidTimeZone } from "./timezones.js";
+import { PASSWORD_MAX_LENGTH, passwordProblems } from "./passwords.js";
+import { COOLING_TYPES, HASHRATE_UNITS } from "./products.js";
+import { QUOTE_REQUEST_STATUSES, type QuoteLine } from "./quotes.js";
+import type { HostingSite } from "./hosting.js";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -18,9 +24,28 @@ export const contactSubmissions = pgTable("contact_submissions", {
   message: text("message").notNull(),
   status: text("status").default("unread").notNull(), // unread, responded, ignored
   rejectionReason: text("rejection_reason"),
+  spamScore: integer("spam_score").default(0).notNull(), // 0-100, see server/spam.ts
+  // Admin following up on this lead; cleared if their account is deleted
+  assignedAdminId: integer("assigned_admin_id").references(() => adminUsers.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Timeline shown on a contact submission: internal notes, replies sent to the client, status
+// changes and owner changes.
+// Like audit_logs, the author's username is copied so entries outlive their account.
+export const contactEvents = pgTable("contact_events", {
+  id: serial("id").primaryKey(),
+  contactId: integer("contact_id").references(() => contactSubmissions.id).notNull(),
+  type: text("type").notNull(), // see CONTACT_EVENT_TYPES
+  adminId: integer("admin_id"),
+  adminUsername: text("admin_username").notNull(),
+  body: text("body"), // the note, or the text of the reply as sent
+  details: jsonb("details").$type<Record<string, unknown>>(), // reply: to, subject; status: from, to, reason; owner: from, to (usernames)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const CONTACT_EVENT_TYPES = ["note", "reply", "status", "owner"] as const;
+
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
   fullName: text("full_name").notNull(),
@@ -28,21 +53,181 @@ export const appointments = pgTable("appointments", {
   phoneNumber: text("phone_number"),
   companyName: text("company_name"),
   serviceType: text("service_type").notNull(),
-  preferredDate: text("preferred_date").notNull(),
-  preferredTime: text("preferred_time").notNull(),
-  timezone: text("timezone").notNull(),
+  scheduledAt: timestamp("scheduled_at", { withTimezone: true }).notNull(), // start of the consultation (UTC instant)
+  timezone: text("timezone").notNull(), // client's IANA timezone, e.g. "Europe/London"
   message: text("message"),
-  status: text("status").default("pending").notNull(), // pending, approved, rejected, completed
+  status: text("status").default("pending").notNull(), // pending, approved, rejected, completed, cancelled
   rejectionReason: text("rejection_reason"),
   approvedAt: timestamp("approved_at"),
   completedAt: timestamp("completed_at"),
+  spamScore: integer("spam_score").default(0).notNull(), // 0-100, see server/spam.ts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Weekly opening hours for consultations, in the business timezone (Asia/Dubai).
+// Until an admin saves a schedule the defaults in server/availability.ts apply.
+export const workingHours = pgTable("working_hours", {
+  id: serial("id").primaryKey(),
+  dayOfWeek: integer("day_of_week").notNull().unique(), // 0 = Sunday ... 6 = Saturday
+  isOpen: boolean("is_open").default(true).notNull(),
+  startTime: text("start_time").notNull(), // HH:mm
+  endTime: text("end_time").notNull(), // HH:mm
+});
+
+export const blackoutDates = pgTable("blackout_dates", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull().unique(), // YYYY-MM-DD
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const DEAL_STAGES = ["qualified", "proposal", "negotiation", "won", "lost"] as const;
+
+// Sales pipeline. A deal is usually converted from a contact submission or an appointment
+// (at most one deal each) and carries the commercial details the original request lacked.
+export const deals = pgTable("deals", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  companyName: text("company_name"),
+  contactName: text("contact_name").notNull(),
+  email: text("email").notNull(),
+  phoneNumber: text("phone_number"),
+  service: text("service"), // requested service, as shown to admins
+  estimatedMw: real("estimated_mw"), // capacity for hosting and site deals
+  unitCount: integer("unit_count"), // number of machines, for hardware deals
+  value: integer("value"), // estimated value in USD
+  stage: text("stage").default("qualified").notNull(), // see DEAL_STAGES
+  lostReason: text("lost_reason"),
+  ownerAdminId: integer("owner_admin_id").references(() => adminUsers.id),
+  contactSubmissionId: integer("contact_submission_id").references(() => contactSubmissions.id).unique(),
+  appointmentId: integer("appointment_id").references(() => appointments.id).unique(),
+  stageChangedAt: timestamp("stage_changed_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Mining hardware for the store page. Hidden products stay in the catalog but only admins see them.
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(), // stable identifier used in structured data
+  model: text("model").notNull(),
+  manufacturer: text("manufacturer").notNull(),
+  algorithm: text("algorithm").notNull(), // e.g. SHA-256, Scrypt
+  hashrate: real("hashrate").notNull(),
+  hashrateUnit: text("hashrate_unit").default("TH/s").notNull(), // see HASHRATE_UNITS
+  powerWatts: integer("power_watts").notNull(),
+  efficiency: real("efficiency"), // joules per hashrate unit; worked out from power and hashrate when empty
+  coolingType: text("cooling_type").notNull(), // see COOLING_TYPES
+  description: text("description"),
+  bestFor: text("best_for"),
+  warrantyMonths: integer("warranty_months"),
+  images: jsonb("images").$type<string[]>().default([]).notNull(), // URLs, first one is the main image
+  stock: integer("stock").default(0).notNull(),
+  price: integer("price"), // USD per unit; empty means price on request
+  visible: boolean("visible").default(true).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A visitor's cart from the store page, submitted with their contact details
+export const quoteRequests = pgTable("quote_requests", {
+  id: serial("id").primaryKey(),
+  fullName: text("full_name").notNull(),
+  email: text("email").notNull(),
+  companyName: text("company_name"),
+  phoneNumber: text("phone_number"),
+  message: text("message"),
+  status: text("status").default("new").notNull(), // see QUOTE_REQUEST_STATUSES
+  spamScore: integer("spam_score").default(0).notNull(), // 0-100, see server/spam.ts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// The models and quantities in a request. The name is copied so the request still reads
+// correctly after the product is renamed or removed from the catalog.
+export const quoteRequestItems = pgTable("quote_request_items", {
+  id: serial("id").primaryKey(),
+  quoteRequestId: integer("quote_request_id").references(() => quoteRequests.id).notNull(),
+  productId: integer("product_id").references(() => products.id), // cleared if the product is deleted
+  productName: text("product_name").notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+// Each time a quote is issued for a request it gets the next version; issued quotes never change
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  quoteRequestId: integer("quote_request_id").references(() => quoteRequests.id).notNull(),
+  version: integer("version").notNull(),
+  lines: jsonb("lines").$type<QuoteLine[]>().notNull(),
+  shipping: integer("shipping").default(0).notNull(), // USD, shipping to the UAE
+  duties: integer("duties").default(0).notNull(), // USD, UAE import duties and VAT
+  subtotal: integer("subtotal").notNull(),
+  total: integer("total").notNull(),
+  notes: text("notes"),
+  validUntil: text("valid_until"), // YYYY-MM-DD
+  issuedByAdminId: integer("issued_by_admin_id"),
+  issuedByUsername: text("issued_by_username").notNull(),
+  emailedAt: timestamp("emailed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("quotes_request_version_unique").on(table.quoteRequestId, table.version),
+]);
+
+// Starting values for the public profitability calculator; a single row, and until an admin
+// saves one the defaults in shared/profitability.ts apply
+export const calculatorDefaults = pgTable("calculator_defaults", {
+  id: serial("id").primaryKey(),
+  electricityRate: doublePrecision("electricity_rate").notNull(), // USD per kWh at our hosting sites
+  networkDifficulty: doublePrecision("network_difficulty").notNull(),
+  blockReward: doublePrecision("block_reward").notNull(), // BTC
+  btcPrice: doublePrecision("btc_price").notNull(), // USD
+  poolFee: doublePrecision("pool_fee").notNull(), // percent
+  updatedByUsername: text("updated_by_username"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Hosting plans on the pricing section and contract estimator. Hidden plans stay for admins only.
+export const hostingPlans = pgTable("hosting_plans", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  cooling: text("cooling").notNull(), // as shown, e.g. "Air Cooling & Hydro"
+  supportedHardware: text("supported_hardware").notNull(), // e.g. "Bitmain & Whatsminer"
+  sites: jsonb("sites").$type<HostingSite[]>().default([]).notNull(),
+  ratePerKwh: doublePrecision("rate_per_kwh").notNull(), // USD
+  contractMonths: integer("contract_months").notNull(),
+  renewable: boolean("renewable").default(true).notNull(),
+  depositMonths: integer("deposit_months").default(0).notNull(), // months of hosting fees paid in advance
+  setupFeePerUnit: integer("setup_fee_per_unit").default(0).notNull(), // USD per machine, charged once
+  maintenanceIncluded: boolean("maintenance_included").default(true).notNull(),
+  visible: boolean("visible").default(true).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const ADMIN_ROLES = ["owner", "manager", "sales", "read-only"] as const;
+
 export const adminUsers = pgTable("admin_users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Where password reset links are sent; admins without one can only be reset by another admin
+  email: text("email").unique(),
+  // Accounts created before roles existed had full access, so they default to owner
+  role: text("role").default("owner").notNull(), // owner, manager, sales, read-only
+  // Secret part of this admin's subscribable appointments calendar URL; null until first requested
+  calendarFeedToken: text("calendar_feed_token").unique(),
+  // Consecutive failed sign-ins since the last success; reaching the limit sets lockedUntil
+  failedLoginCount: integer("failed_login_count").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  // Base32 TOTP secret; two-factor sign-in is on once this is set
+  totpSecret: text("totp_secret"),
+  // Secret shown during enrolment, promoted to totpSecret when the first code checks out
+  totpPendingSecret: text("totp_pending_secret"),
+  // Time step of the last accepted code, so a code can't be replayed within its window
+  totpLastStep: integer("totp_last_step"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -50,10 +235,110 @@ export const adminSessions = pgTable("admin_sessions", {
   id: serial("id").primaryKey(),
   sessionToken: text("session_token").notNull().unique(),
   adminId: integer("admin_id").references(() => adminUsers.id).notNull(),
+  // Idle expiry, pushed forward as the session is used but never past absoluteExpiresAt
   expiresAt: timestamp("expires_at").notNull(),
+  // Defaults to now so sessions from before the cap existed end at once
+  absoluteExpiresAt: timestamp("absolute_expires_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  // Where the session was last used from, so admins can recognise their devices
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One-time codes for signing in without the authenticator app; only hashes are stored
+export const adminRecoveryCodes = pgTable("admin_recovery_codes", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => adminUsers.id).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Single-use links for an admin who forgot their password; only the token's hash is stored
+export const adminPasswordResets = pgTable("admin_password_resets", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  adminId: integer("admin_id").references(() => adminUsers.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  ipAddress: text("ip_address"), // who asked for the link
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every sign-in attempt, kept for throttling by username and IP and shown to admins.
+// Like audit_logs, adminId has no foreign key so rows outlive deleted accounts.
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(), // as typed, lowercased
+  adminId: integer("admin_id"), // null when no account has that username
+  ipAddress: text("ip_address"),
+  succeeded: boolean("succeeded").notNull(),
+  reason: text("reason"), // why it failed: see LOGIN_FAILURE_REASONS
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const LOGIN_FAILURE_REASONS = ["bad_password", "bad_code", "unknown_user", "locked", "ip_blocked"] as const;
+
+// Append-only record of admin activity. adminId has no foreign key and the
+// username is copied so entries survive the admin account being deleted.
+export const auditLogs = pgTable("audit_logs", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id"),
+  adminUsername: text("admin_username").notNull(),
+  action: text("action").notNull(), // see AUDIT_ACTIONS
+  entityType: text("entity_type").notNull(), // contact, appointment, deal, product, quote_request, calculator, hosting_plan, working_hours, blackout_date, admin, session
+  entityId: integer("entity_id"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const AUDIT_ACTIONS = [
+  "contact.status_changed",
+  "contact.note_added",
+  "contact.replied",
+  "contact.assigned",
+  "appointment.status_changed",
+  "appointment.rescheduled",
+  "contact.exported",
+  "appointment.exported",
+  "deal.created",
+  "deal.updated",
+  "deal.stage_changed",
+  "product.created",
+  "product.updated",
+  "product.deleted",
+  "quote.issued",
+  "quote.status_changed",
+  "calculator.defaults_updated",
+  "hosting_plan.created",
+  "hosting_plan.updated",
+  "hosting_plan.deleted",
+  "availability.hours_updated",
+  "availability.date_blocked",
+  "availability.date_unblocked",
+  "admin.created",
+  "admin.updated",
+  "admin.deleted",
+  "admin.login",
+  "admin.logout",
+  "admin.session_revoked",
+  "admin.calendar_feed_issued",
+  "admin.locked",
+  "admin.unlocked",
+  "admin.two_factor_enabled",
+  "admin.two_factor_disabled",
+  "admin.recovery_codes_generated",
+  "admin.recovery_code_used",
+  "admin.password_reset_requested",
+  "admin.password_reset",
+] as const;
+
+// Columns the admin contact and appointment lists can be sorted by
+export const CONTACT_SORT_FIELDS = ["createdAt", "fullName", "status"] as const;
+export const APPOINTMENT_SORT_FIELDS = ["scheduledAt", "createdAt", "fullName", "status"] as const;
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -72,39 +357,319 @@ export const insertContactSubmissionSchema = createInsertSchema(contactSubmissio
   service: z.string().optional(),
 });
 
+export const insertContactNoteSchema = z.object({
+  body: z.string().trim().min(1, "Note cannot be empty").max(5000, "Notes are limited to 5000 characters"),
+});
+
+// An email to the person who submitted the form, sent from the contact drawer
+export const contactReplySchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(200, "Subject is limited to 200 characters"),
+  message: z.string().trim().min(1, "Message cannot be empty").max(10000, "Message is limited to 10000 characters"),
+});
+
+// null leaves the lead unassigned
+export const assignContactSchema = z.object({
+  adminId: z.number().int().positive().nullable(),
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:mm");
+const calendarDate = z.string().refine(isCalendarDate, "Date must be a real date as YYYY-MM-DD");
+
 export const insertAppointmentSchema = createInsertSchema(appointments).pick({
   fullName: true,
   email: true,
   phoneNumber: true,
   companyName: true,
   serviceType: true,
-  preferredDate: true,
-  preferredTime: true,
+  scheduledAt: true,
   timezone: true,
   message: true,
 }).extend({
+  serviceType: z.string().refine((value) => !!getServiceOption(value), "Please choose a service"),
+  scheduledAt: z.coerce.date({ invalid_type_error: "Please select a time slot" }),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
   phoneNumber: z.string().optional(),
   companyName: z.string().optional(),
   message: z.string().optional(),
 });
 
+// A customer moving their own booking through the manage link
+export const rescheduleAppointmentSchema = insertAppointmentSchema.pick({
+  scheduledAt: true,
+  timezone: true,
+});
+
 export const insertAdminUserSchema = createInsertSchema(adminUsers).pick({
   username: true,
   password: true,
+  email: true,
+  role: true,
+}).extend({
+  email: z.string().trim().email("Please enter a valid email address").nullable().optional(),
+  role: z.enum(ADMIN_ROLES).optional(),
 });
 
+const optionalText = z.string().trim().max(200).nullable().optional();
+
+const dealFields = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200, "Title is limited to 200 characters"),
+  companyName: optionalText,
+  contactName: z.string().trim().min(1, "Contact name is required").max(200),
+  email: z.string().trim().email("Please enter a valid email address"),
+  phoneNumber: optionalText,
+  service: optionalText,
+  estimatedMw: z.number().positive("Capacity must be more than 0 MW").max(100000).nullable().optional(),
+  unitCount: z.number().int("Unit count must be a whole number").positive("Unit count must be more than 0").nullable().optional(),
+  value: z.number().int("Value must be a whole number of dollars").min(0, "Value can't be negative").nullable().optional(),
+  stage: z.enum(DEAL_STAGES).optional(),
+  lostReason: z.string().trim().max(500).nullable().optional(),
+  ownerAdminId: z.number().int().positive().nullable().optional(),
+});
+
+// A new deal, optionally converted from one contact submission or appointment
+export const insertDealSchema = dealFields.extend({
+  contactSubmissionId: z.number().int().positive().nullable().optional(),
+  appointmentId: z.number().int().positive().nullable().optional(),
+}).refine((deal) => !(deal.contactSubmissionId && deal.appointmentId), "A deal comes from a contact or an appointment, not both");
+
+// Any subset of the fields; where a deal came from never changes
+export const updateDealSchema = dealFields.partial();
+
+// Site-relative paths (e.g. /images/products/s21.png) or absolute http(s) URLs
+const productImage = z.string().trim().max(500).refine(
+  (value) => value.startsWith("/") || /^https?:\/\//.test(value),
+  "Images must be a URL or a path starting with /",
+);
+
+// Created and edited as a whole from the dashboard's product form
+export const insertProductSchema = z.object({
+  slug: z.string().trim().min(1, "Slug is required").max(100).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and single hyphens"),
+  model: z.string().trim().min(1, "Model is required").max(200),
+  manufacturer: z.string().trim().min(1, "Manufacturer is required").max(200),
+  algorithm: z.string().trim().min(1, "Algorithm is required").max(50),
+  hashrate: z.number().positive("Hashrate must be more than 0"),
+  hashrateUnit: z.enum(HASHRATE_UNITS),
+  powerWatts: z.number().int("Power must be a whole number of watts").positive("Power must be more than 0"),
+  efficiency: z.number().positive("Efficiency must be more than 0").nullable(),
+  coolingType: z.enum(COOLING_TYPES),
+  description: z.string().trim().max(2000).nullable(),
+  bestFor: optionalText,
+  warrantyMonths: z.number().int().min(0).max(120).nullable(),
+  images: z.array(productImage).max(10, "Add at most 10 images"),
+  stock: z.number().int("Stock must be a whole number").min(0, "Stock can't be negative"),
+  price: z.number().int("Price must be a whole number of dollars").min(0, "Price can't be negative").nullable(),
+  visible: z.boolean(),
+  sortOrder: z.number().int(),
+});
+
+// The cart submitted from the store page
+export const insertQuoteRequestSchema = z.object({
+  fullName: z.string().trim().min(1, "Name is required").max(200),
+  email: z.string().trim().email("Please enter a valid email address"),
+  companyName: z.string().trim().max(200).optional(),
+  phoneNumber: z.string().trim().max(50).optional(),
+  message: z.string().trim().max(5000, "Message is limited to 5000 characters").optional(),
+  items: z.array(z.object({
+    productId: z.number().int().positive(),
+    quantity: z.number().int("Quantities must be whole numbers").min(1, "Quantities must be at least 1").max(10000),
+  })).min(1, "Add at least one product to your quote").max(20, "A quote can include at most 20 products"),
+});
+
+export const issueQuoteSchema = z.object({
+  lines: z.array(z.object({
+    productId: z.number().int().positive().nullable(),
+    description: z.string().trim().min(1, "Every line needs a description").max(200),
+    quantity: z.number().int("Quantities must be whole numbers").min(1, "Quantities must be at least 1"),
+    unitPrice: z.number().int("Prices must be whole dollars").min(0, "Prices can't be negative"),
+  })).min(1, "A quote needs at least one line").max(50),
+  shipping: z.number().int("Shipping must be whole dollars").min(0, "Shipping can't be negative"),
+  duties: z.number().int("Duties must be whole dollars").min(0, "Duties can't be negative"),
+  notes: z.string().trim().max(5000).nullable().optional(),
+  validUntil: calendarDate.nullable().optional(),
+});
+
+export const updateQuoteRequestStatusSchema = z.object({
+  status: z.enum(QUOTE_REQUEST_STATUSES),
+});
+
+export const profitabilityMarketSchema = z.object({
+  electricityRate: z.number().min(0, "Electricity rate can't be negative").max(10),
+  networkDifficulty: z.number().positive("Network difficulty must be positive"),
+  blockReward: z.number().positive("Block reward must be positive"),
+  btcPrice: z.number().positive("BTC price must be positive"),
+  poolFee: z.number().min(0, "Pool fee can't be negative").max(100, "Pool fee is a percentage"),
+});
+
+// Either a catalog product or a hashrate and power of the visitor's own; market values left out
+// fall back to the admin defaults
+export const profitabilityRequestSchema = profitabilityMarketSchema.partial().extend({
+  productId: z.number().int().positive().optional(),
+  hashrate: z.number().positive("Hashrate must be positive").optional(), // TH/s
+  powerWatts: z.number().positive("Power must be positive").optional(),
+  hardwareCost: z.number().min(0).nullable().optional(),
+}).refine((request) => request.productId !== undefined || (request.hashrate !== undefined && request.powerWatts !== undefined), {
+  message: "Choose a model or enter a hashrate and power",
+});
+
+// Created and edited as a whole from the dashboard's hosting plan form
+export const insertHostingPlanSchema = z.object({
+  slug: z.string().trim().min(1, "Slug is required").max(100).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and single hyphens"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  cooling: z.string().trim().min(1, "Cooling is required").max(100),
+  supportedHardware: z.string().trim().min(1, "Supported hardware is required").max(200),
+  sites: z.array(z.object({
+    name: z.string().trim().min(1, "Every site needs a name").max(100),
+    available: z.boolean(),
+  })).min(1, "Add at least one site").max(20),
+  ratePerKwh: z.number().positive("Rate must be more than 0").max(10),
+  contractMonths: z.number().int("Contract length must be whole months").min(1, "Contract length must be at least a month").max(240),
+  renewable: z.boolean(),
+  depositMonths: z.number().int("Deposit must be whole months").min(0, "Deposit can't be negative").max(24),
+  setupFeePerUnit: z.number().int("Setup fee must be whole dollars").min(0, "Setup fee can't be negative"),
+  maintenanceIncluded: z.boolean(),
+  visible: z.boolean(),
+  sortOrder: z.number().int(),
+});
+
+export const workingHoursSchema = z.array(z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  isOpen: z.boolean(),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+}).refine((day) => !day.isOpen || day.startTime < day.endTime, "Closing time must be after opening time"))
+  .length(7, "Provide hours for every day of the week")
+  .refine((days) => new Set(days.map((day) => day.dayOfWeek)).size === 7, "Each day of the week must appear once");
+
+export const insertBlackoutDateSchema = createInsertSchema(blackoutDates).pick({
+  date: true,
+  reason: true,
+}).extend({
+  date: calendarDate,
+  reason: z.string().optional(),
+});
+
+// The dashboard gets its session in a cookie; API clients send tokenType "bearer" to get the token back instead
+const sessionTokenType = z.literal("bearer").optional();
+
 export const adminLoginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
+  tokenType: sessionTokenType,
+});
+
+// Second sign-in step: an authenticator code or one of the recovery codes
+export const adminTwoFactorLoginSchema = z.object({
+  challenge: z.string().min(1),
+  code: z.string().trim().min(1, "Enter the code from your authenticator app or a recovery code"),
+  tokenType: sessionTokenType,
+});
+
+// The same rules for every way an admin account gets its username
+export const adminUsernameSchema = z.string({ required_error: "Username is required" })
+  .trim()
+  .min(3, "Username must be at least 3 characters")
+  .max(50, "Username must be at most 50 characters");
+
+// First owner account, created through the one-time setup page
+export const adminSetupSchema = z.object({
+  token: z.string().trim().min(1, "Setup token is required"),
+  username: adminUsernameSchema,
+  email: z.union([z.literal(""), z.string().trim().email("Please enter a valid email address")]).optional(),
+  password: z.string().max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`),
+  confirmPassword: z.string(),
+}).superRefine((data, ctx) => {
+  const problems = passwordProblems(data.password, data.username);
+  if (problems.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["password"], message: `Password needs: ${problems.join(", ").toLowerCase()}` });
+  }
+  if (data.password !== data.confirmPassword) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["confirmPassword"], message: "Passwords do not match" });
+  }
+});
+
+// An account created or edited from the Admins tab. Both routes use this schema; creating also
+// requires a password. An empty email clears it, and an omitted field is left unchanged on edit.
+export const adminAccountSchema = z.object({
+  username: adminUsernameSchema,
+  email: z.union([z.literal(""), z.string().trim().email("Please enter a valid email address")])
+    .nullable()
+    .optional()
+    .transform((email) => (email === undefined ? undefined : email ? email.toLowerCase() : null)),
+  password: z.string().max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`).optional(),
+  role: z.enum(ADMIN_ROLES, { errorMap: () => ({ message: "Invalid role" }) }).optional(),
+}).superRefine((data, ctx) => {
+  const problems = data.password ? passwordProblems(data.password, data.username) : [];
+  if (problems.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["password"], message: `Password needs: ${problems.join(", ").toLowerCase()}` });
+  }
+});
+
+// "Forgot password": the link goes to the address on the account matching the username or email
+export const adminPasswordResetRequestSchema = z.object({
+  identifier: z.string().trim().min(1, "Enter your username or email address").max(254),
+});
+
+// The new password itself is checked against the policy once the account is known
+export const adminPasswordResetSchema = z.object({
+  password: z.string().max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+// Filters and page of the admin activity log, from the query string
+export const auditLogQuerySchema = z.object({
+  action: z.string().optional(),
+  adminId: z.coerce.number().int().positive("Invalid admin").optional(),
+  entityType: z.string().optional(),
+  from: z.coerce.date({ errorMap: () => ({ message: "Invalid date range" }) }).optional(),
+  to: z.coerce.date({ errorMap: () => ({ message: "Invalid date range" }) }).optional(),
+  limit: z.coerce.number().int().positive("Invalid page size").max(200, "Invalid page size").optional(),
+  offset: z.coerce.number().int().nonnegative("Invalid offset").optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertContactSubmission = z.infer<typeof insertContactSubmissionSchema>;
 export type ContactSubmission = typeof contactSubmissions.$inferSelect;
+export type ContactEvent = typeof contactEvents.$inferSelect;
+export type ContactEventType = typeof CONTACT_EVENT_TYPES[number];
+export type InsertContactNote = z.infer<typeof insertContactNoteSchema>;
+export type ContactReply = z.infer<typeof contactReplySchema>;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type RescheduleAppointment = z.infer<typeof rescheduleAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
+export type Deal = typeof deals.$inferSelect;
+export type DealStage = typeof DEAL_STAGES[number];
+export type InsertDeal = z.infer<typeof insertDealSchema>;
+export type UpdateDeal = z.infer<typeof updateDealSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type QuoteRequest = typeof quoteRequests.$inferSelect;
+export type QuoteRequestItem = typeof quoteRequestItems.$inferSelect;
+export type QuoteRequestStatus = typeof QUOTE_REQUEST_STATUSES[number];
+export type InsertQuoteRequest = z.infer<typeof insertQuoteRequestSchema>;
+export type Quote = typeof quotes.$inferSelect;
+export type IssueQuote = z.infer<typeof issueQuoteSchema>;
+export type CalculatorDefaults = typeof calculatorDefaults.$inferSelect;
+export type HostingPlan = typeof hostingPlans.$inferSelect;
+export type InsertHostingPlan = z.infer<typeof insertHostingPlanSchema>;
+export type AdminRole = typeof ADMIN_ROLES[number];
 export type AdminUser = typeof adminUsers.$inferSelect;
 export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
 export type AdminSession = typeof adminSessions.$inferSelect;
 export type AdminLoginData = z.infer<typeof adminLoginSchema>;
+export type AdminSetupData = z.infer<typeof adminSetupSchema>;
+export type AdminTwoFactorLoginData = z.infer<typeof adminTwoFactorLoginSchema>;
+export type AdminPasswordResetRequestData = z.infer<typeof adminPasswordResetRequestSchema>;
+export type AdminPasswordResetData = z.infer<typeof adminPasswordResetSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type LoginFailureReason = typeof LOGIN_FAILURE_REASONS[number];
+export type WorkingHours = typeof workingHours.$inferSelect;
+export type InsertWorkingHours = z.infer<typeof workingHoursSchema>[number];
+export type BlackoutDate = typeof blackoutDates.$inferSelect;
+export type InsertBlackoutDate = z.infer<typeof insertBlackoutDateSchema>;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
@@ -0,0 +1,79 @@
+// Consultation services offered on the booking page. durationMinutes is the
+// upper end of the advertised duration and is what a booking blocks on the calendar.
+export const SERVICE_OPTIONS = [
+  {
+    value: "hosting-consultation",
+    label: "Hosting Solutions Consultation",
+    description: "Discuss your mining hosting requirements and available capacity",
+    duration: "45-60 minutes",
+    durationMinutes: 60,
+  },
+  {
+    value: "site-acquisition",
+    label: "Site Acquisition & Power Deals",
+    description: "Explore opportunities for new mining site development",
+    duration: "60-90 minutes",
+    durationMinutes: 90,
+  },
+  {
+    value: "hardware-procurement",
+    label: "Hardware Procurement",
+    description: "Get pricing and availability for ASIC miners and equipment",
+    duration: "30-45 minutes",
+    durationMinutes: 45,
+  },
+  {
+    value: "operations-management",
+    label: "Mining Operations & Site Management",
+    description: "Discuss 24/7 operations, maintenance, and monitoring services",
+    duration: "45-60 minutes",
+    durationMinutes: 60,
+  },
+  {
+    value: "technical-consultation",
+    label: "Technical Consultation",
+    description: "Get expert advice on mining infrastructure and optimization",
+    duration: "30-45 minutes",
+    durationMinutes: 45,
+  },
+  {
+    value: "partnership-discussion",
+    label: "Partnership & Joint Venture Discussion",
+    description: "Explore strategic partnerships and investment opportunities",
+    duration: "60-90 minutes",
+    durationMinutes: 90,
+  }
+] as const;
+
+export type ServiceOption = typeof SERVICE_OPTIONS[number];
+
+// Used for appointments whose service type is no longer offered
+export const DEFAULT_SERVICE_DURATION_MINUTES = 60;
+
+export const MAX_SERVICE_DURATION_MINUTES = Math.max(...SERVICE_OPTIONS.map((service) => service.durationMinutes));
+
+export function getServiceOption(value: string | null | undefined): ServiceOption | undefined {
+  return SERVICE_OPTIONS.find((service) => service.value === value);
+}
+
+export function getServiceLabel(value: string | null | undefined): string {
+  return getServiceOption(value)?.label ?? value ?? "";
+}
+
+// "Service Interest" choices on the contact form; stored as contact_submissions.service
+export const CONTACT_SERVICE_OPTIONS = [
+  { value: "hosting", label: "Hosting Solutions" },
+  { value: "site-acquisition", label: "Site Acquisition & Power Deals" },
+  { value: "hardware", label: "Hardware Procurement" },
+  { value: "operations", label: "Mining Operations & Site Management" },
+  { value: "consultation", label: "General Consultation" },
+  { value: "other", label: "Other" },
+] as const;
+
+export function getContactServiceLabel(value: string | null | undefined): string {
+  return CONTACT_SERVICE_OPTIONS.find((service) => service.value === value)?.label ?? value ?? "";
+}
+
+export function getServiceDurationMinutes(value: string | null | undefined): number {
+  return getServiceOption(value)?.durationMinutes ?? DEFAULT_SERVICE_DURATION_MINUTES;
+}
@@ -0,0 +1,27 @@
+// Spam protection shared by the public forms and the server
+
+// Submissions scoring at or above this are treated as likely spam: no team alert is sent and
+// the dashboard can hide them
+export const SPAM_THRESHOLD = 50;
+
+// Hidden input real visitors never see; bots that fill every field give themselves away
+export const HONEYPOT_FIELD = "website";
+
+// Proof of work: the client must find a nonce so that sha256(`${challenge}:${nonce}`)
+// starts with `difficulty` zero bits before a form is accepted
+export interface FormChallenge {
+  challenge: string;
+  difficulty: number;
+}
+
+export function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of Array.from(hash)) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { addDays, getZonedParts, isCalendarDate, isValidTimeZone, zonedTimeToUtc } from "./timezones.js";
+
+describe("zonedTimeToUtc", () => {
+  it("converts business hours in Dubai, which has no daylight saving", () => {
+    expect(zonedTimeToUtc("2025-07-01", 10 * 60, "Asia/Dubai").toISOString()).toBe("2025-07-01T06:00:00.000Z");
+    expect(zonedTimeToUtc("2025-01-01", 0, "Asia/Dubai").toISOString()).toBe("2024-12-31T20:00:00.000Z");
+  });
+
+  it("uses the offset in force on each side of a DST change", () => {
+    // New York springs forward at 02:00 on 9 March 2025
+    expect(zonedTimeToUtc("2025-03-09", 60, "America/New_York").toISOString()).toBe("2025-03-09T06:00:00.000Z");
+    expect(zonedTimeToUtc("2025-03-09", 3 * 60, "America/New_York").toISOString()).toBe("2025-03-09T07:00:00.000Z");
+    // London falls back at 02:00 on 26 October 2025
+    expect(zonedTimeToUtc("2025-10-25", 12 * 60, "Europe/London").toISOString()).toBe("2025-10-25T11:00:00.000Z");
+    expect(zonedTimeToUtc("2025-10-26", 12 * 60, "Europe/London").toISOString()).toBe("2025-10-26T12:00:00.000Z");
+  });
+
+  it("round-trips through getZonedParts", () => {
+    const instant = zonedTimeToUtc("2025-06-02", 9 * 60 + 30, "Pacific/Auckland");
+    expect(getZonedParts(instant, "Pacific/Auckland")).toEqual({ date: "2025-06-02", minutes: 570, dayOfWeek: 1 });
+  });
+});
+
+describe("getZonedParts", () => {
+  it("gives the calendar day as seen in the zone", () => {
+    const instant = new Date("2025-06-01T21:30:00Z");
+    expect(getZonedParts(instant, "Asia/Dubai")).toEqual({ date: "2025-06-02", minutes: 90, dayOfWeek: 1 });
+    expect(getZonedParts(instant, "America/Los_Angeles")).toEqual({ date: "2025-06-01", minutes: 14 * 60 + 30, dayOfWeek: 0 });
+  });
+});
+
+describe("addDays", () => {
+  it("crosses month, year and leap-day boundaries", () => {
+    expect(addDays("2025-01-31", 1)).toBe("2025-02-01");
+    expect(addDays("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+  });
+});
+
+describe("isCalendarDate", () => {
+  it("accepts real days only", () => {
+    expect(isCalendarDate("2024-02-29")).toBe(true);
+    expect(isCalendarDate("2025-02-29")).toBe(false);
+    expect(isCalendarDate("2025-13-45")).toBe(false);
+    expect(isCalendarDate("2025-1-05")).toBe(false);
+    expect(isCalendarDate("")).toBe(false);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects the old labels", () => {
+    expect(isValidTimeZone("Europe/London")).toBe(true);
+    expect(isValidTimeZone("UTC+4 (UAE Time)")).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+// Timezone helpers built on Intl so the server and the browser agree without a tz library.
+
+// Working hours, slots and the "GST" column in the dashboard use this zone
+export const BUSINESS_TIMEZONE = "Asia/Dubai";
+
+export interface ZonedParts {
+  date: string; // YYYY-MM-DD
+  minutes: number; // minutes since local midnight
+  dayOfWeek: number; // 0 = Sunday
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartFormatter(timeZone: string) {
+  let formatter = partFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    partFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function rawParts(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    getPartFormatter(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const { year, month, day, hour, minute } = rawParts(instant, timeZone);
+  const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  return {
+    date,
+    minutes: hour * 60 + minute,
+    dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+// Offset of timeZone from UTC at the given instant, in milliseconds
+function offsetAt(instant: Date, timeZone: string) {
+  const { year, month, day, hour, minute, second } = rawParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The UTC instant of a wall-clock time (date + minutes after midnight) in timeZone
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Correct the guess twice so times next to a DST change land on the right offset
+  let instant = wallClock - offsetAt(new Date(wallClock), timeZone);
+  instant = wallClock - offsetAt(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// A YYYY-MM-DD string naming a day that exists; "2025-02-30" would roll over to March
+export function isCalendarDate(date: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && addDays(date, 0) === date;
+}
+
+export function formatInTimeZone(
+  instant: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" },
+): string {
+  // Rows from before timezones were validated may hold labels like "UTC+4 (UAE Time)"
+  const zone = isValidTimeZone(timeZone) ? timeZone : BUSINESS_TIMEZONE;
+  return new Intl.DateTimeFormat("en-US", { timeZone: zone, ...options }).format(new Date(instant));
+}
+
+// "Tue, Jul 1, 2025, 10:00 AM" style used in emails and the dashboard
+export function formatAppointmentTime(instant: Date | string, timeZone: string): string {
+  return formatInTimeZone(instant, timeZone, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+// Server and shared-module tests run in Node; vite.config.ts is for the client bundle and is not used here
+export default defineConfig({
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // Set before any module loads, so tokens signed while collecting tests use the same secret
+    env: {
+      SESSION_SECRET: "test-secret",
+      PUBLIC_BASE_URL: "https://71digital.example",
+      MAIL_TEAM_TO: "team@example.com",
+    },
+  },
+});